@@ -1 +1,7 @@
-var Ef=Object.create;var{getPrototypeOf:cf,defineProperty:o,getOwnPropertyNames:jf}=Object;var gf=Object.prototype.hasOwnProperty;var Qf=(f,k,A)=>{A=f!=null?Ef(cf(f)):{};let _=k||!f||!f.__esModule?o(A,"default",{value:f,enumerable:!0}):A;for(let R of jf(f))if(!gf.call(_,R))o(_,R,{get:()=>f[R],enumerable:!0});return _};var If=(f,k)=>{for(var A in k)o(f,A,{get:k[A],enumerable:!0,configurable:!0,set:(_)=>k[A]=()=>_})};var Sf=(f,k)=>()=>(f&&(k=f(f=0)),k);var $f=((f)=>typeof require<"u"?require:typeof Proxy<"u"?new Proxy(f,{get:(k,A)=>(typeof require<"u"?require:k)[A]}):f)(function(f){if(typeof require<"u")return require.apply(this,arguments);throw Error('Dynamic require of "'+f+'" is not supported')});var Bf={};If(Bf,{sep:()=>Of,resolve:()=>S,relative:()=>Zf,posix:()=>Nf,parse:()=>Uf,normalize:()=>r,join:()=>Yf,isAbsolute:()=>Wf,format:()=>Df,extname:()=>Gf,dirname:()=>Xf,delimiter:()=>Pf,default:()=>zf,basename:()=>Cf,_makeLong:()=>Vf});function M(f){if(typeof f!=="string")throw TypeError("Path must be a string. Received "+JSON.stringify(f))}function Jf(f,k){var A="",_=0,R=-1,K=0,F;for(var q=0;q<=f.length;++q){if(q<f.length)F=f.charCodeAt(q);else if(F===47)break;else F=47;if(F===47){if(R===q-1||K===1);else if(R!==q-1&&K===2){if(A.length<2||_!==2||A.charCodeAt(A.length-1)!==46||A.charCodeAt(A.length-2)!==46){if(A.length>2){var H=A.lastIndexOf("/");if(H!==A.length-1){if(H===-1)A="",_=0;else A=A.slice(0,H),_=A.length-1-A.lastIndexOf("/");R=q,K=0;continue}}else if(A.length===2||A.length===1){A="",_=0,R=q,K=0;continue}}if(k){if(A.length>0)A+="/..";else A="..";_=2}}else{if(A.length>0)A+="/"+f.slice(R+1,q);else A=f.slice(R+1,q);_=q-R-1}R=q,K=0}else if(F===46&&K!==-1)++K;else K=-1}return A}function bf(f,k){var A=k.dir||k.root,_=k.base||(k.name||"")+(k.ext||"");if(!A)return _;if(A===k.root)return A+_;return A+f+_}function S(){var f="",k=!1,A;for(var _=arguments.length-1;_>=-1&&!k;_--){var R;if(_>=0)R=arguments[_];else{if(A===void 0)A=process.cwd();R=A}if(M(R),R.length===0)continue;f=R+"/"+f,k=R.charCodeAt(0)===47}if(f=Jf(f,!k),k)if(f.length>0)return"/"+f;else return"/";else if(f.length>0)return f;else return"."}function r(f){if(M(f),f.length===0)return".";var k=f.charCodeAt(0)===47,A=f.charCodeAt(f.length-1)===47;if(f=Jf(f,!k),f.length===0&&!k)f=".";if(f.length>0&&A)f+="/";if(k)return"/"+f;return f}function Wf(f){return M(f),f.length>0&&f.charCodeAt(0)===47}function Yf(){if(arguments.length===0)return".";var f;for(var k=0;k<arguments.length;++k){var A=arguments[k];if(M(A),A.length>0)if(f===void 0)f=A;else f+="/"+A}if(f===void 0)return".";return r(f)}function Zf(f,k){if(M(f),M(k),f===k)return"";if(f=S(f),k=S(k),f===k)return"";var A=1;for(;A<f.length;++A)if(f.charCodeAt(A)!==47)break;var _=f.length,R=_-A,K=1;for(;K<k.length;++K)if(k.charCodeAt(K)!==47)break;var F=k.length,q=F-K,H=R<q?R:q,W=-1,$=0;for(;$<=H;++$){if($===H){if(q>H){if(k.charCodeAt(K+$)===47)return k.slice(K+$+1);else if($===0)return k.slice(K+$)}else if(R>H){if(f.charCodeAt(A+$)===47)W=$;else if($===0)W=0}break}var V=f.charCodeAt(A+$),J=k.charCodeAt(K+$);if(V!==J)break;else if(V===47)W=$}var Q="";for($=A+W+1;$<=_;++$)if($===_||f.charCodeAt($)===47)if(Q.length===0)Q+="..";else Q+="/..";if(Q.length>0)return Q+k.slice(K+W);else{if(K+=W,k.charCodeAt(K)===47)++K;return k.slice(K)}}function Vf(f){return f}function Xf(f){if(M(f),f.length===0)return".";var k=f.charCodeAt(0),A=k===47,_=-1,R=!0;for(var K=f.length-1;K>=1;--K)if(k=f.charCodeAt(K),k===47){if(!R){_=K;break}}else R=!1;if(_===-1)return A?"/":".";if(A&&_===1)return"//";return f.slice(0,_)}function Cf(f,k){if(k!==void 0&&typeof k!=="string")throw TypeError('"ext" argument must be a string');M(f);var A=0,_=-1,R=!0,K;if(k!==void 0&&k.length>0&&k.length<=f.length){if(k.length===f.length&&k===f)return"";var F=k.length-1,q=-1;for(K=f.length-1;K>=0;--K){var H=f.charCodeAt(K);if(H===47){if(!R){A=K+1;break}}else{if(q===-1)R=!1,q=K+1;if(F>=0)if(H===k.charCodeAt(F)){if(--F===-1)_=K}else F=-1,_=q}}if(A===_)_=q;else if(_===-1)_=f.length;return f.slice(A,_)}else{for(K=f.length-1;K>=0;--K)if(f.charCodeAt(K)===47){if(!R){A=K+1;break}}else if(_===-1)R=!1,_=K+1;if(_===-1)return"";return f.slice(A,_)}}function Gf(f){M(f);var k=-1,A=0,_=-1,R=!0,K=0;for(var F=f.length-1;F>=0;--F){var q=f.charCodeAt(F);if(q===47){if(!R){A=F+1;break}continue}if(_===-1)R=!1,_=F+1;if(q===46){if(k===-1)k=F;else if(K!==1)K=1}else if(k!==-1)K=-1}if(k===-1||_===-1||K===0||K===1&&k===_-1&&k===A+1)return"";return f.slice(k,_)}function Df(f){if(f===null||typeof f!=="object")throw TypeError('The "pathObject" argument must be of type Object. Received type '+typeof f);return bf("/",f)}function Uf(f){M(f);var k={root:"",dir:"",base:"",ext:"",name:""};if(f.length===0)return k;var A=f.charCodeAt(0),_=A===47,R;if(_)k.root="/",R=1;else R=0;var K=-1,F=0,q=-1,H=!0,W=f.length-1,$=0;for(;W>=R;--W){if(A=f.charCodeAt(W),A===47){if(!H){F=W+1;break}continue}if(q===-1)H=!1,q=W+1;if(A===46){if(K===-1)K=W;else if($!==1)$=1}else if(K!==-1)$=-1}if(K===-1||q===-1||$===0||$===1&&K===q-1&&K===F+1){if(q!==-1)if(F===0&&_)k.base=k.name=f.slice(1,q);else k.base=k.name=f.slice(F,q)}else{if(F===0&&_)k.name=f.slice(1,K),k.base=f.slice(1,q);else k.name=f.slice(F,K),k.base=f.slice(F,q);k.ext=f.slice(K,q)}if(F>0)k.dir=f.slice(0,F-1);else if(_)k.dir="/";return k}var Of="/",Pf=":",Nf,zf;var hf=Sf(()=>{Nf=((f)=>(f.posix=f,f))({resolve:S,normalize:r,isAbsolute:Wf,join:Yf,relative:Zf,_makeLong:Vf,dirname:Xf,basename:Cf,extname:Gf,format:Df,parse:Uf,sep:Of,delimiter:Pf,win32:null,posix:null}),zf=Nf});function x(f){return new Float32Array(f)}function yf(f){let k=[];for(let A=1;A+1<f.length;A++)k.push(f[0],f[A],f[A+1]);return k}function n(f,k){let A=parseInt(f,10);if(isNaN(A))throw Error(`Malformed OBJ index: '${f}'`);if(A>0)return A-1;return k+A}function lf(f){let k={x:1/0,y:1/0,z:1/0},A={x:-1/0,y:-1/0,z:-1/0};for(let _=0;_<f.length;_+=3){let R=f[_],K=f[_+1],F=f[_+2];if(R<k.x)k.x=R;if(K<k.y)k.y=K;if(F<k.z)k.z=F;if(R>A.x)A.x=R;if(K>A.y)A.y=K;if(F>A.z)A.z=F}return{min:k,max:A}}class s{parse(f,k){let A=[],_=[],R=[],K=[],F={name:"default",materialName:null,faceVertexStrs:[]};K.push(F);let q={};if(k)for(let[$,V]of Object.entries(k)){let J=this.parseMTL(V);Object.assign(q,J)}let H=f.split(/\r?\n/);for(let $ of H){let V=$.trim();if(!V||V.startsWith("#"))continue;let J=V.split(/\s+/);switch(J[0]){case"v":{let[C,Y,X]=J.slice(1,4).map(Number);if([C,Y,X].some((U)=>isNaN(U)))throw Error(`Malformed vertex position: ${J.join(" ")}`);A.push(C,Y,X);break}case"vt":{let[C,Y]=[parseFloat(J[1]),parseFloat(J[2]??"0")];if(isNaN(C)||isNaN(Y))throw Error(`Malformed texture coordinate: ${J.join(" ")}`);_.push(C,Y);break}case"vn":{let[C,Y,X]=J.slice(1,4).map(Number);if([C,Y,X].some((U)=>isNaN(U)))throw Error(`Malformed normal: ${J.join(" ")}`);R.push(C,Y,X);break}case"f":{let C=J.slice(1);if(C.length<3)throw Error(`Face with less than 3 vertices: ${J.join(" ")}`);F.faceVertexStrs.push(C);break}case"o":case"g":{F={name:J.slice(1).join(" ")||"unnamed",materialName:null,faceVertexStrs:[]},K.push(F);break}case"usemtl":{let C=J[1]??null;F.materialName=C;break}case"mtllib":break;case"s":break;default:break}}let W=[];for(let $ of K){let X=function(Z,D,G){let O=`${Z??""}_${D??""}_${G??""}`,P=V.get(O);if(P!==void 0)return P;P=J.length/3,V.set(O,P);let h=Z*3,[w,u,L]=[A[h],A[h+1],A[h+2]];if(J.push(w,u,L),D!==void 0&&!isNaN(D)){let B=D*2,[c,j]=[_[B]??0,_[B+1]??0];C.push(c,j)}else C.push(0,0);if(G!==void 0&&!isNaN(G)){let B=G*3,[c,j,d]=[R[B]??0,R[B+1]??0,R[B+2]??0];Q.push(c,j,d)}else Q.push(0,0,0);return P};if($.faceVertexStrs.length===0)continue;let V=new Map,J=[],Q=[],C=[],Y=[];for(let Z of $.faceVertexStrs){let D=[];for(let O of Z){let P=O.split("/"),h=n(P[0],A.length/3),w=P[1]?n(P[1],_.length/2):void 0,u=P[2]?n(P[2],R.length/3):void 0,L=X(h,w,u);D.push(L)}let G=yf(D);Y.push(...G)}let U=!0;for(let Z=0;Z<Q.length;Z++)if(Q[Z]!==0){U=!1;break}if(U){for(let Z=0;Z<Q.length;Z++)Q[Z]=0;for(let Z=0;Z<Y.length;Z+=3){let D=Y[Z]*3,G=Y[Z+1]*3,O=Y[Z+2]*3,[P,h,w]=[J[D],J[D+1],J[D+2]],[u,L,B]=[J[G],J[G+1],J[G+2]],[c,j,d]=[J[O],J[O+1],J[O+2]],[_f,Ff,Kf]=[u-P,L-h,B-w],[Rf,qf,Hf]=[c-P,j-h,d-w],i=Ff*Hf-Kf*qf,m=Kf*Rf-_f*Hf,p=_f*qf-Ff*Rf;Q[D]+=i,Q[D+1]+=m,Q[D+2]+=p,Q[G]+=i,Q[G+1]+=m,Q[G+2]+=p,Q[O]+=i,Q[O+1]+=m,Q[O+2]+=p}for(let Z=0;Z<Q.length;Z+=3){let[D,G,O]=[Q[Z],Q[Z+1],Q[Z+2]],P=Math.hypot(D,G,O)||1;Q[Z]=D/P,Q[Z+1]=G/P,Q[Z+2]=O/P}}let N={name:$.name,materialName:$.materialName??null,positions:x(J),normals:x(Q),boundingBox:lf(x(J)),uvs:C.length>0?new Float32Array(C):null,indices:new Uint32Array(Y)};W.push(N)}return{meshes:W,materials:q}}parseMTL(f){let k=f.split(/\r?\n/),A={},_=null;for(let R of k){let K=R.trim();if(!K||K.startsWith("#"))continue;let F=K.split(/\s+/);switch(F[0]){case"newmtl":{let H=F[1]??"unnamed";_={name:H},A[H]=_;break}case"Kd":{if(!_)break;let H=[parseFloat(F[1]),parseFloat(F[2]),parseFloat(F[3])];if(H.some((W)=>isNaN(W)))throw Error(`Malformed Kd: ${F.join(" ")}`);_.kd=H;break}case"Ks":{if(!_)break;let H=[parseFloat(F[1]),parseFloat(F[2]),parseFloat(F[3])];if(H.some((W)=>isNaN(W)))throw Error(`Malformed Ks: ${F.join(" ")}`);_.ks=H;break}case"Ns":{if(!_)break;let H=parseFloat(F[1]);if(isNaN(H))throw Error(`Malformed Ns: ${F.join(" ")}`);_.ns=H;break}case"map_Kd":{if(!_)break;_.mapKd=F.slice(1).join(" ");break}default:break}}return A}async loadFromText(f,k){let A={},_=[],R=f.split(/\r?\n/);for(let K of R){let F=K.trim();if(!F)continue;let q=F.split(/\s+/);if(q[0]==="mtllib"&&q[1])_.push(q[1])}if(_.length&&k?.mtlResolver)for(let K of _)try{let F=await k.mtlResolver(K);if(F)A[K]=F}catch(F){}else if(_.length&&k?.objPath){let K=await import("fs/promises"),F=await Promise.resolve().then(() => (hf(),Bf)),q=F.dirname(k.objPath);for(let H of _)try{let W=F.join(q,H),$=await K.readFile(W,"utf8");A[H]=$}catch(W){}}return this.parse(f,Object.keys(A).length?A:void 0)}async loadFromUrl(f,k){let A=await fetch(f);if(!A.ok)throw Error(`Failed to fetch OBJ: ${A.status}`);let _=await A.text();return this.loadFromText(_,k)}async loadFromFile(f,k){let _=await(await import("fs/promises")).readFile(f,"utf8");return this.loadFromText(_,{...k,objPath:f})}}function t(f,k){let A=Array(16);for(let _=0;_<4;_++)for(let R=0;R<4;R++){let K=0;for(let F=0;F<4;F++)K+=f[_*4+F]*k[F*4+R];A[_*4+R]=K}return A}function g(f,k){return{x:f[0]*k.x+f[1]*k.y+f[2]*k.z+f[3]*k.w,y:f[4]*k.x+f[5]*k.y+f[6]*k.z+f[7]*k.w,z:f[8]*k.x+f[9]*k.y+f[10]*k.z+f[11]*k.w,w:f[12]*k.x+f[13]*k.y+f[14]*k.z+f[15]*k.w}}function Mf(f,k,A,_){let R=1/Math.tan(f/2),K=1/(A-_);return[R/k,0,0,0,0,R,0,0,0,0,(_+A)*K,2*_*A*K,0,0,-1,0]}function Tf(f,k,A){let _=f.x-k.x,R=f.y-k.y,K=f.z-k.z,F=Math.hypot(_,R,K);if(F===0)F=1;let q=_/F,H=R/F,W=K/F,$=A.y*W-A.z*H,V=A.z*q-A.x*W,J=A.x*H-A.y*q,Q=Math.hypot($,V,J);if(Q===0)Q=1;let C=$/Q,Y=V/Q,X=J/Q,U=H*X-W*Y,N=W*C-q*X,Z=q*Y-H*C;return[C,Y,X,-(C*f.x+Y*f.y+X*f.z),U,N,Z,-(U*f.x+N*f.y+Z*f.z),q,H,W,-(q*f.x+H*f.y+W*f.z),0,0,0,1]}function wf(f){let k=Math.cos(f),A=Math.sin(f);return[k,0,A,0,0,1,0,0,-A,0,k,0,0,0,0,1]}function a(f,k,A,_){let R={x:f.x,y:f.y,z:f.z,w:1},K=g(k,R);if(K.w===0)return null;let F={x:K.x/K.w,y:K.y/K.w,z:K.z/K.w},q=(F.x*0.5+0.5)*A,H=(1-(F.y*0.5+0.5))*_,W=F.z*0.5+0.5;return{screenX:q,screenY:H,screenZ:W,ndc:F,clipW:K.w}}function uf(f,k,A,_,R,K){let F=a(f,_,R,K),q=a(k,_,R,K),H=a(A,_,R,K);if(!F||!q||!H)return null;return[{x:F.screenX,y:F.screenY,z:F.screenZ,recipW:1/F.clipW},{x:q.screenX,y:q.screenY,z:q.screenZ,recipW:1/q.clipW},{x:H.screenX,y:H.screenY,z:H.screenZ,recipW:1/H.clipW}]}function Lf(f,k,A,_,R){let K=(F)=>F.x<0||F.x>=_||F.y<0||F.y>=R;if(K(f)&&K(k)&&K(A))return!0;return!1}function z(f,k,A,_,R){let K=_&&_.length>k+2?{x:_[k],y:_[k+1],z:_[k+2]}:void 0,F=R&&R.length>A+1?[R[A],R[A+1]]:void 0;return{x:f.x,y:f.y,z:f.z,recipW:f.recipW,color:void 0,normal:K,uv:F}}var E=(f,k)=>({x:f.x-k.x,y:f.y-k.y,z:f.z-k.z}),y=(f,k)=>({x:f.y*k.z-f.z*k.y,y:f.z*k.x-f.x*k.z,z:f.x*k.y-f.y*k.x}),ef=(f)=>Math.hypot(f.x,f.y,f.z)||1,T=(f)=>{let k=ef(f);return{x:f.x/k,y:f.y/k,z:f.z/k}},b=(f,k)=>f.x*k.x+f.y*k.y+f.z*k.z,v=(f,k)=>({x:f.x+k.x,y:f.y+k.y,z:f.z+k.z}),I=(f,k)=>({x:f.x*k,y:f.y*k,z:f.z*k});function l(f,k,A,_){let K=0,F=0;if(_){let W=T(_.direction),$={x:-W.x,y:-W.y,z:-W.z},V=T(k);K=Math.max(0,b(V,$))*_.intensity;let J=T({x:A.x+$.x,y:A.y+$.y,z:A.z+$.z}),Q=Math.max(0,b(V,J));F=Math.pow(Q,16)*_.intensity}let q={x:200,y:120,z:60},H=0.85;return{x:Math.max(0,Math.min(255,q.x*(0.15+H*K+F))),y:Math.max(0,Math.min(255,q.y*(0.15+H*K+F))),z:Math.max(0,Math.min(255,q.z*(0.15+H*K+F)))}}function e(f,k=1){return{x:Math.round(f.x/k)*k,y:Math.round(f.y/k)*k,z:f.z,recipW:f.recipW,color:void 0,normal:f.normal,uv:f.uv}}class ff{position;up;speed;yaw;pitch;constructor(f,k,A=1,_=0,R=0){this.position=f,this.up=k,this.speed=A,this.yaw=_,this.pitch=R,this.initKeyboardControls()}initKeyboardControls(){window.addEventListener("keydown",(f)=>{switch(f.key){case"w":this.moveForward();break;case"s":this.moveBackward();break;case"a":this.moveLeft();break;case"d":this.moveRight();break;case"ArrowRight":this.rotateY(0.1);break;case"ArrowLeft":this.rotateY(-0.1);break}})}getForwardVector(){let f=Math.cos(this.pitch);return{x:Math.cos(this.yaw)*f,y:Math.sin(this.pitch),z:Math.sin(this.yaw)*f}}getRightVector(){let f=this.getForwardVector();return T(y(f,this.up))}moveForward(){let f=this.getForwardVector();this.position=v(this.position,I(f,this.speed))}moveBackward(){let f=this.getForwardVector();this.position=E(this.position,I(f,this.speed))}moveLeft(){let f=this.getRightVector();this.position=E(this.position,I(f,this.speed))}moveRight(){let f=this.getRightVector();this.position=v(this.position,I(f,this.speed))}rotateY(f){this.yaw+=f}}class kf{direction;color;intensity;constructor(f,k,A){this.direction=f,this.color=k,this.intensity=A}}class Af{canvas;ctx;width;height;running=!1;timescale=0.001;littleEndian;imageData;buffer;buf8;data32;zBuffer;objModels=[];mainCamera=null;mainDirectionalLight=null;lastFpsUpdate=0;frameCount=0;fps=0;options;projMatrix;rasterWorker;constructor(f,k={}){this.options=k,this.canvas=document.getElementById(f),this.ctx=this.canvas.getContext("2d"),this.width=this.canvas.width,this.height=this.canvas.height,this.imageData=this.ctx?.getImageData(0,0,this.width,this.height);let A=this.imageData.data.length;this.buffer=new ArrayBuffer(A),this.buf8=new Uint8ClampedArray(this.buffer),this.data32=new Uint32Array(this.buffer);let _=new Uint32Array([168496141]),R=new Uint8Array(_.buffer);this.littleEndian=R[0]===13,this.zBuffer=new Float32Array(this.width*this.height),this.clearZ();let K=this.width/this.height;this.projMatrix=Mf(Math.PI/3,K,0.1,100),this.rasterWorker=new Worker("./src/RasterWorker.js"),this.rasterWorker.onmessage=(F)=>{let{buf8:q}=F.data;this.buf8.set(q),this.present()}}drawLine3DEFLA(f,k,A,_,R,K,F,q,H,W=255){let $=Math.abs(_-f),V=Math.abs(R-k),J=Math.abs(K-A),Q=f<_?1:-1,C=k<R?1:-1,Y=A<K?1:-1,X=Math.max($,V,J),U=0,N=0;if(X===$)U=V,N=J;else if(X===V)U=$,N=J;else U=$,N=V;let Z=U===0?0:(U<<16)/X,D=N===0?0:(N<<16)/X,G=0,O=0;for(let P=0;P<=X;P++){if(this.depthTest(f,k,A))this.setPixel(f,k,F,q,H,W);if(X===$)f+=Q,G+=Z,O+=D,k+=(G>>16)*C,A+=(O>>16)*Y,G&=65535,O&=65535;else if(X===V)k+=C,G+=Z,O+=D,f+=(G>>16)*Q,A+=(O>>16)*Y,G&=65535,O&=65535;else A+=Y,G+=Z,O+=D,f+=(G>>16)*Q,k+=(O>>16)*C,G&=65535,O&=65535}}drawTriangleScanline(f,k,A,_={x:200,y:120,z:60}){let[R,K,F]=[f,k,A].sort((Y,X)=>Y.y-X.y),q=Math.max(0,Math.ceil(Math.min(R.y,K.y,F.y))),H=Math.min(this.height-1,Math.floor(Math.max(R.y,K.y,F.y))),W=J(R,F),$=J(R,K),V=J(K,F);for(let Y=q;Y<=H;Y++){let X=Q(W,Y),U=Y<K.y?Q($,Y):Q(V,Y);if(X>U)[X,U]=[U,X];let N=Math.max(0,Math.ceil(X)),Z=Math.min(this.width-1,Math.floor(U));for(let D=N;D<=Z;D++){let G=U===X?0:(D-X)/(U-X),O=C(W,$,V,D,Y,G);if(this.depthTest(D,Y,O))this.setPixel(D,Y,_.x,_.y,_.z)}}function J(Y,X){let U=X.y-Y.y,N=X.x-Y.x,Z=X.z-Y.z;return{vStart:Y,vEnd:X,dx:N,dy:U,dz:Z}}function Q(Y,X){let{vStart:U,vEnd:N,dx:Z,dy:D}=Y;if(D===0)return U.x;return U.x+Z*((X-U.y)/D)}function C(Y,X,U,N,Z,D){return Y.vStart.z+(Y.vEnd.z-Y.vStart.z)*D}}start(){if(this.running)return;this.running=!0,this.lastFpsUpdate=performance.now(),this.frameCount=0;let f=(k)=>{this.clear(20,20,30),this.clearZ(),this.renderPixel(k*this.timescale),this.present(),this.frameCount++;let A=performance.now();if(A-this.lastFpsUpdate>=1000)this.fps=this.frameCount,this.frameCount=0,this.lastFpsUpdate=A;if(this.ctx.fillStyle="white",this.ctx.font="16px monospace",this.ctx.fillText(`FPS: ${this.fps}`,10,20),this.running)requestAnimationFrame(f)};requestAnimationFrame(f)}stop(){this.running=!1}benchmark(f=300){this.running=!1;let k=performance.now();for(let R=0;R<f;R++)this.clear(20,20,30),this.clearZ(),this.renderPixel(R*this.timescale),this.present();let A=performance.now(),_=f/((A-k)/1000);this.ctx.fillStyle="white",this.ctx.font="16px monospace",this.ctx.fillText(`FPS: ${_.toFixed(2)}`,10,20)}renderPixel(f){let k=wf(f),A=this.mainCamera.getForwardVector(),_={x:this.mainCamera.position.x+A.x,y:this.mainCamera.position.y+A.y,z:this.mainCamera.position.z+A.z},R=Tf(this.mainCamera.position,_,this.mainCamera.up),K=t(R,k),F=t(this.projMatrix,K);for(let q of this.objModels)for(let H of q.meshes)this.renderMesh(H,F,k);if(this.imageData)this.imageData.data.set(this.buf8),this.ctx.putImageData(this.imageData,0,0)}renderMesh(f,k,A){let{positions:_,normals:R,uvs:K,indices:F}=f,q=[];for(let H=0;H<F.length;H+=3){let W=F[H]*3,$=F[H+1]*3,V=F[H+2]*3,J={x:_[W],y:_[W+1],z:_[W+2]},Q={x:_[$],y:_[$+1],z:_[$+2]},C={x:_[V],y:_[V+1],z:_[V+2]};q.push({v0:J,v1:Q,v2:C,i:H})}for(let H of q)this.renderTriangle(F,H.i,_,R,K,k,A)}renderTriangle(f,k,A,_,R,K,F){let q=f[k]*3,H=f[k+1]*3,W=f[k+2]*3,$={x:A[q],y:A[q+1],z:A[q+2]},V={x:A[H],y:A[H+1],z:A[H+2]},J={x:A[W],y:A[W+1],z:A[W+2]},Q=uf($,V,J,K,this.width,this.height);if(!Q)return;if(this.options.snapVertices)Q[0]=e(Q[0],5),Q[1]=e(Q[1],5),Q[2]=e(Q[2],5);if(Lf(Q[0],Q[1],Q[2],this.width,this.height))return;let C=Q[0].x,Y=Q[0].y,X=Q[1].x,U=Q[1].y,N=Q[2].x,Z=Q[2].y;if((X-C)*(Z-Y)-(U-Y)*(N-C)>0)return;let G=g(F,{x:$.x,y:$.y,z:$.z,w:1}),O=g(F,{x:V.x,y:V.y,z:V.z,w:1}),P=g(F,{x:J.x,y:J.y,z:J.z,w:1}),h=E({x:O.x,y:O.y,z:O.z},{x:G.x,y:G.y,z:G.z}),w=E({x:P.x,y:P.y,z:P.z},{x:G.x,y:G.y,z:G.z}),u=z(Q[0],q,f[k]*2,_,R),L=z(Q[1],H,f[k+1]*2,_,R),B=z(Q[2],W,f[k+2]*2,_,R);if(this.options.shading==="flat")this.renderFlatShading(u,L,B,h,w);else if(this.options.shading==="blinn-phong")this.renderBlinnPhongShading(u,L,B,$,V,J,_);else if(this.options.shading==="wireframe")return}renderFlatShading(f,k,A,_,R){let F=this.mainDirectionalLight.direction,q=T(F),H={x:200,y:120,z:60},W=0.85,$=T(y(_,R)),V=Math.max(0,b($,{x:-q.x,y:-q.y,z:-q.z}))*this.mainDirectionalLight.intensity,J={x:Math.max(0,Math.min(255,H.x*(0.15+0.85*V))),y:Math.max(0,Math.min(255,H.y*(0.15+0.85*V))),z:Math.max(0,Math.min(255,H.z*(0.15+0.85*V)))};this.drawTriangleScanline(f,k,A,J)}renderBlinnPhongShading(f,k,A,_,R,K,F){let q=T({x:-this.mainCamera.position.x,y:-this.mainCamera.position.y,z:-this.mainCamera.position.z}),H=[l(_,{x:F[0],y:F[1],z:F[2]},q,this.mainDirectionalLight),l(R,{x:F[3],y:F[4],z:F[5]},q,this.mainDirectionalLight),l(K,{x:F[6],y:F[7],z:F[8]},q,this.mainDirectionalLight)];f.color=[H[0].x,H[0].y,H[0].z],k.color=[H[1].x,H[1].y,H[1].z],A.color=[H[2].x,H[2].y,H[2].z],this.drawTriangleScanline(f,k,A)}clearZ(){this.zBuffer.fill(Number.POSITIVE_INFINITY)}clear(f=0,k=0,A=0,_=255){let R=this.packRGBA(f,k,A,_);this.data32.fill(R)}present(){if(!this.imageData)return;this.imageData.data.set(this.buf8),this.ctx.putImageData(this.imageData,0,0)}packRGBA(f,k,A,_=255){if(this.littleEndian)return _<<24|A<<16|k<<8|f;else return f<<24|k<<16|A<<8|_}setPixel(f,k,A,_,R,K=255){if(f<0||f>=this.width||k<0||k>=this.height)return;let F=k*this.width+f;this.data32[F]=this.packRGBA(A|0,_|0,R|0,K|0)}depthTest(f,k,A){let _=k*this.width+f;if(A>=this.zBuffer[_])return!1;return this.zBuffer[_]=A,!0}setCamera(f){this.mainCamera=f}setDirectionalLight(f){this.mainDirectionalLight=f}addModel(f){this.objModels.push(f)}}var df={shading:"flat",snapVertices:!1};async function mf(){let f=new Af("canvas",df),A=await new s().loadFromUrl("src/Examples/teddyBear.obj"),_=new ff({x:-50,y:0,z:0},{x:0,y:1,z:0},1);f.setCamera(_);let R=new kf({x:-1,y:-1,z:-1},{x:1,y:1,z:1},0.6);f.setDirectionalLight(R),f.addModel(A),f.start()}mf();
+var Ei=(e,t,r)=>()=>{if(e)try{t=e(e=0)}catch(n){r=[n]}if(r)throw r[0];return t};function ot(e){if(typeof e!=="string")throw TypeError("Path must be a string. Received "+JSON.stringify(e))}function jn(e,t){var r="",n=0,i=-1,a=0,s;for(var o=0;o<=e.length;++o){if(o<e.length)s=e.charCodeAt(o);else if(s===47)break;else s=47;if(s===47){if(i===o-1||a===1);else if(i!==o-1&&a===2){if(r.length<2||n!==2||r.charCodeAt(r.length-1)!==46||r.charCodeAt(r.length-2)!==46){if(r.length>2){var l=r.lastIndexOf("/");if(l!==r.length-1){if(l===-1)r="",n=0;else r=r.slice(0,l),n=r.length-1-r.lastIndexOf("/");i=o,a=0;continue}}else if(r.length===2||r.length===1){r="",n=0,i=o,a=0;continue}}if(t){if(r.length>0)r+="/..";else r="..";n=2}}else{if(r.length>0)r+="/"+e.slice(i+1,o);else r=e.slice(i+1,o);n=o-i-1}i=o,a=0}else if(s===46&&a!==-1)++a;else a=-1}return r}function Di(e,t){var r=t.dir||t.root,n=t.base||(t.name||"")+(t.ext||"");if(!r)return n;if(r===t.root)return r+n;return r+e+n}function Ir(){var e="",t=!1,r;for(var n=arguments.length-1;n>=-1&&!t;n--){var i;if(n>=0)i=arguments[n];else{if(r===void 0)r=process.cwd();i=r}if(ot(i),i.length===0)continue;e=i+"/"+e,t=i.charCodeAt(0)===47}if(e=jn(e,!t),t)if(e.length>0)return"/"+e;else return"/";else if(e.length>0)return e;else return"."}function Hn(e){if(ot(e),e.length===0)return".";var t=e.charCodeAt(0)===47,r=e.charCodeAt(e.length-1)===47;if(e=jn(e,!t),e.length===0&&!t)e=".";if(e.length>0&&r)e+="/";if(t)return"/"+e;return e}function ki(e){return ot(e),e.length>0&&e.charCodeAt(0)===47}function Nr(){if(arguments.length===0)return".";var e;for(var t=0;t<arguments.length;++t){var r=arguments[t];if(ot(r),r.length>0)if(e===void 0)e=r;else e+="/"+r}if(e===void 0)return".";return Hn(e)}function Ui(e,t){if(ot(e),ot(t),e===t)return"";if(e=Ir(e),t=Ir(t),e===t)return"";var r=1;for(;r<e.length;++r)if(e.charCodeAt(r)!==47)break;var n=e.length,i=n-r,a=1;for(;a<t.length;++a)if(t.charCodeAt(a)!==47)break;var s=t.length,o=s-a,l=i<o?i:o,c=-1,h=0;for(;h<=l;++h){if(h===l){if(o>l){if(t.charCodeAt(a+h)===47)return t.slice(a+h+1);else if(h===0)return t.slice(a+h)}else if(i>l){if(e.charCodeAt(r+h)===47)c=h;else if(h===0)c=0}break}var u=e.charCodeAt(r+h),m=t.charCodeAt(a+h);if(u!==m)break;else if(u===47)c=h}var p="";for(h=r+c+1;h<=n;++h)if(h===n||e.charCodeAt(h)===47)if(p.length===0)p+="..";else p+="/..";if(p.length>0)return p+t.slice(a+c);else{if(a+=c,t.charCodeAt(a)===47)++a;return t.slice(a)}}function Bi(e){return e}function Or(e){if(ot(e),e.length===0)return".";var t=e.charCodeAt(0),r=t===47,n=-1,i=!0;for(var a=e.length-1;a>=1;--a)if(t=e.charCodeAt(a),t===47){if(!i){n=a;break}}else i=!1;if(n===-1)return r?"/":".";if(r&&n===1)return"//";return e.slice(0,n)}function _i(e,t){if(t!==void 0&&typeof t!=="string")throw TypeError('"ext" argument must be a string');ot(e);var r=0,n=-1,i=!0,a;if(t!==void 0&&t.length>0&&t.length<=e.length){if(t.length===e.length&&t===e)return"";var s=t.length-1,o=-1;for(a=e.length-1;a>=0;--a){var l=e.charCodeAt(a);if(l===47){if(!i){r=a+1;break}}else{if(o===-1)i=!1,o=a+1;if(s>=0)if(l===t.charCodeAt(s)){if(--s===-1)n=a}else s=-1,n=o}}if(r===n)n=o;else if(n===-1)n=e.length;return e.slice(r,n)}else{for(a=e.length-1;a>=0;--a)if(e.charCodeAt(a)===47){if(!i){r=a+1;break}}else if(n===-1)i=!1,n=a+1;if(n===-1)return"";return e.slice(r,n)}}function Wi(e){ot(e);var t=-1,r=0,n=-1,i=!0,a=0;for(var s=e.length-1;s>=0;--s){var o=e.charCodeAt(s);if(o===47){if(!i){r=s+1;break}continue}if(n===-1)i=!1,n=s+1;if(o===46){if(t===-1)t=s;else if(a!==1)a=1}else if(t!==-1)a=-1}if(t===-1||n===-1||a===0||a===1&&t===n-1&&t===r+1)return"";return e.slice(t,n)}function ji(e){if(e===null||typeof e!=="object")throw TypeError('The "pathObject" argument must be of type Object. Received type '+typeof e);return Di("/",e)}function Hi(e){ot(e);var t={root:"",dir:"",base:"",ext:"",name:""};if(e.length===0)return t;var r=e.charCodeAt(0),n=r===47,i;if(n)t.root="/",i=1;else i=0;var a=-1,s=0,o=-1,l=!0,c=e.length-1,h=0;for(;c>=i;--c){if(r=e.charCodeAt(c),r===47){if(!l){s=c+1;break}continue}if(o===-1)l=!1,o=c+1;if(r===46){if(a===-1)a=c;else if(h!==1)h=1}else if(a!==-1)h=-1}if(a===-1||o===-1||h===0||h===1&&a===o-1&&a===s+1){if(o!==-1)if(s===0&&n)t.base=t.name=e.slice(1,o);else t.base=t.name=e.slice(s,o)}else{if(s===0&&n)t.name=e.slice(1,a),t.base=e.slice(1,o);else t.name=e.slice(s,a),t.base=e.slice(s,o);t.ext=e.slice(a,o)}if(s>0)t.dir=e.slice(0,s-1);else if(n)t.dir="/";return t}var Gi="/",Ki=":",Fa;var Dr=Ei(()=>{Fa=((e)=>(e.posix=e,e))({resolve:Ir,normalize:Hn,isAbsolute:ki,join:Nr,relative:Ui,_makeLong:Bi,dirname:Or,basename:_i,extname:Wi,format:ji,parse:Hi,sep:Gi,delimiter:Ki,win32:null,posix:null})});function Vn(e){let t={x:1/0,y:1/0,z:1/0},r={x:-1/0,y:-1/0,z:-1/0};for(let n=0;n<e.length;n+=3){let i=e[n],a=e[n+1],s=e[n+2];if(i<t.x)t.x=i;if(a<t.y)t.y=a;if(s<t.z)t.z=s;if(i>r.x)r.x=i;if(a>r.y)r.y=a;if(s>r.z)r.z=s}return{min:t,max:r}}function Cn(e,t,r={}){let n=Math.floor(t.length/3),{groups:i,weighting:a="area"}=r,s=new Float64Array(n*3),o=new Float64Array(n*3),l=new Map;for(let p=0;p<n;p++){let d=t[p*3]*3,y=t[p*3+1]*3,b=t[p*3+2]*3,w=e[y]-e[d],g=e[y+1]-e[d+1],M=e[y+2]-e[d+2],x=e[b]-e[d],v=e[b+1]-e[d+1],A=e[b+2]-e[d+2],S=g*A-M*v,z=M*x-w*A,L=w*v-g*x,H=Math.hypot(S,z,L)||1;s[p*3]=S,s[p*3+1]=z,s[p*3+2]=L,o[p*3]=S/H,o[p*3+1]=z/H,o[p*3+2]=L/H;for(let X=0;X<3;X++){let ce=l.get(t[p*3+X]);if(ce)ce.push(p);else l.set(t[p*3+X],[p])}}let c=(p,d)=>{let y=t[p*3]===d?0:t[p*3+1]===d?1:2,b=t[p*3+y]*3,w=t[p*3+(y+1)%3]*3,g=t[p*3+(y+2)%3]*3,M=e[w]-e[b],x=e[w+1]-e[b+1],v=e[w+2]-e[b+2],A=e[g]-e[b],S=e[g+1]-e[b+1],z=e[g+2]-e[b+2],L=Math.hypot(M,x,v)*Math.hypot(A,S,z);return L>0?Math.acos(Math.min(1,Math.max(-1,(M*A+x*S+v*z)/L))):0},h=r.creaseAngle??Math.PI,u=Math.cos(h),m=new Float32Array(n*9);for(let p=0;p<n;p++){let d=i?.[p]??1;for(let y=0;y<3;y++){let b=t[p*3+y],w=0,g=0,M=0;for(let A of d===0?[p]:l.get(b)){if(A!==p){if((i?.[A]??1)!==d)continue;let S=o[p*3]*o[A*3]+o[p*3+1]*o[A*3+1]+o[p*3+2]*o[A*3+2];if(h<Math.PI&&S<u)continue}if(a==="angle"){let S=c(A,b);w+=o[A*3]*S,g+=o[A*3+1]*S,M+=o[A*3+2]*S}else w+=s[A*3],g+=s[A*3+1],M+=s[A*3+2]}let x=Math.hypot(w,g,M)||1,v=(p*3+y)*3;m[v]=w/x,m[v+1]=g/x,m[v+2]=M/x}}return m}var tr=[3,4,5,6,7,8,9,10,11,13,15,17,19,23,27,31,35,43,51,59,67,83,99,115,131,163,195,227,258],Tr=[0,0,0,0,0,0,0,0,1,1,1,1,2,2,2,2,3,3,3,3,4,4,4,4,5,5,5,5,0],zr=[1,2,3,4,5,7,9,13,17,25,33,49,65,97,129,193,257,385,513,769,1025,1537,2049,3073,4097,6145,8193,12289,16385,24577],Fr=[0,0,0,0,1,1,2,2,3,3,4,4,5,5,6,6,7,7,8,8,9,9,10,10,11,11,12,12,13,13],Ri=[16,17,18,0,8,7,9,6,10,5,11,4,12,3,13,2,14,1,15];function In(e){let t=1,r=0;for(let n=0;n<e.length;){let i=Math.min(n+5552,e.length);for(;n<i;n++)t+=e[n],r+=t;t%=65521,r%=65521}return(r<<16|t)>>>0}class Nn{out;pos=0;bitBuf=0;bitCount=0;constructor(e){this.out=new Uint8Array(Math.max(64,e))}writeBits(e,t){this.bitBuf|=e<<this.bitCount,this.bitCount+=t;while(this.bitCount>=8)this.pushByte(this.bitBuf&255),this.bitBuf>>>=8,this.bitCount-=8}writeCode(e,t){let r=0;for(let n=0;n<t;n++)r=r<<1|e>>n&1;this.writeBits(r,t)}pushByte(e){if(this.pos>=this.out.length){let t=new Uint8Array(this.out.length*2);t.set(this.out),this.out=t}this.out[this.pos++]=e}finish(){if(this.bitCount>0)this.pushByte(this.bitBuf&255);return this.bitBuf=0,this.bitCount=0,this.out.subarray(0,this.pos)}}function Lr(e,t){if(t<144)e.writeCode(48+t,8);else if(t<256)e.writeCode(400+t-144,9);else if(t<280)e.writeCode(t-256,7);else e.writeCode(192+t-280,8)}function Pn(e,t){let r=e.length-1;while(e[r]>t)r--;return r}function On(e){let t=new Nn((e.length>>1)+16);t.pushByte(120),t.pushByte(1),t.writeBits(1,1),t.writeBits(1,2);let r=32768,n=new Int32Array(r).fill(-1),i=new Int32Array(32768).fill(-1),a=(c)=>(e[c]<<10^e[c+1]<<5^e[c+2])&r-1,s=(c)=>{if(c+3>e.length)return;let h=a(c);i[c&32767]=n[h],n[h]=c},o=0;while(o<e.length){let c=0,h=0;if(o+3<=e.length){let u=n[a(o)],m=Math.min(258,e.length-o);for(let p=0;u>=0&&p<64;p++){let d=o-u;if(d>32767)break;let y=0;while(y<m&&e[u+y]===e[o+y])y++;if(y>c){if(c=y,h=d,y===m)break}let b=i[u&32767];if(b>=u)break;u=b}}if(c>=3){let u=Pn(tr,c);if(Lr(t,257+u),Tr[u])t.writeBits(c-tr[u],Tr[u]);let m=Pn(zr,h);if(t.writeCode(m,5),Fr[m])t.writeBits(h-zr[m],Fr[m]);for(let p=0;p<c;p++)s(o+p);o+=c}else Lr(t,e[o]),s(o),o++}Lr(t,256),t.finish();let l=In(e);return t.pushByte(l>>>24&255),t.pushByte(l>>>16&255),t.pushByte(l>>>8&255),t.pushByte(l&255),t.finish().slice()}function _t(e){let t=new Uint16Array(16);for(let i=0;i<e.length;i++)t[e[i]]++;t[0]=0;let r=new Uint16Array(16);for(let i=1;i<16;i++)r[i]=r[i-1]+t[i-1];let n=new Uint16Array(e.length);for(let i=0;i<e.length;i++)if(e[i])n[r[e[i]]++]=i;return{counts:t,symbols:n}}var Vi=_t(Array.from({length:288},(e,t)=>t<144?8:t<256?9:t<280?7:8)),Ci=_t(Array(30).fill(5));class Dn{data;pos=0;bitBuf=0;bitCount=0;constructor(e){this.data=e}bits(e){while(this.bitCount<e){if(this.pos>=this.data.length)throw Error("Unexpected end of deflate stream");this.bitBuf|=this.data[this.pos++]<<this.bitCount,this.bitCount+=8}let t=this.bitBuf&(1<<e)-1;return this.bitBuf>>>=e,this.bitCount-=e,t}alignToByte(){this.bitBuf=0,this.bitCount=0}decode(e){let t=0,r=0,n=0;for(let i=1;i<16;i++){t|=this.bits(1);let a=e.counts[i];if(t-a<r)return e.symbols[n+(t-r)];n+=a,r=r+a<<1,t<<=1}throw Error("Invalid Huffman code in deflate stream")}}function kn(e){if(e.length<6)throw Error("zlib stream too short");let t=e[0],r=e[1];if((t&15)!==8||(t<<8|r)%31!==0)throw Error("Invalid zlib header");if(r&32)throw Error("zlib preset dictionaries are not supported");let n=new Dn(e.subarray(2)),i=new Uint8Array(Math.max(1024,e.length*4)),a=0,s=(h)=>{if(a+h<=i.length)return;let u=i.length*2;while(u<a+h)u*=2;let m=new Uint8Array(u);m.set(i.subarray(0,a)),i=m},o=0;while(!o){o=n.bits(1);let h=n.bits(2);if(h===0){n.alignToByte();let p=n.data,d=p[n.pos]|p[n.pos+1]<<8;n.pos+=4,s(d),i.set(p.subarray(n.pos,n.pos+d),a),a+=d,n.pos+=d;continue}let u,m;if(h===1)u=Vi,m=Ci;else if(h===2){let p=n.bits(5)+257,d=n.bits(5)+1,y=n.bits(4)+4,b=new Uint8Array(19);for(let M=0;M<y;M++)b[Ri[M]]=n.bits(3);let w=_t(b),g=new Uint8Array(p+d);for(let M=0;M<p+d;){let x=n.decode(w);if(x<16)g[M++]=x;else{let v=0,A=0;if(x===16){if(M===0)throw Error("Invalid code length repeat");A=g[M-1],v=3+n.bits(2)}else if(x===17)v=3+n.bits(3);else v=11+n.bits(7);while(v-- >0)g[M++]=A}}u=_t(g.subarray(0,p)),m=_t(g.subarray(p))}else throw Error("Invalid deflate block type");for(;;){let p=n.decode(u);if(p<256)s(1),i[a++]=p;else if(p===256)break;else{let d=p-257;if(d>=tr.length)throw Error("Invalid deflate length code");let y=tr[d]+n.bits(Tr[d]),b=n.decode(m),w=zr[b]+n.bits(Fr[b]);if(w>a)throw Error("Invalid deflate distance");s(y);for(let g=0;g<y;g++,a++)i[a]=i[a-w]}}}let l=i.slice(0,a),c=2+n.pos;if(c+4<=e.length){if((e[c]<<24|e[c+1]<<16|e[c+2]<<8|e[c+3])>>>0!==In(l))throw Error("zlib checksum mismatch")}return l}var Nt=[137,80,78,71,13,10,26,10],Pi=(()=>{let e=new Uint32Array(256);for(let t=0;t<256;t++){let r=t;for(let n=0;n<8;n++)r=r&1?3988292384^r>>>1:r>>>1;e[t]=r>>>0}return e})();function Un(e,t=0,r=e.length){let n=4294967295;for(let i=t;i<r;i++)n=Pi[(n^e[i])&255]^n>>>8;return(n^4294967295)>>>0}function Bn(e,t,r){let n=e+t-r,i=Math.abs(n-e),a=Math.abs(n-t),s=Math.abs(n-r);if(i<=a&&i<=s)return e;return a<=s?t:r}function Rr(e,t,r,n="rgba",i=4){let a=n==="rgba"?4:n==="rgb"?3:1,s=t*a,o=new Uint8Array(s*r);for(let b=0,w=0;b<t*r;b++){let g=b*i;if(a===1)o[w++]=i>=3?Math.round(0.299*e[g]+0.587*e[g+1]+0.114*e[g+2]):e[g];else{let M=i<3;if(o[w++]=e[g],o[w++]=M?e[g]:e[g+1],o[w++]=M?e[g]:e[g+2],a===4)o[w++]=i===4?e[g+3]:i===2?e[g+1]:255}}let l=new Uint8Array((s+1)*r),c=new Uint8Array(s);for(let b=0;b<r;b++){let w=b*s,g=1/0;for(let M=0;M<5;M++){let x=0;for(let v=0;v<s;v++){let A=o[w+v],S=v>=a?o[w+v-a]:0,z=b>0?o[w-s+v]:0,L=v>=a&&b>0?o[w-s+v-a]:0,H=A;if(M===1)H=A-S;else if(M===2)H=A-z;else if(M===3)H=A-(S+z>>1);else if(M===4)H=A-Bn(S,z,L);H&=255,c[v]=H,x+=H<128?H:256-H}if(x<g)g=x,l[b*(s+1)]=M,l.set(c,b*(s+1)+1)}}let h=new Uint8Array(13),u=new DataView(h.buffer);u.setUint32(0,t),u.setUint32(4,r),h[8]=8,h[9]=n==="rgba"?6:n==="rgb"?2:0,h[10]=0,h[11]=0,h[12]=0;let m=[Er("IHDR",h),Er("IDAT",On(l)),Er("IEND",new Uint8Array(0))],p=Nt.length+m.reduce((b,w)=>b+w.length,0),d=new Uint8Array(p);d.set(Nt,0);let y=Nt.length;for(let b of m)d.set(b,y),y+=b.length;return d}function Er(e,t){let r=new Uint8Array(12+t.length),n=new DataView(r.buffer);n.setUint32(0,t.length);for(let i=0;i<4;i++)r[4+i]=e.charCodeAt(i);return r.set(t,8),n.setUint32(8+t.length,Un(r,4,8+t.length)),r}var Ii=[[0,0,8,8],[4,0,8,8],[0,4,4,8],[2,0,4,4],[0,2,2,4],[1,0,2,2],[0,1,1,2]];function _n(e){for(let S=0;S<Nt.length;S++)if(e[S]!==Nt[S])throw Error("Not a PNG file");let t=new DataView(e.buffer,e.byteOffset,e.byteLength),r=0,n=0,i=0,a=0,s=0,o=null,l=null,c=[],h=Nt.length;while(h+8<=e.length){let S=t.getUint32(h),z=String.fromCharCode(e[h+4],e[h+5],e[h+6],e[h+7]),L=e.subarray(h+8,h+8+S);if(L.length!==S)throw Error(`Truncated PNG chunk: ${z}`);if(t.getUint32(h+8+S)!==Un(e,h+4,h+8+S))throw Error(`PNG chunk CRC mismatch: ${z}`);if(h+=12+S,z==="IHDR"){let H=new DataView(L.buffer,L.byteOffset,L.byteLength);r=H.getUint32(0),n=H.getUint32(4),i=L[8],a=L[9],s=L[12]}else if(z==="PLTE")o=L;else if(z==="tRNS")l=L;else if(z==="IDAT")c.push(L);else if(z==="IEND")break}if(!r||!n)throw Error("PNG is missing IHDR");let m={0:1,2:3,3:1,4:2,6:4}[a];if(!m)throw Error(`Unsupported PNG color type: ${a}`);if(a===3&&!o)throw Error("Palette PNG without PLTE chunk");let p=new Uint8Array(c.reduce((S,z)=>S+z.length,0)),d=0;for(let S of c)p.set(S,d),d+=S.length;let y=kn(p),b=m*i,w=Math.max(1,b>>3),g=new Uint8ClampedArray(r*n*4),M=(1<<i)-1,x=l&&a!==3?Array.from({length:a===0?1:3},(S,z)=>l[z*2]<<8|l[z*2+1]):null,v=0,A=s?Ii:[[0,0,1,1]];for(let[S,z,L,H]of A){let X=Math.ceil((r-S)/L),ce=Math.ceil((n-z)/H);if(X<=0||ce<=0)continue;let ue=Math.ceil(X*b/8),ie=new Uint8Array(ue),K=new Uint8Array(ue);for(let Ee=0;Ee<ce;Ee++){let pe=y[v++];for(let C=0;C<ue;C++){let ee=y[v++],Y=C>=w?K[C-w]:0,te=ie[C],de=C>=w?ie[C-w]:0;switch(pe){case 0:K[C]=ee;break;case 1:K[C]=ee+Y;break;case 2:K[C]=ee+te;break;case 3:K[C]=ee+(Y+te>>1);break;case 4:K[C]=ee+Bn(Y,te,de);break;default:throw Error(`Invalid PNG filter type: ${pe}`)}}let Re=z+Ee*H;for(let C=0;C<X;C++){let ee=S+C*L,Y=(Re*r+ee)*4,te=(q)=>{if(i===8)return K[C*m+q];if(i===16)return K[(C*m+q)*2]<<8|K[(C*m+q)*2+1];let ye=(C*m+q)*i;return K[ye>>3]>>8-i-(ye&7)&M},de=(q)=>i===16?q>>8:i===8?q:Math.round(q*255/M);if(a===3){let q=te(0);g[Y]=o[q*3],g[Y+1]=o[q*3+1],g[Y+2]=o[q*3+2],g[Y+3]=l&&q<l.length?l[q]:255}else if(a===0||a===4){let q=te(0);g[Y]=g[Y+1]=g[Y+2]=de(q),g[Y+3]=a===4?de(te(1)):x&&q===x[0]?0:255}else{let q=te(0),ye=te(1),$e=te(2);g[Y]=de(q),g[Y+1]=de(ye),g[Y+2]=de($e),g[Y+3]=a===6?de(te(3)):x&&q===x[0]&&ye===x[1]&&$e===x[2]?0:255}}[ie,K]=[K,ie]}}return{width:r,height:n,data:g}}function Vr(e,t,r,n=!1,i=4){let a=new TextEncoder().encode(`${n?"P5":"P6"}
+${t} ${r}
+255
+`),s=n?1:3,o=new Uint8Array(a.length+t*r*s);o.set(a,0);let l=a.length;for(let c=0;c<t*r;c++){let h=c*i;if(n)o[l++]=i>=3?Math.round(0.299*e[h]+0.587*e[h+1]+0.114*e[h+2]):e[h];else if(i>=3)o[l++]=e[h],o[l++]=e[h+1],o[l++]=e[h+2];else{let u=e[h];o[l++]=u,o[l++]=u,o[l++]=u}}return o}function Wn(e){let t=0,r=()=>{for(;;){while(t<e.length&&/\s/.test(String.fromCharCode(e[t])))t++;if(e[t]!==35)break;while(t<e.length&&e[t]!==10)t++}let m="";while(t<e.length&&!/\s/.test(String.fromCharCode(e[t])))m+=String.fromCharCode(e[t++]);return m},n=r();if(!["P2","P3","P5","P6"].includes(n))throw Error(`Unsupported PPM format: ${n}`);let i=parseInt(r(),10),a=parseInt(r(),10),s=parseInt(r(),10);if(!(i>0&&a>0&&s>0))throw Error("Malformed PPM header");t++;let o=n==="P2"||n==="P5",l=n==="P5"||n==="P6",c=s>255,h=()=>{if(!l)return parseInt(r(),10);if(c){let m=e[t]<<8|e[t+1];return t+=2,m}return e[t++]},u=new Uint8ClampedArray(i*a*4);for(let m=0;m<i*a;m++){let p=m*4;if(o)u[p]=u[p+1]=u[p+2]=Math.round(h()*255/s);else u[p]=Math.round(h()*255/s),u[p+1]=Math.round(h()*255/s),u[p+2]=Math.round(h()*255/s);u[p+3]=255}return{width:i,height:a,data:u}}function Cr(){let Ee={2:[0.75,0.75,0.25,0.25],4:[0.375,0.125,0.875,0.375,0.125,0.625,0.625,0.875],8:[0.5625,0.3125,0.4375,0.6875,0.8125,0.5625,0.3125,0.1875,0.1875,0.8125,0.0625,0.4375,0.6875,0.9375,0.9375,0.0625]};function pe(f){return f<=0.04045?f/12.92:Math.pow((f+0.055)/1.055,2.4)}let Re=new Float32Array(256);for(let f=0;f<256;f++)Re[f]=pe(f/255);let C=new Float32Array(4),ee=new Float64Array(6),Y=new Float64Array(3),te=new Float64Array(4),de=new Float64Array(8),q=[],ye=new Float64Array(16);for(let f=0;f<=16;f++)q.push(ye.subarray(0,f));let $e=new Float64Array(16),Dt=new Float64Array(16),Et=0,qe=0,Je=0;function Ue(f,N,P){switch(P){case"clamp":return f<0?0:f>=N?N-1:f;case"mirror":{let V=N*2,E=f%V;if(E<0)E+=V;return E<N?E:V-1-E}default:{let V=f%N;return V<0?V+N:V}}}function st(f,N,P,V,E){let{width:W,height:D,data:F}=f.levels[N],O=P*W-0.5,T=(1-V)*D-0.5;if(f.filter==="nearest"){let U=Ue(Math.floor(O+0.5),W,f.wrapS),be=(Ue(Math.floor(T+0.5),D,f.wrapT)*W+U)*4;E[0]=F[be],E[1]=F[be+1],E[2]=F[be+2],E[3]=F[be+3];return}let I=Math.floor(O),R=Math.floor(T),j=O-I,_=T-R,ae=Ue(I,W,f.wrapS),Q=Ue(I+1,W,f.wrapS),J=Ue(R,D,f.wrapT),Z=Ue(R+1,D,f.wrapT),k=(J*W+ae)*4,oe=(J*W+Q)*4,le=(Z*W+ae)*4,ve=(Z*W+Q)*4;for(let U=0;U<4;U++){let re=F[k+U]+(F[oe+U]-F[k+U])*j,be=F[le+U]+(F[ve+U]-F[le+U])*j;E[U]=re+(be-re)*_}}function Ge(f,N,P,V,E){let W=f.levels;if(f.mipmaps==="none"||V<=0||W.length===1){st(f,0,N,P,E);return}let D=W.length-1;if(f.mipmaps==="nearest"){st(f,Math.min(D,Math.round(V)),N,P,E);return}let F=Math.min(D,Math.floor(V)),O=Math.min(D,F+1),T=F===O?0:V-F;if(st(f,F,N,P,E),T>0){let I=E[0],R=E[1],j=E[2],_=E[3];st(f,O,N,P,E),E[0]=I+(E[0]-I)*T,E[1]=R+(E[1]-R)*T,E[2]=j+(E[2]-j)*T,E[3]=_+(E[3]-_)*T}}function kt(f,N,P,V,E){let W=f.levels[0].width,D=f.levels[0].height,F=Math.hypot(N*W,P*D),O=Math.hypot(V*W,E*D),T=Math.max(F,O);return T>0?Math.log2(T):0}function fe(f,N,P){if(N<=f)return P>=N?1:0;let V=Math.min(1,Math.max(0,(P-f)/(N-f)));return V*V*(3-2*V)}function bi(f,N,P,V,E,W,D){let{matrix:F,size:O}=f,T=f.normalBias*f.texelSize;if(f.perspective)T*=F[12]*N+F[13]*P+F[14]*V+F[15];N+=E*T,P+=W*T,V+=D*T;let I=F[0]*N+F[1]*P+F[2]*V+F[3],R=F[4]*N+F[5]*P+F[6]*V+F[7],j=F[8]*N+F[9]*P+F[10]*V+F[11],_=F[12]*N+F[13]*P+F[14]*V+F[15];if(_<=0)return 1;let ae=(I/_*0.5+0.5)*O,Q=(1-(R/_*0.5+0.5))*O,J;if(f.perspective){let{near:U,far:re}=f,be=Math.max(U,_-f.bias*(re-U));J=(re+U-2*re*U/be)/(re-U)*0.5+0.5}else J=j/_*0.5+0.5-f.bias;let{depth:Z,pcfRadius:k}=f,oe=Math.floor(ae),le=Math.floor(Q),ve=0;for(let U=le-k;U<=le+k;U++)for(let re=oe-k;re<=oe+k;re++)if(re<0||U<0||re>=O||U>=O||J<=Z[U*O+re])ve++;return ve/((2*k+1)*(2*k+1))}function yr(f,N,P,V,E,W,D,F,O,T,I,R,j,_){let{ambient:ae,diffuse:Q,specular:J,emissive:Z}=j;if(j.illum===0){_[0]=Q.x,_[1]=Q.y,_[2]=Q.z,_[3]=_[4]=_[5]=0;return}let k=T&&j.illum!==1,oe=R.ambient.x,le=R.ambient.y,ve=R.ambient.z,U=0,re=0,be=0,bt=0,lt=0,it=0;for(let B of R.lights){if(B.type==="hemisphere"){let me=0.5+0.5*(V*B.direction.x+E*B.direction.y+W*B.direction.z);oe+=B.groundColor.x+(B.color.x-B.groundColor.x)*me,le+=B.groundColor.y+(B.color.y-B.groundColor.y)*me,ve+=B.groundColor.z+(B.color.z-B.groundColor.z)*me;continue}let Be,ge,Ae,ne=1;if(B.type==="directional")Be=-B.direction.x,ge=-B.direction.y,Ae=-B.direction.z;else{Be=B.position.x-f,ge=B.position.y-N,Ae=B.position.z-P;let me=Math.hypot(Be,ge,Ae)||1;if(Be/=me,ge/=me,Ae/=me,ne=1/Math.max(B.constant+B.linear*me+B.quadratic*me*me,0.000001),B.range>0){let he=me/B.range,Te=Math.max(0,1-he*he*he*he);ne*=Te*Te}if(B.type==="spot"){let he=-(Be*B.direction.x+ge*B.direction.y+Ae*B.direction.z);ne*=fe(B.cosOuter,B.cosInner,he)}if(ne<=0)continue}let Ve=V*Be+E*ge+W*Ae;if(Ve<=0)continue;if(I&&B.shadow){if(ne*=bi(B.shadow,f,N,P,V,E,W),ne<=0)continue}let ct=Ve*ne;if(U+=B.color.x*ct,re+=B.color.y*ct,be+=B.color.z*ct,k){let me=D+Be,he=F+ge,Te=O+Ae,Ke=Math.hypot(me,he,Te)||1;me/=Ke,he/=Ke,Te/=Ke;let Qe=Math.max(0,V*me+E*he+W*Te),Ye=Math.pow(Qe,j.shininess)*ne;bt+=B.color.x*Ye,lt+=B.color.y*Ye,it+=B.color.z*Ye}}_[0]=Z.x+ae.x*oe+Q.x*U,_[1]=Z.y+ae.y*le+Q.y*re,_[2]=Z.z+ae.z*ve+Q.z*be,_[3]=J.x*bt,_[4]=J.y*lt,_[5]=J.z*it}function br(f){for(let N=0;N<3;N++)f[N]=Re[f[N]+0.5|0]*255}function gi(f){return($e[f]-ye[f]*Et)*Je}function xi(f){return(Dt[f]-ye[f]*qe)*Je}function wi(f,N){let P=Math.abs(N),V=10/(0.00001+Math.pow(P/5,2)+Math.pow(P/200,6));return f*(V<0.01?0.01:V>3000?3000:V)}function Mi(f,N,P,V,E,W,D,F){if(V<0)V=0;if(E<0)E=0;if(W<0)W=0;let O=N*4;if(P&8192){let k=f.accum,oe=D*F/255;k[O]+=V*oe,k[O+1]+=E*oe,k[O+2]+=W*oe,k[O+3]+=D*F,f.revealage[N]*=1-D;return}let T=f.hdr,I,R,j,_;if(T)I=T[O]*255,R=T[O+1]*255,j=T[O+2]*255,_=T[O+3];else{let k=f.data32[N];if(f.littleEndian)I=k&255,R=k>>>8&255,j=k>>>16&255,_=(k>>>24)/255;else I=k>>>24,R=k>>>16&255,j=k>>>8&255,_=(k&255)/255}if(P&2048)I+=V*D,R+=E*D,j+=W*D;else if(P&4096)I*=1-D+V/255*D,R*=1-D+E/255*D,j*=1-D+W/255*D;else I+=(V-I)*D,R+=(E-R)*D,j+=(W-j)*D,_=D+_*(1-D);if(T){T[O]=I/255,T[O+1]=R/255,T[O+2]=j/255,T[O+3]=_;return}let ae=(I>255?255:I)|0,Q=(R>255?255:R)|0,J=(j>255?255:j)|0,Z=_*255+0.5|0;f.data32[N]=f.littleEndian?Z<<24|J<<16|Q<<8|ae:ae<<24|Q<<16|J<<8|Z}function sn(f,N,P,V,E,W){let D=W[0],F=W[1],O=W[2],T=N[P],I=N[P+1],R=N[P+2],j=N[P+3],_=N[P+4],ae=N[P+5],Q=D*T+F*I+O*R,J=T-D*Q,Z=I-F*Q,k=R-O*Q,oe=Math.hypot(J,Z,k)||1;J/=oe,Z/=oe,k/=oe;let le=D*j+F*_+O*ae,ve=J*j+Z*_+k*ae,U=j-D*le-J*ve,re=_-F*le-Z*ve,be=ae-O*le-k*ve,bt=Math.hypot(U,re,be)||1;U/=bt,re/=bt,be/=bt;let lt,it,B;if(f.mapNorm){Ge(f.mapNorm,V,E,0,C);let ge=C[0]/127.5-1,Ae=C[1]/127.5-1,ne=C[2]/127.5-1;lt=J*ge+U*Ae+D*ne,it=Z*ge+re*Ae+F*ne,B=k*ge+be*Ae+O*ne}else if(f.mapBump){let ge=f.mapBump,{width:Ae,height:ne}=ge.levels[0],Ve=f.bumpScale/255;Ge(ge,V,E,0,C);let ct=C[0];Ge(ge,V+1/Ae,E,0,C);let me=(C[0]-ct)*Ae*Ve/(Math.hypot(T,I,R)||1);Ge(ge,V,E+1/ne,0,C);let he=(C[0]-ct)*ne*Ve/(Math.hypot(j,_,ae)||1);lt=D-(J*me+U*he),it=F-(Z*me+re*he),B=O-(k*me+be*he)}else return;let Be=Math.hypot(lt,it,B)||1;W[0]=lt/Be,W[1]=it/Be,W[2]=B/Be}function vi(f,N,P,V,E,W,D,F,O,T,I,R,j,_=1,ae=-1){let Q=V*20,J=E*20,Z=W*20,k=(P[Z]-P[Q])*(P[J+1]-P[Q+1])-(P[Z+1]-P[Q+1])*(P[J]-P[Q]);if(k===0)return!1;if(k<0){let U=J;J=Z,Z=U}let oe=D&16271;if(D&16&&D&4)oe|=16;if(F)oe|=32;if(j)oe|=64;let le=N*73;if(f[le+0]=oe,f[le+1]=R,f[le+2]=O,f[le+2+1]=T,f[le+2+2]=I,f[le+11]=_,f[le+12]=ae,j)for(let U=0;U<6;U++)f[le+5+U]=j[U];let ve=le+13;for(let U=0;U<20;U++)f[ve+U]=P[Q+U],f[ve+20+U]=P[J+U],f[ve+40+U]=P[Z+U];return!0}function Ai(f,N,P,V,E,W,D,F){let O=N*73,T=O+13,I=T+20,R=I+20,j=f[T],_=f[T+1],ae=f[I],Q=f[I+1],J=f[R],Z=f[R+1];if(P=Math.max(P,Math.floor(Math.min(j,ae,J))),E=Math.min(E,Math.ceil(Math.max(j,ae,J))),V=Math.max(V,Math.floor(Math.min(_,Q,Z))),W=Math.min(W,Math.ceil(Math.max(_,Q,Z))),P>E||V>W)return;let k=f[O+0],oe=(k&32)!==0,le=(k&1)!==0,ve=(k&2)!==0,U=(k&4)!==0,re=(k&8)!==0,be=(k&16)!==0,bt=(k&64)!==0,lt=(k&128)!==0,it=(k&256)===0,B=(k&512)===0,Be=(k&15360)!==0,ge=f[O+11],Ae=f[O+12],ne=Ae>=0?F.draws[Ae]:null,Ve=F.materials[f[O+1]],ct=oe&&!ne&&Ve.alphaCutoff>0,me=B&&!ne&&!ct,he=J-ae,Te=Z-Q,Ke=j-J,Qe=_-Z,Ye=ae-j,ht=Q-_,ln=Te<0||Te===0&&he>0,cn=Qe<0||Qe===0&&Ke>0,hn=ht<0||ht===0&&Ye>0,Pe=1/((J-j)*(Q-_)-(Z-_)*(ae-j)),un=f[T+2],mn=f[I+2],pn=f[R+2],gt=f[T+3],xt=f[I+3],wt=f[R+3],vt=oe&&re&&!ne?Ve.mapKd:null,fn=oe&&re&&!ne?Ve.mapKs:null,Ti=bt&&re&&(Ve.mapNorm||Ve.mapBump),Rt=null,qt=q[0];if(ne){Rt=ne.uniforms,Rt.material=Ve,Rt.lights=F.lights,Rt.eye=F.eye,Rt.linear=F.linear,qt=q[ne.varyings];for(let ze=0;ze<ne.varyings;ze++){let Ze=f[T+4+ze]*gt,Ce=f[I+4+ze]*xt,at=f[R+4+ze]*wt;$e[ze]=(Te*Ze+Qe*Ce+ht*at)*Pe,Dt[ze]=-(he*Ze+Ke*Ce+Ye*at)*Pe}Et=(Te*gt+Qe*xt+ht*wt)*Pe,qe=-(he*gt+Ke*xt+Ye*wt)*Pe}let dn=0,yn=0,bn=0,gn=0,gr=0,xr=0;if(vt&&vt.mipmaps!=="none"){let ze=f[T+13]*gt,Ze=f[I+13]*xt,Ce=f[R+13]*wt,at=f[T+13+1]*gt,At=f[I+13+1]*xt,et=f[R+13+1]*wt;dn=(Te*ze+Qe*Ze+ht*Ce)*Pe,yn=-(he*ze+Ke*Ze+Ye*Ce)*Pe,bn=(Te*at+Qe*At+ht*et)*Pe,gn=-(he*at+Ke*At+Ye*et)*Pe,gr=(Te*gt+Qe*xt+ht*wt)*Pe,xr=-(he*gt+Ke*xt+Ye*wt)*Pe}let{width:zi,zBuffer:Vt,data32:xn,hdr:Ut,littleEndian:Fi,samples:Ie}=D,wn=F.linear,Bt=Ie>1?Ee[Ie]:null,wr=F.eye,Mr=O+2,_e=0,We=0,je=0,Jt=0,Qt=0,Zt=0,Ct=0,Pt=0,er=255;for(let ze=V;ze<=W;ze++)for(let Ze=P;Ze<=E;Ze++){let Ce=ze*zi+Ze,at=Ze+0.5,At=ze+0.5,et=1;if(Bt){et=0;let G=0,mt=0,He=0;for(let Se=0;Se<Ie;Se++){let Ne=Ze+Bt[Se*2],pt=ze+Bt[Se*2+1],St=(Ne-ae)*Te-(pt-Q)*he,Lt=(Ne-J)*Qe-(pt-Z)*Ke,Tt=(Ne-j)*ht-(pt-_)*Ye;if(St<0||Lt<0||Tt<0)continue;if(St===0&&!ln||Lt===0&&!cn||Tt===0&&!hn)continue;let zt=(St*un+Lt*mn+Tt*pn)*Pe,It=Ce*Ie+Se;if(it&&zt>=Vt[It])continue;if(me)Vt[It]=zt;de[Se]=zt,et|=1<<Se,G+=Ne,mt+=pt,He++}if(!et||!oe)continue;at=G/He,At=mt/He}let vr=(at-ae)*Te-(At-Q)*he,Ar=(at-J)*Qe-(At-Z)*Ke,Sr=(at-j)*ht-(At-_)*Ye,Mn=vr*Pe,vn=Ar*Pe,An=Sr*Pe;if(!Bt){if(vr<0||Ar<0||Sr<0)continue;if(vr===0&&!ln||Ar===0&&!cn||Sr===0&&!hn)continue;let G=Mn*un+vn*mn+An*pn;if(it&&G>=Vt[Ce])continue;if(me)Vt[Ce]=G;if(de[0]=G,!oe)continue}let Sn=Mn*gt,Ln=vn*xt,Tn=An*wt,ut=1/(Sn+Ln+Tn),xe=Sn*ut,we=Ln*ut,Me=Tn*ut;if(re)Ct=xe*f[T+13]+we*f[I+13]+Me*f[R+13],Pt=xe*f[T+13+1]+we*f[I+13+1]+Me*f[R+13+1];if(ne){for(let G=0;G<qt.length;G++)qt[G]=xe*f[T+4+G]+we*f[I+4+G]+Me*f[R+4+G];if(Je=ut,te[0]=te[1]=te[2]=0,te[3]=1,ne.fragment(qt,Rt,te,Li)===!1)continue;if(B){for(let G=0;G<Ie;G++)if(et&1<<G)Vt[Ce*Ie+G]=de[G]}_e=te[0]*255,We=te[1]*255,je=te[2]*255,er=te[3]*255}else if(be){let G=xe*f[T+15]+we*f[I+15]+Me*f[R+15],mt=xe*f[T+15+1]+we*f[I+15+1]+Me*f[R+15+1],He=xe*f[T+15+2]+we*f[I+15+2]+Me*f[R+15+2],Se=xe*f[T+10]+we*f[I+10]+Me*f[R+10],Ne=xe*f[T+10+1]+we*f[I+10+1]+Me*f[R+10+1],pt=xe*f[T+10+2]+we*f[I+10+2]+Me*f[R+10+2],St=Math.hypot(Se,Ne,pt)||1;if(Y[0]=Se/St,Y[1]=Ne/St,Y[2]=pt/St,Ti)sn(Ve,f,O+5,Ct,Pt,Y);Se=Y[0],Ne=Y[1],pt=Y[2];let Lt=wr.x-G,Tt=wr.y-mt,zt=wr.z-He,It=Math.hypot(Lt,Tt,zt)||1;if(Lt/=It,Tt/=It,zt/=It,yr(G,mt,He,Se,Ne,pt,Lt,Tt,zt,!0,lt,F.lights,Ve,ee),_e=ee[0],We=ee[1],je=ee[2],Jt=ee[3],Qt=ee[4],Zt=ee[5],le)_e*=(xe*f[T+4]+we*f[I+4]+Me*f[R+4])/255,We*=(xe*f[T+4+1]+we*f[I+4+1]+Me*f[R+4+1])/255,je*=(xe*f[T+4+2]+we*f[I+4+2]+Me*f[R+4+2])/255}else if(le)_e=xe*f[T+4]+we*f[I+4]+Me*f[R+4],We=xe*f[T+4+1]+we*f[I+4+1]+Me*f[R+4+1],je=xe*f[T+4+2]+we*f[I+4+2]+Me*f[R+4+2];else _e=f[Mr],We=f[Mr+1],je=f[Mr+2];if(vt){let G=0;if(vt.mipmaps!=="none")G=kt(vt,(dn-Ct*gr)*ut,(bn-Pt*gr)*ut,(yn-Ct*xr)*ut,(gn-Pt*xr)*ut);if(Ge(vt,Ct,Pt,G,C),er=C[3],wn)br(C);_e*=C[0]/255,We*=C[1]/255,je*=C[2]/255}if(ct){if(er/255<Ve.alphaCutoff)continue;if(B){for(let G=0;G<Ie;G++)if(et&1<<G)Vt[Ce*Ie+G]=de[G]}}if(be||ve){if(!be)Jt=xe*f[T+7]+we*f[I+7]+Me*f[R+7],Qt=xe*f[T+7+1]+we*f[I+7+1]+Me*f[R+7+1],Zt=xe*f[T+7+2]+we*f[I+7+2]+Me*f[R+7+2];if(fn){if(Ge(fn,Ct,Pt,0,C),wn)br(C);Jt*=C[0]/255,Qt*=C[1]/255,Zt*=C[2]/255}_e+=Jt,We+=Qt,je+=Zt}if(Be){let G=vt||ne?ge*er/255:ge,mt=k&8192?wi(G,ut):0;for(let He=0;He<Ie;He++)if(et&1<<He)Mi(D,Ce*Ie+He,k,_e,We,je,G,mt);continue}if(Ut){let G=_e<0?0:_e/255,mt=We<0?0:We/255,He=je<0?0:je/255;for(let Se=0;Se<Ie;Se++){if(!(et&1<<Se))continue;let Ne=(Ce*Ie+Se)*4;Ut[Ne]=G,Ut[Ne+1]=mt,Ut[Ne+2]=He,Ut[Ne+3]=1}continue}let zn=(_e<0?0:_e>255?255:_e)|0,Fn=(We<0?0:We>255?255:We)|0,En=(je<0?0:je>255?255:je)|0,Rn=Fi?-16777216|En<<16|Fn<<8|zn:zn<<24|Fn<<16|En<<8|255;if(Bt){for(let G=0;G<Ie;G++)if(et&1<<G)xn[Ce*Ie+G]=Rn}else xn[Ce]=Rn}}function Si(f,N,P,V,E,W,D,F,O,T){let I=Math.min(D,O.width)-1,R=Math.min(F,O.height)-1;for(let j=P;j<V;j++)Ai(f,N[j],E,W,I,R,O,T)}let Li={sampleTexture:Ge,computeLod:kt,shade:yr,srgbToLinear:pe,decodeTexel:br,perturbNormal:sn,dFdx:gi,dFdy:xi,texel:new Float32Array(4),light:new Float64Array(6),normal:new Float64Array(3),frame:new Float64Array(6)};return{TRIANGLE_STRIDE:73,VERTEX_STRIDE:20,MAX_VARYINGS:16,vertexLayout:{COLOR:4,SPECULAR:7,NORMAL:10,UV:13,WORLD:15,VARYINGS:4},attributes:{COLOR:1,SPECULAR:2,NORMAL:4,UV:8,WORLD:16,RECEIVE_SHADOWS:128,NO_DEPTH_TEST:256,NO_DEPTH_WRITE:512,BLEND_ALPHA:1024,BLEND_ADD:2048,BLEND_MULTIPLY:4096,BLEND_ACCUMULATE:8192},packTriangle:vi,rasterizeTile:Si,sampleTexture:Ge,computeLod:kt,shade:yr}}var se=Cr();class rr{name;levels;wrapS;wrapT;filter;mipmaps;constructor(e,t={},r=""){if(e.width<=0||e.height<=0)throw Error(`Invalid texture size: ${e.width}x${e.height}`);if(this.name=r,this.wrapS=t.wrapS??"repeat",this.wrapT=t.wrapT??"repeat",this.filter=t.filter??"bilinear",this.mipmaps=t.mipmaps??"linear",this.levels=[{width:e.width,height:e.height,data:new Uint8ClampedArray(e.data)}],this.mipmaps!=="none")this.generateMipmaps()}get width(){return this.levels[0].width}get height(){return this.levels[0].height}generateMipmaps(){this.levels.length=1;let e=this.levels[0];while(e.width>1||e.height>1){let t=Math.max(1,e.width>>1),r=Math.max(1,e.height>>1),n=new Uint8ClampedArray(t*r*4);for(let i=0;i<r;i++){let a=Math.min(e.height-1,i*2),s=Math.min(e.height-1,i*2+1);for(let o=0;o<t;o++){let l=Math.min(e.width-1,o*2),c=Math.min(e.width-1,o*2+1),h=(a*e.width+l)*4,u=(a*e.width+c)*4,m=(s*e.width+l)*4,p=(s*e.width+c)*4,d=(i*t+o)*4;for(let y=0;y<4;y++)n[d+y]=e.data[h+y]+e.data[u+y]+e.data[m+y]+e.data[p+y]+2>>2}}e={width:t,height:r,data:n},this.levels.push(e)}}computeLod(e,t,r,n){return se.computeLod(this,e,t,r,n)}sample(e,t,r,n){se.sampleTexture(this,e,t,r,n)}}function Ni(e){return e.length>8&&e[0]===137&&e[1]===80&&e[2]===78&&e[3]===71}function Oi(e){return e.length>2&&e[0]===80&&[50,51,53,54].includes(e[1])}class Pr{async decode(e,t=""){if(Ni(e))return _n(e);if(Oi(e))return Wn(e);if(typeof createImageBitmap==="function"&&typeof OffscreenCanvas==="function"){let r=await createImageBitmap(new Blob([e])),i=new OffscreenCanvas(r.width,r.height).getContext("2d");i.drawImage(r,0,0);let a=i.getImageData(0,0,r.width,r.height);return r.close(),{width:a.width,height:a.height,data:a.data}}throw Error(`Unsupported image format${t?`: ${t}`:""} (only PNG and PPM decode outside the browser)`)}async loadFromUrl(e,t){let r=await fetch(e);if(!r.ok)throw Error(`Failed to fetch texture: ${r.status}`);let n=new Uint8Array(await r.arrayBuffer());return new rr(await this.decode(n,e),t,e)}async loadFromFile(e,t){let r=await import("fs/promises"),n=new Uint8Array(await r.readFile(e));return new rr(await this.decode(n,e),t,e)}}function kr(e){return new Float32Array(e)}function Yi(e){let t=[];for(let r=1;r+1<e.length;r++)t.push(e[0],e[r],e[r+1]);return t}function Ur(e,t){let r=parseInt(e,10);if(isNaN(r))throw Error(`Malformed OBJ index: '${e}'`);if(r>0)return r-1;return t+r}function Xi(e){let t={"-blendu":1,"-blendv":1,"-boost":1,"-mm":2,"-texres":1,"-clamp":1,"-bm":1,"-imfchan":1,"-type":1,"-cc":1},r={},n=0;while(n<e.length-1&&e[n].startsWith("-")){let i=e[n++],a=[];if(i==="-o"||i==="-s"||i==="-t")while(a.length<3&&n<e.length-1&&!isNaN(parseFloat(e[n])))a.push(e[n++]);else for(let s=0;s<(t[i]??0)&&n<e.length-1;s++)a.push(e[n++]);r[i]=a}return{file:e.slice(n).join(" "),options:r}}function Gn(e,t){let r=typeof location<"u"?location.href:void 0;return new URL(e,new URL(t,r)).href}class Br{parse(e,t,r){let n=[],i=[],a=[],s=[],o=!1,l=[],c=(g,M)=>{let x={object:g,names:M,faceVertexStrs:[],smoothing:[],materialNames:[]};return l.push(x),x},h=c({name:"default"},[]),u=null,m=1,p=[],d={};if(t)for(let[g,M]of Object.entries(t)){let x=this.parseMTL(M);Object.assign(d,x)}let y=e.split(/\r?\n/);for(let g of y){let M=g.trim();if(!M||M.startsWith("#"))continue;let x=M.split(/\s+/);switch(x[0]){case"v":{let[A,S,z]=x.slice(1,4).map(Number);if([A,S,z].some((H)=>isNaN(H)))throw Error(`Malformed vertex position: ${x.join(" ")}`);n.push(A,S,z);let L=x.length>=7?x.slice(4,7).map(Number):[1,1,1];if(L.some((H)=>isNaN(H)))throw Error(`Malformed vertex color: ${x.join(" ")}`);if(x.length>=7)o=!0;s.push(...L);break}case"vt":{let[A,S]=[parseFloat(x[1]),parseFloat(x[2]??"0")];if(isNaN(A)||isNaN(S))throw Error(`Malformed texture coordinate: ${x.join(" ")}`);i.push(A,S);break}case"vn":{let[A,S,z]=x.slice(1,4).map(Number);if([A,S,z].some((L)=>isNaN(L)))throw Error(`Malformed normal: ${x.join(" ")}`);a.push(A,S,z);break}case"f":{let A=x.slice(1);if(A.length<3)throw Error(`Face with less than 3 vertices: ${x.join(" ")}`);h.faceVertexStrs.push(A),h.smoothing.push(m),h.materialNames.push(u);break}case"o":{h=c({name:x.slice(1).join(" ")||"unnamed"},[]);break}case"g":{h=c(h.object,x.slice(1));break}case"usemtl":{u=x[1]??null;break}case"mtllib":{p.push(...x.slice(1));break}case"s":{let A=x[1]==="off"?0:parseInt(x[1],10);m=isNaN(A)?1:A;break}default:break}}let b=[],w=new Map;for(let g of l){if(g.faceVertexStrs.length===0)continue;let M=[],x=[],v=new Map;g.faceVertexStrs.forEach((L,H)=>{let X=L.map((ie)=>{let K=ie.split("/");return{v:Ur(K[0],n.length/3),vt:K[1]?Ur(K[1],i.length/2):void 0,vn:K[2]?Ur(K[2],a.length/3):void 0}}),ce=Yi(X.map((ie,K)=>K)),ue=v.get(g.materialNames[H]);if(!ue)v.set(g.materialNames[H],ue=[]);for(let ie=0;ie<ce.length;ie+=3){ue.push(M.length/3);for(let K=0;K<3;K++)M.push(X[ce[ie+K]]);x.push(g.smoothing[H])}});let A=M.some((L)=>L.vn===void 0)?Cn(n,M.map((L)=>L.v),{groups:x,creaseAngle:r?.creaseAngle,weighting:r?.normalWeighting}):null,S=[];for(let[L,H]of v){let Re=function(C,ee,Y,te){let de=`${C}_${ee??""}_${Y??te?.join(",")}`,q=X.get(de);if(q!==void 0)return q;q=ce.length/3,X.set(de,q);let ye=C*3,[$e,Dt,Et]=[n[ye],n[ye+1],n[ye+2]];if(ce.push($e,Dt,Et),Ee.push(s[ye],s[ye+1],s[ye+2]),ee!==void 0&&!isNaN(ee)){let qe=ee*2,[Je,Ue]=[i[qe]??0,i[qe+1]??0];ie.push(Je,Ue),K=!0}else ie.push(0,0);if(Y!==void 0&&!isNaN(Y)){let qe=Y*3,[Je,Ue,st]=[a[qe]??0,a[qe+1]??0,a[qe+2]??0];ue.push(Je,Ue,st)}else ue.push(...te);return q},X=new Map,ce=[],ue=[],ie=[],K=!1,Ee=[],pe=[];for(let C of H)for(let ee=C*3;ee<C*3+3;ee++){let Y=M[ee];pe.push(Re(Y.v,Y.vt,Y.vn,Y.vn===void 0?A.subarray(ee*3,ee*3+3):void 0))}S.push({name:g.names.length?g.names.join(" "):g.object.name,materialName:L,positions:kr(ce),normals:kr(ue),boundingBox:Vn(kr(ce)),uvs:K?new Float32Array(ie):null,...o?{colors:new Float32Array(Ee)}:{},indices:new Uint32Array(pe)})}b.push(...S);let z=w.get(g.object)??{name:g.object.name,groups:[]};z.groups.push({names:g.names,meshes:S}),w.set(g.object,z)}return{meshes:b,materials:d,objects:[...w.values()],mtllibs:p}}parseMTL(e){let t=e.split(/\r?\n/),r={},n=null;for(let i of t){let a=i.trim();if(!a||a.startsWith("#"))continue;let s=a.split(/\s+/),o=s[0];switch(o){case"newmtl":{let l=s[1]??"unnamed";n={name:l},r[l]=n;break}case"Ka":case"Kd":case"Ks":case"Ke":{if(!n)break;let l=[parseFloat(s[1]),parseFloat(s[2]??s[1]),parseFloat(s[3]??s[1])];if(l.some((h)=>isNaN(h)))throw Error(`Malformed ${o}: ${s.join(" ")}`);let c=o.toLowerCase();n[c]=l;break}case"Ns":{if(!n)break;let l=parseFloat(s[1]);if(isNaN(l))throw Error(`Malformed Ns: ${s.join(" ")}`);n.ns=l;break}case"d":case"Tr":{if(!n)break;let l=parseFloat(s[s.length-1]);if(isNaN(l))throw Error(`Malformed ${o}: ${s.join(" ")}`);n.d=o==="d"?l:1-l;break}case"illum":{if(!n)break;let l=parseInt(s[1],10);if(isNaN(l))throw Error(`Malformed illum: ${s.join(" ")}`);n.illum=l;break}case"map_Kd":case"map_Ks":case"map_bump":case"map_Bump":case"bump":case"norm":{if(!n)break;let{file:l,options:c}=Xi(s.slice(1));if(!l)break;if(o==="map_Kd")n.mapKd=l;else if(o==="map_Ks")n.mapKs=l;else if(o==="norm")n.mapNorm=l;else if(n.mapBump=l,c["-bm"]?.length)n.bumpScale=parseFloat(c["-bm"][0]);break}default:break}}return r}async loadFromText(e,t){let r={},n=[],i=e.split(/\r?\n/);for(let o of i){let l=o.trim();if(!l)continue;let c=l.split(/\s+/);if(c[0]==="mtllib")n.push(...c.slice(1))}if(n.length&&t?.mtlResolver)for(let o of n)try{let l=await t.mtlResolver(o);if(l)r[o]=l}catch(l){}else if(n.length&&t?.objPath){let o=await import("fs/promises"),l=await Promise.resolve().then(() => (Dr(),{})),c=Or(t.objPath);for(let h of n)try{let u=Nr(c,h),m=await o.readFile(u,"utf8");r[h]=m}catch(u){}}else if(n.length&&t?.objUrl)for(let o of n)try{let l=await fetch(Gn(o,t.objUrl));if(l.ok)r[o]=await l.text()}catch(l){}let a=this.parse(e,Object.keys(r).length?r:void 0,t);if(t?.loadTextures===!1)return a;let s=await this.loadTextures(a,t);return Object.keys(s).length?{...a,textures:s}:a}async loadTextures(e,t){let r={},n=new Set;for(let a of Object.values(e.materials))for(let s of[a.mapKd,a.mapKs,a.mapBump,a.mapNorm])if(s)n.add(s);if(!n.size||!t?.objPath&&!t?.objUrl)return r;let i=new Pr;for(let a of n)try{if(t.objPath){let s=await Promise.resolve().then(() => (Dr(),{}));r[a]=await i.loadFromFile(Nr(Or(t.objPath),a),t.textureOptions)}else r[a]=await i.loadFromUrl(Gn(a,t.objUrl),t.textureOptions)}catch(s){}return r}async loadFromUrl(e,t){let r=await fetch(e);if(!r.ok)throw Error(`Failed to fetch OBJ: ${r.status}`);let n=await r.text();return this.loadFromText(n,{...t,objUrl:e})}async loadFromFile(e,t){let r=await import("fs/promises"),n=await r.readFile(e,"utf8");return this.loadFromText(n,{...t,objPath:e})}}function Xe(){return new Float32Array([1,0,0,0,0,1,0,0,0,0,1,0,0,0,0,1])}function ft(e,t,r=new Float32Array(16)){for(let n=0;n<4;n++)for(let i=0;i<4;i++){let a=0;for(let s=0;s<4;s++)a+=e[n*4+s]*t[s*4+i];r[n*4+i]=a}return r}function nr(e,t,r,n){let i=1/Math.tan(e/2),a=1/(r-n);return new Float32Array([i/t,0,0,0,0,i,0,0,0,0,(n+r)*a,2*n*r*a,0,0,-1,0])}function Wt(e,t,r,n,i,a){let s=1/(t-e),o=1/(n-r),l=1/(i-a);return new Float32Array([2*s,0,0,-(t+e)*s,0,2*o,0,-(n+r)*o,0,0,2*l,(a+i)*l,0,0,0,1])}function jt(e,t,r){let n=e.x-t.x,i=e.y-t.y,a=e.z-t.z,s=Math.hypot(n,i,a);if(s===0)s=1;let o=n/s,l=i/s,c=a/s,h=r.y*c-r.z*l,u=r.z*o-r.x*c,m=r.x*l-r.y*o,p=Math.hypot(h,u,m);if(p===0)p=1;let d=h/p,y=u/p,b=m/p,w=l*b-c*y,g=c*d-o*b,M=o*y-l*d;return new Float32Array([d,y,b,-(d*e.x+y*e.y+b*e.z),w,g,M,-(w*e.x+g*e.y+M*e.z),o,l,c,-(o*e.x+l*e.y+c*e.z),0,0,0,1])}function Kn(e,t,r){let{x:n,y:i,z:a,w:s}=t,o=n+n,l=i+i,c=a+a,h=n*o,u=n*l,m=n*c,p=i*l,d=i*c,y=a*c,b=s*o,w=s*l,g=s*c;return new Float32Array([(1-(p+y))*r.x,(u-g)*r.y,(m+w)*r.z,e.x,(u+g)*r.x,(1-(h+y))*r.y,(d-b)*r.z,e.y,(m-w)*r.x,(d+b)*r.y,(1-(h+p))*r.z,e.z,0,0,0,1])}function Ft(e){let t=e[0],r=e[1],n=e[2],i=e[4],a=e[5],s=e[6],o=e[8],l=e[9],c=e[10],h=a*c-s*l,u=s*o-i*c,m=i*l-a*o,p=n*l-r*c,d=t*c-n*o,y=r*o-t*l,b=r*s-n*a,w=n*i-t*s,g=t*a-r*i,x=t*h+r*u+n*m<0?-1:1;return new Float32Array([h*x,u*x,m*x,p*x,d*x,y*x,b*x,w*x,g*x])}function Mt(e,t){return{x:e[0]*t.x+e[1]*t.y+e[2]*t.z+e[3],y:e[4]*t.x+e[5]*t.y+e[6]*t.z+e[7],z:e[8]*t.x+e[9]*t.y+e[10]*t.z+e[11]}}function ir(e,t){return{x:e[0]*t.x+e[1]*t.y+e[2]*t.z,y:e[4]*t.x+e[5]*t.y+e[6]*t.z,z:e[8]*t.x+e[9]*t.y+e[10]*t.z}}function Yn(){return{x:0,y:0,z:0,w:1}}function ar(e,t){let r=Oe(e),n=Math.sin(t/2);return{x:r.x*n,y:r.y*n,z:r.z*n,w:Math.cos(t/2)}}function Xn(e,t){return{x:e.w*t.x+e.x*t.w+e.y*t.z-e.z*t.y,y:e.w*t.y-e.x*t.z+e.y*t.w+e.z*t.x,z:e.w*t.z+e.x*t.y-e.y*t.x+e.z*t.w,w:e.w*t.w-e.x*t.x-e.y*t.y-e.z*t.z}}function $n(e){let t=Math.hypot(e.x,e.y,e.z,e.w)||1;return{x:e.x/t,y:e.y/t,z:e.z/t,w:e.w/t}}var qn=[(e)=>e.w+e.z,(e)=>e.w-e.z,(e)=>e.w+e.x,(e)=>e.w-e.x,(e)=>e.w+e.y,(e)=>e.w-e.y];function $i(e){let t=0;for(let r=0;r<6;r++)if(qn[r](e)<0)t|=1<<r;return t}function qi(e,t,r){let n=Array(e.attrs.length);for(let i=0;i<n.length;i++)n[i]=e.attrs[i]+(t.attrs[i]-e.attrs[i])*r;return{x:e.x+(t.x-e.x)*r,y:e.y+(t.y-e.y)*r,z:e.z+(t.z-e.z)*r,w:e.w+(t.w-e.w)*r,attrs:n}}function _r(e){let t=63,r=0;for(let i of e){let a=$i(i);t&=a,r|=a}if(t)return[];if(!r)return e;let n=e;for(let i=0;i<6&&n.length;i++){if(!(r&1<<i))continue;let a=qn[i],s=n;n=[];for(let o=0;o<s.length;o++){let l=s[o],c=s[(o+1)%s.length],h=a(l),u=a(c);if(h>=0)n.push(l);if(h>=0!==u>=0)n.push(qi(l,c,h/(h-u)))}}return n.length>=3?n:[]}function Ht(e,t,r){let n=1/e.w;return{x:(e.x*n*0.5+0.5)*t,y:(1-(e.y*n*0.5+0.5))*r,z:e.z*n*0.5+0.5,recipW:n}}function Jn(e,t,r,n,i,a,s,o){let l=r-e,c=n-t,h=0,u=1,m=[-l,l,-c,c],p=[e-i,s-e,t-a,o-t];for(let d=0;d<4;d++){if(m[d]===0){if(p[d]<0)return null;continue}let y=p[d]/m[d];if(m[d]<0){if(y>u)return null;if(y>h)h=y}else{if(y<h)return null;if(y<u)u=y}}return[h,u]}function Qn(e){return{x:(e.min.x+e.max.x)/2,y:(e.min.y+e.max.y)/2,z:(e.min.z+e.max.z)/2}}var Ji=[8,0,4];function Zn(e,t=new Float64Array(24)){for(let r=0;r<6;r++){let n=r&1?-1:1,i=Ji[r>>1],a=e[12]+n*e[i],s=e[13]+n*e[i+1],o=e[14]+n*e[i+2],l=e[15]+n*e[i+3],c=Math.hypot(a,s,o)||1;t[r*4]=a/c,t[r*4+1]=s/c,t[r*4+2]=o/c,t[r*4+3]=l/c}return t}function ei(e,t,r,n,i){let a=!0;for(let s=0;s<24;s+=4){let o=e[s]*t+e[s+1]*r+e[s+2]*n+e[s+3];if(o<-i)return"outside";if(o<i)a=!1}return a?"inside":"intersects"}function Wr(e,t,r){let n=!0;for(let i=0;i<24;i+=4){let a=e[i],s=e[i+1],o=e[i+2],l=e[i+3];if(a*(a>0?r.x:t.x)+s*(s>0?r.y:t.y)+o*(o>0?r.z:t.z)+l<0)return"outside";if(a*(a>0?t.x:r.x)+s*(s>0?t.y:r.y)+o*(o>0?t.z:r.z)+l<0)n=!1}return n?"inside":"intersects"}var or=(e,t)=>({x:e.x-t.x,y:e.y-t.y,z:e.z-t.z}),Gt=(e,t)=>({x:e.y*t.z-e.z*t.y,y:e.z*t.x-e.x*t.z,z:e.x*t.y-e.y*t.x}),jr=(e)=>Math.hypot(e.x,e.y,e.z)||1,Oe=(e)=>{let t=jr(e);return{x:e.x/t,y:e.y/t,z:e.z/t}};var dt=(e,t)=>({x:e.x+t.x,y:e.y+t.y,z:e.z+t.z}),Kt=(e,t)=>({x:e.x*t,y:e.y*t,z:e.z*t});function Hr(e,t=1){return{x:Math.round(e.x/t)*t,y:Math.round(e.y/t)*t,z:e.z,recipW:e.recipW,color:void 0,normal:e.normal,uv:e.uv}}class Gr{position;up;speed;yaw;pitch;node=null;projection={type:"perspective",fov:Math.PI/3,near:0.1,far:100};constructor(e,t,r=1,n=0,i=0){this.position=e,this.up=t,this.speed=r,this.yaw=n,this.pitch=i}getForwardVector(){let e=Math.cos(this.pitch);return{x:Math.cos(this.yaw)*e,y:Math.sin(this.pitch),z:Math.sin(this.yaw)*e}}getRightVector(){let e=this.getForwardVector();return Oe(Gt(e,this.up))}lookAt(e){let t=Oe(or(e,this.position));return this.yaw=Math.atan2(t.z,t.x),this.pitch=Math.asin(Math.max(-1,Math.min(1,t.y))),this}getWorldPosition(){return this.node?Mt(this.node.worldMatrix,this.position):this.position}getViewMatrix(){let e=this.getForwardVector(),t=this.position,r=dt(this.position,e),n=this.up;if(this.node){let i=this.node.worldMatrix;t=Mt(i,t),r=Mt(i,r),n=ir(i,n)}return jt(t,r,n)}setPerspective(e=Math.PI/3,t=0.1,r=100){return this.projection={type:"perspective",fov:e,near:t,far:r},this}setOrthographic(e,t=0.1,r=100){return this.projection=typeof e==="number"?{type:"orthographic",size:e,extents:null,near:t,far:r}:{type:"orthographic",size:(e.top-e.bottom)/2,extents:e,near:t,far:r},this}getProjectionMatrix(e){let t=this.projection;if(t.type==="perspective")return nr(t.fov,e,t.near,t.far);if(t.extents){let{left:r,right:n,bottom:i,top:a}=t.extents;return Wt(r,n,i,a,t.near,t.far)}return Wt(-t.size*e,t.size*e,-t.size,t.size,t.near,t.far)}}var ti=Math.PI/2-0.001;class Kr{target;azimuth;elevation;distance;camera;element;rotateSpeed;zoomSpeed;minDistance;maxDistance;pointers=new Map;panning=!1;constructor(e,t,r={}){this.camera=e,this.element=t,this.target=r.target??{x:0,y:0,z:0},this.rotateSpeed=r.rotateSpeed??0.005,this.zoomSpeed=r.zoomSpeed??1.1,this.minDistance=r.minDistance??0.1,this.maxDistance=r.maxDistance??1/0;let n=or(e.position,this.target);if(this.distance=this.clampDistance(jr(n)),this.azimuth=Math.atan2(n.z,n.x),this.elevation=Math.asin(Math.max(-1,Math.min(1,n.y/(Math.hypot(n.x,n.y,n.z)||1)))),t)t.addEventListener("pointerdown",this.onPointerDown),t.addEventListener("pointermove",this.onPointerMove),t.addEventListener("pointerup",this.onPointerUp),t.addEventListener("pointercancel",this.onPointerUp),t.addEventListener("wheel",this.onWheel,{passive:!1}),t.addEventListener("contextmenu",this.onContextMenu);this.apply()}rotate(e,t){this.azimuth+=e,this.elevation=Math.max(-ti,Math.min(ti,this.elevation+t)),this.apply()}zoom(e){this.distance=this.clampDistance(this.distance*e),this.apply()}pan(e,t){let r=this.camera.getRightVector(),n=Oe(Gt(r,this.camera.getForwardVector()));this.target=dt(this.target,dt(Kt(r,e),Kt(n,t))),this.apply()}update(e){this.apply()}dispose(){let e=this.element;if(!e)return;e.removeEventListener("pointerdown",this.onPointerDown),e.removeEventListener("pointermove",this.onPointerMove),e.removeEventListener("pointerup",this.onPointerUp),e.removeEventListener("pointercancel",this.onPointerUp),e.removeEventListener("wheel",this.onWheel),e.removeEventListener("contextmenu",this.onContextMenu),this.element=null,this.pointers.clear()}apply(){let e=Math.cos(this.elevation);this.camera.position=dt(this.target,{x:Math.cos(this.azimuth)*e*this.distance,y:Math.sin(this.elevation)*this.distance,z:Math.sin(this.azimuth)*e*this.distance}),this.camera.lookAt(this.target)}clampDistance(e){return Math.max(this.minDistance,Math.min(this.maxDistance,e))}panScale(){let e=this.camera.projection,t=e.type==="perspective"?Math.tan(e.fov/2)*this.distance:e.size,r=this.element.clientHeight||500;return 2*t/r}onPointerDown=(e)=>{let t=e;this.pointers.set(t.pointerId,{x:t.clientX,y:t.clientY}),this.panning=t.button===1||t.button===2||t.shiftKey,this.element.setPointerCapture?.(t.pointerId)};onPointerMove=(e)=>{let t=e,r=this.pointers.get(t.pointerId);if(!r)return;if(this.pointers.size===2){let[n,i]=[...this.pointers.values()],a=Math.hypot(n.x-i.x,n.y-i.y),s=n===r?i:n,o=Math.hypot(t.clientX-s.x,t.clientY-s.y);if(a>0&&o>0)this.zoom(a/o);let l=this.panScale()/2;this.pan(-(t.clientX-r.x)*l,(t.clientY-r.y)*l)}else if(this.panning){let n=this.panScale();this.pan(-(t.clientX-r.x)*n,(t.clientY-r.y)*n)}else this.rotate((t.clientX-r.x)*this.rotateSpeed,(t.clientY-r.y)*this.rotateSpeed);r.x=t.clientX,r.y=t.clientY};onPointerUp=(e)=>{this.pointers.delete(e.pointerId)};onWheel=(e)=>{let t=e;t.preventDefault?.(),this.zoom(Math.pow(this.zoomSpeed,t.deltaY/100))};onContextMenu=(e)=>{e.preventDefault()}}var De=se.MAX_VARYINGS;function sr(e,t,r){let n=t.mvp,i=e.position,a=r.position,s=i[0],o=i[1],l=i[2];a[0]=n[0]*s+n[1]*o+n[2]*l+n[3],a[1]=n[4]*s+n[5]*o+n[6]*l+n[7],a[2]=n[8]*s+n[9]*o+n[10]*l+n[11],a[3]=n[12]*s+n[13]*o+n[14]*l+n[15]}class Yt{count=0;clip=new Float64Array(0);screen=new Float64Array(0);recipW=new Float64Array(0);world=new Float64Array(0);normal=new Float64Array(0);outcode=new Uint8Array(0);varyings=new Float64Array(0);positions=new Float32Array(0);normals=null;mvp=null;model=null;normalMatrix=null;width=0;height=0;gridSize=0;input={mesh:null,index:0,position:new Float64Array(3),normal:new Float64Array(3),uv:new Float64Array(2),color:new Float64Array(3)};output={position:new Float64Array(4),varyings:new Float64Array(De)};transform(e,t,r,n,i,a,s=0){this.begin(e,t,r,n,i,a,s);for(let o=0;o<this.count;o++)this.transformVertex(o)}begin(e,t,r,n,i,a,s=0){let o=e.positions;this.count=o.length/3,this.reserve(this.count),this.positions=o,this.normals=e.normals.length>=o.length?e.normals:null,this.mvp=t,this.model=r,this.normalMatrix=n,this.width=i,this.height=a,this.gridSize=s}transformProgram(e,t,r,n,i,a=0){let s=e.positions;this.count=s.length/3,this.reserve(this.count),this.width=n,this.height=i,this.gridSize=a;let o=e.normals.length>=s.length?e.normals:null,l=e.uvs&&e.uvs.length>=this.count*2?e.uvs:null,c=e.colors&&e.colors.length>=s.length?e.colors:null,h=this.input,u=this.output;h.mesh=e;for(let m=0;m<this.count;m++){h.index=m;for(let d=0;d<3;d++)h.position[d]=s[m*3+d],h.normal[d]=o?o[m*3+d]:0,h.color[d]=c?c[m*3+d]:1;h.uv[0]=l?l[m*2]:0,h.uv[1]=l?l[m*2+1]:0,u.varyings.fill(0),t.vertex(h,r,u);let p=u.position;this.project(m,p[0],p[1],p[2],p[3]),this.varyings.set(u.varyings,m*De)}}transformVertices(e){for(let t=0;t<e.length;t++)this.transformVertex(e[t])}transformVertex(e){let{world:t,normal:r,positions:n,normals:i}=this,a=this.mvp,s=this.model,o=this.normalMatrix,l=n[e*3],c=n[e*3+1],h=n[e*3+2];if(this.project(e,a[0]*l+a[1]*c+a[2]*h+a[3],a[4]*l+a[5]*c+a[6]*h+a[7],a[8]*l+a[9]*c+a[10]*h+a[11],a[12]*l+a[13]*c+a[14]*h+a[15]),t[e*3]=s[0]*l+s[1]*c+s[2]*h+s[3],t[e*3+1]=s[4]*l+s[5]*c+s[6]*h+s[7],t[e*3+2]=s[8]*l+s[9]*c+s[10]*h+s[11],i){let u=i[e*3],m=i[e*3+1],p=i[e*3+2],d=o[0]*u+o[1]*m+o[2]*p,y=o[3]*u+o[4]*m+o[5]*p,b=o[6]*u+o[7]*m+o[8]*p,w=Math.hypot(d,y,b)||1;r[e*3]=d/w,r[e*3+1]=y/w,r[e*3+2]=b/w}else r[e*3]=r[e*3+1]=r[e*3+2]=0}project(e,t,r,n,i){let{clip:a,screen:s,recipW:o,outcode:l,width:c,height:h,gridSize:u}=this;a[e*4]=t,a[e*4+1]=r,a[e*4+2]=n,a[e*4+3]=i;let m=0;if(i+n<0)m|=1;if(i-n<0)m|=2;if(i+t<0)m|=4;if(i-t<0)m|=8;if(i+r<0)m|=16;if(i-r<0)m|=32;l[e]=m;let p=1/i;o[e]=p;let d=(t*p*0.5+0.5)*c,y=(1-(r*p*0.5+0.5))*h;if(u>0)d=Math.round(d/u)*u,y=Math.round(y/u)*u;s[e*3]=d,s[e*3+1]=y,s[e*3+2]=n*p*0.5+0.5}reserve(e){if(e<=this.outcode.length)return;let t=Math.max(e,this.outcode.length*2);this.clip=new Float64Array(t*4),this.screen=new Float64Array(t*3),this.recipW=new Float64Array(t),this.world=new Float64Array(t*3),this.normal=new Float64Array(t*3),this.outcode=new Uint8Array(t),this.varyings=new Float64Array(t*De)}}function ri(){return{mapSize:1024,bias:0.003,normalBias:1.5,pcfRadius:1}}var Qi=Ft(Xe()),Zi=[0],ea=0.05;class Yr{size=0;depth=new Float32Array(0);shared;stage=new Yt;verts=new Float64Array(3*se.VERTEX_STRIDE);packed=new Float64Array(se.TRIANGLE_STRIDE);mvp=new Float32Array(16);state={materials:[],lights:{ambient:{x:0,y:0,z:0},lights:[]},eye:{x:0,y:0,z:0},linear:!1,draws:[]};constructor(e=!1){this.shared=e}render(e,t){let r=ta(t);if(r.length===0)return null;let n=e.type==="directional"?this.fitDirectional(e,r):this.fitSpot(e,r);if(!n)return null;let i=e.shadow;this.reserve(i.mapSize),this.depth.fill(Number.POSITIVE_INFINITY);for(let a of t)this.drawCaster(a,n.matrix);return{matrix:n.matrix,size:this.size,depth:this.depth,perspective:e.type==="spot",near:n.near,far:n.far,texelSize:n.extent/this.size,bias:i.bias,normalBias:i.normalBias,pcfRadius:Math.max(0,Math.floor(i.pcfRadius))}}fitDirectional(e,t){let r=Oe(e.getWorldDirection()),n={x:0,y:0,z:0};for(let p of t)n.x+=p.x/t.length,n.y+=p.y/t.length,n.z+=p.z/t.length;let i=Math.abs(r.y)>0.99?{x:1,y:0,z:0}:{x:0,y:1,z:0},a=jt(dt(n,Kt(r,-1)),n,i),s={x:1/0,y:1/0,z:1/0},o={x:-1/0,y:-1/0,z:-1/0};for(let p of t){let d=Mt(a,p);s.x=Math.min(s.x,d.x),o.x=Math.max(o.x,d.x),s.y=Math.min(s.y,d.y),o.y=Math.max(o.y,d.y),s.z=Math.min(s.z,d.z),o.z=Math.max(o.z,d.z)}let l=Math.max(o.x-s.x,o.y-s.y,o.z-s.z,0.001)*0.01,c=-o.z-l,h=-s.z+l,u=Wt(s.x-l,o.x+l,s.y-l,o.y+l,c,h),m=Math.max(o.x-s.x,o.y-s.y)+2*l;return{matrix:ft(u,a),near:c,far:h,extent:m}}fitSpot(e,t){let r=e.getWorldPosition(),n=Oe(e.getWorldDirection()),i=Math.abs(n.y)>0.99?{x:1,y:0,z:0}:{x:0,y:1,z:0},a=jt(r,dt(r,n),i),s=1/0,o=0;for(let p of t){let d=-Mt(a,p).z;s=Math.min(s,d),o=Math.max(o,d)}if(o<=0)return null;let l=o*1.01;if(e.range>0)l=Math.min(l,e.range);let c=Math.max(l*0.001,s*0.99);if(c>=l)return null;let h=Math.min(2*Math.max(e.outerAngle,e.innerAngle)+ea,Math.PI*0.95),u=nr(h,1,c,l),m=2*Math.tan(h/2);return{matrix:ft(u,a),near:c,far:l,extent:m}}drawCaster(e,t){let{mesh:r,model:n}=e,i=this.stage,a=this.verts,s=this.packed,o=se.VERTEX_STRIDE,l={width:this.size,height:this.size,samples:1,littleEndian:!0,data32:new Uint32Array(0),zBuffer:this.depth,hdr:null,accum:null,revealage:null};i.transform(r,ft(t,n,this.mvp),n,Qi,this.size,this.size);let{outcode:c,screen:h,recipW:u}=i,m=r.indices;for(let p=0;p<m.length;p+=3){let d=m[p],y=m[p+1],b=m[p+2];if(c[d]&c[y]&c[b])continue;if((c[d]|c[y]|c[b])&1)continue;for(let w=0;w<3;w++){let g=m[p+w],M=w*o;a[M]=h[g*3],a[M+1]=h[g*3+1],a[M+2]=h[g*3+2],a[M+3]=u[g]}if(!se.packTriangle(s,0,a,0,1,2,0,!1,0,0,0,0,null))continue;se.rasterizeTile(s,Zi,0,1,0,0,this.size,this.size,l,this.state)}}reserve(e){if(e=Math.max(1,Math.floor(e)),e===this.size)return;this.size=e;let t=this.shared?SharedArrayBuffer:ArrayBuffer;this.depth=new Float32Array(new t(e*e*4))}}function ta(e){let t=[];for(let{mesh:r,model:n}of e){if(r.indices.length===0)continue;let{min:i,max:a}=r.boundingBox;for(let s=0;s<8;s++)t.push(Mt(n,{x:s&1?a.x:i.x,y:s&2?a.y:i.y,z:s&4?a.z:i.z}))}return t}class Xr{type="directional";direction;color;intensity;node=null;castShadow=!1;shadow=ri();constructor(e,t,r){this.direction=e,this.color=t,this.intensity=r}getWorldDirection(){return this.node?ir(this.node.worldMatrix,this.direction):this.direction}}function Le(e){return e<=0.04045?e/12.92:Math.pow((e+0.055)/1.055,2.4)}function ni(e){return e<=0.0031308?e*12.92:1.055*Math.pow(e,0.4166666666666667)-0.055}class lr{width;height;littleEndian;samples;shared;buffer;buf8;data32;zBuffer;hdr;accum;revealage;constructor(e,t,r=!1,n=1,i=!1,a=!1){this.width=e,this.height=t,this.shared=r,this.samples=n;let s=r?SharedArrayBuffer:ArrayBuffer;this.buffer=new s(e*t*n*4),this.buf8=new Uint8ClampedArray(this.buffer),this.data32=new Uint32Array(this.buffer),this.zBuffer=new Float32Array(new s(e*t*n*4)),this.hdr=i?new Float32Array(new s(e*t*n*16)):null,this.accum=a?new Float32Array(new s(e*t*n*16)):null,this.revealage=a?new Float32Array(new s(e*t*n*4)):null;let o=new Uint32Array([168496141]),l=new Uint8Array(o.buffer);this.littleEndian=l[0]===13,this.clearZ()}clear(e=0,t=0,r=0,n=255){this.data32.fill(this.packRGBA(e,t,r,n));let i=this.hdr;if(i){this.writeLinear(0,e,t,r,n);let a=i[0],s=i[1],o=i[2],l=i[3];for(let c=4;c<i.length;c+=4)i[c]=a,i[c+1]=s,i[c+2]=o,i[c+3]=l}this.accum?.fill(0),this.revealage?.fill(1)}clearZ(){this.zBuffer.fill(Number.POSITIVE_INFINITY)}packRGBA(e,t,r,n=255){if(this.littleEndian)return n<<24|r<<16|t<<8|e;else return e<<24|t<<16|r<<8|n}get byteLength(){return this.buffer.byteLength+this.zBuffer.byteLength+(this.hdr?.byteLength??0)+(this.accum?.byteLength??0)+(this.revealage?.byteLength??0)}setPixel(e,t,r,n,i,a=255){if(e<0||e>=this.width||t<0||t>=this.height)return;let s=(t*this.width+e)*this.samples;this.data32.fill(this.packRGBA(r|0,n|0,i|0,a|0),s,s+this.samples);for(let o=s;this.hdr&&o<s+this.samples;o++)this.writeLinear(o,r,n,i,a)}getPixel(e,t){let r=(t*this.width+e)*this.samples*4;return[this.buf8[r],this.buf8[r+1],this.buf8[r+2],this.buf8[r+3]]}depthToGrayscale(){let e=1/0,t=-1/0;for(let i=0;i<this.zBuffer.length;i++){let a=this.zBuffer[i];if(a===Number.POSITIVE_INFINITY)continue;if(a<e)e=a;if(a>t)t=a}let r=t>e?t-e:1,n=new Uint8Array(this.zBuffer.length);for(let i=0;i<this.zBuffer.length;i++){let a=this.zBuffer[i];n[i]=a===Number.POSITIVE_INFINITY?255:Math.round((a-e)/r*255)}return n}plot(e,t,r,n,i,a,s=255){let o=this.samples,l=this.zBuffer,c=(t*this.width+e)*o,h=this.packRGBA(n|0,i|0,a|0,s|0);for(let u=c;u<c+o;u++){if(r>=l[u])continue;if(l[u]=r,this.data32[u]=h,this.hdr)this.writeLinear(u,n,i,a,s)}}compositeTransparent(){let e=this.accum,t=this.revealage;if(!e||!t)return;let r=this.hdr,n=this.buf8;for(let i=0;i<t.length;i++){let a=t[i];if(a===1)continue;let s=i*4,o=Math.max(e[s+3],0.00001),l=1-a;for(let c=0;c<3;c++){let h=e[s+c]/o;if(r)r[s+c]=h*l+r[s+c]*a;else n[s+c]=h*255*l+n[s+c]*a}}}writeLinear(e,t,r,n,i){let a=this.hdr;a[e*4]=Le(t/255),a[e*4+1]=Le(r/255),a[e*4+2]=Le(n/255),a[e*4+3]=i/255}}function ii(){return{depthTest:!0,depthWrite:"auto",blend:"normal",opacity:1}}class cr{name;visible=!0;castShadow=!0;receiveShadow=!0;renderState=ii();shader=null;model=null;meshes=null;camera=null;light=null;meshRenderStates=new Map;_position={x:0,y:0,z:0};_rotation=Yn();_scale={x:1,y:1,z:1};_parent=null;_children=[];localMatrix=Xe();_worldMatrix=Xe();_normalMatrix=Ft(Xe());localDirty=!0;worldDirty=!0;constructor(e="node"){this.name=e}get position(){return this._position}set position(e){this._position={x:e.x,y:e.y,z:e.z},this.markDirty()}get rotation(){return this._rotation}set rotation(e){this._rotation=$n(e),this.markDirty()}get scale(){return this._scale}set scale(e){this._scale={x:e.x,y:e.y,z:e.z},this.markDirty()}setPosition(e,t,r){return this.position={x:e,y:t,z:r},this}setScale(e,t=e,r=e){return this.scale={x:e,y:t,z:r},this}rotate(e,t){return this.rotation=Xn(this._rotation,ar(e,t)),this}markDirty(){this.localDirty=!0,this.worldDirty=!0}get parent(){return this._parent}get children(){return this._children}add(e){if(e===this)throw Error("A scene node cannot be its own child");for(let t=this;t;t=t._parent)if(t===e)throw Error("Adding this node would create a cycle in the scene graph");return e._parent?.remove(e),e._parent=this,e.worldDirty=!0,this._children.push(e),e}remove(e){let t=this._children.indexOf(e);if(t<0)return;this._children.splice(t,1),e._parent=null,e.worldDirty=!0}traverse(e){e(this);for(let t of this._children)t.traverse(e)}find(e){if(this.name===e)return this;for(let t of this._children){let r=t.find(e);if(r)return r}return null}attachModel(e,t=null){return this.model=e,this.meshes=t,this}getRenderState(e){return this.meshRenderStates.get(e)??this.renderState}setRenderState(e,t){if(!t)return Object.assign(this.renderState,e),this;return this.meshRenderStates.set(t,{...this.getRenderState(t),...e}),this}attachCamera(e){return this.camera=e,e.node=this,this}attachLight(e){return this.light=e,e.node=this,this}updateWorldMatrix(e=!1){if(this.localDirty)this.localMatrix=Kn(this._position,this._rotation,this._scale),this.localDirty=!1;let t=e||this.worldDirty;if(t)this._worldMatrix=this._parent?ft(this._parent._worldMatrix,this.localMatrix):this.localMatrix,this._normalMatrix=Ft(this._worldMatrix),this.worldDirty=!1;for(let r of this._children)r.updateWorldMatrix(t)}get worldMatrix(){return this._worldMatrix}get normalMatrix(){return this._normalMatrix}}class $r{canvas;ctx;imageData;autoSize;constructor(e,t={}){if(this.canvas=typeof e==="string"?document.getElementById(e):e,!this.canvas)throw Error(`Canvas not found: ${e}`);this.ctx=this.canvas.getContext("2d"),this.autoSize=t.autoSize??!1,this.updateSize(),this.imageData=this.ctx.createImageData(this.canvas.width,this.canvas.height)}get width(){return this.canvas.width}get height(){return this.canvas.height}updateSize(){if(!this.autoSize)return;let e=window.devicePixelRatio||1,t=Math.max(1,Math.round(this.canvas.clientWidth*e)),r=Math.max(1,Math.round(this.canvas.clientHeight*e));if(this.canvas.width!==t)this.canvas.width=t;if(this.canvas.height!==r)this.canvas.height=r}present(e){if(this.imageData.width!==e.width||this.imageData.height!==e.height)this.imageData=this.ctx.createImageData(e.width,e.height);this.imageData.data.set(e.buf8),this.ctx.putImageData(this.imageData,0,0)}drawText(e,t,r){this.ctx.fillStyle="white",this.ctx.font="16px monospace",this.ctx.fillText(e,t,r)}}var hr={name:"default",kd:[0.7843137254901961,0.47058823529411764,0.23529411764705882],ks:[0.7843137254901961,0.47058823529411764,0.23529411764705882],ns:16,illum:2};function qr(e,t,r=!1){let n=(o)=>r?{x:Le(o[0])*255,y:Le(o[1])*255,z:Le(o[2])*255}:{x:o[0]*255,y:o[1]*255,z:o[2]*255},i=(o)=>o&&t?.[o]||null,a=i(e.mapKd),s=e.kd??(e.mapKd?[1,1,1]:hr.kd);return{name:e.name,ambient:n(e.ka&&e.ka.some((o)=>o>0)?e.ka:s),diffuse:n(s),specular:n(e.ks??[0,0,0]),emissive:n(e.ke??[0,0,0]),shininess:e.ns??hr.ns,opacity:e.d??1,illum:e.illum??2,mapKd:a,mapKs:i(e.mapKs),mapBump:i(e.mapBump),bumpScale:e.bumpScale??1,mapNorm:i(e.mapNorm),alphaCutoff:e.alphaCutoff??0,doubleSided:e.doubleSided??!1}}var ur={x:0,y:0,z:0};function ai(e,t,r,n=!1){let i=(l,c)=>n?{x:Le(l.x)*c,y:Le(l.y)*c,z:Le(l.z)*c}:{x:l.x*c,y:l.y*c,z:l.z*c},a={x:0,y:0,z:0},s=[],o=!1;for(let l of e){let c=l.intensity,h={type:"directional",color:ur,groundColor:ur,position:ur,direction:ur,range:0,constant:1,linear:0,quadratic:0,cosInner:1,cosOuter:1,shadow:r?.get(l)??null};switch(l.type){case"ambient":o=!0;let u=i(l.color,c);a.x+=u.x,a.y+=u.y,a.z+=u.z;continue;case"hemisphere":o=!0,h.type="hemisphere",h.color=i(l.skyColor,c),h.groundColor=i(l.groundColor,c),h.direction=Oe(l.getWorldUp());break;case"directional":h.color=i(l.color,c),h.direction=Oe(l.getWorldDirection());break;case"point":case"spot":if(h.type=l.type,h.color=i(l.color,c),h.position=l.getWorldPosition(),h.range=l.range,h.constant=l.attenuation.constant,h.linear=l.attenuation.linear,h.quadratic=l.attenuation.quadratic,l.type==="spot")h.direction=Oe(l.getWorldDirection()),h.cosInner=Math.cos(l.innerAngle),h.cosOuter=Math.cos(Math.max(l.outerAngle,l.innerAngle));break}s.push(h)}if(!o)a.x=a.y=a.z=t;return{ambient:a,lights:s}}var lo=new Float64Array(6);var ra="node:worker_threads";function na(e,t){let r=null,n=[],i=[],a=(o)=>{try{return Function(`return (${o});`)()}catch{let l=Function(`return ({ ${o} });`)();return l[Object.keys(l)[0]]}},s=(o)=>{if(o.type==="init")r={width:o.width,height:o.height,samples:o.samples,littleEndian:o.littleEndian,data32:new Uint32Array(o.color),zBuffer:new Float32Array(o.depth),hdr:o.hdr?new Float32Array(o.hdr):null,accum:o.accum?new Float32Array(o.accum):null,revealage:o.revealage?new Float32Array(o.revealage):null};else if(o.type==="materials")n=o.materials;else if(o.type==="programs")for(let l of o.sources)i.push(a(l));else if(o.type==="frame")try{let l=o.draws.map((m)=>({fragment:i[m.program],uniforms:m.uniforms,varyings:m.varyings})),c={materials:n,lights:o.lights,eye:o.eye,linear:o.linear,draws:l},h=o.tilesX*o.tilesY,u=o.tileSize;for(let m=Atomics.add(o.counter,0,1);m<h;m=Atomics.add(o.counter,0,1)){let p=m%o.tilesX*u,d=Math.floor(m/o.tilesX)*u;e.rasterizeTile(o.triangles,o.binItems,o.binOffsets[m],o.binOffsets[m+1],p,d,p+u,d+u,r,c)}t.postMessage({type:"done"})}catch(l){t.postMessage({type:"error",message:String(l?.stack??l)})}};if(typeof t.on==="function")t.on("message",s);else t.onmessage=(o)=>s(o.data)}var oi=`"use strict";
+const port = typeof self !== "undefined" ? self : require("node:worker_threads").parentPort;
+(${na.toString()})((${Cr.toString()})(), port);
+`;class Xt{workers=[];remaining=0;settle=null;materialsVersion=-1;programs=new Map;constructor(){}static isSupported(){return typeof SharedArrayBuffer<"u"&&globalThis.crossOriginIsolated!==!1}static async create(e,t){if(!t.shared)throw Error("RasterPool needs a shared framebuffer");let r=new Xt;for(let n=0;n<e;n++){let i=await r.spawn();i.postMessage({type:"init",color:t.buffer,depth:t.zBuffer.buffer,hdr:t.hdr?.buffer??null,accum:t.accum?.buffer??null,revealage:t.revealage?.buffer??null,width:t.width,height:t.height,samples:t.samples,littleEndian:t.littleEndian}),r.workers.push(i)}return r}get size(){return this.workers.length}run(e,t,r){if(this.settle)return Promise.reject(Error("RasterPool is already running a frame"));if(r!==this.materialsVersion)this.broadcast({type:"materials",materials:t.materials}),this.materialsVersion=r;return new Promise((n,i)=>{this.remaining=this.workers.length,this.settle=(o)=>{this.settle=null;for(let l of this.workers)l.unref?.();if(o)i(o);else n()};for(let o of this.workers)o.ref?.();let a=new Int32Array(new SharedArrayBuffer(4)),s=this.workerDraws(t);this.broadcast({type:"frame",counter:a,lights:t.lights,eye:t.eye,linear:t.linear,draws:s,...e})})}dispose(){for(let e of this.workers)e.terminate();this.workers=[],this.programs.clear(),this.settle?.(Error("RasterPool disposed"))}workerDraws(e){let t=[],r=e.draws.map(({fragment:n,uniforms:i,varyings:a})=>{let s=n.toString(),o=this.programs.get(s);if(o===void 0)o=this.programs.size,this.programs.set(s,o),t.push(s);let{material:l,lights:c,eye:h,linear:u,...m}=i;return{program:o,uniforms:m,varyings:a}});if(t.length)this.broadcast({type:"programs",sources:t});return r}broadcast(e){for(let t of this.workers)t.postMessage(e)}onReply(e){if(!this.settle)return;if(e.type==="error")this.settle(Error(`Raster worker failed: ${e.message}`));else if(--this.remaining===0)this.settle()}onError(e){this.settle?.(e instanceof Error?e:Error(String(e?.message??e)))}async spawn(){if(typeof Worker<"u"){let r=URL.createObjectURL(new Blob([oi],{type:"text/javascript"})),n=new Worker(r);return n.onmessage=(i)=>this.onReply(i.data),n.onerror=(i)=>this.onError(i),n}let{Worker:e}=await import(ra),t=new e(oi,{eval:!0});return t.on("message",(r)=>this.onReply(r)),t.on("error",(r)=>this.onError(r)),t.unref(),t}}var mr=new Float64Array(3),Ot=new Float64Array(6);function Jr(e,t,r,n){let i=t.modelMatrix,a=e.position;r.varyings[n]=i[0]*a[0]+i[1]*a[1]+i[2]*a[2]+i[3],r.varyings[n+1]=i[4]*a[0]+i[5]*a[1]+i[6]*a[2]+i[7],r.varyings[n+2]=i[8]*a[0]+i[9]*a[1]+i[10]*a[2]+i[11]}function si(e,t,r,n){let i=t.normalMatrix,a=e.normal,s=i[0]*a[0]+i[1]*a[1]+i[2]*a[2],o=i[3]*a[0]+i[4]*a[1]+i[5]*a[2],l=i[6]*a[0]+i[7]*a[1]+i[8]*a[2],c=Math.hypot(s,o,l)||1;r.varyings[n]=s/c,r.varyings[n+1]=o/c,r.varyings[n+2]=l/c}function Qr(e,t,r,n){for(let i=0;i<3;i++){let a=e.color[i];r.varyings[n+i]=(t.linear?Le(a):a)*255}}function li(e,t,r,n,i,a){let s=e[t]-e[0],o=e[t+1]-e[1],l=e[t+2]-e[2],c=e[2*t]-e[0],h=e[2*t+1]-e[1],u=e[2*t+2]-e[2],m=o*u-l*h,p=l*c-s*u,d=s*h-o*c,y=(Math.hypot(m,p,d)||1)*(a?-1:1);for(let b=0;b<n;b++){let w=b*t+i;r[w]=m/y,r[w+1]=p/y,r[w+2]=d/y}}function ci(e,t,r,n,i,a,s){if(!a.attributes.normals){li(e,t,r,n,i,s);return}for(let o=0;o<n;o++){let l=o*t+i,c=(Math.hypot(r[l],r[l+1],r[l+2])||1)*(s?-1:1);r[l]/=c,r[l+1]/=c,r[l+2]/=c}}class Zr{varyings=8;uniforms={};vertex(e,t,r){sr(e,t,r),Jr(e,t,r,0),r.varyings[3]=e.uv[0],r.varyings[4]=e.uv[1],Qr(e,t,r,5)}triangle(e,t,r,n,i){let a=this.varyings;li(e,a,mr,1,0,i),se.shade((e[0]+e[a]+e[2*a])/3,(e[1]+e[a+1]+e[2*a+1])/3,(e[2]+e[a+2]+e[2*a+2])/3,mr[0],mr[1],mr[2],0,0,0,!1,n.receiveShadows,n.lights,n.material,Ot);let s=n.attributes.colors;for(let o=0;o<r;o++){let l=o*a+5;for(let c=0;c<3;c++)t[l+c]=s?t[l+c]*(Ot[c]/255):Ot[c]}}fragment(e,t,r,n){let i=e[5],a=e[6],s=e[7],o=t.material.mapKd;if(o&&t.attributes.uvs){let l=n.texel,c=o.mipmaps==="none"?0:n.computeLod(o,n.dFdx(3),n.dFdx(4),n.dFdy(3),n.dFdy(4));if(n.sampleTexture(o,e[3],e[4],c,l),r[3]=l[3]/255,t.linear)n.decodeTexel(l);i*=l[0]/255,a*=l[1]/255,s*=l[2]/255}if(r[3]<t.material.alphaCutoff)return!1;r[0]=i/255,r[1]=a/255,r[2]=s/255}}class en{varyings=14;uniforms={};vertex(e,t,r){sr(e,t,r),Jr(e,t,r,0),si(e,t,r,3),r.varyings[6]=e.uv[0],r.varyings[7]=e.uv[1],Qr(e,t,r,8)}triangle(e,t,r,n,i){let a=this.varyings,s=n.eye;ci(e,a,t,r,3,n,i);let o=n.attributes.colors;for(let l=0;l<r;l++){let c=l*a,h=t[c],u=t[c+1],m=t[c+2],p=s.x-h,d=s.y-u,y=s.z-m,b=Math.hypot(p,d,y)||1;p/=b,d/=b,y/=b,se.shade(h,u,m,t[c+3],t[c+4],t[c+5],p,d,y,!0,n.receiveShadows,n.lights,n.material,Ot);for(let w=0;w<3;w++)t[c+8+w]=Ot[w]*(o?t[c+8+w]/255:1),t[c+11+w]=Ot[3+w]}}fragment(e,t,r,n){let i=e[8],a=e[9],s=e[10],o=e[11],l=e[12],c=e[13],{mapKd:h,mapKs:u}=t.material;if(t.attributes.uvs&&(h||u)){let m=n.texel,p=e[6],d=e[7];if(h){let y=h.mipmaps==="none"?0:n.computeLod(h,n.dFdx(6),n.dFdx(7),n.dFdy(6),n.dFdy(7));if(n.sampleTexture(h,p,d,y,m),r[3]=m[3]/255,t.linear)n.decodeTexel(m);i*=m[0]/255,a*=m[1]/255,s*=m[2]/255}if(u){if(n.sampleTexture(u,p,d,0,m),t.linear)n.decodeTexel(m);o*=m[0]/255,l*=m[1]/255,c*=m[2]/255}}if(r[3]<t.material.alphaCutoff)return!1;r[0]=(i+o)/255,r[1]=(a+l)/255,r[2]=(s+c)/255}}class tn{varyings=11;uniforms={};vertex(e,t,r){sr(e,t,r),Jr(e,t,r,0),si(e,t,r,3),r.varyings[6]=e.uv[0],r.varyings[7]=e.uv[1],Qr(e,t,r,8)}triangle(e,t,r,n,i){ci(e,this.varyings,t,r,3,n,i)}fragment(e,t,r,n){let i=t.material,a=t.attributes.uvs,s=e[0],o=e[1],l=e[2],c=e[6],h=e[7],u=Math.hypot(e[3],e[4],e[5])||1,m=n.normal;if(m[0]=e[3]/u,m[1]=e[4]/u,m[2]=e[5]/u,a&&(i.mapNorm||i.mapBump)){let X=n.dFdx(6),ce=n.dFdx(7),ue=n.dFdy(6),ie=n.dFdy(7),K=X*ie-ce*ue;if(K!==0){let Ee=n.frame;for(let pe=0;pe<3;pe++){let Re=n.dFdx(pe),C=n.dFdy(pe);Ee[pe]=(Re*ie-C*ce)/K,Ee[pe+3]=(C*X-Re*ue)/K}n.perturbNormal(i,Ee,0,c,h,m)}}let p=t.eye,d=p.x-s,y=p.y-o,b=p.z-l,w=Math.hypot(d,y,b)||1;d/=w,y/=w,b/=w;let g=n.light;n.shade(s,o,l,m[0],m[1],m[2],d,y,b,!0,t.receiveShadows,t.lights,i,g);let M=g[0],x=g[1],v=g[2],A=g[3],S=g[4],z=g[5];if(t.attributes.colors)M*=e[8]/255,x*=e[9]/255,v*=e[10]/255;let{mapKd:L,mapKs:H}=i;if(a&&(L||H)){let X=n.texel;if(L){let ce=L.mipmaps==="none"?0:n.computeLod(L,n.dFdx(6),n.dFdx(7),n.dFdy(6),n.dFdy(7));if(n.sampleTexture(L,c,h,ce,X),r[3]=X[3]/255,t.linear)n.decodeTexel(X);M*=X[0]/255,x*=X[1]/255,v*=X[2]/255}if(H){if(n.sampleTexture(H,c,h,0,X),t.linear)n.decodeTexel(X);A*=X[0]/255,S*=X[1]/255,z*=X[2]/255}}if(r[3]<t.material.alphaCutoff)return!1;r[0]=(M+A)/255,r[1]=(x+S)/255,r[2]=(v+z)/255}}function hi(e,t=256){let{positions:r,indices:n}=e,i=n.length/3,a=new Float32Array(i*3);for(let h=0;h<i;h++)for(let u=0;u<3;u++)a[h*3+u]=(r[n[h*3]*3+u]+r[n[h*3+1]*3+u]+r[n[h*3+2]*3+u])/3;let s=new Uint32Array(i);for(let h=0;h<i;h++)s[h]=h;let o=new Int32Array(r.length/3).fill(-1),l=0,c=(h,u)=>{let m={x:1/0,y:1/0,z:1/0},p={x:-1/0,y:-1/0,z:-1/0},d=[1/0,1/0,1/0],y=[-1/0,-1/0,-1/0];for(let M=h;M<h+u;M++){let x=s[M];for(let v=0;v<3;v++){let A=n[x*3+v]*3;m.x=Math.min(m.x,r[A]),p.x=Math.max(p.x,r[A]),m.y=Math.min(m.y,r[A+1]),p.y=Math.max(p.y,r[A+1]),m.z=Math.min(m.z,r[A+2]),p.z=Math.max(p.z,r[A+2])}for(let v=0;v<3;v++)d[v]=Math.min(d[v],a[x*3+v]),y[v]=Math.max(y[v],a[x*3+v])}if(u<=t){let M=l++,x=[];for(let v=h;v<h+u;v++)for(let A=0;A<3;A++){let S=n[s[v]*3+A];if(o[S]===M)continue;o[S]=M,x.push(S)}return{min:m,max:p,start:h,count:u,left:null,right:null,vertices:new Uint32Array(x)}}let b=[y[0]-d[0],y[1]-d[1],y[2]-d[2]],w=b[0]>=b[1]&&b[0]>=b[2]?0:b[1]>=b[2]?1:2;s.subarray(h,h+u).sort((M,x)=>a[M*3+w]-a[x*3+w]);let g=u>>1;return{min:m,max:p,start:h,count:u,left:c(h,g),right:c(h+g,u-g),vertices:null}};return{root:c(0,i),triangles:s}}function ui(e,t,r){if(e.hdr&&t.hdr){ia(e,t,r);return}let{width:n,height:i}=t,a=e.buf8,s=t.buf8,o=e.zBuffer,l=t.zBuffer,c=r*r;for(let h=0;h<i;h++)for(let u=0;u<n;u++){let m=0,p=0,d=0,y=0,b=Number.POSITIVE_INFINITY;for(let g=h*r;g<(h+1)*r;g++)for(let M=u*r;M<(u+1)*r;M++){let x=g*e.width+M;if(m+=a[x*4],p+=a[x*4+1],d+=a[x*4+2],y+=a[x*4+3],o[x]<b)b=o[x]}let w=h*n+u;s[w*4]=Math.round(m/c),s[w*4+1]=Math.round(p/c),s[w*4+2]=Math.round(d/c),s[w*4+3]=Math.round(y/c),l[w]=b}}function ia(e,t,r){let{width:n,height:i}=t,a=e.hdr,s=t.hdr,o=e.zBuffer,l=t.zBuffer,c=1/(r*r);for(let h=0;h<i;h++)for(let u=0;u<n;u++){let m=h*n+u;s.fill(0,m*4,m*4+4);let p=Number.POSITIVE_INFINITY;for(let d=h*r;d<(h+1)*r;d++)for(let y=u*r;y<(u+1)*r;y++){let b=d*e.width+y;for(let w=0;w<4;w++)s[m*4+w]+=a[b*4+w]*c;if(o[b]<p)p=o[b]}l[m]=p}}function mi(e,t){let{samples:r,buf8:n}=e,i=t.buf8,a=e.zBuffer,s=t.zBuffer,o=t.width*t.height,l=e.hdr,c=t.hdr;if(l&&c){let h=1/r;for(let u=0;u<o;u++){c.fill(0,u*4,u*4+4);let m=Number.POSITIVE_INFINITY;for(let p=u*r;p<(u+1)*r;p++){for(let d=0;d<4;d++)c[u*4+d]+=l[p*4+d]*h;if(a[p]<m)m=a[p]}s[u]=m}return}for(let h=0;h<o;h++){let u=0,m=0,p=0,d=0,y=Number.POSITIVE_INFINITY;for(let b=h*r;b<(h+1)*r;b++)if(u+=n[b*4],m+=n[b*4+1],p+=n[b*4+2],d+=n[b*4+3],a[b]<y)y=a[b];i[h*4]=Math.round(u/r),i[h*4+1]=Math.round(m/r),i[h*4+2]=Math.round(p/r),i[h*4+3]=Math.round(d/r),s[h]=y}}var aa=0.125,oa=0.0312,sa=0.75,la=12;function pi(e,t){return e*t*8}function fi(e,t){let{width:r,height:n,buf8:i}=e,a=r*n,s=new Float32Array(t,0,a),o=new Uint8ClampedArray(t,a*4,a*4);o.set(i);for(let c=0;c<a;c++)s[c]=(0.299*o[c*4]+0.587*o[c*4+1]+0.114*o[c*4+2])/255;let l=(c,h)=>s[(h<0?0:h>=n?n-1:h)*r+(c<0?0:c>=r?r-1:c)];for(let c=0;c<n;c++)for(let h=0;h<r;h++){let u=s[c*r+h],m=l(h,c-1),p=l(h,c+1),d=l(h-1,c),y=l(h+1,c),b=Math.max(u,m,p,d,y),w=Math.min(u,m,p,d,y),g=b-w;if(g<Math.max(oa,b*aa))continue;let M=l(h-1,c-1),x=l(h+1,c-1),v=l(h-1,c+1),A=l(h+1,c+1),S=Math.abs(M-2*d+v)+2*Math.abs(m-2*u+p)+Math.abs(x-2*y+A)>=Math.abs(M-2*m+x)+2*Math.abs(d-2*u+y)+Math.abs(v-2*p+A),z=S?m:d,L=S?p:y,H=Math.abs(z-u),X=Math.abs(L-u),ce=H>=X,ue=ce?z:L,ie=Math.max(H,X)*0.25,K=(u+ue)*0.5,Ee=ce?-1:1,pe=S?h:h+Ee,Re=S?c+Ee:c,C=S?1:0,ee=S?0:1,Y=1,te=1,de=0,q=0,ye=!1,$e=!1;for(let fe=1;fe<=la&&!(ye&&$e);fe++){if(!ye)de=(l(h-C*fe,c-ee*fe)+l(pe-C*fe,Re-ee*fe))*0.5-K,ye=Math.abs(de)>=ie,Y=fe;if(!$e)q=(l(h+C*fe,c+ee*fe)+l(pe+C*fe,Re+ee*fe))*0.5-K,$e=Math.abs(q)>=ie,te=fe}let Et=(Y<te?de:q)<0!==u<K?0.5-Math.min(Y,te)/(Y+te):0,qe=(2*(m+p+d+y)+M+x+v+A)/12,Je=Math.min(1,Math.abs(qe-u)/g),Ue=Je*Je*(3-2*Je),st=Math.max(Et,Ue*Ue*sa);if(st<=0)continue;let Ge=(c*r+h)*4,kt=((Re<0?0:Re>=n?n-1:Re)*r+(pe<0?0:pe>=r?r-1:pe))*4;for(let fe=0;fe<3;fe++)i[Ge+fe]=o[Ge+fe]+(o[kt+fe]-o[Ge+fe])*st}}class rn{list;scratch=new Float32Array(0);constructor(e=[]){this.list=[...e]}get passes(){return this.list}get active(){return this.list.some((e)=>e.enabled!==!1)}add(e,t=this.list.length){return this.list.splice(t,0,e),this}remove(e){let t=this.list.indexOf(e);if(t!==-1)this.list.splice(t,1);return this}clear(){return this.list.length=0,this}run(e){if(this.scratch.length!==e.color.length)this.scratch=new Float32Array(e.color.length);let t=e.color,r=this.scratch;for(let n of this.list){if(n.enabled===!1)continue;n.render(t===e.color?e:{...e,color:t},r),[t,r]=[r,t]}return t}}var $t=4096;class nn{enabled=!0;gamma;table=new Float32Array($t+1);tableGamma=null;constructor(e="srgb"){this.gamma=e}render(e,t){let r=this.lookupTable(),n=e.color;for(let i=0;i<n.length;i+=4){for(let a=0;a<3;a++){let s=n[i+a];t[i+a]=r[s<=0?0:s>=1?$t:Math.round(s*$t)]}t[i+3]=n[i+3]}}lookupTable(){if(this.tableGamma!==this.gamma){let e=this.gamma;for(let t=0;t<=$t;t++){let r=t/$t;this.table[t]=e==="srgb"?ni(r):Math.pow(r,1/e)}this.tableGamma=e}return this.table}}var tt=64,Fe=se.VERTEX_STRIDE,{COLOR:rt,SPECULAR:an,NORMAL:nt,UV:pr,WORLD:yt,VARYINGS:fr}=se.vertexLayout,ke=se.attributes,di=9,ca=new Map([[Zr.prototype,"flat"],[en.prototype,"gouraud"],[tn.prototype,"phong"]]);function ha(e){if(Object.hasOwn(e,"vertex")||Object.hasOwn(e,"fragment")||Object.hasOwn(e,"triangle"))return;return ca.get(Object.getPrototypeOf(e))}var ua=[2,4,8],dr=5,yi=0.005;class on{target;framebuffer;output;width;height;ssaaScale;fxaaScratch=null;postProcess;postColor=new Float32Array(0);running=!1;timescale=0.001;scene=new cr("root");mainCamera=null;mainDirectionalLight=null;lights=[];activeCamera=null;activeLights={ambient:{x:0,y:0,z:0},lights:[]};activeNormalMatrix=Ft(Xe());activeEye={x:0,y:0,z:0};activeView=Xe();activeProjection=Xe();activeReceiveShadow=!0;activeShading;activeStateBits=0;activeAlpha=1;activeTransparent=!1;draws=[];activeDraw=-1;cornerVaryings=new Float64Array(3*De);polygonVaryings=new Float64Array(di*De);shadowMaps=new Map;tangentFrame=new Float64Array(6);hasTangentFrame=!1;onUpdate=null;onError=null;controllers=[];lastFrameTime=null;lastFpsUpdate=0;frameCount=0;fps=0;options;viewProj=Xe();mvp=Xe();vertexStage=new Yt;polygon=new Float64Array(di*Fe);lit=new Float64Array(6);clippedEdge=new Float64Array(6);planes=new Float64Array(24);stats={meshes:0,meshesCulled:0,triangles:0,trianglesCulled:0,clustersCulled:0,antialiasBytes:0,antialiasMs:0,postProcessMs:0,threads:0};triangles;triangleCount=0;tilesX;tilesY;bins;transparent=[];lines=[];pool=null;workersFailed=!1;activeMaterial;activeMaterialId=0;defaultMaterial;materialCache=new WeakMap;materialIds=new Map;materials=[];edgeCache=new WeakMap;bvhCache=new WeakMap;constructor(e,t={}){this.options=t,this.target=typeof e==="string"?new $r(e):e;let r=t.antialias??"none";if(this.ssaaScale=r==="ssaa"?Math.max(1,Math.floor(t.antialiasSamples??2)):1,r==="msaa"&&!ua.includes(t.antialiasSamples??4))throw Error(`Unsupported MSAA sample count: ${t.antialiasSamples} (use 2, 4 or 8)`);this.allocateBuffers(Math.max(1,this.target.width),Math.max(1,this.target.height),(t.threads??0)>0&&Xt.isSupported()),this.triangles=this.allocateTriangles(1024),this.postProcess=new rn(t.postProcess??(t.linearLighting?[new nn]:[])),this.defaultMaterial=qr(t.defaultMaterial??hr,void 0,t.linearLighting),this.activeMaterial=this.defaultMaterial}drawLine3DEFLA(e,t,r,n,i,a,s,o,l,c=255,h=0){let u=Jn(e,t,n,i,0,0,this.width-1,this.height-1);if(!u)return;let[m,p]=u,d=r+(a-r)*m,y=r+(a-r)*p,b=Math.round(e+(n-e)*m),w=Math.round(t+(i-t)*m),g=Math.round(e+(n-e)*p),M=Math.round(t+(i-t)*p),x=Math.abs(g-b),v=Math.abs(M-w),A=b<g?1:-1,S=w<M?1:-1,z=x>=v,L=z?x:v,X=L===0?0:((z?v:x)<<16)/L,ce=L===0?0:(y-d)/L,ue=0,ie=d;for(let K=0;K<=L;K++){if(b>=0&&b<this.width&&w>=0&&w<this.height)this.framebuffer.plot(b,w,ie-h*(1-ie),s,o,l,c);if(ue+=X,z)b+=A,w+=(ue>>16)*S;else w+=S,b+=(ue>>16)*A;ue&=65535,ie+=ce}}queueTriangle(e,t,r,n,i,a,s,o){let l=this.polygon,c=e*Fe,h=t*Fe,u=r*Fe,m=Math.max(0,Math.floor(Math.min(l[c],l[h],l[u]))),p=Math.min(this.width-1,Math.ceil(Math.max(l[c],l[h],l[u]))),d=Math.max(0,Math.floor(Math.min(l[c+1],l[h+1],l[u+1]))),y=Math.min(this.height-1,Math.ceil(Math.max(l[c+1],l[h+1],l[u+1])));if(m>p||d>y)return;let b=this.triangleCount;if((b+1)*se.TRIANGLE_STRIDE>this.triangles.length){let g=this.allocateTriangles(this.triangles.length/se.TRIANGLE_STRIDE*2);g.set(this.triangles),this.triangles=g}if(!se.packTriangle(this.triangles,b,l,e,t,r,n|this.activeStateBits,i,a,s,o,this.activeMaterialId,this.hasTangentFrame?this.tangentFrame:null,this.activeAlpha,this.activeDraw))return;if(this.triangleCount++,this.activeTransparent&&i){this.transparent.push(b,(l[c+2]+l[h+2]+l[u+2])/3,m,d,p,y);return}this.binTriangle(b,m,d,p,y)}binTriangle(e,t,r,n,i){for(let a=Math.floor(r/tt);a<=Math.floor(i/tt);a++)for(let s=Math.floor(t/tt);s<=Math.floor(n/tt);s++)this.bins[a*this.tilesX+s].push(e)}binTransparent(){let e=this.transparent,t=Array.from({length:e.length/6},(r,n)=>n*6);if(this.options.transparency!=="weighted")t.sort((r,n)=>e[n+1]-e[r+1]);for(let r of t)this.binTriangle(e[r],e[r+2],e[r+3],e[r+4],e[r+5])}allocateTriangles(e){let t=e*se.TRIANGLE_STRIDE*Float64Array.BYTES_PER_ELEMENT;return new Float64Array(this.framebuffer.shared?new SharedArrayBuffer(t):new ArrayBuffer(t))}materialId(e){let t=this.materialIds.get(e);if(t===void 0)t=this.materials.length,this.materials.push(e),this.materialIds.set(e,t);return t}rasterizeTiles(){let e=this.frameState();for(let t=0;t<this.bins.length;t++){let r=this.bins[t];if(!r.length)continue;let n=t%this.tilesX*tt,i=Math.floor(t/this.tilesX)*tt;se.rasterizeTile(this.triangles,r,0,r.length,n,i,n+tt,i+tt,this.framebuffer,e)}}frameState(){return{materials:this.materials,lights:this.activeLights,eye:this.activeEye,linear:this.options.linearLighting??!1,draws:this.draws}}tileJob(){let e=0;for(let i of this.bins)e+=i.length;let t=new Uint32Array(new SharedArrayBuffer((this.bins.length+1)*4)),r=new Uint32Array(new SharedArrayBuffer(Math.max(1,e)*4)),n=0;for(let i=0;i<this.bins.length;i++)t[i]=n,r.set(this.bins[i],n),n+=this.bins[i].length;return t[this.bins.length]=n,{triangles:this.triangles,binOffsets:t,binItems:r,tilesX:this.tilesX,tilesY:this.tilesY,tileSize:tt}}drawQueuedLines(){let e=this.lines;for(let t=0;t<e.length;t+=10)this.drawLine3DEFLA(e[t],e[t+1],e[t+2],e[t+3],e[t+4],e[t+5],e[t+6],e[t+7],e[t+8],255,e[t+9])}start(){if(this.running)return;this.running=!0,this.lastFpsUpdate=performance.now(),this.frameCount=0,this.lastFrameTime=null;let e=()=>{this.frameCount++;let n=performance.now();if(n-this.lastFpsUpdate>=1000)this.fps=this.frameCount,this.frameCount=0,this.lastFpsUpdate=n;if(this.target.drawText?.(`FPS: ${this.fps}`,10,20),this.running)requestAnimationFrame(r)},t=(n)=>{if(!this.running)return;this.running=!1;let i=n instanceof Error?n:Error(String(n));if(this.onError)this.onError(i);else setTimeout(()=>{throw i})},r=(n)=>this.renderFrameAsync(n).then(e,t);requestAnimationFrame(r)}stop(){this.running=!1}benchmark(e=300){this.running=!1;let t=performance.now();for(let i=0;i<e;i++)this.renderFrame(i);let r=performance.now(),n=e/((r-t)/1000);return this.target.drawText?.(`FPS: ${n.toFixed(2)}`,10,20),n}renderFrame(e){this.beginFrame(e),this.rasterizeTiles(),this.endFrame()}async renderFrameAsync(e){this.beginFrame(e);let t=this.getPool(),r=await t;if(r){this.stats.threads=r.size;try{await r.run(this.tileJob(),this.frameState(),this.materials.length)}catch(n){if(this.pool!==t)throw n;this.workerFailure(n),this.clearBuffers(),this.rasterizeTiles()}}else this.rasterizeTiles();this.endFrame()}workerFailure(e){this.workersFailed=!0,this.stats.threads=0,this.disposePool(),this.onError?.(e instanceof Error?e:Error(String(e)))}dispose(){this.stop(),this.disposePool()}disposePool(){let e=this.pool;this.pool=null,e?.then((t)=>t?.dispose())}resizeToTarget(){this.target.updateSize?.();let e=Math.max(1,this.target.width),t=Math.max(1,this.target.height);if(e===this.output.width&&t===this.output.height)return;this.allocateBuffers(e,t,this.framebuffer.shared),this.disposePool()}allocateBuffers(e,t,r){let n=this.options.antialias??"none",i=this.ssaaScale,a=n==="msaa"?this.options.antialiasSamples??4:1,s=this.options.linearLighting??!1;this.width=e*i,this.height=t*i;let o=this.options.transparency==="weighted";this.framebuffer=new lr(this.width,this.height,r,a,s,o),this.output=i>1||a>1?new lr(e,t,!1,1,s):this.framebuffer,this.fxaaScratch=n==="fxaa"?new ArrayBuffer(pi(e,t)):null,this.stats.antialiasBytes=this.output===this.framebuffer?this.fxaaScratch?.byteLength??0:this.framebuffer.byteLength,this.tilesX=Math.ceil(this.width/tt),this.tilesY=Math.ceil(this.height/tt),this.bins=Array.from({length:this.tilesX*this.tilesY},()=>[])}getPool(){if(!this.framebuffer.shared||this.workersFailed)return Promise.resolve(null);return this.pool??=Xt.create(this.options.threads??0,this.framebuffer).catch((e)=>(this.workerFailure(e),null)),this.pool}clearBuffers(){this.framebuffer.clear(20,20,30),this.framebuffer.clearZ()}beginFrame(e){this.resizeToTarget(),this.clearBuffers(),this.triangleCount=0;for(let r of this.bins)r.length=0;this.lines.length=0,this.transparent.length=0,this.draws.length=0;let t=this.stats;t.meshes=t.meshesCulled=t.triangles=t.trianglesCulled=t.clustersCulled=0,t.antialiasMs=t.postProcessMs=t.threads=0,this.renderPixel(e*this.timescale),this.binTransparent()}endFrame(){if(this.framebuffer.compositeTransparent(),this.drawQueuedLines(),this.resolve(),this.runPostProcess(),this.fxaaScratch){let e=performance.now();fi(this.output,this.fxaaScratch),this.stats.antialiasMs+=performance.now()-e}this.present()}resolve(){let e=performance.now();if(this.ssaaScale>1)ui(this.framebuffer,this.output,this.ssaaScale);else if(this.framebuffer.samples>1)mi(this.framebuffer,this.output);else return;this.stats.antialiasMs=performance.now()-e}runPostProcess(){let e=this.output;if(!e.hdr&&!this.postProcess.active)return;let t=performance.now(),r=e.hdr;if(!r){if(this.postColor.length!==e.buf8.length)this.postColor=new Float32Array(e.buf8.length);r=this.postColor;for(let a=0;a<r.length;a++)r[a]=e.buf8[a]/255}let n=this.postProcess.run({width:e.width,height:e.height,color:r,depth:e.zBuffer,linear:e.hdr!==null,projection:this.activeProjection,time:this.lastFrameTime??0}),i=e.buf8;for(let a=0;a<n.length;a++)i[a]=n[a]*255;this.stats.postProcessMs=performance.now()-t}getStats(){return{...this.stats}}getFramebuffer(){return this.output}getPostProcess(){return this.postProcess}exportFrame(e="png",t="color"){let{width:r,height:n}=this.output;if(t==="depth"){let i=this.output.depthToGrayscale();return e==="png"?Rr(i,r,n,"gray",1):Vr(i,r,n,!0,1)}return e==="png"?Rr(this.output.buf8,r,n,"rgba"):Vr(this.output.buf8,r,n)}renderPixel(e){let t=this.lastFrameTime===null?0:Math.max(0,e-this.lastFrameTime);this.lastFrameTime=e;for(let o of this.controllers)o.update(t);this.onUpdate?.(e),this.scene.updateWorldMatrix();let r=null,n=this.lights.slice();if(this.scene.traverse((o)=>{if(r??=o.camera,o.light&&o.visible&&!n.includes(o.light))n.push(o.light)}),this.activeCamera=this.mainCamera??r,!this.activeCamera)return;this.activeLights=ai(n,this.options.ambient??0.15,this.renderShadowMaps(n),this.options.linearLighting),this.activeEye=this.activeCamera.getWorldPosition();let i=this.activeView=this.activeCamera.getViewMatrix(),a=this.activeProjection=this.activeCamera.getProjectionMatrix(this.width/this.height),s=ft(a,i,this.viewProj);this.renderNode(this.scene,s),this.activeMaterial=this.defaultMaterial,this.activeStateBits=0,this.activeAlpha=1,this.activeTransparent=!1}renderShadowMaps(e){let t=new Map,r=e.filter((i)=>(i.type==="directional"||i.type==="spot")&&i.castShadow);for(let i of this.shadowMaps.keys())if(!r.includes(i))this.shadowMaps.delete(i);if(r.length===0)return t;let n=[];this.collectShadowCasters(this.scene,n);for(let i of r){let a=this.shadowMaps.get(i);if(!a)a=new Yr(this.framebuffer.shared),this.shadowMaps.set(i,a);let s=a.render(i,n);if(s)t.set(i,s)}return t}collectShadowCasters(e,t){if(!e.visible)return;if(e.model&&e.castShadow)for(let r of e.meshes??e.model.meshes)t.push({mesh:r,model:e.worldMatrix});for(let r of e.children)this.collectShadowCasters(r,t)}renderNode(e,t){if(!e.visible)return;if(e.model){let r=e.worldMatrix,n=ft(t,r,this.mvp);Zn(n,this.planes),this.activeNormalMatrix=e.normalMatrix,this.activeReceiveShadow=e.receiveShadow;let i=this.options.shading,a=e.shader??(typeof i==="object"?i:null),s=a&&ha(a);if(this.activeShading=s??(typeof i==="string"?i:void 0),s)a=null;for(let o of e.meshes??e.model.meshes)if(this.activeMaterial=this.resolveMaterial(e.model,o),this.activeMaterialId=this.materialId(this.activeMaterial),this.setRenderState(e.getRenderState(o)),a)this.renderProgram(o,a,n,r);else this.renderMesh(o,n,r)}for(let r of e.children)this.renderNode(r,t)}setRenderState(e){let t=Math.min(1,Math.max(0,this.activeMaterial.opacity*e.opacity)),r=0;if(e.blend==="additive")r=ke.BLEND_ADD;else if(e.blend==="multiply")r=ke.BLEND_MULTIPLY;else if(t<1)r=this.framebuffer.accum?ke.BLEND_ACCUMULATE:ke.BLEND_ALPHA;let n=r!==0,i=r;if(!e.depthTest)i|=ke.NO_DEPTH_TEST;if(e.depthWrite===!1||e.depthWrite==="auto"&&n)i|=ke.NO_DEPTH_WRITE;this.activeStateBits=i,this.activeAlpha=t,this.activeTransparent=n}resolveMaterial(e,t){let r=t.materialName?e.materials[t.materialName]:void 0;if(!r)return this.defaultMaterial;let n=this.materialCache.get(r);if(!n)n=qr(r,e.textures,this.options.linearLighting),this.materialCache.set(r,n);return n}renderMesh(e,t,r){let n=this.activeShading,i=this.stats,a=e.indices.length/3;i.meshes++,i.triangles+=a;let s=this.classifyBounds(e.boundingBox.min,e.boundingBox.max);if(s==="outside"){i.meshesCulled++,i.trianglesCulled+=a;return}let o=this.vertexStage,l=this.options.snapVertices?dr*this.ssaaScale:0,c=n==="wireframe"||n==="hidden-line"||!!this.options.wireframeOverlay,h=this.options.clusterCulling??4096;if(s==="intersects"&&!c&&h>0&&a>=h){let m=this.getMeshBVH(e);o.begin(e,t,r,this.activeNormalMatrix,this.width,this.height,l),this.renderCluster(e,m,m.root,!0);return}if(o.transform(e,t,r,this.activeNormalMatrix,this.width,this.height,l),n==="wireframe"){this.renderWireframe(e,0);return}let u=e.indices;for(let m=0;m<u.length;m+=3)this.renderTriangle(e,u[m],u[m+1],u[m+2]);if(n==="hidden-line"||this.options.wireframeOverlay)this.renderWireframe(e,yi)}renderProgram(e,t,r,n){if(t.varyings>De)throw Error(`Shaders can pass at most ${De} varyings, not ${t.varyings}`);this.stats.meshes++,this.stats.triangles+=e.indices.length/3;let i={...t.uniforms,modelMatrix:n,normalMatrix:this.activeNormalMatrix,viewMatrix:this.activeView,projectionMatrix:this.activeProjection,mvp:new Float32Array(r),eye:this.activeEye,time:this.lastFrameTime??0,lights:this.activeLights,receiveShadows:this.activeReceiveShadow,material:this.activeMaterial,linear:this.options.linearLighting??!1,attributes:{normals:e.normals.length>=e.positions.length,uvs:!!e.uvs&&e.uvs.length>=e.positions.length/3*2,colors:!!e.colors&&e.colors.length>=e.positions.length}};this.activeDraw=this.draws.length,this.draws.push({fragment:t.fragment,uniforms:i,varyings:t.varyings});let a=this.options.snapVertices?dr*this.ssaaScale:0;this.vertexStage.transformProgram(e,t,i,this.width,this.height,a),this.hasTangentFrame=!1;let s=e.indices;for(let o=0;o<s.length;o+=3)this.renderProgramTriangle(s[o],s[o+1],s[o+2],t,i);if(this.activeDraw=-1,this.options.wireframeOverlay)this.renderWireframe(e,yi)}renderProgramTriangle(e,t,r,n,i){let{outcode:a,screen:s,recipW:o}=this.vertexStage,l=n.varyings,c=this.vertexStage.varyings;if(a[e]&a[t]&a[r])return;let h=3;if(a[e]|a[t]|a[r]){if(h=this.clipVaryings(e,t,r,l),!h)return}else{let m=this.polygon;[e,t,r].forEach((p,d)=>{let y=d*Fe;m[y]=s[p*3],m[y+1]=s[p*3+1],m[y+2]=s[p*3+2],m[y+3]=o[p];for(let b=0;b<l;b++)m[y+fr+b]=c[p*De+b]})}let u=this.facesAway(h);if(u&&!this.activeMaterial.doubleSided)return;if(n.triangle){let m=this.cornerVaryings,p=this.polygonVaryings,d=this.polygon;[e,t,r].forEach((y,b)=>m.set(c.subarray(y*De,y*De+l),b*l));for(let y=0;y<h;y++){let b=y*Fe+fr;p.set(d.subarray(b,b+l),y*l)}n.triangle(m.subarray(0,3*l),p.subarray(0,h*l),h,i,u);for(let y=0;y<h;y++)d.set(p.subarray(y*l,(y+1)*l),y*Fe+fr)}this.drawPolygon(h,0,!0)}clipVaryings(e,t,r,n){let{clip:i,varyings:a}=this.vertexStage,s=[e,t,r].map((c)=>({x:i[c*4],y:i[c*4+1],z:i[c*4+2],w:i[c*4+3],attrs:Array.from(a.subarray(c*De,c*De+n))})),o=_r(s),l=this.polygon;for(let c=0;c<o.length;c++){let h=o[c],u=this.options.snapVertices?Hr(Ht(h,this.width,this.height),dr*this.ssaaScale):Ht(h,this.width,this.height),m=c*Fe;l[m]=u.x,l[m+1]=u.y,l[m+2]=u.z,l[m+3]=u.recipW;for(let p=0;p<n;p++)l[m+fr+p]=h.attrs[p]}return o.length}renderCluster(e,t,r,n){if(n){let s=Wr(this.planes,r.min,r.max);if(s==="outside"){this.stats.clustersCulled++,this.stats.trianglesCulled+=r.count;return}n=s==="intersects"}if(r.left&&r.right){this.renderCluster(e,t,r.left,n),this.renderCluster(e,t,r.right,n);return}this.vertexStage.transformVertices(r.vertices);let i=e.indices,a=t.triangles;for(let s=r.start;s<r.start+r.count;s++){let o=a[s]*3;this.renderTriangle(e,i[o],i[o+1],i[o+2])}}classifyBounds(e,t){let r=Qn({min:e,max:t}),n=Math.hypot(t.x-e.x,t.y-e.y,t.z-e.z)/2,i=ei(this.planes,r.x,r.y,r.z,n);return i==="intersects"?Wr(this.planes,e,t):i}getMeshBVH(e){let t=this.bvhCache.get(e);if(!t)t=hi(e),this.bvhCache.set(e,t);return t}renderWireframe(e,t){let{clip:r,screen:n}=this.vertexStage,[i,a,s]=this.options.wireframeColor??[255,255,255],o=this.getMeshEdges(e),l=this.clippedEdge;for(let c=0;c<o.length;c+=2){let h=o[c],u=o[c+1],m=r[h*4+2]+r[h*4+3],p=r[u*4+2]+r[u*4+3];if(m<0&&p<0)continue;let d=n,y=h*3,b=u*3;if(m<0||p<0){let w=m/(m-p),g=(x)=>r[h*4+x]+(r[u*4+x]-r[h*4+x])*w,M=m<0?u:h;l[0]=n[M*3],l[1]=n[M*3+1],l[2]=n[M*3+2],this.projectClipPoint(g(0),g(1),g(2),g(3),l,3),d=l,y=0,b=3}this.lines.push(d[y],d[y+1],d[y+2],d[b],d[b+1],d[b+2],i,a,s,t)}}projectClipPoint(e,t,r,n,i,a){i[a]=(e/n*0.5+0.5)*this.width,i[a+1]=(1-(t/n*0.5+0.5))*this.height,i[a+2]=r/n*0.5+0.5}getMeshEdges(e){let t=this.edgeCache.get(e);if(t)return t;let r=e.positions,n=new Uint32Array(r.length/3),i=new Map;for(let l=0;l<n.length;l++){let c=`${r[l*3]},${r[l*3+1]},${r[l*3+2]}`,h=i.get(c);if(h===void 0)h=l,i.set(c,l);n[l]=h}let a=new Set,s=[],o=e.indices;for(let l=0;l<o.length;l+=3)for(let c=0;c<3;c++){let h=n[o[l+c]],u=n[o[l+(c+1)%3]];if(h===u)continue;let m=h<u?h*n.length+u:u*n.length+h;if(a.has(m))continue;a.add(m),s.push(h,u)}return t=new Uint32Array(s),this.edgeCache.set(e,t),t}renderTriangle(e,t,r,n){let i=this.vertexStage,a=i.outcode;if(a[t]&a[r]&a[n])return;let s=e.uvs&&e.uvs.length>=e.positions.length/3*2?e.uvs:null,o=e.colors&&e.colors.length>=e.positions.length?e.colors:null,l=e.normals.length>=e.positions.length,c=i.world,h=c[r*3]-c[t*3],u=c[r*3+1]-c[t*3+1],m=c[r*3+2]-c[t*3+2],p=c[n*3]-c[t*3],d=c[n*3+1]-c[t*3+1],y=c[n*3+2]-c[t*3+2],b=u*y-m*d,w=m*p-h*y,g=h*d-u*p,M=Math.hypot(b,w,g)||1;b/=M,w/=M,g/=M;let x=3;if(a[t]|a[r]|a[n]){if(x=this.clipTriangle(t,r,n,s,o),!x)return}else this.loadVertex(0,t,s,o),this.loadVertex(1,r,s,o),this.loadVertex(2,n,s,o);let v=this.polygon;if(!l)for(let z=0;z<x;z++){let L=z*Fe+nt;v[L]=b,v[L+1]=w,v[L+2]=g}if(this.facesAway(x)){if(!this.activeMaterial.doubleSided)return;b=-b,w=-w,g=-g;for(let z=0;z<x;z++){let L=z*Fe+nt;v[L]=-v[L],v[L+1]=-v[L+1],v[L+2]=-v[L+2]}}let A=this.activeShading;if(A==="hidden-line"){this.drawPolygon(x,0,!1);return}let S=s?ke.UV:0;if(this.hasTangentFrame=!1,A==="flat"){let z=this.lit;if(se.shade((c[t*3]+c[r*3]+c[n*3])/3,(c[t*3+1]+c[r*3+1]+c[n*3+1])/3,(c[t*3+2]+c[r*3+2]+c[n*3+2])/3,b,w,g,0,0,0,!1,this.activeReceiveShadow,this.activeLights,this.activeMaterial,z),o){for(let L=0;L<x;L++){let H=L*Fe+rt;v[H]*=z[0]/255,v[H+1]*=z[1]/255,v[H+2]*=z[2]/255}this.drawPolygon(x,ke.COLOR|S,!0)}else this.drawPolygon(x,S,!0,z[0],z[1],z[2])}else if(A==="gouraud"||A==="blinn-phong")this.renderGouraudShading(x,!!o),this.drawPolygon(x,ke.COLOR|ke.SPECULAR|S,!0);else if(A==="phong"){if(s)this.setTangentFrame(h,u,m,p,d,y,s[r*2]-s[t*2],s[r*2+1]-s[t*2+1],s[n*2]-s[t*2],s[n*2+1]-s[t*2+1]);let z=this.activeReceiveShadow?ke.RECEIVE_SHADOWS:0,L=o?ke.COLOR:0;this.drawPolygon(x,ke.NORMAL|ke.WORLD|S|z|L,!0)}}facesAway(e){let t=this.polygon,r=0,n=t[0],i=t[1];for(let a=1;a<e-1;a++){let s=a*Fe,o=s+Fe;r+=(t[s]-n)*(t[o+1]-i)-(t[s+1]-i)*(t[o]-n)}return r>0}loadVertex(e,t,r,n){let{screen:i,recipW:a,normal:s,world:o}=this.vertexStage,l=this.polygon,c=e*Fe;if(l[c]=i[t*3],l[c+1]=i[t*3+1],l[c+2]=i[t*3+2],l[c+3]=a[t],l[c+nt]=s[t*3],l[c+nt+1]=s[t*3+1],l[c+nt+2]=s[t*3+2],r)l[c+pr]=r[t*2],l[c+pr+1]=r[t*2+1];if(l[c+yt]=o[t*3],l[c+yt+1]=o[t*3+1],l[c+yt+2]=o[t*3+2],n)for(let h=0;h<3;h++)l[c+rt+h]=this.vertexColor(n[t*3+h])}vertexColor(e){return(this.options.linearLighting?Le(e):e)*255}clipTriangle(e,t,r,n,i){let{clip:a,normal:s,world:o}=this.vertexStage,l=[e,t,r].map((u)=>({x:a[u*4],y:a[u*4+1],z:a[u*4+2],w:a[u*4+3],attrs:[s[u*3],s[u*3+1],s[u*3+2],n?n[u*2]:0,n?n[u*2+1]:0,o[u*3],o[u*3+1],o[u*3+2],i?this.vertexColor(i[u*3]):0,i?this.vertexColor(i[u*3+1]):0,i?this.vertexColor(i[u*3+2]):0]})),c=_r(l),h=this.polygon;for(let u=0;u<c.length;u++){let m=c[u],p=this.options.snapVertices?Hr(Ht(m,this.width,this.height),dr*this.ssaaScale):Ht(m,this.width,this.height),d=m.attrs,y=u*Fe;h[y]=p.x,h[y+1]=p.y,h[y+2]=p.z,h[y+3]=p.recipW;let b=Math.hypot(d[0],d[1],d[2])||1;h[y+nt]=d[0]/b,h[y+nt+1]=d[1]/b,h[y+nt+2]=d[2]/b,h[y+pr]=d[3],h[y+pr+1]=d[4],h[y+yt]=d[5],h[y+yt+1]=d[6],h[y+yt+2]=d[7],h[y+rt]=d[8],h[y+rt+1]=d[9],h[y+rt+2]=d[10]}return c.length}drawPolygon(e,t,r,n=0,i=0,a=0){for(let s=1;s<e-1;s++)this.queueTriangle(0,s,s+1,t,r,n,i,a)}renderGouraudShading(e,t){let r=this.activeEye,n=this.polygon,i=this.lit;for(let a=0;a<e;a++){let s=a*Fe,o=n[s+yt],l=n[s+yt+1],c=n[s+yt+2],h=r.x-o,u=r.y-l,m=r.z-c,p=Math.hypot(h,u,m)||1;h/=p,u/=p,m/=p,se.shade(o,l,c,n[s+nt],n[s+nt+1],n[s+nt+2],h,u,m,!0,this.activeReceiveShadow,this.activeLights,this.activeMaterial,i);let d=t?n[s+rt]/255:1,y=t?n[s+rt+1]/255:1,b=t?n[s+rt+2]/255:1;n[s+rt]=i[0]*d,n[s+rt+1]=i[1]*y,n[s+rt+2]=i[2]*b,n[s+an]=i[3],n[s+an+1]=i[4],n[s+an+2]=i[5]}}setTangentFrame(e,t,r,n,i,a,s,o,l,c){let h=this.activeMaterial;if(!h.mapNorm&&!h.mapBump)return;let u=s*c-l*o;if(Math.abs(u)<=0.000000000001)return;let m=1/u,p=this.tangentFrame;p[0]=(e*c-n*o)*m,p[1]=(t*c-i*o)*m,p[2]=(r*c-a*o)*m,p[3]=(n*s-e*l)*m,p[4]=(i*s-t*l)*m,p[5]=(a*s-r*l)*m,this.hasTangentFrame=!0}present(){this.target.present(this.output)}setCamera(e){this.mainCamera=e}addController(e){if(!this.controllers.includes(e))this.controllers.push(e)}removeController(e){let t=this.controllers.indexOf(e);if(t!==-1)this.controllers.splice(t,1)}setDirectionalLight(e){if(this.mainDirectionalLight)this.removeLight(this.mainDirectionalLight);this.mainDirectionalLight=e,this.addLight(e)}addLight(e){if(!this.lights.includes(e))this.lights.push(e)}removeLight(e){let t=this.lights.indexOf(e);if(t!==-1)this.lights.splice(t,1);if(e===this.mainDirectionalLight)this.mainDirectionalLight=null}addModel(e,t=this.scene){return t.add(new cr(e.meshes[0]?.name??"model").attachModel(e))}getScene(){return this.scene}}var ma={shading:"flat",snapVertices:!1};async function pa(){let e=new on("canvas",ma),r=await new Br().loadFromUrl("src/Examples/teddyBear.obj"),n=new Gr({x:-50,y:0,z:0},{x:0,y:1,z:0},1);e.setCamera(n),e.addController(new Kr(n,document.getElementById("canvas")));let i=new Xr({x:-1,y:-1,z:-1},{x:1,y:1,z:1},0.6);e.setDirectionalLight(i);let a=e.addModel(r);e.onUpdate=(s)=>{a.rotation=ar({x:0,y:1,z:0},s)},e.start()}pa();
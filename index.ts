@@ -1,5 +1,7 @@
 import { OBJLoader } from "./src/Loaders/OBJLoader";
+import { quatFromAxisAngle } from "./src/Math";
 import { Camera } from "./src/Objects/Camera";
+import { OrbitController } from "./src/Controls/OrbitController";
 import { DirectionalLight } from "./src/Objects/DirectionalLight";
 import { Renderer, type RendererOptions } from "./src/Renderer";
 
@@ -17,13 +19,19 @@ async function startRendering() {
     // set up camera
     const camera = new Camera({ x: -50, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, 1.0);
     renderer.setCamera(camera);
+    // drag to orbit the model, right-drag to pan, scroll to zoom
+    renderer.addController(new OrbitController(camera, document.getElementById("canvas")));
 
     // set up a directional light
     // light coming from top-left-front
     const light = new DirectionalLight({ x: -1, y: -1, z: -1 }, { x: 1, y: 1, z: 1 }, 0.6);
     renderer.setDirectionalLight(light);
 
-    renderer.addModel(model);
+    // spin the model around its vertical axis
+    const node = renderer.addModel(model);
+    renderer.onUpdate = (time) => {
+        node.rotation = quatFromAxisAngle({ x: 0, y: 1, z: 0 }, time);
+    };
     renderer.start();
 }
 
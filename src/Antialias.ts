@@ -0,0 +1,187 @@
+import type { Framebuffer } from "./Framebuffer";
+
+/**
+ * Box-filter a framebuffer rendered at `scale` times the resolution of `dst` into it. Colors are
+ * averaged per channel (the HDR ones instead of the 8-bit ones when both have them); depth keeps
+ * the nearest of the block.
+ */
+export function downsample(src: Framebuffer, dst: Framebuffer, scale: number) {
+    if (src.hdr && dst.hdr) {
+        downsampleHDR(src, dst, scale);
+        return;
+    }
+    const { width, height } = dst;
+    const s8 = src.buf8, d8 = dst.buf8, sz = src.zBuffer, dz = dst.zBuffer;
+    const count = scale * scale;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0, z = Number.POSITIVE_INFINITY;
+            for (let sy = y * scale; sy < (y + 1) * scale; sy++) {
+                for (let sx = x * scale; sx < (x + 1) * scale; sx++) {
+                    const si = sy * src.width + sx;
+                    r += s8[si * 4];
+                    g += s8[si * 4 + 1];
+                    b += s8[si * 4 + 2];
+                    a += s8[si * 4 + 3];
+                    if (sz[si] < z) z = sz[si];
+                }
+            }
+            const di = y * width + x;
+            d8[di * 4] = Math.round(r / count);
+            d8[di * 4 + 1] = Math.round(g / count);
+            d8[di * 4 + 2] = Math.round(b / count);
+            d8[di * 4 + 3] = Math.round(a / count);
+            dz[di] = z;
+        }
+    }
+}
+
+function downsampleHDR(src: Framebuffer, dst: Framebuffer, scale: number) {
+    const { width, height } = dst;
+    const sh = src.hdr!, dh = dst.hdr!, sz = src.zBuffer, dz = dst.zBuffer;
+    const weight = 1 / (scale * scale);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const di = y * width + x;
+            dh.fill(0, di * 4, di * 4 + 4);
+            let z = Number.POSITIVE_INFINITY;
+            for (let sy = y * scale; sy < (y + 1) * scale; sy++) {
+                for (let sx = x * scale; sx < (x + 1) * scale; sx++) {
+                    const si = sy * src.width + sx;
+                    for (let k = 0; k < 4; k++) dh[di * 4 + k] += sh[si * 4 + k] * weight;
+                    if (sz[si] < z) z = sz[si];
+                }
+            }
+            dz[di] = z;
+        }
+    }
+}
+
+/**
+ * Average the samples of every pixel of a multisampled framebuffer into the single-sampled `dst`
+ * of the same size (HDR colors when both have them); depth keeps the nearest sample.
+ */
+export function resolveSamples(src: Framebuffer, dst: Framebuffer) {
+    const samples = src.samples;
+    const s8 = src.buf8, d8 = dst.buf8, sz = src.zBuffer, dz = dst.zBuffer;
+    const pixels = dst.width * dst.height;
+    const sh = src.hdr, dh = dst.hdr;
+    if (sh && dh) {
+        const weight = 1 / samples;
+        for (let i = 0; i < pixels; i++) {
+            dh.fill(0, i * 4, i * 4 + 4);
+            let z = Number.POSITIVE_INFINITY;
+            for (let si = i * samples; si < (i + 1) * samples; si++) {
+                for (let k = 0; k < 4; k++) dh[i * 4 + k] += sh[si * 4 + k] * weight;
+                if (sz[si] < z) z = sz[si];
+            }
+            dz[i] = z;
+        }
+        return;
+    }
+    for (let i = 0; i < pixels; i++) {
+        let r = 0, g = 0, b = 0, a = 0, z = Number.POSITIVE_INFINITY;
+        for (let si = i * samples; si < (i + 1) * samples; si++) {
+            r += s8[si * 4];
+            g += s8[si * 4 + 1];
+            b += s8[si * 4 + 2];
+            a += s8[si * 4 + 3];
+            if (sz[si] < z) z = sz[si];
+        }
+        d8[i * 4] = Math.round(r / samples);
+        d8[i * 4 + 1] = Math.round(g / samples);
+        d8[i * 4 + 2] = Math.round(b / samples);
+        d8[i * 4 + 3] = Math.round(a / samples);
+        dz[i] = z;
+    }
+}
+
+// FXAA tuning, as in the reference implementation's "default quality" preset
+const EDGE_THRESHOLD = 0.125;
+const EDGE_THRESHOLD_MIN = 0.0312;
+const SUBPIXEL_QUALITY = 0.75;
+const EDGE_SEARCH_STEPS = 12;
+
+/** Scratch memory applyFXAA needs for a framebuffer of this size, in bytes */
+export function fxaaScratchBytes(width: number, height: number): number {
+    return width * height * 8;
+}
+
+/**
+ * FXAA-style post pass over a finished color buffer: find pixels on high-contrast luma edges,
+ * walk along each edge to its ends and blend the pixel with its neighbour across the edge by how
+ * close it is to an end (plus a sub-pixel term for isolated dots). Only color is changed.
+ * @param scratch At least fxaaScratchBytes(width, height) bytes, reused between frames
+ */
+export function applyFXAA(fb: Framebuffer, scratch: ArrayBuffer) {
+    const { width, height, buf8 } = fb;
+    const pixels = width * height;
+    const luma = new Float32Array(scratch, 0, pixels);
+    const copy = new Uint8ClampedArray(scratch, pixels * 4, pixels * 4);
+    copy.set(buf8);
+    for (let i = 0; i < pixels; i++) {
+        luma[i] = (0.299 * copy[i * 4] + 0.587 * copy[i * 4 + 1] + 0.114 * copy[i * 4 + 2]) / 255;
+    }
+    // Clamped to the image, like a clamp-to-edge texture fetch
+    const L = (x: number, y: number) =>
+        luma[(y < 0 ? 0 : y >= height ? height - 1 : y) * width + (x < 0 ? 0 : x >= width ? width - 1 : x)];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const lM = luma[y * width + x];
+            const lN = L(x, y - 1), lS = L(x, y + 1), lW = L(x - 1, y), lE = L(x + 1, y);
+            const lMax = Math.max(lM, lN, lS, lW, lE), lMin = Math.min(lM, lN, lS, lW, lE);
+            const range = lMax - lMin;
+            if (range < Math.max(EDGE_THRESHOLD_MIN, lMax * EDGE_THRESHOLD)) continue;
+
+            const lNW = L(x - 1, y - 1), lNE = L(x + 1, y - 1), lSW = L(x - 1, y + 1), lSE = L(x + 1, y + 1);
+            // Luma changes more across rows than across columns: the edge runs horizontally
+            const horizontal =
+                Math.abs(lNW - 2 * lW + lSW) + 2 * Math.abs(lN - 2 * lM + lS) + Math.abs(lNE - 2 * lE + lSE) >=
+                Math.abs(lNW - 2 * lN + lNE) + 2 * Math.abs(lW - 2 * lM + lE) + Math.abs(lSW - 2 * lS + lSE);
+
+            // Blend towards the side of the edge with the steeper gradient
+            const l1 = horizontal ? lN : lW, l2 = horizontal ? lS : lE;
+            const g1 = Math.abs(l1 - lM), g2 = Math.abs(l2 - lM);
+            const towardsFirst = g1 >= g2;
+            const lSide = towardsFirst ? l1 : l2;
+            const gradient = Math.max(g1, g2) * 0.25;
+            const edgeLuma = (lM + lSide) * 0.5;
+            // Pixel offset across the edge (+1 or -1 rows or columns) and step along it
+            const side = towardsFirst ? -1 : 1;
+            const ax = horizontal ? x : x + side, ay = horizontal ? y + side : y;
+            const stepX = horizontal ? 1 : 0, stepY = horizontal ? 0 : 1;
+
+            // Walk both ways along the edge until the luma pair stops looking like this edge
+            let d1 = 1, d2 = 1, delta1 = 0, delta2 = 0, end1 = false, end2 = false;
+            for (let i = 1; i <= EDGE_SEARCH_STEPS && !(end1 && end2); i++) {
+                if (!end1) {
+                    delta1 = (L(x - stepX * i, y - stepY * i) + L(ax - stepX * i, ay - stepY * i)) * 0.5 - edgeLuma;
+                    end1 = Math.abs(delta1) >= gradient;
+                    d1 = i;
+                }
+                if (!end2) {
+                    delta2 = (L(x + stepX * i, y + stepY * i) + L(ax + stepX * i, ay + stepY * i)) * 0.5 - edgeLuma;
+                    end2 = Math.abs(delta2) >= gradient;
+                    d2 = i;
+                }
+            }
+            // Only blend if the nearer end shows the luma going the way this pixel's side of the edge does
+            const delta = d1 < d2 ? delta1 : delta2;
+            const edgeOffset = (delta < 0) !== (lM < edgeLuma) ? 0.5 - Math.min(d1, d2) / (d1 + d2) : 0;
+
+            // Sub-pixel aliasing: how much the pixel stands out from its 3x3 neighbourhood
+            const average = (2 * (lN + lS + lW + lE) + lNW + lNE + lSW + lSE) / 12;
+            const t = Math.min(1, Math.abs(average - lM) / range);
+            const subpixel = t * t * (3 - 2 * t);
+            const blend = Math.max(edgeOffset, subpixel * subpixel * SUBPIXEL_QUALITY);
+            if (blend <= 0) continue;
+
+            const i = (y * width + x) * 4;
+            const o = ((ay < 0 ? 0 : ay >= height ? height - 1 : ay) * width + (ax < 0 ? 0 : ax >= width ? width - 1 : ax)) * 4;
+            for (let k = 0; k < 3; k++) {
+                buf8[i + k] = copy[i + k] + (copy[o + k] - copy[i + k]) * blend;
+            }
+        }
+    }
+}
@@ -0,0 +1,9 @@
+/** sRGB-encoded channel (0..1) to linear light */
+export function srgbToLinear(c: number): number {
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/** Linear channel (0..1) to sRGB encoding */
+export function linearToSrgb(c: number): number {
+    return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
@@ -0,0 +1,11 @@
+/**
+ * Moves a Camera from user input or over time. Controllers registered with
+ * Renderer.addController are updated once per frame; dispose removes their event listeners.
+ */
+export interface CameraController {
+    /**
+     * @param dt Seconds since the previous frame
+     */
+    update(dt: number): void;
+    dispose(): void;
+}
@@ -0,0 +1,100 @@
+import type { Camera } from "../Objects/Camera";
+import { vadd, vscale, vsub, type Vec3 } from "../Math";
+import type { CameraController } from "./CameraController";
+
+/**
+ * A point on a CameraPath. Without a target the camera faces along the path.
+ */
+export interface CameraKeyframe {
+    /** Seconds from the start of the path */
+    time: number;
+    position: Vec3;
+    target?: Vec3;
+}
+
+export interface CameraPathOptions {
+    /** Start over after the last keyframe instead of stopping there (default false) */
+    loop?: boolean;
+}
+
+/**
+ * Scripted camera movement: flies through keyframed positions on a Catmull-Rom spline while
+ * looking at keyframed targets. update advances the path's own clock, or call evaluate
+ * with a time to pose the camera directly.
+ */
+export class CameraPath implements CameraController {
+    /** Seconds into the path */
+    public time = 0;
+    public loop: boolean;
+
+    private camera: Camera;
+    private keyframes: CameraKeyframe[];
+
+    constructor(camera: Camera, keyframes: CameraKeyframe[], options: CameraPathOptions = {}) {
+        if (keyframes.length === 0) throw new Error("CameraPath needs at least one keyframe");
+        this.camera = camera;
+        this.keyframes = keyframes.slice().sort((a, b) => a.time - b.time);
+        this.loop = options.loop ?? false;
+    }
+
+    /** Time of the last keyframe */
+    public get duration(): number {
+        return this.keyframes[this.keyframes.length - 1].time;
+    }
+
+    /** Whether a non-looping path has reached its last keyframe */
+    public get finished(): boolean {
+        return !this.loop && this.time >= this.duration;
+    }
+
+    public update(dt: number) {
+        this.time += dt;
+        this.evaluate(this.time);
+    }
+
+    /**
+     * Pose the camera at time `t` (seconds) along the path
+     */
+    public evaluate(t: number) {
+        const keys = this.keyframes;
+        const duration = this.duration;
+        if (this.loop && duration > 0) t = ((t % duration) + duration) % duration;
+        t = Math.max(keys[0].time, Math.min(duration, t));
+
+        // Segment i runs from keys[i] to keys[i + 1]
+        let i = 0;
+        while (i < keys.length - 2 && keys[i + 1].time < t) i++;
+        const k1 = keys[i], k2 = keys[i + 1] ?? k1;
+        const span = k2.time - k1.time;
+        const s = span > 0 ? (t - k1.time) / span : 0;
+
+        const k0 = keys[i - 1] ?? k1, k3 = keys[i + 2] ?? k2;
+        const position = catmullRom(k0.position, k1.position, k2.position, k3.position, s);
+        this.camera.position = position;
+
+        if (k1.target && k2.target) {
+            this.camera.lookAt(vadd(k1.target, vscale(vsub(k2.target, k1.target), s)));
+        } else if (k1 !== k2) {
+            // Face along the path's tangent
+            const ahead = catmullRom(k0.position, k1.position, k2.position, k3.position, Math.min(1, s + 1e-3));
+            const behind = catmullRom(k0.position, k1.position, k2.position, k3.position, Math.max(0, s - 1e-3));
+            if (ahead.x !== behind.x || ahead.y !== behind.y || ahead.z !== behind.z) {
+                this.camera.lookAt(vadd(position, vsub(ahead, behind)));
+            }
+        }
+    }
+
+    public dispose() { }
+}
+
+/** Uniform Catmull-Rom spline between p1 and p2 */
+function catmullRom(p0: Vec3, p1: Vec3, p2: Vec3, p3: Vec3, s: number): Vec3 {
+    const s2 = s * s, s3 = s2 * s;
+    const f = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * s + (2 * a - 5 * b + 4 * c - d) * s2 + (3 * b - a - 3 * c + d) * s3);
+    return {
+        x: f(p0.x, p1.x, p2.x, p3.x),
+        y: f(p0.y, p1.y, p2.y, p3.y),
+        z: f(p0.z, p1.z, p2.z, p3.z)
+    };
+}
@@ -0,0 +1,137 @@
+import type { Camera } from "../Objects/Camera";
+import { vadd, vscale, type Vec3 } from "../Math";
+import type { CameraController } from "./CameraController";
+
+export interface FlyControllerOptions {
+    /** Receives keyboard events (default `window` when there is one) */
+    keyTarget?: EventTarget | null;
+    /** Radians per pixel of mouse movement (default 0.003) */
+    lookSpeed?: number;
+    /** Radians per second the arrow keys turn (default 1.5) */
+    turnSpeed?: number;
+    /** Speed multiplier while shift is held (default 3) */
+    boost?: number;
+}
+
+// Keep pitch just short of straight up/down, where yaw would become meaningless
+const MAX_PITCH = Math.PI / 2 - 1e-3;
+
+/**
+ * First-person flight: WASD moves along the view direction and sideways, Q/E down and up,
+ * shift goes faster and the arrow keys turn. Dragging on the element looks around.
+ * Movement happens in update, at `camera.speed` units per second regardless of the frame rate.
+ */
+export class FlyController implements CameraController {
+    private camera: Camera;
+    private element: EventTarget | null;
+    private keyTarget: EventTarget | null;
+    private lookSpeed: number;
+    private turnSpeed: number;
+    private boost: number;
+
+    // Held keys by KeyboardEvent.code, so the layout doesn't matter
+    private keys = new Set<string>();
+    private dragging = false;
+    private lastX = 0;
+    private lastY = 0;
+
+    /**
+     * @param element Receives pointer events for mouse-look, usually the canvas; null for keys only
+     */
+    constructor(camera: Camera, element: EventTarget | null, options: FlyControllerOptions = {}) {
+        this.camera = camera;
+        this.element = element;
+        this.keyTarget = options.keyTarget !== undefined
+            ? options.keyTarget
+            : typeof window !== "undefined" ? window : null;
+        this.lookSpeed = options.lookSpeed ?? 0.003;
+        this.turnSpeed = options.turnSpeed ?? 1.5;
+        this.boost = options.boost ?? 3;
+
+        element?.addEventListener("pointerdown", this.onPointerDown);
+        element?.addEventListener("pointermove", this.onPointerMove);
+        element?.addEventListener("pointerup", this.onPointerUp);
+        element?.addEventListener("pointercancel", this.onPointerUp);
+        this.keyTarget?.addEventListener("keydown", this.onKeyDown);
+        this.keyTarget?.addEventListener("keyup", this.onKeyUp);
+        this.keyTarget?.addEventListener("blur", this.onBlur);
+    }
+
+    /** Turn by the given angles (radians); positive pitch looks up */
+    public look(dYaw: number, dPitch: number) {
+        this.camera.yaw += dYaw;
+        this.camera.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, this.camera.pitch + dPitch));
+    }
+
+    /**
+     * Move relative to the view: `forward` along the view direction, `right` sideways and `up`
+     * along the camera's up vector, in world units.
+     */
+    public move(forward: number, right: number, up: number) {
+        const camera = this.camera;
+        let offset: Vec3 = vscale(camera.getForwardVector(), forward);
+        offset = vadd(offset, vscale(camera.getRightVector(), right));
+        offset = vadd(offset, vscale(camera.up, up));
+        camera.position = vadd(camera.position, offset);
+    }
+
+    public update(dt: number) {
+        const keys = this.keys;
+        if (keys.size === 0) return;
+        const axis = (plus: string, minus: string) => (keys.has(plus) ? 1 : 0) - (keys.has(minus) ? 1 : 0);
+
+        const turn = axis("ArrowRight", "ArrowLeft");
+        if (turn) this.look(turn * this.turnSpeed * dt, 0);
+
+        const fast = keys.has("ShiftLeft") || keys.has("ShiftRight");
+        const step = this.camera.speed * dt * (fast ? this.boost : 1);
+        const forward = axis("KeyW", "KeyS"), right = axis("KeyD", "KeyA"), up = axis("KeyE", "KeyQ");
+        if (forward || right || up) this.move(forward * step, right * step, up * step);
+    }
+
+    public dispose() {
+        this.element?.removeEventListener("pointerdown", this.onPointerDown);
+        this.element?.removeEventListener("pointermove", this.onPointerMove);
+        this.element?.removeEventListener("pointerup", this.onPointerUp);
+        this.element?.removeEventListener("pointercancel", this.onPointerUp);
+        this.keyTarget?.removeEventListener("keydown", this.onKeyDown);
+        this.keyTarget?.removeEventListener("keyup", this.onKeyUp);
+        this.keyTarget?.removeEventListener("blur", this.onBlur);
+        this.element = this.keyTarget = null;
+        this.keys.clear();
+    }
+
+    private onPointerDown = (e: Event) => {
+        const event = e as PointerEvent;
+        this.dragging = true;
+        this.lastX = event.clientX;
+        this.lastY = event.clientY;
+        (this.element as Element).setPointerCapture?.(event.pointerId);
+    };
+
+    private onPointerMove = (e: Event) => {
+        if (!this.dragging) return;
+        const event = e as PointerEvent;
+        // Dragging right turns right, dragging up looks up
+        this.look((event.clientX - this.lastX) * this.lookSpeed, (this.lastY - event.clientY) * this.lookSpeed);
+        this.lastX = event.clientX;
+        this.lastY = event.clientY;
+    };
+
+    private onPointerUp = () => {
+        this.dragging = false;
+    };
+
+    private onKeyDown = (e: Event) => {
+        this.keys.add((e as KeyboardEvent).code);
+    };
+
+    private onKeyUp = (e: Event) => {
+        this.keys.delete((e as KeyboardEvent).code);
+    };
+
+    private onBlur = () => {
+        // Keyups are lost while the window is unfocused
+        this.keys.clear();
+    };
+}
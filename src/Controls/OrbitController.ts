@@ -0,0 +1,185 @@
+import type { Camera } from "../Objects/Camera";
+import { vadd, vcross, vlen, vnorm, vscale, vsub, type Vec3 } from "../Math";
+import type { CameraController } from "./CameraController";
+
+export interface OrbitControllerOptions {
+    /** Point to orbit around (default the origin) */
+    target?: Vec3;
+    /** Radians per pixel of drag (default 0.005) */
+    rotateSpeed?: number;
+    /** Distance factor per 100 units of wheel delta (default 1.1) */
+    zoomSpeed?: number;
+    /** Closest and furthest distance from the target (defaults 0.1 and Infinity) */
+    minDistance?: number;
+    maxDistance?: number;
+}
+
+// Stay just short of straight up/down so the view never flips over the pole
+const MAX_ELEVATION = Math.PI / 2 - 1e-3;
+
+/**
+ * Keeps the camera on a sphere around a target, looking at it.
+ * Dragging with the primary button (or one finger) rotates, dragging with the secondary or
+ * middle button, with shift held (or two fingers) pans, and the wheel (or pinching) zooms.
+ * The same moves are available as methods for scripted use.
+ */
+export class OrbitController implements CameraController {
+    public target: Vec3;
+    /** Angle around the camera's up axis, radians */
+    public azimuth: number;
+    /** Angle above the target's horizon, radians */
+    public elevation: number;
+    public distance: number;
+
+    private camera: Camera;
+    private element: EventTarget | null;
+    private rotateSpeed: number;
+    private zoomSpeed: number;
+    private minDistance: number;
+    private maxDistance: number;
+
+    // Active pointers by id, for drags and two-finger gestures
+    private pointers = new Map<number, { x: number, y: number }>();
+    private panning = false;
+
+    /**
+     * @param element Receives pointer and wheel events, usually the canvas; null for scripted use only
+     */
+    constructor(camera: Camera, element: EventTarget | null, options: OrbitControllerOptions = {}) {
+        this.camera = camera;
+        this.element = element;
+        this.target = options.target ?? { x: 0, y: 0, z: 0 };
+        this.rotateSpeed = options.rotateSpeed ?? 0.005;
+        this.zoomSpeed = options.zoomSpeed ?? 1.1;
+        this.minDistance = options.minDistance ?? 0.1;
+        this.maxDistance = options.maxDistance ?? Infinity;
+
+        // Start from wherever the camera is now
+        const offset = vsub(camera.position, this.target);
+        this.distance = this.clampDistance(vlen(offset));
+        this.azimuth = Math.atan2(offset.z, offset.x);
+        this.elevation = Math.asin(Math.max(-1, Math.min(1, offset.y / (Math.hypot(offset.x, offset.y, offset.z) || 1))));
+
+        if (element) {
+            element.addEventListener("pointerdown", this.onPointerDown);
+            element.addEventListener("pointermove", this.onPointerMove);
+            element.addEventListener("pointerup", this.onPointerUp);
+            element.addEventListener("pointercancel", this.onPointerUp);
+            element.addEventListener("wheel", this.onWheel, { passive: false });
+            element.addEventListener("contextmenu", this.onContextMenu);
+        }
+        this.apply();
+    }
+
+    /** Orbit by the given angles (radians) */
+    public rotate(dAzimuth: number, dElevation: number) {
+        this.azimuth += dAzimuth;
+        this.elevation = Math.max(-MAX_ELEVATION, Math.min(MAX_ELEVATION, this.elevation + dElevation));
+        this.apply();
+    }
+
+    /** Multiply the distance to the target; factors below 1 move closer */
+    public zoom(factor: number) {
+        this.distance = this.clampDistance(this.distance * factor);
+        this.apply();
+    }
+
+    /**
+     * Move the target (and the camera with it) in the view plane
+     * @param dx Distance to the right, in world units, likewise dy upwards
+     */
+    public pan(dx: number, dy: number) {
+        const right = this.camera.getRightVector();
+        const up = vnorm(vcross(right, this.camera.getForwardVector()));
+        this.target = vadd(this.target, vadd(vscale(right, dx), vscale(up, dy)));
+        this.apply();
+    }
+
+    public update(_dt: number) {
+        this.apply();
+    }
+
+    public dispose() {
+        const element = this.element;
+        if (!element) return;
+        element.removeEventListener("pointerdown", this.onPointerDown);
+        element.removeEventListener("pointermove", this.onPointerMove);
+        element.removeEventListener("pointerup", this.onPointerUp);
+        element.removeEventListener("pointercancel", this.onPointerUp);
+        element.removeEventListener("wheel", this.onWheel);
+        element.removeEventListener("contextmenu", this.onContextMenu);
+        this.element = null;
+        this.pointers.clear();
+    }
+
+    /** Put the camera on its sphere, facing the target */
+    private apply() {
+        const cosElevation = Math.cos(this.elevation);
+        this.camera.position = vadd(this.target, {
+            x: Math.cos(this.azimuth) * cosElevation * this.distance,
+            y: Math.sin(this.elevation) * this.distance,
+            z: Math.sin(this.azimuth) * cosElevation * this.distance
+        });
+        this.camera.lookAt(this.target);
+    }
+
+    private clampDistance(distance: number) {
+        return Math.max(this.minDistance, Math.min(this.maxDistance, distance));
+    }
+
+    /** World units per pixel of pan at the target's distance */
+    private panScale() {
+        const projection = this.camera.projection;
+        const halfHeight = projection.type === "perspective"
+            ? Math.tan(projection.fov / 2) * this.distance
+            : projection.size;
+        const height = (this.element as { clientHeight?: number }).clientHeight || 500;
+        return 2 * halfHeight / height;
+    }
+
+    private onPointerDown = (e: Event) => {
+        const event = e as PointerEvent;
+        this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        this.panning = event.button === 1 || event.button === 2 || event.shiftKey;
+        (this.element as Element).setPointerCapture?.(event.pointerId);
+    };
+
+    private onPointerMove = (e: Event) => {
+        const event = e as PointerEvent;
+        const last = this.pointers.get(event.pointerId);
+        if (!last) return;
+
+        if (this.pointers.size === 2) {
+            // Two fingers: pinch to zoom, move together to pan
+            const [a, b] = [...this.pointers.values()];
+            const before = Math.hypot(a.x - b.x, a.y - b.y);
+            const other = a === last ? b : a;
+            const after = Math.hypot(event.clientX - other.x, event.clientY - other.y);
+            if (before > 0 && after > 0) this.zoom(before / after);
+            const scale = this.panScale() / 2;
+            this.pan(-(event.clientX - last.x) * scale, (event.clientY - last.y) * scale);
+        } else if (this.panning) {
+            const scale = this.panScale();
+            this.pan(-(event.clientX - last.x) * scale, (event.clientY - last.y) * scale);
+        } else {
+            this.rotate((event.clientX - last.x) * this.rotateSpeed, (event.clientY - last.y) * this.rotateSpeed);
+        }
+        last.x = event.clientX;
+        last.y = event.clientY;
+    };
+
+    private onPointerUp = (e: Event) => {
+        this.pointers.delete((e as PointerEvent).pointerId);
+    };
+
+    private onWheel = (e: Event) => {
+        const event = e as WheelEvent;
+        event.preventDefault?.();
+        this.zoom(Math.pow(this.zoomSpeed, event.deltaY / 100));
+    };
+
+    private onContextMenu = (e: Event) => {
+        // Right-drag pans instead of opening the menu
+        e.preventDefault();
+    };
+}
@@ -0,0 +1,233 @@
+import { srgbToLinear } from "../ColorSpace";
+import { encodePNG } from "../Image/PNG";
+import type { PBRMaterial } from "../Loaders/GLTFLoader";
+import type { Material, ObjModel } from "../Loaders/OBJLoader";
+import type { Texture, TextureWrap } from "../Textures/Texture";
+
+export interface GLTFExportOptions {
+    /**
+     * Store the model's decoded textures in the file as PNG images (default true). Textures
+     * that aren't decoded, or all of them when false, are referred to by their key as a URI.
+     */
+    embedTextures?: boolean;
+}
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_JSON = 0x4e4f534a;
+const GLB_BIN = 0x004e4942;
+
+const FLOAT = 5126, UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962, ELEMENT_ARRAY_BUFFER = 34963;
+const NEAREST = 9728, LINEAR = 9729;
+const WRAP: Record<TextureWrap, number> = { clamp: 33071, mirror: 33648, repeat: 10497 };
+
+type JSONObject = Record<string, unknown>;
+
+/** The binary chunk being written, as views 4-byte aligned one after the other */
+class BinaryChunk {
+    readonly views: JSONObject[] = [];
+    private readonly parts: Uint8Array[] = [];
+    private length = 0;
+
+    /** @returns The index of the bufferView holding `bytes` */
+    add(bytes: Uint8Array, target?: number): number {
+        this.views.push({ buffer: 0, byteOffset: this.length, byteLength: bytes.length, ...(target ? { target } : {}) });
+        this.parts.push(bytes);
+        this.length += bytes.length;
+        const padding = (4 - bytes.length % 4) % 4;
+        if (padding) {
+            this.parts.push(new Uint8Array(padding));
+            this.length += padding;
+        }
+        return this.views.length - 1;
+    }
+
+    get byteLength() {
+        return this.length;
+    }
+
+    toBytes(): Uint8Array {
+        const bytes = new Uint8Array(this.length);
+        let offset = 0;
+        for (const part of this.parts) {
+            bytes.set(part, offset);
+            offset += part.length;
+        }
+        return bytes;
+    }
+}
+
+function asBytes(array: Float32Array | Uint32Array): Uint8Array {
+    return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
+
+/** A GLB file: the 12-byte header, the JSON chunk padded with spaces, then the binary chunk */
+function writeGLB(json: JSONObject, bin: Uint8Array): Uint8Array {
+    const text = new TextEncoder().encode(JSON.stringify(json));
+    const jsonLength = Math.ceil(text.length / 4) * 4;
+    const binLength = Math.ceil(bin.length / 4) * 4;
+    const total = 12 + 8 + jsonLength + (bin.length ? 8 + binLength : 0);
+    const bytes = new Uint8Array(total);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, total, true);
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, GLB_JSON, true);
+    bytes.fill(0x20, 20, 20 + jsonLength);
+    bytes.set(text, 20);
+    if (bin.length) {
+        const offset = 20 + jsonLength;
+        view.setUint32(offset, binLength, true);
+        view.setUint32(offset + 4, GLB_BIN, true);
+        bytes.set(bin, offset + 8);
+    }
+    return bytes;
+}
+
+export class GLTFExporter {
+    /**
+     * Write a model as a binary glTF (.glb): each mesh becomes a glTF mesh of one triangle
+     * primitive with its own node at the origin. Materials loaded from glTF keep their `pbr`
+     * parameters; Blinn-Phong materials are converted to metallic-roughness ones.
+     */
+    exportGLB(model: ObjModel, options?: GLTFExportOptions): Uint8Array {
+        const bin = new BinaryChunk();
+        const accessors: JSONObject[] = [];
+        const accessor = (array: Float32Array | Uint32Array, type: string, count: number, target: number, extra?: JSONObject) => {
+            const bufferView = bin.add(asBytes(array), target);
+            accessors.push({ bufferView, componentType: array instanceof Float32Array ? FLOAT : UNSIGNED_INT, count, type, ...extra });
+            return accessors.length - 1;
+        };
+
+        // Textures are written once however many materials use them
+        const images: JSONObject[] = [];
+        const samplers: JSONObject[] = [];
+        const textures: JSONObject[] = [];
+        const textureIndices = new Map<string, number>();
+        const textureInfo = (key?: string) => {
+            if (!key) return undefined;
+            let index = textureIndices.get(key);
+            if (index === undefined) {
+                const decoded = options?.embedTextures === false ? undefined : model.textures?.[key];
+                const texture: JSONObject = { source: images.length };
+                if (decoded) {
+                    const level = decoded.levels[0];
+                    const png = encodePNG(level.data, level.width, level.height, "rgba");
+                    images.push({ bufferView: bin.add(png), mimeType: "image/png", name: key });
+                    texture.sampler = samplers.length;
+                    samplers.push(this.sampler(decoded));
+                } else {
+                    images.push({ uri: key });
+                }
+                index = textures.length;
+                textures.push(texture);
+                textureIndices.set(key, index);
+            }
+            return { index };
+        };
+
+        const materialNames = Object.keys(model.materials);
+        const materials = Object.values(model.materials).map(m => this.toGLTFMaterial(m, textureInfo));
+
+        const meshes = model.meshes.map(mesh => {
+            const count = mesh.positions.length / 3;
+            const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+            for (let i = 0; i < mesh.positions.length; i++) {
+                min[i % 3] = Math.min(min[i % 3], mesh.positions[i]);
+                max[i % 3] = Math.max(max[i % 3], mesh.positions[i]);
+            }
+            const attributes: Record<string, number> = {
+                POSITION: accessor(mesh.positions, "VEC3", count, ARRAY_BUFFER, { min, max }),
+                NORMAL: accessor(mesh.normals, "VEC3", count, ARRAY_BUFFER)
+            };
+            if (mesh.uvs) {
+                // Texture puts v = 0 at the bottom of the image, glTF at the top
+                const uvs = new Float32Array(mesh.uvs);
+                for (let i = 1; i < uvs.length; i += 2) uvs[i] = 1 - uvs[i];
+                attributes.TEXCOORD_0 = accessor(uvs, "VEC2", count, ARRAY_BUFFER);
+            }
+            if (mesh.colors && mesh.colors.length >= mesh.positions.length) {
+                // glTF vertex colors are linear
+                attributes.COLOR_0 = accessor(mesh.colors.slice(0, count * 3).map(srgbToLinear), "VEC3", count, ARRAY_BUFFER);
+            }
+            const primitive: JSONObject = {
+                attributes,
+                indices: accessor(mesh.indices, "SCALAR", mesh.indices.length, ELEMENT_ARRAY_BUFFER)
+            };
+            const material = mesh.materialName ? materialNames.indexOf(mesh.materialName) : -1;
+            if (material >= 0) primitive.material = material;
+            return { name: mesh.name, primitives: [primitive] };
+        });
+
+        const nodes = model.meshes.map((mesh, i) => ({ name: mesh.name, mesh: i }));
+        const json: JSONObject = {
+            asset: { version: "2.0", generator: "3djs" },
+            scene: 0,
+            scenes: [{ nodes: nodes.map((_, i) => i) }],
+            nodes,
+            meshes,
+            accessors
+        };
+        if (materials.length) json.materials = materials;
+        if (textures.length) Object.assign(json, { textures, images });
+        if (samplers.length) json.samplers = samplers;
+        if (bin.byteLength) Object.assign(json, { bufferViews: bin.views, buffers: [{ byteLength: bin.byteLength }] });
+        return writeGLB(json, bin.toBytes());
+    }
+
+    /**
+     * Write the model as a .glb file (Node.js only)
+     */
+    async exportToFile(model: ObjModel, path: string, options?: GLTFExportOptions): Promise<void> {
+        const fs = await import("fs/promises");
+        await fs.writeFile(path, this.exportGLB(model, options));
+    }
+
+    /**
+     * The material's own glTF parameters, or an equivalent of its Blinn-Phong ones: the diffuse
+     * color as a dielectric base color and the roughness the loader turns back into the same Ns
+     */
+    private toGLTFMaterial(m: Material, textureInfo: (key?: string) => { index: number } | undefined): JSONObject {
+        const [r, g, b] = m.kd ?? [1, 1, 1];
+        const alpha = Math.sqrt(2 / ((m.ns ?? 0) + 2));
+        const pbr: PBRMaterial = m.pbr ?? {
+            baseColorFactor: [r, g, b, m.d ?? 1],
+            metallicFactor: 0,
+            roughnessFactor: Math.min(1, Math.sqrt(alpha)),
+            emissiveFactor: m.ke ?? [0, 0, 0],
+            alphaMode: m.alphaCutoff ? "MASK" : (m.d ?? 1) < 1 ? "BLEND" : "OPAQUE",
+            alphaCutoff: m.alphaCutoff ?? 0.5,
+            doubleSided: m.doubleSided ?? false,
+            baseColorTexture: m.mapKd,
+            normalTexture: m.mapNorm
+        };
+        const material: JSONObject = {
+            name: m.name,
+            pbrMetallicRoughness: {
+                baseColorFactor: pbr.baseColorFactor,
+                metallicFactor: pbr.metallicFactor,
+                roughnessFactor: pbr.roughnessFactor,
+                baseColorTexture: textureInfo(pbr.baseColorTexture),
+                metallicRoughnessTexture: textureInfo(pbr.metallicRoughnessTexture)
+            },
+            emissiveFactor: pbr.emissiveFactor,
+            alphaMode: pbr.alphaMode,
+            doubleSided: pbr.doubleSided
+        };
+        if (pbr.alphaMode === "MASK") material.alphaCutoff = pbr.alphaCutoff;
+        const normal = textureInfo(pbr.normalTexture);
+        if (normal) material.normalTexture = pbr.normalScale !== undefined ? { ...normal, scale: pbr.normalScale } : normal;
+        material.occlusionTexture = textureInfo(pbr.occlusionTexture);
+        material.emissiveTexture = textureInfo(pbr.emissiveTexture);
+        return material;
+    }
+
+    private sampler(texture: Texture): JSONObject {
+        const filter = texture.filter === "nearest" ? NEAREST : LINEAR;
+        // NEAREST/LINEAR_MIPMAP_NEAREST are 9984/9985, the _MIPMAP_LINEAR ones 9986/9987
+        const minFilter = texture.mipmaps === "none" ? filter
+            : 9984 + (filter === LINEAR ? 1 : 0) + (texture.mipmaps === "linear" ? 2 : 0);
+        return { magFilter: filter, minFilter, wrapS: WRAP[texture.wrapS], wrapT: WRAP[texture.wrapT] };
+    }
+}
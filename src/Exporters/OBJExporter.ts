@@ -0,0 +1,139 @@
+import type { ColorRGB, Material, MeshData, ObjModel, ObjObject } from "../Loaders/OBJLoader";
+
+export interface OBJExportOptions {
+    /** Name of the MTL file the OBJ refers to with `mtllib` (default "model.mtl") */
+    mtlFilename?: string;
+}
+
+export interface OBJExport {
+    obj: string;
+    /** Empty when the model has no materials; the OBJ then has no `mtllib` either */
+    mtl: string;
+}
+
+/** The shortest decimal that reads back as the same 32-bit float */
+function formatFloat(value: number): string {
+    const target = Math.fround(value);
+    for (let digits = 1; digits < 9; digits++) {
+        const text = String(parseFloat(value.toPrecision(digits)));
+        if (Math.fround(parseFloat(text)) === target) return text;
+    }
+    return String(parseFloat(value.toPrecision(9)));
+}
+
+/**
+ * Hands out 1-based OBJ indices for attribute tuples, the same index for identical ones
+ */
+class AttributeList {
+    readonly lines: string[] = [];
+    private readonly indices = new Map<string, number>();
+
+    constructor(private readonly tag: string) {
+    }
+
+    add(values: number[]): number {
+        const key = values.map(formatFloat).join(" ");
+        let index = this.indices.get(key);
+        if (index === undefined) {
+            this.lines.push(`${this.tag} ${key}`);
+            index = this.lines.length;
+            this.indices.set(key, index);
+        }
+        return index;
+    }
+}
+
+export class OBJExporter {
+    /**
+     * Write a model as OBJ text and the MTL text of its materials. Vertices that share a position,
+     * UV or normal share the `v`, `vt` or `vn` line; vertex colors follow the position as
+     * `v x y z r g b`. The `o`/`g` hierarchy of models loaded from OBJ is kept, with a `usemtl`
+     * wherever the material changes; other models get an `o` per mesh.
+     */
+    export(model: ObjModel, options?: OBJExportOptions): OBJExport {
+        const positions = new AttributeList("v");
+        const uvs = new AttributeList("vt");
+        const normals = new AttributeList("vn");
+        const lines: string[] = [];
+        let material: string | null = null;
+
+        const writeMesh = (mesh: MeshData) => {
+            // Like in the loader, a usemtl holds until the next; a bare one goes back to no material
+            if ((mesh.materialName ?? null) !== material) {
+                material = mesh.materialName ?? null;
+                lines.push(material ? `usemtl ${material}` : "usemtl");
+            }
+            const colors = mesh.colors && mesh.colors.length >= mesh.positions.length ? mesh.colors : null;
+            // OBJ indices of every vertex of the mesh, as "v/vt/vn"
+            const corners: string[] = [];
+            for (let i = 0; i < mesh.positions.length / 3; i++) {
+                const position = Array.from(mesh.positions.subarray(i * 3, i * 3 + 3));
+                if (colors) position.push(...colors.subarray(i * 3, i * 3 + 3));
+                const v = positions.add(position);
+                const vt = mesh.uvs ? uvs.add(Array.from(mesh.uvs.subarray(i * 2, i * 2 + 2))) : "";
+                const vn = normals.add(Array.from(mesh.normals.subarray(i * 3, i * 3 + 3)));
+                corners.push(`${v}/${vt}/${vn}`);
+            }
+            for (let t = 0; t + 2 < mesh.indices.length; t += 3) {
+                lines.push(`f ${corners[mesh.indices[t]]} ${corners[mesh.indices[t + 1]]} ${corners[mesh.indices[t + 2]]}`);
+            }
+        };
+
+        for (const object of this.hierarchy(model)) {
+            lines.push(`o ${object.name}`);
+            for (const group of object.groups) {
+                if (group.names.length) lines.push(`g ${group.names.join(" ")}`);
+                group.meshes.forEach(writeMesh);
+            }
+        }
+
+        const mtl = this.exportMTL(model.materials);
+        const header = mtl ? [`mtllib ${options?.mtlFilename ?? "model.mtl"}`] : [];
+        const obj = [...header, ...positions.lines, ...uvs.lines, ...normals.lines, ...lines].join("\n") + "\n";
+        return { obj, mtl };
+    }
+
+    /** The model's own o/g hierarchy while it still holds exactly its meshes, else an object per mesh */
+    private hierarchy(model: ObjModel): ObjObject[] {
+        const listed = model.objects?.flatMap(o => o.groups.flatMap(g => g.meshes));
+        if (listed && listed.length === model.meshes.length && listed.every((mesh, i) => mesh === model.meshes[i])) {
+            return model.objects!;
+        }
+        return model.meshes.map(mesh => ({ name: mesh.name, groups: [{ names: [], meshes: [mesh] }] }));
+    }
+
+    /**
+     * MTL text for the materials. The glTF `pbr` parameters have no MTL equivalent and are left
+     * out; the Blinn-Phong fields derived from them are written instead.
+     */
+    exportMTL(materials: Record<string, Material>): string {
+        const color = (tag: string, rgb?: ColorRGB) => rgb ? [`${tag} ${rgb.join(" ")}`] : [];
+        const blocks = Object.values(materials).map(m => [
+            `newmtl ${m.name}`,
+            ...color("Ka", m.ka),
+            ...color("Kd", m.kd),
+            ...color("Ks", m.ks),
+            ...color("Ke", m.ke),
+            ...(m.ns !== undefined ? [`Ns ${m.ns}`] : []),
+            ...(m.d !== undefined ? [`d ${m.d}`] : []),
+            ...(m.illum !== undefined ? [`illum ${m.illum}`] : []),
+            ...(m.mapKd ? [`map_Kd ${m.mapKd}`] : []),
+            ...(m.mapKs ? [`map_Ks ${m.mapKs}`] : []),
+            ...(m.mapBump ? [`map_bump ${m.bumpScale !== undefined ? `-bm ${m.bumpScale} ` : ""}${m.mapBump}`] : []),
+            ...(m.mapNorm ? [`norm ${m.mapNorm}`] : [])
+        ].join("\n"));
+        return blocks.length ? blocks.join("\n\n") + "\n" : "";
+    }
+
+    /**
+     * Write the OBJ to `path` and its MTL next to it, with the same name (Node.js only)
+     */
+    async exportToFile(model: ObjModel, path: string): Promise<void> {
+        const fs = await import("fs/promises");
+        const pathModule = await import("path");
+        const mtlPath = path.replace(/(\.obj)?$/i, ".mtl");
+        const { obj, mtl } = this.export(model, { mtlFilename: pathModule.basename(mtlPath) });
+        await fs.writeFile(path, obj, "utf8");
+        if (mtl) await fs.writeFile(mtlPath, mtl, "utf8");
+    }
+}
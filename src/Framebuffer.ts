@@ -0,0 +1,176 @@
+import { srgbToLinear } from "./ColorSpace";
+
+/**
+ * CPU-side color and depth buffers the rasterizer draws into.
+ * Colors are stored as packed RGBA in `data32`, with `buf8` viewing the same
+ * memory byte by byte so it can be handed straight to an ImageData or encoder.
+ * Shared framebuffers live in SharedArrayBuffers so raster workers can draw into them.
+ * Multisampled framebuffers keep `samples` colors and depths per pixel, next to each other.
+ * HDR framebuffers also keep a floating-point linear-light color per sample in `hdr`, and OIT
+ * ones the sums of weighted blended order-independent transparency in `accum` and `revealage`.
+ */
+export class Framebuffer {
+    readonly width: number;
+    readonly height: number;
+    readonly littleEndian: boolean;
+    readonly samples: number;
+
+    readonly shared: boolean;
+    readonly buffer: ArrayBuffer | SharedArrayBuffer;
+    readonly buf8: Uint8ClampedArray;
+    readonly data32: Uint32Array;
+    readonly zBuffer: Float32Array;
+    /**
+     * Linear RGBA per sample, 0..1 but not clamped, or null. The rasterizer writes here instead of
+     * `data32` when lighting in linear space; 8-bit colors given to clear, setPixel and plot go to
+     * both, decoded from sRGB for this one.
+     */
+    readonly hdr: Float32Array | null;
+    /**
+     * Per sample, the weighted sum of the transparent colors drawn over it (premultiplied RGB,
+     * then the weights), or null. See compositeTransparent.
+     */
+    readonly accum: Float32Array | null;
+    /** Per sample, the product of (1 - alpha) over the transparent fragments drawn, or null */
+    readonly revealage: Float32Array | null;
+
+    constructor(width: number, height: number, shared = false, samples = 1, hdr = false, oit = false) {
+        this.width = width;
+        this.height = height;
+        this.shared = shared;
+        this.samples = samples;
+
+        const Buffer = shared ? SharedArrayBuffer : ArrayBuffer;
+        this.buffer = new Buffer(width * height * samples * 4);
+        this.buf8 = new Uint8ClampedArray(this.buffer);
+        this.data32 = new Uint32Array(this.buffer);
+        this.zBuffer = new Float32Array(new Buffer(width * height * samples * 4));
+        this.hdr = hdr ? new Float32Array(new Buffer(width * height * samples * 16)) : null;
+        this.accum = oit ? new Float32Array(new Buffer(width * height * samples * 16)) : null;
+        this.revealage = oit ? new Float32Array(new Buffer(width * height * samples * 4)) : null;
+
+        const tmp = new Uint32Array([0x0a0b0c0d]);
+        const tmp8 = new Uint8Array(tmp.buffer);
+        // if tmp8[0] === 0x0d it's little-endian (lowest byte at lowest address)
+        this.littleEndian = tmp8[0] === 0x0d;
+
+        this.clearZ();
+    }
+
+    public clear(r = 0, g = 0, b = 0, a = 255) {
+        this.data32.fill(this.packRGBA(r, g, b, a));
+        const hdr = this.hdr;
+        if (hdr) {
+            this.writeLinear(0, r, g, b, a);
+            const lr = hdr[0], lg = hdr[1], lb = hdr[2], la = hdr[3];
+            for (let i = 4; i < hdr.length; i += 4) {
+                hdr[i] = lr;
+                hdr[i + 1] = lg;
+                hdr[i + 2] = lb;
+                hdr[i + 3] = la;
+            }
+        }
+        this.accum?.fill(0);
+        this.revealage?.fill(1);
+    }
+
+    public clearZ() {
+        this.zBuffer.fill(Number.POSITIVE_INFINITY);
+    }
+
+    public packRGBA(r: number, g: number, b: number, a = 255): number {
+        if (this.littleEndian) {
+            return (a << 24) | (b << 16) | (g << 8) | r;
+        } else {
+            return (r << 24) | (g << 16) | (b << 8) | a;
+        }
+    }
+
+    /** Bytes of color and depth memory */
+    get byteLength(): number {
+        return this.buffer.byteLength + this.zBuffer.byteLength + (this.hdr?.byteLength ?? 0)
+            + (this.accum?.byteLength ?? 0) + (this.revealage?.byteLength ?? 0);
+    }
+
+    /** Set every sample of a pixel */
+    public setPixel(x: number, y: number, r: number, g: number, b: number, a = 255) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return;
+        const idx = (y * this.width + x) * this.samples;
+        this.data32.fill(this.packRGBA(r | 0, g | 0, b | 0, a | 0), idx, idx + this.samples);
+        for (let i = idx; this.hdr && i < idx + this.samples; i++) this.writeLinear(i, r, g, b, a);
+    }
+
+    /**
+     * Read back a pixel (its first sample) as [r, g, b, a]. Mostly useful for tests and tooling.
+     */
+    public getPixel(x: number, y: number): [number, number, number, number] {
+        const i = (y * this.width + x) * this.samples * 4;
+        return [this.buf8[i], this.buf8[i + 1], this.buf8[i + 2], this.buf8[i + 3]];
+    }
+
+    /**
+     * Visualize the z-buffer as 8-bit grayscale: the nearest written depth maps to 0,
+     * the farthest to 255, and untouched (infinite) depth to 255 as well.
+     */
+    public depthToGrayscale(): Uint8Array {
+        let min = Infinity, max = -Infinity;
+        for (let i = 0; i < this.zBuffer.length; i++) {
+            const z = this.zBuffer[i];
+            if (z === Number.POSITIVE_INFINITY) continue;
+            if (z < min) min = z;
+            if (z > max) max = z;
+        }
+        const range = max > min ? max - min : 1;
+        const out = new Uint8Array(this.zBuffer.length);
+        for (let i = 0; i < this.zBuffer.length; i++) {
+            const z = this.zBuffer[i];
+            out[i] = z === Number.POSITIVE_INFINITY ? 255 : Math.round(((z - min) / range) * 255);
+        }
+        return out;
+    }
+
+    /**
+     * Depth-test every sample of a pixel against z and write the color to the ones that pass.
+     */
+    public plot(x: number, y: number, z: number, r: number, g: number, b: number, a = 255) {
+        const samples = this.samples, zBuffer = this.zBuffer;
+        const idx = (y * this.width + x) * samples;
+        const color = this.packRGBA(r | 0, g | 0, b | 0, a | 0);
+        for (let i = idx; i < idx + samples; i++) {
+            if (z >= zBuffer[i]) continue;
+            zBuffer[i] = z;
+            this.data32[i] = color;
+            if (this.hdr) this.writeLinear(i, r, g, b, a);
+        }
+    }
+
+    /**
+     * Blend the transparency accumulated in `accum` and `revealage` over the colors: each sample
+     * gets the weighted average of its transparent colors, covering it by 1 - revealage.
+     */
+    public compositeTransparent() {
+        const accum = this.accum, revealage = this.revealage;
+        if (!accum || !revealage) return;
+        const hdr = this.hdr, buf8 = this.buf8;
+        for (let i = 0; i < revealage.length; i++) {
+            const reveal = revealage[i];
+            if (reveal === 1) continue;
+            const o = i * 4;
+            const weight = Math.max(accum[o + 3], 1e-5), cover = 1 - reveal;
+            for (let k = 0; k < 3; k++) {
+                const color = accum[o + k] / weight;
+                if (hdr) hdr[o + k] = color * cover + hdr[o + k] * reveal;
+                else buf8[o + k] = color * 255 * cover + buf8[o + k] * reveal;
+            }
+        }
+    }
+
+    /** Store an 8-bit sRGB color as linear floats at sample i of `hdr` */
+    private writeLinear(i: number, r: number, g: number, b: number, a: number) {
+        const hdr = this.hdr!;
+        hdr[i * 4] = srgbToLinear(r / 255);
+        hdr[i * 4 + 1] = srgbToLinear(g / 255);
+        hdr[i * 4 + 2] = srgbToLinear(b / 255);
+        hdr[i * 4 + 3] = a / 255;
+    }
+}
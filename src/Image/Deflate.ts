@@ -0,0 +1,323 @@
+// Minimal zlib (RFC 1950) / DEFLATE (RFC 1951) implementation so PNG encoding and
+// decoding work the same in the browser, Node and Bun without native bindings.
+// The compressor only emits fixed-Huffman blocks, which is plenty for rendered frames.
+
+const LEN_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LEN_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+
+function adler32(data: Uint8Array): number {
+    let a = 1, b = 0;
+    for (let i = 0; i < data.length;) {
+        // 5552 is the largest block that can't overflow before the modulo
+        const end = Math.min(i + 5552, data.length);
+        for (; i < end; i++) {
+            a += data[i];
+            b += a;
+        }
+        a %= 65521;
+        b %= 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+class BitWriter {
+    private out: Uint8Array;
+    private pos = 0;
+    private bitBuf = 0;
+    private bitCount = 0;
+
+    constructor(capacity: number) {
+        this.out = new Uint8Array(Math.max(64, capacity));
+    }
+
+    writeBits(value: number, count: number) {
+        this.bitBuf |= value << this.bitCount;
+        this.bitCount += count;
+        while (this.bitCount >= 8) {
+            this.pushByte(this.bitBuf & 0xff);
+            this.bitBuf >>>= 8;
+            this.bitCount -= 8;
+        }
+    }
+
+    /** Huffman codes are packed starting from their most significant bit */
+    writeCode(code: number, length: number) {
+        let rev = 0;
+        for (let i = 0; i < length; i++) {
+            rev = (rev << 1) | ((code >> i) & 1);
+        }
+        this.writeBits(rev, length);
+    }
+
+    pushByte(byte: number) {
+        if (this.pos >= this.out.length) {
+            const grown = new Uint8Array(this.out.length * 2);
+            grown.set(this.out);
+            this.out = grown;
+        }
+        this.out[this.pos++] = byte;
+    }
+
+    finish(): Uint8Array {
+        if (this.bitCount > 0) this.pushByte(this.bitBuf & 0xff);
+        this.bitBuf = 0;
+        this.bitCount = 0;
+        return this.out.subarray(0, this.pos);
+    }
+}
+
+function writeFixedLiteral(w: BitWriter, sym: number) {
+    if (sym < 144) w.writeCode(0x30 + sym, 8);
+    else if (sym < 256) w.writeCode(0x190 + sym - 144, 9);
+    else if (sym < 280) w.writeCode(sym - 256, 7);
+    else w.writeCode(0xc0 + sym - 280, 8);
+}
+
+function findBaseIndex(bases: number[], value: number): number {
+    let i = bases.length - 1;
+    while (bases[i] > value) i--;
+    return i;
+}
+
+/**
+ * Compress raw bytes into a zlib stream (fixed Huffman, LZ77 with hash chains).
+ */
+function zlibDeflate(data: Uint8Array): Uint8Array {
+    const w = new BitWriter((data.length >> 1) + 16);
+    w.pushByte(0x78);
+    w.pushByte(0x01);
+
+    // Single final block using the fixed Huffman tables
+    w.writeBits(1, 1);
+    w.writeBits(1, 2);
+
+    const hashSize = 1 << HASH_BITS;
+    const head = new Int32Array(hashSize).fill(-1);
+    const prev = new Int32Array(WINDOW_SIZE).fill(-1);
+    const hashAt = (p: number) => ((data[p] << 10) ^ (data[p + 1] << 5) ^ data[p + 2]) & (hashSize - 1);
+    const insert = (p: number) => {
+        if (p + MIN_MATCH > data.length) return;
+        const h = hashAt(p);
+        prev[p & (WINDOW_SIZE - 1)] = head[h];
+        head[h] = p;
+    };
+
+    let i = 0;
+    while (i < data.length) {
+        let bestLen = 0, bestDist = 0;
+        if (i + MIN_MATCH <= data.length) {
+            let candidate = head[hashAt(i)];
+            const maxLen = Math.min(MAX_MATCH, data.length - i);
+            for (let chain = 0; candidate >= 0 && chain < MAX_CHAIN; chain++) {
+                const dist = i - candidate;
+                if (dist > WINDOW_SIZE - 1) break;
+                let len = 0;
+                while (len < maxLen && data[candidate + len] === data[i + len]) len++;
+                if (len > bestLen) {
+                    bestLen = len;
+                    bestDist = dist;
+                    if (len === maxLen) break;
+                }
+                const next = prev[candidate & (WINDOW_SIZE - 1)];
+                if (next >= candidate) break; // slot was overwritten by a newer position
+                candidate = next;
+            }
+        }
+
+        if (bestLen >= MIN_MATCH) {
+            const li = findBaseIndex(LEN_BASE, bestLen);
+            writeFixedLiteral(w, 257 + li);
+            if (LEN_EXTRA[li]) w.writeBits(bestLen - LEN_BASE[li], LEN_EXTRA[li]);
+            const di = findBaseIndex(DIST_BASE, bestDist);
+            w.writeCode(di, 5);
+            if (DIST_EXTRA[di]) w.writeBits(bestDist - DIST_BASE[di], DIST_EXTRA[di]);
+            for (let k = 0; k < bestLen; k++) insert(i + k);
+            i += bestLen;
+        } else {
+            writeFixedLiteral(w, data[i]);
+            insert(i);
+            i++;
+        }
+    }
+    writeFixedLiteral(w, 256);
+
+    w.finish();
+    const adler = adler32(data);
+    w.pushByte((adler >>> 24) & 0xff);
+    w.pushByte((adler >>> 16) & 0xff);
+    w.pushByte((adler >>> 8) & 0xff);
+    w.pushByte(adler & 0xff);
+    return w.finish().slice();
+}
+
+interface Huffman {
+    counts: Uint16Array;  // number of codes of each length
+    symbols: Uint16Array; // symbols ordered by code
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+    const counts = new Uint16Array(16);
+    for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+    counts[0] = 0;
+    const offsets = new Uint16Array(16);
+    for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+    const symbols = new Uint16Array(lengths.length);
+    for (let i = 0; i < lengths.length; i++) {
+        if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+    }
+    return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class BitReader {
+    pos = 0;
+    private bitBuf = 0;
+    private bitCount = 0;
+
+    constructor(readonly data: Uint8Array) { }
+
+    bits(count: number): number {
+        while (this.bitCount < count) {
+            if (this.pos >= this.data.length) throw new Error("Unexpected end of deflate stream");
+            this.bitBuf |= this.data[this.pos++] << this.bitCount;
+            this.bitCount += 8;
+        }
+        const value = this.bitBuf & ((1 << count) - 1);
+        this.bitBuf >>>= count;
+        this.bitCount -= count;
+        return value;
+    }
+
+    alignToByte() {
+        this.bitBuf = 0;
+        this.bitCount = 0;
+    }
+
+    decode(h: Huffman): number {
+        let code = 0, first = 0, index = 0;
+        for (let len = 1; len < 16; len++) {
+            code |= this.bits(1);
+            const count = h.counts[len];
+            if (code - count < first) return h.symbols[index + (code - first)];
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+        throw new Error("Invalid Huffman code in deflate stream");
+    }
+}
+
+/**
+ * Decompress a zlib stream (all block types).
+ */
+function zlibInflate(data: Uint8Array): Uint8Array {
+    if (data.length < 6) throw new Error("zlib stream too short");
+    const cmf = data[0], flg = data[1];
+    if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) throw new Error("Invalid zlib header");
+    if (flg & 0x20) throw new Error("zlib preset dictionaries are not supported");
+
+    const reader = new BitReader(data.subarray(2));
+    let out = new Uint8Array(Math.max(1024, data.length * 4));
+    let outPos = 0;
+    const ensure = (extra: number) => {
+        if (outPos + extra <= out.length) return;
+        let size = out.length * 2;
+        while (size < outPos + extra) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(out.subarray(0, outPos));
+        out = grown;
+    };
+
+    let final = 0;
+    while (!final) {
+        final = reader.bits(1);
+        const type = reader.bits(2);
+        if (type === 0) {
+            reader.alignToByte();
+            const src = reader.data;
+            const len = src[reader.pos] | (src[reader.pos + 1] << 8);
+            reader.pos += 4;
+            ensure(len);
+            out.set(src.subarray(reader.pos, reader.pos + len), outPos);
+            outPos += len;
+            reader.pos += len;
+            continue;
+        }
+
+        let lit: Huffman, dist: Huffman;
+        if (type === 1) {
+            lit = FIXED_LITERALS;
+            dist = FIXED_DISTANCES;
+        } else if (type === 2) {
+            const hlit = reader.bits(5) + 257;
+            const hdist = reader.bits(5) + 1;
+            const hclen = reader.bits(4) + 4;
+            const clLengths = new Uint8Array(19);
+            for (let i = 0; i < hclen; i++) clLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+            const clHuff = buildHuffman(clLengths);
+            const lengths = new Uint8Array(hlit + hdist);
+            for (let i = 0; i < hlit + hdist;) {
+                const sym = reader.decode(clHuff);
+                if (sym < 16) {
+                    lengths[i++] = sym;
+                } else {
+                    let repeat = 0, value = 0;
+                    if (sym === 16) {
+                        if (i === 0) throw new Error("Invalid code length repeat");
+                        value = lengths[i - 1];
+                        repeat = 3 + reader.bits(2);
+                    } else if (sym === 17) {
+                        repeat = 3 + reader.bits(3);
+                    } else {
+                        repeat = 11 + reader.bits(7);
+                    }
+                    while (repeat-- > 0) lengths[i++] = value;
+                }
+            }
+            lit = buildHuffman(lengths.subarray(0, hlit));
+            dist = buildHuffman(lengths.subarray(hlit));
+        } else {
+            throw new Error("Invalid deflate block type");
+        }
+
+        for (;;) {
+            const sym = reader.decode(lit);
+            if (sym < 256) {
+                ensure(1);
+                out[outPos++] = sym;
+            } else if (sym === 256) {
+                break;
+            } else {
+                const li = sym - 257;
+                if (li >= LEN_BASE.length) throw new Error("Invalid deflate length code");
+                const len = LEN_BASE[li] + reader.bits(LEN_EXTRA[li]);
+                const di = reader.decode(dist);
+                const d = DIST_BASE[di] + reader.bits(DIST_EXTRA[di]);
+                if (d > outPos) throw new Error("Invalid deflate distance");
+                ensure(len);
+                for (let k = 0; k < len; k++, outPos++) out[outPos] = out[outPos - d];
+            }
+        }
+    }
+
+    const result = out.slice(0, outPos);
+    const p = 2 + reader.pos;
+    if (p + 4 <= data.length) {
+        const expected = ((data[p] << 24) | (data[p + 1] << 16) | (data[p + 2] << 8) | data[p + 3]) >>> 0;
+        if (expected !== adler32(result)) throw new Error("zlib checksum mismatch");
+    }
+    return result;
+}
+
+export { zlibDeflate, zlibInflate, adler32 };
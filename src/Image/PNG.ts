@@ -0,0 +1,272 @@
+import { zlibDeflate, zlibInflate } from "./Deflate";
+
+/** Decoded 8-bit RGBA image, top row first */
+export interface RGBAImage {
+    readonly width: number;
+    readonly height: number;
+    readonly data: Uint8ClampedArray;
+}
+
+export type PNGColorType = "rgba" | "rgb" | "gray";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = (c & 1) ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+    let c = 0xffffffff;
+    for (let i = start; i < end; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+}
+
+/**
+ * Encode 8-bit pixels as a PNG file.
+ * @param pixels Source pixels, RGBA (4 bytes per pixel) unless `inputChannels` says otherwise
+ * @param colorType Channels written to the file; alpha/color is dropped as needed
+ * @param inputChannels Bytes per pixel in `pixels` (4 for RGBA, 1 for grayscale)
+ */
+function encodePNG(pixels: ArrayLike<number>, width: number, height: number, colorType: PNGColorType = "rgba", inputChannels = 4): Uint8Array {
+    const channels = colorType === "rgba" ? 4 : colorType === "rgb" ? 3 : 1;
+    const stride = width * channels;
+
+    // Convert to the output layout first, then filter each row
+    const raw = new Uint8Array(stride * height);
+    for (let i = 0, p = 0; i < width * height; i++) {
+        const s = i * inputChannels;
+        if (channels === 1) {
+            raw[p++] = inputChannels >= 3
+                ? Math.round(0.299 * pixels[s] + 0.587 * pixels[s + 1] + 0.114 * pixels[s + 2])
+                : pixels[s];
+        } else {
+            const gray = inputChannels < 3;
+            raw[p++] = pixels[s];
+            raw[p++] = gray ? pixels[s] : pixels[s + 1];
+            raw[p++] = gray ? pixels[s] : pixels[s + 2];
+            if (channels === 4) raw[p++] = inputChannels === 4 ? pixels[s + 3] : inputChannels === 2 ? pixels[s + 1] : 255;
+        }
+    }
+
+    // Pick the filter with the smallest sum of absolute residuals per row (libpng heuristic)
+    const filtered = new Uint8Array((stride + 1) * height);
+    const candidate = new Uint8Array(stride);
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        let bestSum = Infinity;
+        for (let f = 0; f < 5; f++) {
+            let sum = 0;
+            for (let x = 0; x < stride; x++) {
+                const cur = raw[row + x];
+                const a = x >= channels ? raw[row + x - channels] : 0;
+                const b = y > 0 ? raw[row - stride + x] : 0;
+                const c = x >= channels && y > 0 ? raw[row - stride + x - channels] : 0;
+                let v = cur;
+                if (f === 1) v = cur - a;
+                else if (f === 2) v = cur - b;
+                else if (f === 3) v = cur - ((a + b) >> 1);
+                else if (f === 4) v = cur - paeth(a, b, c);
+                v &= 0xff;
+                candidate[x] = v;
+                sum += v < 128 ? v : 256 - v;
+            }
+            if (sum < bestSum) {
+                bestSum = sum;
+                filtered[y * (stride + 1)] = f;
+                filtered.set(candidate, y * (stride + 1) + 1);
+            }
+        }
+    }
+
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr[8] = 8; // bit depth
+    ihdr[9] = colorType === "rgba" ? 6 : colorType === "rgb" ? 2 : 0;
+    ihdr[10] = 0; // deflate
+    ihdr[11] = 0; // adaptive filtering
+    ihdr[12] = 0; // no interlace
+
+    const chunks = [
+        makeChunk("IHDR", ihdr),
+        makeChunk("IDAT", zlibDeflate(filtered)),
+        makeChunk("IEND", new Uint8Array(0))
+    ];
+    const total = PNG_SIGNATURE.length + chunks.reduce((n, c) => n + c.length, 0);
+    const out = new Uint8Array(total);
+    out.set(PNG_SIGNATURE, 0);
+    let offset = PNG_SIGNATURE.length;
+    for (const c of chunks) {
+        out.set(c, offset);
+        offset += c.length;
+    }
+    return out;
+}
+
+function makeChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+    return chunk;
+}
+
+/** Adam7 pass origins and steps: [x0, y0, dx, dy] */
+const ADAM7 = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4],
+    [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+/**
+ * Decode a PNG file into 8-bit RGBA.
+ * Supports every standard color type and bit depth, palettes with tRNS, and Adam7 interlacing.
+ * 16-bit channels are reduced to their high byte.
+ */
+function decodePNG(bytes: Uint8Array): RGBAImage {
+    for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+        if (bytes[i] !== PNG_SIGNATURE[i]) throw new Error("Not a PNG file");
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (data.length !== length) throw new Error(`Truncated PNG chunk: ${type}`);
+        if (view.getUint32(offset + 8 + length) !== crc32(bytes, offset + 4, offset + 8 + length)) {
+            throw new Error(`PNG chunk CRC mismatch: ${type}`);
+        }
+        offset += 12 + length;
+
+        if (type === "IHDR") {
+            const h = new DataView(data.buffer, data.byteOffset, data.byteLength);
+            width = h.getUint32(0);
+            height = h.getUint32(4);
+            bitDepth = data[8];
+            colorType = data[9];
+            interlace = data[12];
+        } else if (type === "PLTE") {
+            palette = data;
+        } else if (type === "tRNS") {
+            transparency = data;
+        } else if (type === "IDAT") {
+            idat.push(data);
+        } else if (type === "IEND") {
+            break;
+        }
+    }
+    if (!width || !height) throw new Error("PNG is missing IHDR");
+
+    const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+    const channels = channelsByType[colorType];
+    if (!channels) throw new Error(`Unsupported PNG color type: ${colorType}`);
+    if (colorType === 3 && !palette) throw new Error("Palette PNG without PLTE chunk");
+
+    const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+    let p = 0;
+    for (const c of idat) {
+        compressed.set(c, p);
+        p += c.length;
+    }
+    const raw = zlibInflate(compressed);
+
+    const bitsPerPixel = channels * bitDepth;
+    const bpp = Math.max(1, bitsPerPixel >> 3); // filter byte distance
+    const out = new Uint8ClampedArray(width * height * 4);
+    const maxValue = (1 << bitDepth) - 1;
+
+    // tRNS for gray/rgb images names one fully transparent color
+    const transparentKey = transparency && colorType !== 3
+        ? Array.from({ length: colorType === 0 ? 1 : 3 }, (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1])
+        : null;
+
+    let rawPos = 0;
+    const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+    for (const [x0, y0, dx, dy] of passes) {
+        const passWidth = Math.ceil((width - x0) / dx);
+        const passHeight = Math.ceil((height - y0) / dy);
+        if (passWidth <= 0 || passHeight <= 0) continue;
+        const stride = Math.ceil(passWidth * bitsPerPixel / 8);
+        let prevRow = new Uint8Array(stride);
+        let row = new Uint8Array(stride);
+
+        for (let py = 0; py < passHeight; py++) {
+            const filter = raw[rawPos++];
+            for (let x = 0; x < stride; x++) {
+                const cur = raw[rawPos++];
+                const a = x >= bpp ? row[x - bpp] : 0;
+                const b = prevRow[x];
+                const c = x >= bpp ? prevRow[x - bpp] : 0;
+                switch (filter) {
+                    case 0: row[x] = cur; break;
+                    case 1: row[x] = cur + a; break;
+                    case 2: row[x] = cur + b; break;
+                    case 3: row[x] = cur + ((a + b) >> 1); break;
+                    case 4: row[x] = cur + paeth(a, b, c); break;
+                    default: throw new Error(`Invalid PNG filter type: ${filter}`);
+                }
+            }
+
+            const y = y0 + py * dy;
+            for (let px = 0; px < passWidth; px++) {
+                const x = x0 + px * dx;
+                const o = (y * width + x) * 4;
+                const sample = (ch: number) => {
+                    if (bitDepth === 8) return row[px * channels + ch];
+                    if (bitDepth === 16) return (row[(px * channels + ch) * 2] << 8) | row[(px * channels + ch) * 2 + 1];
+                    const bit = (px * channels + ch) * bitDepth;
+                    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+                };
+                const to8 = (v: number) => bitDepth === 16 ? v >> 8 : bitDepth === 8 ? v : Math.round(v * 255 / maxValue);
+
+                if (colorType === 3) {
+                    const index = sample(0);
+                    out[o] = palette![index * 3];
+                    out[o + 1] = palette![index * 3 + 1];
+                    out[o + 2] = palette![index * 3 + 2];
+                    out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                } else if (colorType === 0 || colorType === 4) {
+                    const g = sample(0);
+                    out[o] = out[o + 1] = out[o + 2] = to8(g);
+                    out[o + 3] = colorType === 4 ? to8(sample(1)) : (transparentKey && g === transparentKey[0] ? 0 : 255);
+                } else {
+                    const r = sample(0), g = sample(1), b = sample(2);
+                    out[o] = to8(r);
+                    out[o + 1] = to8(g);
+                    out[o + 2] = to8(b);
+                    out[o + 3] = colorType === 6
+                        ? to8(sample(3))
+                        : (transparentKey && r === transparentKey[0] && g === transparentKey[1] && b === transparentKey[2] ? 0 : 255);
+                }
+            }
+
+            [prevRow, row] = [row, prevRow];
+        }
+    }
+
+    return { width, height, data: out };
+}
+
+export { encodePNG, decodePNG, crc32 };
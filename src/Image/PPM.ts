@@ -0,0 +1,87 @@
+import type { RGBAImage } from "./PNG";
+
+/**
+ * Encode pixels as binary PPM (P6, RGB) or PGM (P5, grayscale).
+ * @param pixels Source pixels with `inputChannels` bytes per pixel (4 = RGBA, 1 = gray)
+ * @param gray Write a P5 grayscale map instead of P6
+ */
+function encodePPM(pixels: ArrayLike<number>, width: number, height: number, gray = false, inputChannels = 4): Uint8Array {
+    const header = new TextEncoder().encode(`${gray ? "P5" : "P6"}\n${width} ${height}\n255\n`);
+    const channels = gray ? 1 : 3;
+    const out = new Uint8Array(header.length + width * height * channels);
+    out.set(header, 0);
+    let p = header.length;
+    for (let i = 0; i < width * height; i++) {
+        const s = i * inputChannels;
+        if (gray) {
+            out[p++] = inputChannels >= 3
+                ? Math.round(0.299 * pixels[s] + 0.587 * pixels[s + 1] + 0.114 * pixels[s + 2])
+                : pixels[s];
+        } else if (inputChannels >= 3) {
+            out[p++] = pixels[s];
+            out[p++] = pixels[s + 1];
+            out[p++] = pixels[s + 2];
+        } else {
+            const v = pixels[s];
+            out[p++] = v;
+            out[p++] = v;
+            out[p++] = v;
+        }
+    }
+    return out;
+}
+
+/**
+ * Decode binary or ASCII PPM/PGM (P2, P3, P5, P6) into 8-bit RGBA.
+ */
+function decodePPM(bytes: Uint8Array): RGBAImage {
+    let pos = 0;
+    const token = (): string => {
+        // Skip whitespace and comments
+        for (;;) {
+            while (pos < bytes.length && /\s/.test(String.fromCharCode(bytes[pos]))) pos++;
+            if (bytes[pos] !== 0x23) break; // '#'
+            while (pos < bytes.length && bytes[pos] !== 0x0a) pos++;
+        }
+        let s = "";
+        while (pos < bytes.length && !/\s/.test(String.fromCharCode(bytes[pos]))) s += String.fromCharCode(bytes[pos++]);
+        return s;
+    };
+
+    const magic = token();
+    if (!["P2", "P3", "P5", "P6"].includes(magic)) throw new Error(`Unsupported PPM format: ${magic}`);
+    const width = parseInt(token(), 10);
+    const height = parseInt(token(), 10);
+    const maxValue = parseInt(token(), 10);
+    if (!(width > 0 && height > 0 && maxValue > 0)) throw new Error("Malformed PPM header");
+    pos++; // single whitespace before binary data
+
+    const gray = magic === "P2" || magic === "P5";
+    const binary = magic === "P5" || magic === "P6";
+    const wide = maxValue > 255;
+    const read = (): number => {
+        if (!binary) return parseInt(token(), 10);
+        if (wide) {
+            const v = (bytes[pos] << 8) | bytes[pos + 1];
+            pos += 2;
+            return v;
+        }
+        return bytes[pos++];
+    };
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const o = i * 4;
+        if (gray) {
+            data[o] = data[o + 1] = data[o + 2] = Math.round(read() * 255 / maxValue);
+        } else {
+            data[o] = Math.round(read() * 255 / maxValue);
+            data[o + 1] = Math.round(read() * 255 / maxValue);
+            data[o + 2] = Math.round(read() * 255 / maxValue);
+        }
+        data[o + 3] = 255;
+    }
+    return { width, height, data };
+}
+
+export { encodePPM, decodePPM };
@@ -0,0 +1,171 @@
+import type { ShadingMaterial } from "./Materials";
+import type { DirectionalLight } from "./Objects/DirectionalLight";
+import type { PointLight } from "./Objects/PointLight";
+import type { SpotLight } from "./Objects/SpotLight";
+import type { AmbientLight } from "./Objects/AmbientLight";
+import type { HemisphereLight } from "./Objects/HemisphereLight";
+import { localKernel } from "./Raster/RasterKernel";
+import { srgbToLinear } from "./ColorSpace";
+import { vnorm, type Mat4, type Vec3 } from "./Math";
+
+type Light = DirectionalLight | PointLight | SpotLight | AmbientLight | HemisphereLight;
+
+/**
+ * A light's shadow map for one frame, as the lighting code samples it (see ShadowMap)
+ */
+interface ResolvedShadow {
+    /** World to the light's clip space */
+    matrix: Mat4;
+    /** Width and height of the depth map */
+    size: number;
+    /** Post-divide depth in 0..1 per texel, rows top first; Infinity where nothing was drawn */
+    depth: Float32Array;
+    /** Perspective (spot) or orthographic (directional) light projection */
+    perspective: boolean;
+    /** Light-space depth range, for converting the bias of perspective maps */
+    near: number;
+    far: number;
+    /** World size of a texel; per unit of distance from the light for perspective maps */
+    texelSize: number;
+    bias: number;
+    normalBias: number;
+    pcfRadius: number;
+}
+
+/**
+ * A light reduced to world-space values for one frame, with intensity folded into the color
+ */
+interface ResolvedLight {
+    type: "directional" | "point" | "spot" | "hemisphere";
+    color: Vec3;
+    groundColor: Vec3; // hemisphere only
+    position: Vec3;
+    direction: Vec3; // normalized; travel direction for directional/spot, "up" for hemisphere
+    range: number;
+    constant: number;
+    linear: number;
+    quadratic: number;
+    cosInner: number;
+    cosOuter: number;
+    shadow: ResolvedShadow | null; // directional and spot lights that cast shadows
+}
+
+/**
+ * Everything the lighting functions need for a frame.
+ * Ambient lights are summed into `ambient` since they don't depend on the surface.
+ */
+interface LightSet {
+    ambient: Vec3;
+    lights: ResolvedLight[];
+}
+
+const ZERO: Vec3 = { x: 0, y: 0, z: 0 };
+
+/**
+ * Resolve lights into world space once per frame.
+ * @param defaultAmbient Gray ambient level used when there is no AmbientLight or HemisphereLight
+ * @param shadows This frame's shadow maps of the lights that cast shadows
+ * @param linear Decode the light colors from sRGB, for lighting in linear space. Intensities and
+ * the default ambient level are taken as linear either way.
+ */
+function resolveLights(lights: readonly Light[], defaultAmbient: number, shadows?: ReadonlyMap<Light, ResolvedShadow>, linear = false): LightSet {
+    const tint = (c: Vec3, s: number): Vec3 => linear
+        ? { x: srgbToLinear(c.x) * s, y: srgbToLinear(c.y) * s, z: srgbToLinear(c.z) * s }
+        : { x: c.x * s, y: c.y * s, z: c.z * s };
+    const ambient = { x: 0, y: 0, z: 0 };
+    const resolved: ResolvedLight[] = [];
+    let hasAmbient = false;
+
+    for (const light of lights) {
+        const s = light.intensity;
+        const base: ResolvedLight = {
+            type: "directional",
+            color: ZERO,
+            groundColor: ZERO,
+            position: ZERO,
+            direction: ZERO,
+            range: 0, constant: 1, linear: 0, quadratic: 0,
+            cosInner: 1, cosOuter: 1,
+            shadow: shadows?.get(light) ?? null
+        };
+        switch (light.type) {
+            case "ambient":
+                hasAmbient = true;
+                const color = tint(light.color, s);
+                ambient.x += color.x;
+                ambient.y += color.y;
+                ambient.z += color.z;
+                continue;
+            case "hemisphere":
+                hasAmbient = true;
+                base.type = "hemisphere";
+                base.color = tint(light.skyColor, s);
+                base.groundColor = tint(light.groundColor, s);
+                base.direction = vnorm(light.getWorldUp());
+                break;
+            case "directional":
+                base.color = tint(light.color, s);
+                base.direction = vnorm(light.getWorldDirection());
+                break;
+            case "point":
+            case "spot":
+                base.type = light.type;
+                base.color = tint(light.color, s);
+                base.position = light.getWorldPosition();
+                base.range = light.range;
+                base.constant = light.attenuation.constant;
+                base.linear = light.attenuation.linear;
+                base.quadratic = light.attenuation.quadratic;
+                if (light.type === "spot") {
+                    base.direction = vnorm(light.getWorldDirection());
+                    base.cosInner = Math.cos(light.innerAngle);
+                    base.cosOuter = Math.cos(Math.max(light.outerAngle, light.innerAngle));
+                }
+                break;
+        }
+        resolved.push(base);
+    }
+
+    if (!hasAmbient) {
+        ambient.x = ambient.y = ambient.z = defaultAmbient;
+    }
+    return { ambient, lights: resolved };
+}
+
+const lit = new Float64Array(6);
+
+/**
+ * Accumulate every light's contribution at a surface point.
+ * @param n Normalized world-space normal
+ * @param viewDir Normalized direction from the surface towards the eye, or null for diffuse only
+ * @returns Diffuse (emissive + ambient + diffuse) and specular, 0..255 and not clamped
+ */
+function accumulateLights(position: Vec3, n: Vec3, viewDir: Vec3 | null, lightSet: LightSet, material: ShadingMaterial): { diffuse: Vec3, specular: Vec3 } {
+    const v = viewDir ?? ZERO;
+    localKernel.shade(position.x, position.y, position.z, n.x, n.y, n.z, v.x, v.y, v.z, viewDir !== null, true, lightSet, material, lit);
+    return {
+        diffuse: { x: lit[0], y: lit[1], z: lit[2] },
+        specular: { x: lit[3], y: lit[4], z: lit[5] }
+    };
+}
+
+/**
+ * Per-face lighting for flat shading (diffuse only).
+ * @param position Point on the face (its centroid) for positional lights
+ * @returns Lit color in 0..255 (not clamped)
+ */
+function computeFlatLighting(faceNormal: Vec3, position: Vec3, lightSet: LightSet, material: ShadingMaterial): Vec3 {
+    return accumulateLights(position, vnorm(faceNormal), null, lightSet, material).diffuse;
+}
+
+/**
+ * Blinn-Phong lighting split into a diffuse part (emissive + ambient + diffuse, modulated by map_Kd)
+ * and a specular part (modulated by map_Ks). Colors are 0..255 and not clamped.
+ */
+function computeBlinnPhongLighting(position: Vec3, normal: Vec3, viewDir: Vec3, lightSet: LightSet, material: ShadingMaterial): { diffuse: Vec3, specular: Vec3 } {
+    return accumulateLights(position, vnorm(normal), viewDir, lightSet, material);
+}
+
+export { resolveLights, computeFlatLighting, computeBlinnPhongLighting };
+
+export type { Light, LightSet, ResolvedLight, ResolvedShadow };
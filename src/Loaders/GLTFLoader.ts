@@ -0,0 +1,652 @@
+import type { ColorRGB, Material, MeshData, ObjModel } from "./OBJLoader";
+import { resolveUrl } from "./OBJLoader";
+import { computeBoundingBox } from "./Geometry";
+import { linearToSrgb } from "../ColorSpace";
+import type { Light } from "../Lighting";
+import { mat4Decompose, type Vec3 } from "../Math";
+import { Camera } from "../Objects/Camera";
+import { DirectionalLight } from "../Objects/DirectionalLight";
+import { PointLight } from "../Objects/PointLight";
+import { SpotLight } from "../Objects/SpotLight";
+import { SceneNode } from "../Scene/SceneNode";
+import { Texture, type TextureOptions, type TextureWrap } from "../Textures/Texture";
+import { TextureLoader } from "../Textures/TextureLoader";
+
+/**
+ * The metallic-roughness factors and maps of a glTF material as the file states them. The
+ * loader also derives the Blinn-Phong fields of Material from them, which is what gets rendered.
+ */
+export interface PBRMaterial {
+    baseColorFactor: [number, number, number, number];
+    metallicFactor: number;
+    roughnessFactor: number;
+    emissiveFactor: ColorRGB;
+    alphaMode: "OPAQUE" | "MASK" | "BLEND";
+    alphaCutoff: number;
+    doubleSided: boolean;
+    // Keys into the model's textures
+    baseColorTexture?: string;
+    metallicRoughnessTexture?: string;
+    normalTexture?: string;
+    normalScale?: number;
+    occlusionTexture?: string;
+    emissiveTexture?: string;
+}
+
+export interface GLTFModel extends ObjModel {
+    /**
+     * The default scene as a node hierarchy with the meshes, cameras and lights attached;
+     * add it to the renderer with `renderer.getScene().add(model.scene)`
+     */
+    readonly scene: SceneNode;
+    /** Cameras attached to nodes of `scene` */
+    readonly cameras: Camera[];
+    /** KHR_lights_punctual lights attached to nodes of `scene` */
+    readonly lights: Light[];
+}
+
+export interface GLTFLoadOptions {
+    /** Read the external buffers and images a file refers to; by default they're read next to it */
+    resolver?: (uri: string) => Promise<Uint8Array | null>;
+    /** Decode the images of the materials' textures (default true) */
+    loadTextures?: boolean;
+    /** Defaults for what the file's samplers don't specify */
+    textureOptions?: TextureOptions;
+}
+
+// The subset of the glTF 2.0 schema the loader reads
+interface GLTFAccessor {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: string;
+    sparse?: {
+        count: number;
+        indices: { bufferView: number, byteOffset?: number, componentType: number };
+        values: { bufferView: number, byteOffset?: number };
+    };
+}
+
+interface GLTFTextureInfo {
+    index: number;
+    texCoord?: number;
+    scale?: number;
+}
+
+interface GLTFNode {
+    name?: string;
+    children?: number[];
+    mesh?: number;
+    camera?: number;
+    matrix?: number[];
+    translation?: [number, number, number];
+    rotation?: [number, number, number, number];
+    scale?: [number, number, number];
+    extensions?: { KHR_lights_punctual?: { light: number } };
+}
+
+interface GLTFDocument {
+    asset: { version: string };
+    scene?: number;
+    scenes?: { name?: string, nodes?: number[] }[];
+    nodes?: GLTFNode[];
+    meshes?: {
+        name?: string;
+        primitives: { attributes: Record<string, number>, indices?: number, material?: number, mode?: number }[];
+    }[];
+    accessors?: GLTFAccessor[];
+    bufferViews?: { buffer: number, byteOffset?: number, byteLength: number, byteStride?: number }[];
+    buffers?: { uri?: string, byteLength: number }[];
+    materials?: {
+        name?: string;
+        pbrMetallicRoughness?: {
+            baseColorFactor?: [number, number, number, number];
+            baseColorTexture?: GLTFTextureInfo;
+            metallicFactor?: number;
+            roughnessFactor?: number;
+            metallicRoughnessTexture?: GLTFTextureInfo;
+        };
+        normalTexture?: GLTFTextureInfo;
+        occlusionTexture?: GLTFTextureInfo;
+        emissiveTexture?: GLTFTextureInfo;
+        emissiveFactor?: ColorRGB;
+        alphaMode?: "OPAQUE" | "MASK" | "BLEND";
+        alphaCutoff?: number;
+        doubleSided?: boolean;
+    }[];
+    textures?: { sampler?: number, source?: number, name?: string }[];
+    images?: { uri?: string, bufferView?: number, mimeType?: string, name?: string }[];
+    samplers?: { magFilter?: number, minFilter?: number, wrapS?: number, wrapT?: number }[];
+    cameras?: {
+        type: "perspective" | "orthographic";
+        perspective?: { yfov: number, znear: number, zfar?: number, aspectRatio?: number };
+        orthographic?: { xmag: number, ymag: number, znear: number, zfar: number };
+    }[];
+    extensions?: {
+        KHR_lights_punctual?: {
+            lights: {
+                type: "directional" | "point" | "spot";
+                name?: string;
+                color?: [number, number, number];
+                intensity?: number;
+                range?: number;
+                spot?: { innerConeAngle?: number, outerConeAngle?: number };
+            }[];
+        };
+    };
+}
+
+/** A texture of the model before its image is decoded */
+interface PendingTexture {
+    image: number;
+    options: TextureOptions;
+}
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_JSON = 0x4e4f534a;
+const GLB_BIN = 0x004e4942;
+
+const COMPONENTS: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+const COMPONENT_BYTES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+
+const WRAP: Record<number, TextureWrap> = { 33071: "clamp", 33648: "mirror", 10497: "repeat" };
+
+// Primitive modes
+const TRIANGLES = 4, TRIANGLE_STRIP = 5, TRIANGLE_FAN = 6;
+
+// Camera far plane for infinite glTF projections
+const DEFAULT_ZFAR = 1000;
+
+function isGLB(bytes: Uint8Array): boolean {
+    return bytes.length >= 12 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === GLB_MAGIC;
+}
+
+function decodeDataUri(uri: string): Uint8Array {
+    const comma = uri.indexOf(",");
+    if (comma < 0) throw new Error("Malformed data URI");
+    const payload = uri.slice(comma + 1);
+    if (!/;base64$/i.test(uri.slice(0, comma))) return new TextEncoder().encode(decodeURIComponent(payload));
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+/** Split a .glb into its JSON chunk and the optional binary chunk */
+function readGLB(bytes: Uint8Array): { json: string, bin: Uint8Array | null } {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint32(4, true);
+    if (version !== 2) throw new Error(`Unsupported GLB version: ${version}`);
+    const length = Math.min(view.getUint32(8, true), bytes.length);
+    let json: string | null = null;
+    let bin: Uint8Array | null = null;
+    for (let offset = 12; offset + 8 <= length;) {
+        const chunkLength = view.getUint32(offset, true);
+        const chunkType = view.getUint32(offset + 4, true);
+        const chunk = bytes.subarray(offset + 8, offset + 8 + chunkLength);
+        if (chunkType === GLB_JSON) json = new TextDecoder().decode(chunk);
+        else if (chunkType === GLB_BIN && !bin) bin = chunk;
+        offset += 8 + chunkLength;
+    }
+    if (json === null) throw new Error("GLB without a JSON chunk");
+    return { json, bin };
+}
+
+/** Parse the document of a .gltf (text or bytes) or .glb, with the binary chunk of the latter */
+function parseDocument(data: string | Uint8Array): { doc: GLTFDocument, bin: Uint8Array | null } {
+    let json: string, bin: Uint8Array | null = null;
+    if (typeof data === "string") json = data;
+    else if (isGLB(data)) ({ json, bin } = readGLB(data));
+    else json = new TextDecoder().decode(data);
+    return { doc: JSON.parse(json), bin };
+}
+
+/** Read one component and map normalized integers to -1..1 or 0..1 */
+function readComponent(view: DataView, offset: number, componentType: number, normalized: boolean): number {
+    switch (componentType) {
+        case 5120: { const v = view.getInt8(offset); return normalized ? Math.max(v / 127, -1) : v; }
+        case 5121: { const v = view.getUint8(offset); return normalized ? v / 255 : v; }
+        case 5122: { const v = view.getInt16(offset, true); return normalized ? Math.max(v / 32767, -1) : v; }
+        case 5123: { const v = view.getUint16(offset, true); return normalized ? v / 65535 : v; }
+        case 5125: return view.getUint32(offset, true);
+        case 5126: return view.getFloat32(offset, true);
+        default: throw new Error(`Unsupported glTF component type: ${componentType}`);
+    }
+}
+
+/** Triangle list of a primitive's vertex order; points and lines give nothing */
+function triangulate(order: ArrayLike<number>, mode: number): number[] {
+    const out: number[] = [];
+    if (mode === TRIANGLES) {
+        for (let i = 0; i + 2 < order.length; i += 3) out.push(order[i], order[i + 1], order[i + 2]);
+    } else if (mode === TRIANGLE_STRIP) {
+        // Every other triangle is flipped to keep the winding
+        for (let i = 0; i + 2 < order.length; i++) {
+            if (i % 2) out.push(order[i], order[i + 2], order[i + 1]);
+            else out.push(order[i], order[i + 1], order[i + 2]);
+        }
+    } else if (mode === TRIANGLE_FAN) {
+        for (let i = 1; i + 1 < order.length; i++) out.push(order[i], order[i + 1], order[0]);
+    }
+    return out;
+}
+
+export class GLTFLoader {
+    /**
+     * Parse a glTF 2.0 file, without decoding its textures (see loadFromFile and loadFromUrl)
+     * @param data .gltf JSON text or .glb bytes
+     * @param resources Contents of the external buffers, keyed by their URI in the file
+     */
+    parse(data: string | Uint8Array, resources?: Record<string, Uint8Array>): GLTFModel {
+        const { doc, bin } = parseDocument(data);
+        return this.read(doc, bin, resources).model;
+    }
+
+    /**
+     * Load a .gltf or .glb file with its buffers and textures from a local file path (Node.js only)
+     */
+    async loadFromFile(path: string, options?: GLTFLoadOptions): Promise<GLTFModel> {
+        const fs = await import("fs/promises");
+        const pathModule = await import("path");
+        const bytes = new Uint8Array(await fs.readFile(path));
+        const resolver = options?.resolver ?? (async (uri: string) =>
+            new Uint8Array(await fs.readFile(pathModule.join(pathModule.dirname(path), decodeURIComponent(uri)))));
+        return this.loadFromData(bytes, resolver, options);
+    }
+
+    /**
+     * Load a .gltf or .glb file with its buffers and textures over fetch
+     */
+    async loadFromUrl(url: string, options?: GLTFLoadOptions): Promise<GLTFModel> {
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`Failed to fetch glTF: ${resp.status}`);
+        const bytes = new Uint8Array(await resp.arrayBuffer());
+        const resolver = options?.resolver ?? (async (uri: string) => {
+            const r = await fetch(resolveUrl(uri, url));
+            if (!r.ok) throw new Error(`Failed to fetch ${uri}: ${r.status}`);
+            return new Uint8Array(await r.arrayBuffer());
+        });
+        return this.loadFromData(bytes, resolver, options);
+    }
+
+    private async loadFromData(bytes: Uint8Array, resolver: (uri: string) => Promise<Uint8Array | null>, options?: GLTFLoadOptions): Promise<GLTFModel> {
+        const { doc, bin } = parseDocument(bytes);
+        // External buffers are required; a missing one fails the load in read()
+        const resources: Record<string, Uint8Array> = {};
+        for (const buffer of doc.buffers ?? []) {
+            if (!buffer.uri || buffer.uri.startsWith("data:") || resources[buffer.uri]) continue;
+            const contents = await resolver(buffer.uri);
+            if (contents) resources[buffer.uri] = contents;
+        }
+
+        const { model, textures, image } = this.read(doc, bin, resources);
+        if (options?.loadTextures === false || !textures.size) return model;
+
+        const loader = new TextureLoader();
+        const decoded: Record<string, Texture> = {};
+        for (const [key, pending] of textures) {
+            try {
+                const source = doc.images![pending.image];
+                const bytes = source.uri && !source.uri.startsWith("data:") ? await resolver(source.uri) : image(pending.image);
+                if (!bytes) continue;
+                const name = source.uri && !source.uri.startsWith("data:") ? source.uri : key;
+                decoded[key] = new Texture(await loader.decode(bytes, name), { ...options?.textureOptions, ...pending.options }, name);
+            } catch (e) {
+                // ignore single failures; the material then renders untextured
+            }
+        }
+        // In place, as the scene's nodes refer to this model
+        return Object.keys(decoded).length ? Object.assign(model, { textures: decoded }) : model;
+    }
+
+    /**
+     * Turn the parsed document into a model, collecting the textures its materials use
+     * @param bin The binary chunk of a .glb
+     * @returns The model, its textures by key, and a reader for images stored in the file itself
+     */
+    private read(doc: GLTFDocument, bin: Uint8Array | null, resources?: Record<string, Uint8Array>) {
+        const version = doc.asset?.version ?? "";
+        if (!version.startsWith("2.")) throw new Error(`Unsupported glTF version: '${version}'`);
+
+        const buffers = (doc.buffers ?? []).map((buffer, i) => {
+            if (!buffer.uri) {
+                if (i !== 0 || !bin) throw new Error(`glTF buffer ${i} has no data`);
+                return bin;
+            }
+            if (buffer.uri.startsWith("data:")) return decodeDataUri(buffer.uri);
+            const contents = resources?.[buffer.uri];
+            if (!contents) throw new Error(`Missing glTF buffer: ${buffer.uri}`);
+            return contents;
+        });
+
+        const viewBytes = (index: number): Uint8Array => {
+            const view = doc.bufferViews?.[index];
+            if (!view) throw new Error(`Missing glTF bufferView: ${index}`);
+            const buffer = buffers[view.buffer];
+            const start = view.byteOffset ?? 0;
+            if (!buffer || start + view.byteLength > buffer.length) throw new Error(`glTF bufferView ${index} is out of bounds`);
+            return buffer.subarray(start, start + view.byteLength);
+        };
+
+        /** The accessor's elements as flat numbers, sparse substitution applied */
+        const readAccessor = (index: number): { values: Float64Array, size: number, count: number } => {
+            const accessor = doc.accessors?.[index];
+            if (!accessor) throw new Error(`Missing glTF accessor: ${index}`);
+            const size = COMPONENTS[accessor.type];
+            const componentBytes = COMPONENT_BYTES[accessor.componentType];
+            if (!size || !componentBytes) throw new Error(`Unsupported glTF accessor: ${accessor.type} of ${accessor.componentType}`);
+            const normalized = accessor.normalized ?? false;
+            const values = new Float64Array(accessor.count * size);
+
+            if (accessor.bufferView !== undefined) {
+                const bytes = viewBytes(accessor.bufferView);
+                const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+                const stride = doc.bufferViews![accessor.bufferView].byteStride || size * componentBytes;
+                const offset = accessor.byteOffset ?? 0;
+                if (accessor.count && offset + (accessor.count - 1) * stride + size * componentBytes > bytes.length) {
+                    throw new Error(`glTF accessor ${index} is out of bounds`);
+                }
+                for (let e = 0; e < accessor.count; e++) {
+                    for (let c = 0; c < size; c++) {
+                        values[e * size + c] = readComponent(view, offset + e * stride + c * componentBytes, accessor.componentType, normalized);
+                    }
+                }
+            }
+
+            const sparse = accessor.sparse;
+            if (sparse) {
+                const indexBytes = viewBytes(sparse.indices.bufferView);
+                const indexView = new DataView(indexBytes.buffer, indexBytes.byteOffset, indexBytes.byteLength);
+                const valueBytes = viewBytes(sparse.values.bufferView);
+                const valueView = new DataView(valueBytes.buffer, valueBytes.byteOffset, valueBytes.byteLength);
+                const indexSize = COMPONENT_BYTES[sparse.indices.componentType];
+                for (let k = 0; k < sparse.count; k++) {
+                    const e = readComponent(indexView, (sparse.indices.byteOffset ?? 0) + k * indexSize, sparse.indices.componentType, false);
+                    if (e >= accessor.count) throw new Error(`glTF sparse index ${e} is out of bounds`);
+                    for (let c = 0; c < size; c++) {
+                        const offset = (sparse.values.byteOffset ?? 0) + (k * size + c) * componentBytes;
+                        values[e * size + c] = readComponent(valueView, offset, accessor.componentType, normalized);
+                    }
+                }
+            }
+            return { values, size, count: accessor.count };
+        };
+
+        const unique = (names: Set<string>, name: string) => {
+            let result = name;
+            for (let n = 2; names.has(result); n++) result = `${name}_${n}`;
+            names.add(result);
+            return result;
+        };
+
+        // Textures, keyed by their image's file name where there is one
+        const textures = new Map<string, PendingTexture>();
+        const textureKeys: string[] = [];
+        const textureNames = new Set<string>();
+        const textureKey = (info?: GLTFTextureInfo): string | undefined => {
+            if (!info) return undefined;
+            if (textureKeys[info.index] !== undefined) return textureKeys[info.index];
+            const texture = doc.textures?.[info.index];
+            if (texture?.source === undefined) return undefined;
+            const image = doc.images?.[texture.source];
+            const base = image?.uri && !image.uri.startsWith("data:") ? image.uri : image?.name ?? texture.name ?? `image${texture.source}`;
+            const key = textureKeys[info.index] = unique(textureNames, base);
+            textures.set(key, { image: texture.source, options: this.samplerOptions(doc, texture.sampler) });
+            return key;
+        };
+
+        const materialNames = new Set<string>();
+        const materials: Record<string, Material> = {};
+        const materialKeys = (doc.materials ?? []).map((m, i) => {
+            const name = unique(materialNames, m.name ?? `material${i}`);
+            const pbr = m.pbrMetallicRoughness ?? {};
+            const info: PBRMaterial = {
+                baseColorFactor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+                metallicFactor: pbr.metallicFactor ?? 1,
+                roughnessFactor: pbr.roughnessFactor ?? 1,
+                emissiveFactor: m.emissiveFactor ?? [0, 0, 0],
+                alphaMode: m.alphaMode ?? "OPAQUE",
+                alphaCutoff: m.alphaCutoff ?? 0.5,
+                doubleSided: m.doubleSided ?? false,
+                baseColorTexture: textureKey(pbr.baseColorTexture),
+                metallicRoughnessTexture: textureKey(pbr.metallicRoughnessTexture),
+                normalTexture: textureKey(m.normalTexture),
+                normalScale: m.normalTexture?.scale,
+                occlusionTexture: textureKey(m.occlusionTexture),
+                emissiveTexture: textureKey(m.emissiveTexture)
+            };
+            materials[name] = this.toMaterial(name, info);
+            return name;
+        });
+
+        // One MeshData per primitive; meshByIndex[i] lists glTF mesh i's
+        const meshes: MeshData[] = [];
+        const meshByIndex = (doc.meshes ?? []).map((mesh, i) => {
+            const name = mesh.name ?? `mesh${i}`;
+            const list: MeshData[] = [];
+            mesh.primitives.forEach((primitive, p) => {
+                const data = this.readPrimitive(
+                    mesh.primitives.length > 1 ? `${name}.${p}` : name,
+                    primitive, readAccessor,
+                    primitive.material !== undefined ? materialKeys[primitive.material] ?? null : null
+                );
+                if (data) list.push(data);
+            });
+            meshes.push(...list);
+            return list;
+        });
+
+        const cameras: Camera[] = [];
+        const lights: Light[] = [];
+        const model: GLTFModel = { meshes, materials, scene: new SceneNode("scene"), cameras, lights };
+
+        const buildNode = (index: number, path: Set<number>): SceneNode => {
+            const source = doc.nodes?.[index];
+            if (!source) throw new Error(`Missing glTF node: ${index}`);
+            if (path.has(index)) throw new Error(`glTF node ${index} is its own ancestor`);
+            const node = new SceneNode(source.name ?? `node${index}`);
+            if (source.matrix) {
+                // Column-major in glTF
+                const m = source.matrix;
+                const { position, rotation, scale } = mat4Decompose(new Float32Array([
+                    m[0], m[4], m[8], m[12], m[1], m[5], m[9], m[13], m[2], m[6], m[10], m[14], m[3], m[7], m[11], m[15]
+                ]));
+                node.position = position;
+                node.rotation = rotation;
+                node.scale = scale;
+            } else {
+                const [tx, ty, tz] = source.translation ?? [0, 0, 0];
+                const [qx, qy, qz, qw] = source.rotation ?? [0, 0, 0, 1];
+                const [sx, sy, sz] = source.scale ?? [1, 1, 1];
+                node.position = { x: tx, y: ty, z: tz };
+                node.rotation = { x: qx, y: qy, z: qz, w: qw };
+                node.scale = { x: sx, y: sy, z: sz };
+            }
+            if (source.mesh !== undefined) node.attachModel(model, meshByIndex[source.mesh] ?? []);
+            if (source.camera !== undefined) {
+                const camera = this.createCamera(doc, source.camera);
+                node.attachCamera(camera);
+                cameras.push(camera);
+            }
+            const lightIndex = source.extensions?.KHR_lights_punctual?.light;
+            if (lightIndex !== undefined) {
+                const light = this.createLight(doc, lightIndex);
+                node.attachLight(light);
+                lights.push(light);
+            }
+            path.add(index);
+            for (const child of source.children ?? []) node.add(buildNode(child, path));
+            path.delete(index);
+            return node;
+        };
+
+        const sceneIndex = doc.scene ?? 0;
+        const scene = doc.scenes?.[sceneIndex];
+        if (scene?.name) model.scene.name = scene.name;
+        // Without scenes, every node that isn't a child of another is a root
+        const children = new Set((doc.nodes ?? []).flatMap(n => n.children ?? []));
+        const roots = scene ? scene.nodes ?? [] : (doc.nodes ?? []).map((_, i) => i).filter(i => !children.has(i));
+        for (const root of roots) model.scene.add(buildNode(root, new Set()));
+
+        const image = (index: number): Uint8Array | null => {
+            const source = doc.images?.[index];
+            if (source?.bufferView !== undefined) return viewBytes(source.bufferView);
+            if (source?.uri?.startsWith("data:")) return decodeDataUri(source.uri);
+            return null;
+        };
+        return { model, textures, image };
+    }
+
+    private readPrimitive(
+        name: string,
+        primitive: NonNullable<GLTFDocument["meshes"]>[number]["primitives"][number],
+        readAccessor: (index: number) => { values: Float64Array, size: number, count: number },
+        materialName: string | null
+    ): MeshData | null {
+        const { attributes } = primitive;
+        if (attributes.POSITION === undefined) return null;
+        const position = readAccessor(attributes.POSITION);
+        const order = primitive.indices !== undefined
+            ? readAccessor(primitive.indices).values
+            : Float64Array.from({ length: position.count }, (_, i) => i);
+        const triangles = triangulate(order, primitive.mode ?? TRIANGLES);
+        if (!triangles.length) return null;
+        for (const i of triangles) {
+            if (i >= position.count) throw new Error(`glTF index ${i} is out of bounds in mesh '${name}'`);
+        }
+
+        const normal = attributes.NORMAL !== undefined ? readAccessor(attributes.NORMAL) : null;
+        const uv = attributes.TEXCOORD_0 !== undefined ? readAccessor(attributes.TEXCOORD_0) : null;
+        const color = attributes.COLOR_0 !== undefined ? readAccessor(attributes.COLOR_0) : null;
+        // Without normals glTF asks for flat shading: every triangle gets its own vertices
+        const count = normal ? position.count : triangles.length;
+        const vertex = (k: number) => normal ? k : triangles[k];
+        const positions = new Float32Array(count * 3);
+        const normals = new Float32Array(count * 3);
+        const uvs = uv ? new Float32Array(count * 2) : null;
+        const colors = color ? new Float32Array(count * 3) : null;
+        for (let k = 0; k < count; k++) {
+            const v = vertex(k);
+            positions.set(position.values.subarray(v * 3, v * 3 + 3), k * 3);
+            if (normal) normals.set(normal.values.subarray(v * 3, v * 3 + 3), k * 3);
+            if (uvs) {
+                // glTF puts v = 0 at the top of the image, Texture at the bottom
+                uvs[k * 2] = uv!.values[v * uv!.size];
+                uvs[k * 2 + 1] = 1 - uv!.values[v * uv!.size + 1];
+            }
+            if (colors) {
+                // Linear in glTF, sRGB in MeshData; RGBA colors lose their alpha
+                for (let c = 0; c < 3; c++) colors[k * 3 + c] = linearToSrgb(color!.values[v * color!.size + c]);
+            }
+        }
+        const indices = normal ? Uint32Array.from(triangles) : Uint32Array.from({ length: count }, (_, k) => k);
+        if (!normal) {
+            for (let k = 0; k < count; k += 3) {
+                const a = k * 3, b = a + 3, c = a + 6;
+                const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2];
+                const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2];
+                const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+                const len = Math.hypot(nx, ny, nz) || 1;
+                for (let o = a; o <= c; o += 3) {
+                    normals[o] = nx / len;
+                    normals[o + 1] = ny / len;
+                    normals[o + 2] = nz / len;
+                }
+            }
+        }
+
+        return {
+            name, materialName, positions, normals, uvs, ...(colors ? { colors } : {}), indices,
+            boundingBox: computeBoundingBox(positions)
+        };
+    }
+
+    /**
+     * The Blinn-Phong approximation the renderer draws: the base color as diffuse, specular from
+     * a 4% dielectric reflectance tinted by the base color as the surface gets metallic, and a
+     * shininess matching the roughness (Ns = 2 / alpha^2 - 2 with alpha = roughness^2). Metals
+     * keep a tenth of their diffuse color, as there are no reflections to show it otherwise.
+     * BLEND materials keep the base color's alpha as opacity and MASK ones cut out by it.
+     */
+    private toMaterial(name: string, pbr: PBRMaterial): Material {
+        const [r, g, b, a] = pbr.baseColorFactor;
+        const metal = pbr.metallicFactor, rough = Math.max(pbr.roughnessFactor, 0.05);
+        const gloss = 1 - pbr.roughnessFactor;
+        const specular = (c: number) => (0.04 + (c - 0.04) * metal) * gloss;
+        const alpha = rough * rough;
+        return {
+            name,
+            kd: [r * (1 - metal * 0.9), g * (1 - metal * 0.9), b * (1 - metal * 0.9)],
+            ks: [specular(r), specular(g), specular(b)],
+            ke: pbr.emissiveFactor,
+            ns: Math.min(1000, Math.max(1, 2 / (alpha * alpha) - 2)),
+            d: pbr.alphaMode === "BLEND" ? a : 1,
+            illum: 2,
+            mapKd: pbr.baseColorTexture,
+            mapNorm: pbr.normalTexture,
+            // Tested against the texture's alpha alone, so the factor's share is divided out
+            ...(pbr.alphaMode === "MASK" ? { alphaCutoff: pbr.alphaCutoff / a } : {}),
+            doubleSided: pbr.doubleSided,
+            pbr
+        };
+    }
+
+    private samplerOptions(doc: GLTFDocument, index?: number): TextureOptions {
+        const sampler = index !== undefined ? doc.samplers?.[index] : undefined;
+        const options: TextureOptions = {
+            wrapS: WRAP[sampler?.wrapS ?? 10497],
+            wrapT: WRAP[sampler?.wrapT ?? 10497]
+        };
+        if (sampler?.magFilter !== undefined) options.filter = sampler.magFilter === 9728 ? "nearest" : "bilinear";
+        switch (sampler?.minFilter) {
+            case 9728: case 9729: options.mipmaps = "none"; break;
+            case 9984: case 9985: options.mipmaps = "nearest"; break;
+            case 9986: case 9987: options.mipmaps = "linear"; break;
+        }
+        return options;
+    }
+
+    /** glTF cameras look down their node's -Z axis */
+    private createCamera(doc: GLTFDocument, index: number): Camera {
+        const source = doc.cameras?.[index];
+        if (!source) throw new Error(`Missing glTF camera: ${index}`);
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }).lookAt({ x: 0, y: 0, z: -1 });
+        if (source.type === "orthographic" && source.orthographic) {
+            const o = source.orthographic;
+            camera.setOrthographic(o.ymag, o.znear, o.zfar);
+        } else if (source.perspective) {
+            const p = source.perspective;
+            camera.setPerspective(p.yfov, p.znear, p.zfar ?? DEFAULT_ZFAR);
+        }
+        return camera;
+    }
+
+    /**
+     * A KHR_lights_punctual light pointing down its node's -Z axis. Intensities are taken as
+     * they are; point and spot lights fall off with the inverse square of the distance.
+     */
+    private createLight(doc: GLTFDocument, index: number): Light {
+        const source = doc.extensions?.KHR_lights_punctual?.lights[index];
+        if (!source) throw new Error(`Missing glTF light: ${index}`);
+        const [r, g, b] = source.color ?? [1, 1, 1];
+        const color: Vec3 = { x: r, y: g, z: b };
+        const intensity = source.intensity ?? 1;
+        const origin = { x: 0, y: 0, z: 0 }, forward = { x: 0, y: 0, z: -1 };
+        const falloff = { constant: 1, linear: 0, quadratic: 1 };
+        switch (source.type) {
+            case "directional":
+                return new DirectionalLight(forward, color, intensity);
+            case "point":
+                return new PointLight(origin, color, intensity, source.range ?? 0, falloff);
+            case "spot":
+                return new SpotLight(
+                    origin, forward, color, intensity,
+                    source.spot?.innerConeAngle ?? 0, source.spot?.outerConeAngle ?? Math.PI / 4, source.range ?? 0, falloff
+                );
+            default:
+                throw new Error(`Unsupported glTF light type: '${(source as { type: string }).type}'`);
+        }
+    }
+}
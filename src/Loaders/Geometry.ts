@@ -0,0 +1,132 @@
+import type { Vec3 } from "../Math";
+
+/** Axis-aligned bounds of x,y,z triples */
+export function computeBoundingBox(positions: Float32Array): { min: Vec3, max: Vec3 } {
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+
+    for (let i = 0; i < positions.length; i += 3) {
+        const x = positions[i];
+        const y = positions[i + 1];
+        const z = positions[i + 2];
+
+        if (x < min.x) min.x = x;
+        if (y < min.y) min.y = y;
+        if (z < min.z) min.z = z;
+
+        if (x > max.x) max.x = x;
+        if (y > max.y) max.y = y;
+        if (z > max.z) max.z = z;
+    }
+
+    return { min, max };
+}
+
+/**
+ * Smooth per-vertex normals: the face normals of every triangle using a vertex, weighted by
+ * the triangles' areas, averaged and normalized. Vertices no triangle uses get a zero normal.
+ */
+export function computeVertexNormals(positions: ArrayLike<number>, indices: ArrayLike<number>): Float32Array {
+    const normals = new Float64Array(positions.length);
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+        const ia = indices[i] * 3;
+        const ib = indices[i + 1] * 3;
+        const ic = indices[i + 2] * 3;
+        const ux = positions[ib] - positions[ia], uy = positions[ib + 1] - positions[ia + 1], uz = positions[ib + 2] - positions[ia + 2];
+        const vx = positions[ic] - positions[ia], vy = positions[ic + 1] - positions[ia + 1], vz = positions[ic + 2] - positions[ia + 2];
+        // Face normal = u x v, as long as the triangle is twice as large
+        const nx = uy * vz - uz * vy;
+        const ny = uz * vx - ux * vz;
+        const nz = ux * vy - uy * vx;
+        normals[ia] += nx; normals[ia + 1] += ny; normals[ia + 2] += nz;
+        normals[ib] += nx; normals[ib + 1] += ny; normals[ib + 2] += nz;
+        normals[ic] += nx; normals[ic + 1] += ny; normals[ic + 2] += nz;
+    }
+    for (let i = 0; i < normals.length; i += 3) {
+        const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]) || 1;
+        normals[i] /= len; normals[i + 1] /= len; normals[i + 2] /= len;
+    }
+    return new Float32Array(normals);
+}
+
+export type NormalWeighting = "area" | "angle";
+
+export interface CornerNormalOptions {
+    /**
+     * Smoothing group of each triangle: triangles only blend with others of their group, and
+     * those of group 0 stay flat (default: all in one group)
+     */
+    groups?: ArrayLike<number>;
+    /** Largest angle in radians between two triangles' normals for them to blend (default π: no creases) */
+    creaseAngle?: number;
+    /** Weight each triangle by its area (default) or by its angle at the corner */
+    weighting?: NormalWeighting;
+}
+
+/**
+ * Normals for every triangle corner, 3 per index: the face normals of the triangles that share the
+ * corner's position, are in its triangle's smoothing group and meet that triangle within the crease
+ * angle, weighted and averaged. Without groups or creases every corner of a position gets the same
+ * normal as computeVertexNormals gives the vertex.
+ */
+export function computeCornerNormals(positions: ArrayLike<number>, indices: ArrayLike<number>, options: CornerNormalOptions = {}): Float32Array {
+    const triangles = Math.floor(indices.length / 3);
+    const { groups, weighting = "area" } = options;
+    // Face normals = u x v, as long as the triangles are twice as large, and their unit length versions
+    const faces = new Float64Array(triangles * 3);
+    const units = new Float64Array(triangles * 3);
+    // Triangles around each position, once per corner they have there
+    const around = new Map<number, number[]>();
+    for (let t = 0; t < triangles; t++) {
+        const ia = indices[t * 3] * 3, ib = indices[t * 3 + 1] * 3, ic = indices[t * 3 + 2] * 3;
+        const ux = positions[ib] - positions[ia], uy = positions[ib + 1] - positions[ia + 1], uz = positions[ib + 2] - positions[ia + 2];
+        const vx = positions[ic] - positions[ia], vy = positions[ic + 1] - positions[ia + 1], vz = positions[ic + 2] - positions[ia + 2];
+        const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+        const len = Math.hypot(nx, ny, nz) || 1;
+        faces[t * 3] = nx; faces[t * 3 + 1] = ny; faces[t * 3 + 2] = nz;
+        units[t * 3] = nx / len; units[t * 3 + 1] = ny / len; units[t * 3 + 2] = nz / len;
+        for (let k = 0; k < 3; k++) {
+            const list = around.get(indices[t * 3 + k]);
+            if (list) list.push(t);
+            else around.set(indices[t * 3 + k], [t]);
+        }
+    }
+
+    /** The angle of triangle t at its corner on position p */
+    const cornerAngle = (t: number, p: number): number => {
+        const k = indices[t * 3] === p ? 0 : indices[t * 3 + 1] === p ? 1 : 2;
+        const a = indices[t * 3 + k] * 3, b = indices[t * 3 + (k + 1) % 3] * 3, c = indices[t * 3 + (k + 2) % 3] * 3;
+        const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2];
+        const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2];
+        const lengths = Math.hypot(ux, uy, uz) * Math.hypot(vx, vy, vz);
+        return lengths > 0 ? Math.acos(Math.min(1, Math.max(-1, (ux * vx + uy * vy + uz * vz) / lengths))) : 0;
+    };
+
+    const creaseAngle = options.creaseAngle ?? Math.PI;
+    const minCos = Math.cos(creaseAngle);
+    const normals = new Float32Array(triangles * 9);
+    for (let t = 0; t < triangles; t++) {
+        const group = groups?.[t] ?? 1;
+        for (let k = 0; k < 3; k++) {
+            const p = indices[t * 3 + k];
+            let nx = 0, ny = 0, nz = 0;
+            for (const o of group === 0 ? [t] : around.get(p)!) {
+                if (o !== t) {
+                    if ((groups?.[o] ?? 1) !== group) continue;
+                    const cos = units[t * 3] * units[o * 3] + units[t * 3 + 1] * units[o * 3 + 1] + units[t * 3 + 2] * units[o * 3 + 2];
+                    if (creaseAngle < Math.PI && cos < minCos) continue;
+                }
+                if (weighting === "angle") {
+                    const w = cornerAngle(o, p);
+                    nx += units[o * 3] * w; ny += units[o * 3 + 1] * w; nz += units[o * 3 + 2] * w;
+                } else {
+                    nx += faces[o * 3]; ny += faces[o * 3 + 1]; nz += faces[o * 3 + 2];
+                }
+            }
+            const len = Math.hypot(nx, ny, nz) || 1;
+            const o = (t * 3 + k) * 3;
+            normals[o] = nx / len; normals[o + 1] = ny / len; normals[o + 2] = nz / len;
+        }
+    }
+    return normals;
+}
@@ -1,4 +1,8 @@
 import type { Vec3 } from "../Math";
+import type { PBRMaterial } from "./GLTFLoader";
+import { computeBoundingBox, computeCornerNormals, type NormalWeighting } from "./Geometry";
+import type { Texture, TextureOptions } from "../Textures/Texture";
+import { TextureLoader } from "../Textures/TextureLoader";
 
 export interface MeshData {
     readonly name: string;
@@ -6,6 +10,7 @@ export interface MeshData {
     readonly positions: Float32Array; // x,y,z per vertex
     readonly normals: Float32Array;   // x,y,z per vertex
     readonly uvs: Float32Array | null; // u,v per vertex (or null if none)
+    readonly colors?: Float32Array | null; // r,g,b per vertex in 0..1 (sRGB), tinting the material
     readonly indices: Uint32Array;     // triangle indices
     readonly boundingBox: { min: Vec3, max: Vec3 };
 }
@@ -14,15 +19,54 @@ export type ColorRGB = [number, number, number];
 
 export interface Material {
     readonly name: string;
+    ka?: ColorRGB; // ambient rgb
     kd?: ColorRGB; // diffuse rgb
     ks?: ColorRGB; // specular rgb
+    ke?: ColorRGB; // emissive rgb
     ns?: number;   // shininess
+    d?: number;    // opacity (1 = opaque); Tr is stored here as 1 - Tr
+    illum?: number; // illumination model: 0 color only, 1 diffuse, 2 diffuse + specular
     mapKd?: string; // texture filename
+    mapKs?: string; // specular color map
+    mapBump?: string; // height map (map_bump / bump)
+    bumpScale?: number; // -bm multiplier of the bump map
+    mapNorm?: string; // tangent-space normal map (norm)
+    alphaCutoff?: number; // drop pixels whose mapKd alpha (0..1) is below this
+    doubleSided?: boolean; // draw back faces too, lit from behind
+    pbr?: PBRMaterial; // the metallic-roughness parameters of glTF materials
+}
+
+/** A `g` statement's faces, one mesh per material they use */
+export interface ObjGroup {
+    readonly names: string[]; // the names on the g line; none for faces directly under the o
+    readonly meshes: MeshData[];
+}
+
+export interface ObjObject {
+    readonly name: string;
+    readonly groups: ObjGroup[];
 }
 
 export interface ObjModel {
     readonly meshes: MeshData[];
     readonly materials: Record<string, Material>;
+    readonly textures?: Record<string, Texture>; // decoded maps keyed by the filename used in the MTL
+    readonly objects?: ObjObject[]; // OBJ only: the o/g hierarchy of the meshes
+    readonly mtllibs?: string[];    // OBJ only: the MTL files named by mtllib, in order
+}
+
+export interface OBJLoadOptions {
+    mtlResolver?: (mtlFilename: string) => Promise<string | null>;
+    /** Decode the images referenced by map_Kd/map_Ks/map_bump/norm (default true) */
+    loadTextures?: boolean;
+    textureOptions?: TextureOptions;
+    /**
+     * Where the file has no normals: the largest angle in radians between faces of a smoothing
+     * group that are still smoothed together (default π, smoothing the whole group)
+     */
+    creaseAngle?: number;
+    /** Where the file has no normals: weight faces by their area (default) or their angle at the vertex */
+    normalWeighting?: NormalWeighting;
 }
 
 function toFloatArray(arr: number[]): Float32Array {
@@ -45,25 +89,34 @@ function resolveIndex(idxStr: string, arrayLength: number): number {
     return arrayLength + i; // negative indexing per OBJ spec
 }
 
-function computeBoundingBox(positions: Float32Array): { min: Vec3, max: Vec3 } {
-    const min = { x: Infinity, y: Infinity, z: Infinity };
-    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
-
-    for (let i = 0; i < positions.length; i += 3) {
-        const x = positions[i];
-        const y = positions[i + 1];
-        const z = positions[i + 2];
-
-        if (x < min.x) min.x = x;
-        if (y < min.y) min.y = y;
-        if (z < min.z) min.z = z;
-
-        if (x > max.x) max.x = x;
-        if (y > max.y) max.y = y;
-        if (z > max.z) max.z = z;
+/**
+ * Split a map statement ("map_Kd -s 2 2 1 -bm 0.5 tex.png") into its filename and options.
+ * Option arities follow the MTL spec; -o/-s/-t take up to three numbers.
+ */
+function parseMapStatement(args: string[]): { file: string, options: Record<string, string[]> } {
+    const arity: Record<string, number> = {
+        '-blendu': 1, '-blendv': 1, '-boost': 1, '-mm': 2, '-texres': 1, '-clamp': 1,
+        '-bm': 1, '-imfchan': 1, '-type': 1, '-cc': 1
+    };
+    const options: Record<string, string[]> = {};
+    let i = 0;
+    while (i < args.length - 1 && args[i].startsWith('-')) {
+        const name = args[i++];
+        const values: string[] = [];
+        if (name === '-o' || name === '-s' || name === '-t') {
+            while (values.length < 3 && i < args.length - 1 && !isNaN(parseFloat(args[i]))) values.push(args[i++]);
+        } else {
+            for (let k = 0; k < (arity[name] ?? 0) && i < args.length - 1; k++) values.push(args[i++]);
+        }
+        options[name] = values;
     }
+    return { file: args.slice(i).join(' '), options };
+}
 
-    return { min, max };
+/** `relative` resolved against the URL (or page-relative path) of the file that references it */
+export function resolveUrl(relative: string, base: string): string {
+    const origin = typeof location !== 'undefined' ? location.href : undefined;
+    return new URL(relative, new URL(base, origin)).href;
 }
 
 export class OBJLoader {
@@ -71,23 +124,38 @@ export class OBJLoader {
      * Parse OBJ text and optional MTL text into ObjModel
      * @param objText OBJ file contents
      * @param mtlTexts Optional map of MTL filenames to contents
+     * @param options How missing normals are generated
      */
-    parse(objText: string, mtlTexts?: Record<string, string>): ObjModel {
+    parse(objText: string, mtlTexts?: Record<string, string>, options?: OBJLoadOptions): ObjModel {
         // Store raw attribute lists as read from the file
         const rawPositions: number[] = [];
         const rawUVs: number[] = [];
         const rawNormals: number[] = [];
+        // "v x y z r g b", a common extension; positions without a color are white
+        const rawColors: number[] = [];
+        let hasColors = false;
 
         // Grouping/mesh state
         interface CurrentGroup {
-            name: string;
-            materialName?: string | null;
+            object: { name: string };
+            names: string[];
             faceVertexStrs: string[][]; // array of faces, each face is array of vertex strings like "v/vt/vn"
+            smoothing: number[]; // smoothing group of each face, 0 for flat
+            materialNames: (string | null)[]; // material of each face
         }
 
         const groups: CurrentGroup[] = [];
-        let current: CurrentGroup = { name: 'default', materialName: null, faceVertexStrs: [] };
-        groups.push(current);
+        const newGroup = (object: { name: string }, names: string[]): CurrentGroup => {
+            const group = { object, names, faceVertexStrs: [], smoothing: [], materialNames: [] };
+            groups.push(group);
+            return group;
+        };
+        let current = newGroup({ name: 'default' }, []);
+        // Like 's', 'usemtl' holds until the next one, across o and g
+        let materialName: string | null = null;
+        // Faces before any 's' are smoothed together, as most files without it expect
+        let smoothing = 1;
+        const mtllibs: string[] = [];
 
         // Materials parsed from MTL texts
         const materials: Record<string, Material> = {};
@@ -111,6 +179,10 @@ export class OBJLoader {
                     const [x, y, z] = parts.slice(1, 4).map(Number);
                     if ([x, y, z].some(n => isNaN(n))) throw new Error(`Malformed vertex position: ${parts.join(' ')}`);
                     rawPositions.push(x, y, z);
+                    const rgb = parts.length >= 7 ? parts.slice(4, 7).map(Number) : [1, 1, 1];
+                    if (rgb.some(n => isNaN(n))) throw new Error(`Malformed vertex color: ${parts.join(' ')}`);
+                    if (parts.length >= 7) hasColors = true;
+                    rawColors.push(...rgb);
                     break;
                 }
                 case 'vt': {
@@ -130,28 +202,34 @@ export class OBJLoader {
                     const face = parts.slice(1);
                     if (face.length < 3) throw new Error(`Face with less than 3 vertices: ${parts.join(' ')}`);
                     current.faceVertexStrs.push(face);
+                    current.smoothing.push(smoothing);
+                    current.materialNames.push(materialName);
+                    break;
+                }
+                case 'o': {
+                    current = newGroup({ name: parts.slice(1).join(' ') || 'unnamed' }, []);
                     break;
                 }
-                case 'o':
                 case 'g': {
-                    const name = parts.slice(1).join(' ') || 'unnamed';
-                    current = { name, materialName: null, faceVertexStrs: [] };
-                    groups.push(current);
+                    // A group may have several names; a bare 'g' goes back to the object's own faces
+                    current = newGroup(current.object, parts.slice(1));
                     break;
                 }
                 case 'usemtl': {
-                    const mname = parts[1] ?? null;
-                    current.materialName = mname;
+                    materialName = parts[1] ?? null;
                     break;
                 }
                 case 'mtllib': {
                     // When parsing from string we can't fetch files here; caller can supply mtlTexts
-                    // Keep the filename so caller may map it to provided mtlTexts
-                    // Ignored here because mtlTexts param already handled externally
+                    // under these names
+                    mtllibs.push(...parts.slice(1));
                     break;
                 }
                 case 's': {
-                    // Smoothing group - could be used to split meshes for sharp edges. Ignored here.
+                    // Smoothing group: 'off' or 0 for flat faces; applies to generated normals only.
+                    // Exporters also write a bare 's' or 's on', which turn smoothing on (group 1)
+                    const id = parts[1] === 'off' ? 0 : parseInt(parts[1], 10);
+                    smoothing = isNaN(id) ? 1 : id;
                     break;
                 }
                 default:
@@ -162,112 +240,113 @@ export class OBJLoader {
 
         // For each group, convert faces and build indexed vertex arrays
         const meshes: MeshData[] = [];
+        const objects = new Map<{ name: string }, ObjObject>();
 
         for (const group of groups) {
             if (group.faceVertexStrs.length === 0) continue; // Skip empty groups
 
-            // Map for unique vertex (position + uv + normal)
-            const vertexMap: Map<string, number> = new Map();
-            const positions: number[] = [];
-            const normals: number[] = [];
-            const uvs: number[] = [];
-            const indices: number[] = [];
-
-            // Helper to add a vertex and return its index
-            function addVertex(vIdx?: number, vtIdx?: number, vnIdx?: number): number {
-                const key = `${vIdx ?? ''}_${vtIdx ?? ''}_${vnIdx ?? ''}`;
-                let idx = vertexMap.get(key);
-                if (idx !== undefined) return idx;
-                idx = positions.length / 3;
-                vertexMap.set(key, idx);
-                // Push position
-                const pi = vIdx! * 3;
-                const [px, py, pz] = [rawPositions[pi], rawPositions[pi + 1], rawPositions[pi + 2]];
-                positions.push(px, py, pz);
-                // Push uv
-                if (vtIdx !== undefined && !isNaN(vtIdx)) {
-                    const ti = vtIdx * 2;
-                    const [u, v] = [rawUVs[ti] ?? 0, rawUVs[ti + 1] ?? 0];
-                    uvs.push(u, v);
-                } else {
-                    uvs.push(0, 0);
+            // Triangulate first: normals missing from the file are generated per triangle corner,
+            // split between smoothing groups and at creases but not between materials
+            const corners: { v: number, vt?: number, vn?: number }[] = [];
+            const triangleGroups: number[] = [];
+            // The triangles of each material, in the order the group first uses them
+            const byMaterial = new Map<string | null, number[]>();
+            group.faceVertexStrs.forEach((face, f) => {
+                const faceCorners = face.map(vertStr => {
+                    const comps = vertStr.split('/');
+                    return {
+                        v: resolveIndex(comps[0], rawPositions.length / 3),
+                        vt: comps[1] ? resolveIndex(comps[1], rawUVs.length / 2) : undefined,
+                        vn: comps[2] ? resolveIndex(comps[2], rawNormals.length / 3) : undefined
+                    };
+                });
+                const triangles = triFan(faceCorners.map((_, i) => i));
+                let list = byMaterial.get(group.materialNames[f]);
+                if (!list) byMaterial.set(group.materialNames[f], list = []);
+                for (let t = 0; t < triangles.length; t += 3) {
+                    list.push(corners.length / 3);
+                    for (let k = 0; k < 3; k++) corners.push(faceCorners[triangles[t + k]]);
+                    triangleGroups.push(group.smoothing[f]);
                 }
-                // Push normal
-                if (vnIdx !== undefined && !isNaN(vnIdx)) {
-                    const ni = vnIdx * 3;
-                    const [nx, ny, nz] = [rawNormals[ni] ?? 0, rawNormals[ni + 1] ?? 0, rawNormals[ni + 2] ?? 0];
-                    normals.push(nx, ny, nz);
-                } else {
-                    normals.push(0, 0, 0);
+            });
+            const generated = corners.some(c => c.vn === undefined)
+                ? computeCornerNormals(rawPositions, corners.map(c => c.v), {
+                    groups: triangleGroups,
+                    creaseAngle: options?.creaseAngle,
+                    weighting: options?.normalWeighting
+                })
+                : null;
+
+            // One mesh per material, each with its own vertices
+            const groupMeshes: MeshData[] = [];
+            for (const [materialName, triangles] of byMaterial) {
+                // Map for unique vertex (position + uv + normal)
+                const vertexMap: Map<string, number> = new Map();
+                const positions: number[] = [];
+                const normals: number[] = [];
+                const uvs: number[] = [];
+                let hasUVs = false;
+                const colors: number[] = [];
+                const indices: number[] = [];
+
+                // Helper to add a vertex and return its index; corners without a vn come with a generated normal
+                function addVertex(vIdx: number, vtIdx?: number, vnIdx?: number, generated?: Float32Array): number {
+                    const key = `${vIdx}_${vtIdx ?? ''}_${vnIdx ?? generated?.join(',')}`;
+                    let idx = vertexMap.get(key);
+                    if (idx !== undefined) return idx;
+                    idx = positions.length / 3;
+                    vertexMap.set(key, idx);
+                    // Push position
+                    const pi = vIdx * 3;
+                    const [px, py, pz] = [rawPositions[pi], rawPositions[pi + 1], rawPositions[pi + 2]];
+                    positions.push(px, py, pz);
+                    colors.push(rawColors[pi], rawColors[pi + 1], rawColors[pi + 2]);
+                    // Push uv
+                    if (vtIdx !== undefined && !isNaN(vtIdx)) {
+                        const ti = vtIdx * 2;
+                        const [u, v] = [rawUVs[ti] ?? 0, rawUVs[ti + 1] ?? 0];
+                        uvs.push(u, v);
+                        hasUVs = true;
+                    } else {
+                        uvs.push(0, 0);
+                    }
+                    // Push normal
+                    if (vnIdx !== undefined && !isNaN(vnIdx)) {
+                        const ni = vnIdx * 3;
+                        const [nx, ny, nz] = [rawNormals[ni] ?? 0, rawNormals[ni + 1] ?? 0, rawNormals[ni + 2] ?? 0];
+                        normals.push(nx, ny, nz);
+                    } else {
+                        normals.push(...generated!);
+                    }
+                    return idx;
                 }
-                return idx;
-            }
 
-            for (const face of group.faceVertexStrs) {
-                // Parse each vertex in the face
-                const faceIndices: number[] = [];
-                for (const vertStr of face) {
-                    const comps = vertStr.split('/');
-                    const vIdx = resolveIndex(comps[0], rawPositions.length / 3);
-                    const vtIdx = comps[1] ? resolveIndex(comps[1], rawUVs.length / 2) : undefined;
-                    const vnIdx = comps[2] ? resolveIndex(comps[2], rawNormals.length / 3) : undefined;
-                    const idx = addVertex(vIdx, vtIdx, vnIdx);
-                    faceIndices.push(idx);
+                for (const t of triangles) {
+                    for (let i = t * 3; i < t * 3 + 3; i++) {
+                        const c = corners[i];
+                        indices.push(addVertex(c.v, c.vt, c.vn, c.vn === undefined ? generated!.subarray(i * 3, i * 3 + 3) : undefined));
+                    }
                 }
-                // Triangulate if necessary
-                const triIdx = triFan(faceIndices);
-                indices.push(...triIdx);
-            }
 
-            // If normals were all zero (no vn provided), compute per-vertex normals by averaging face normals
-            let needComputeNormals = true;
-            for (let i = 0; i < normals.length; i++) {
-                if (normals[i] !== 0) { needComputeNormals = false; break; }
+                groupMeshes.push({
+                    name: group.names.length ? group.names.join(' ') : group.object.name,
+                    materialName,
+                    positions: toFloatArray(positions),
+                    normals: toFloatArray(normals),
+                    boundingBox: computeBoundingBox(toFloatArray(positions)),
+                    uvs: hasUVs ? new Float32Array(uvs) : null,
+                    ...(hasColors ? { colors: new Float32Array(colors) } : {}),
+                    indices: new Uint32Array(indices),
+                });
             }
 
-            if (needComputeNormals) {
-                // Init normals to zero
-                for (let i = 0; i < normals.length; i++) normals[i] = 0;
-                for (let i = 0; i < indices.length; i += 3) {
-                    const ia = indices[i] * 3;
-                    const ib = indices[i + 1] * 3;
-                    const ic = indices[i + 2] * 3;
-                    const [ax, ay, az] = [positions[ia], positions[ia + 1], positions[ia + 2]];
-                    const [bx, by, bz] = [positions[ib], positions[ib + 1], positions[ib + 2]];
-                    const [cx, cy, cz] = [positions[ic], positions[ic + 1], positions[ic + 2]];
-                    const [ux, uy, uz] = [bx - ax, by - ay, bz - az];
-                    const [vx, vy, vz] = [cx - ax, cy - ay, cz - az];
-                    // Face normal = u x v
-                    const nx = uy * vz - uz * vy;
-                    const ny = uz * vx - ux * vz;
-                    const nz = ux * vy - uy * vx;
-                    // Accumulate
-                    normals[ia] += nx; normals[ia + 1] += ny; normals[ia + 2] += nz;
-                    normals[ib] += nx; normals[ib + 1] += ny; normals[ib + 2] += nz;
-                    normals[ic] += nx; normals[ic + 1] += ny; normals[ic + 2] += nz;
-                }
-                // Normalize normals
-                for (let i = 0; i < normals.length; i += 3) {
-                    const [nx, ny, nz] = [normals[i], normals[i + 1], normals[i + 2]];
-                    const len = Math.hypot(nx, ny, nz) || 1;
-                    normals[i] = nx / len; normals[i + 1] = ny / len; normals[i + 2] = nz / len;
-                }
-            }
-
-            const mesh: MeshData = {
-                name: group.name,
-                materialName: group.materialName ?? null,
-                positions: toFloatArray(positions),
-                normals: toFloatArray(normals),
-                boundingBox: computeBoundingBox(toFloatArray(positions)),
-                uvs: uvs.length > 0 ? new Float32Array(uvs) : null,
-                indices: new Uint32Array(indices),
-            };
-
-            meshes.push(mesh);
+            meshes.push(...groupMeshes);
+            const object = objects.get(group.object) ?? { name: group.object.name, groups: [] };
+            object.groups.push({ names: group.names, meshes: groupMeshes });
+            objects.set(group.object, object);
         }
 
-        return { meshes, materials };
+        return { meshes, materials, objects: [...objects.values()], mtllibs };
     }
 
     /**
@@ -291,18 +370,15 @@ export class OBJLoader {
                     materials[name] = current;
                     break;
                 }
-                case 'Kd': {
-                    if (!current) break;
-                    const rgb: ColorRGB = [parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])];
-                    if (rgb.some(n => isNaN(n))) throw new Error(`Malformed Kd: ${parts.join(' ')}`);
-                    current.kd = rgb;
-                    break;
-                }
-                case 'Ks': {
+                case 'Ka':
+                case 'Kd':
+                case 'Ks':
+                case 'Ke': {
                     if (!current) break;
-                    const rgb: ColorRGB = [parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])];
-                    if (rgb.some(n => isNaN(n))) throw new Error(`Malformed Ks: ${parts.join(' ')}`);
-                    current.ks = rgb;
+                    const rgb: ColorRGB = [parseFloat(parts[1]), parseFloat(parts[2] ?? parts[1]), parseFloat(parts[3] ?? parts[1])];
+                    if (rgb.some(n => isNaN(n))) throw new Error(`Malformed ${tag}: ${parts.join(' ')}`);
+                    const key = tag.toLowerCase() as 'ka' | 'kd' | 'ks' | 'ke';
+                    current[key] = rgb;
                     break;
                 }
                 case 'Ns': {
@@ -312,9 +388,38 @@ export class OBJLoader {
                     current.ns = ns;
                     break;
                 }
-                case 'map_Kd': {
+                case 'd':
+                case 'Tr': {
+                    if (!current) break;
+                    // "d -halo 0.5" is allowed by the spec; the value is always last
+                    const value = parseFloat(parts[parts.length - 1]);
+                    if (isNaN(value)) throw new Error(`Malformed ${tag}: ${parts.join(' ')}`);
+                    current.d = tag === 'd' ? value : 1 - value;
+                    break;
+                }
+                case 'illum': {
                     if (!current) break;
-                    current.mapKd = parts.slice(1).join(' ');
+                    const illum = parseInt(parts[1], 10);
+                    if (isNaN(illum)) throw new Error(`Malformed illum: ${parts.join(' ')}`);
+                    current.illum = illum;
+                    break;
+                }
+                case 'map_Kd':
+                case 'map_Ks':
+                case 'map_bump':
+                case 'map_Bump':
+                case 'bump':
+                case 'norm': {
+                    if (!current) break;
+                    const { file, options } = parseMapStatement(parts.slice(1));
+                    if (!file) break;
+                    if (tag === 'map_Kd') current.mapKd = file;
+                    else if (tag === 'map_Ks') current.mapKs = file;
+                    else if (tag === 'norm') current.mapNorm = file;
+                    else {
+                        current.mapBump = file;
+                        if (options['-bm']?.length) current.bumpScale = parseFloat(options['-bm'][0]);
+                    }
                     break;
                 }
                 default:
@@ -326,7 +431,7 @@ export class OBJLoader {
         return materials;
     }
 
-    private async loadFromText(objText: string, options?: { mtlResolver?: (mtlFilename: string) => Promise<string | null>, objPath?: string }): Promise<ObjModel> {
+    private async loadFromText(objText: string, options?: OBJLoadOptions & { objPath?: string, objUrl?: string }): Promise<ObjModel> {
         const mtlTexts: Record<string, string> = {};
         const mtllibs: string[] = [];
         const lines = objText.split(/\r?\n/);
@@ -334,7 +439,7 @@ export class OBJLoader {
             const line = rawLine.trim();
             if (!line) continue;
             const parts = line.split(/\s+/);
-            if (parts[0] === 'mtllib' && parts[1]) mtllibs.push(parts[1]);
+            if (parts[0] === 'mtllib') mtllibs.push(...parts.slice(1));
         }
 
         if (mtllibs.length && options?.mtlResolver) {
@@ -360,32 +465,72 @@ export class OBJLoader {
                     // ignore single failures
                 }
             }
+        } else if (mtllibs.length && options?.objUrl) {
+            // Default: fetch MTL files relative to the OBJ URL
+            for (const m of mtllibs) {
+                try {
+                    const resp = await fetch(resolveUrl(m, options.objUrl));
+                    if (resp.ok) mtlTexts[m] = await resp.text();
+                } catch (e) {
+                    // ignore single failures
+                }
+            }
         }
 
-        return this.parse(objText, Object.keys(mtlTexts).length ? mtlTexts : undefined);
+        const model = this.parse(objText, Object.keys(mtlTexts).length ? mtlTexts : undefined, options);
+        if (options?.loadTextures === false) return model;
+        const textures = await this.loadTextures(model, options);
+        return Object.keys(textures).length ? { ...model, textures } : model;
+    }
+
+    /**
+     * Decode every texture map referenced by the model's materials, relative to the OBJ file or URL.
+     * Missing or undecodable images are skipped; the mesh then renders untextured.
+     */
+    private async loadTextures(model: ObjModel, options?: OBJLoadOptions & { objPath?: string, objUrl?: string }): Promise<Record<string, Texture>> {
+        const textures: Record<string, Texture> = {};
+        const files = new Set<string>();
+        for (const material of Object.values(model.materials)) {
+            for (const file of [material.mapKd, material.mapKs, material.mapBump, material.mapNorm]) {
+                if (file) files.add(file);
+            }
+        }
+        if (!files.size || (!options?.objPath && !options?.objUrl)) return textures;
+
+        const loader = new TextureLoader();
+        for (const file of files) {
+            try {
+                if (options.objPath) {
+                    const path = await import('path');
+                    textures[file] = await loader.loadFromFile(path.join(path.dirname(options.objPath), file), options.textureOptions);
+                } else {
+                    textures[file] = await loader.loadFromUrl(resolveUrl(file, options.objUrl!), options.textureOptions);
+                }
+            } catch (e) {
+                // ignore single failures
+            }
+        }
+        return textures;
     }
 
     /**
      * Load OBJ (and optionally MTL) from a remote URL (http/https or local server)
      */
-    async loadFromUrl(objUrl: string, options?: { mtlResolver?: (mtlFilename: string) => Promise<string | null> }): Promise<ObjModel> {
+    async loadFromUrl(objUrl: string, options?: OBJLoadOptions): Promise<ObjModel> {
         const objResp = await fetch(objUrl);
         if (!objResp.ok) throw new Error(`Failed to fetch OBJ: ${objResp.status}`);
         const objText = await objResp.text();
-        return this.loadFromText(objText, options);
+        return this.loadFromText(objText, { ...options, objUrl });
     }
 
     /**
      * Load OBJ (and optionally MTL) from a local file path (Node.js only)
      */
-    async loadFromFile(objPath: string, options?: { mtlResolver?: (mtlFilename: string) => Promise<string | null> }): Promise<ObjModel> {
+    async loadFromFile(objPath: string, options?: OBJLoadOptions): Promise<ObjModel> {
         const fs = await import('fs/promises');
         const objText = await fs.readFile(objPath, 'utf8');
         return this.loadFromText(objText, { ...options, objPath });
     }
 }
 // Extend this file by adding support for:
-// - splitting by smoothing groups,
-// - reading per-face materials,
-// - storing multiple UV sets,
-// - loading textures referenced in MTL and producing GPU-friendly structures.
+// - storing multiple UV sets.
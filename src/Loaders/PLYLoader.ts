@@ -0,0 +1,236 @@
+import type { Material, MeshData, ObjModel } from "./OBJLoader";
+import { computeBoundingBox, computeVertexNormals } from "./Geometry";
+
+type PLYFormat = "ascii" | "binary_little_endian" | "binary_big_endian";
+
+interface PLYProperty {
+    name: string;
+    type: string;
+    /** For list properties: the type of the length prefix, `type` being that of the items */
+    countType?: string;
+}
+
+interface PLYElement {
+    name: string;
+    count: number;
+    properties: PLYProperty[];
+}
+
+/** Reads the values of the file body one at a time, whatever the format */
+interface ValueReader {
+    read(type: string): number;
+}
+
+/** Byte size of each scalar type, under both its old and its sized name */
+const TYPE_BYTES: Record<string, number> = {
+    char: 1, uchar: 1, short: 2, ushort: 2, int: 4, uint: 4, float: 4, double: 8,
+    int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8
+};
+
+// Largest value of the unsigned types, for colors stored as integers
+const COLOR_RANGE: Record<string, number> = { uchar: 255, uint8: 255, ushort: 65535, uint16: 65535, char: 127, int8: 127 };
+
+/** Given to meshes with vertex colors: the renderer multiplies them with the diffuse color */
+const VERTEX_COLOR_MATERIAL: Material = { name: "vertexColors", kd: [1, 1, 1], illum: 1 };
+
+/** The end of the header and what it declares */
+function readHeader(bytes: Uint8Array): { format: PLYFormat, elements: PLYElement[], bodyStart: number } {
+    // The header is ASCII; look for its end without decoding the (possibly binary) body
+    const marker = new TextEncoder().encode("end_header");
+    let end = -1;
+    search: for (let i = 0; i + marker.length <= bytes.length; i++) {
+        for (let k = 0; k < marker.length; k++) {
+            if (bytes[i + k] !== marker[k]) continue search;
+        }
+        end = i + marker.length;
+        break;
+    }
+    if (end < 0) throw new Error("Not a PLY file: no end_header");
+    // Skip the line break, \n or \r\n
+    let bodyStart = end;
+    if (bytes[bodyStart] === 0x0d) bodyStart++;
+    if (bytes[bodyStart] === 0x0a) bodyStart++;
+
+    const lines = new TextDecoder().decode(bytes.subarray(0, end)).split(/\r?\n/);
+    if (lines[0].trim() !== "ply") throw new Error("Not a PLY file: missing 'ply' magic");
+    let format: PLYFormat | null = null;
+    const elements: PLYElement[] = [];
+    for (const rawLine of lines.slice(1)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const parts = line.split(/\s+/);
+        switch (parts[0]) {
+            case "format":
+                if (parts[1] !== "ascii" && parts[1] !== "binary_little_endian" && parts[1] !== "binary_big_endian") {
+                    throw new Error(`Unsupported PLY format: ${parts[1]}`);
+                }
+                format = parts[1];
+                break;
+            case "element": {
+                const count = parseInt(parts[2], 10);
+                if (isNaN(count)) throw new Error(`Malformed PLY element: ${line}`);
+                elements.push({ name: parts[1], count, properties: [] });
+                break;
+            }
+            case "property": {
+                const element = elements[elements.length - 1];
+                if (!element) throw new Error(`PLY property outside of an element: ${line}`);
+                const property = parts[1] === "list"
+                    ? { countType: parts[2], type: parts[3], name: parts[4] }
+                    : { type: parts[1], name: parts[2] };
+                for (const type of [property.type, property.countType]) {
+                    if (type !== undefined && !TYPE_BYTES[type]) throw new Error(`Unknown PLY property type: ${type}`);
+                }
+                element.properties.push(property);
+                break;
+            }
+            default:
+                // comment, obj_info
+                break;
+        }
+    }
+    if (!format) throw new Error("PLY header without a format");
+    return { format, elements, bodyStart };
+}
+
+function asciiReader(text: string): ValueReader {
+    const tokens = text.split(/\s+/).filter(t => t.length);
+    let next = 0;
+    return {
+        read() {
+            if (next >= tokens.length) throw new Error("PLY body ends early");
+            const value = Number(tokens[next++]);
+            if (isNaN(value)) throw new Error(`Malformed PLY value: ${tokens[next - 1]}`);
+            return value;
+        }
+    };
+}
+
+function binaryReader(bytes: Uint8Array, littleEndian: boolean): ValueReader {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+    return {
+        read(type) {
+            const size = TYPE_BYTES[type];
+            if (offset + size > bytes.length) throw new Error("PLY body ends early");
+            let value: number;
+            switch (type) {
+                case "char": case "int8": value = view.getInt8(offset); break;
+                case "uchar": case "uint8": value = view.getUint8(offset); break;
+                case "short": case "int16": value = view.getInt16(offset, littleEndian); break;
+                case "ushort": case "uint16": value = view.getUint16(offset, littleEndian); break;
+                case "int": case "int32": value = view.getInt32(offset, littleEndian); break;
+                case "uint": case "uint32": value = view.getUint32(offset, littleEndian); break;
+                case "float": case "float32": value = view.getFloat32(offset, littleEndian); break;
+                default: value = view.getFloat64(offset, littleEndian); break;
+            }
+            offset += size;
+            return value;
+        }
+    };
+}
+
+export class PLYLoader {
+    /**
+     * Parse an ASCII or binary (either byte order) PLY file into a single mesh. Vertex colors
+     * become MeshData.colors, with a white material so they show as they are.
+     * @param data File contents; binary files must be passed as bytes
+     */
+    parse(data: string | Uint8Array): ObjModel {
+        const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+        const { format, elements, bodyStart } = readHeader(bytes);
+        const body = bytes.subarray(bodyStart);
+        const reader = format === "ascii"
+            ? asciiReader(new TextDecoder().decode(body))
+            : binaryReader(body, format === "binary_little_endian");
+
+        let vertexCount = 0;
+        const positions: number[] = [], normals: number[] = [], uvs: number[] = [], colors: number[] = [];
+        let hasNormals = false, hasUVs = false, hasColors = false;
+        const indices: number[] = [];
+
+        // Elements are stored in header order; everything but vertices and faces is read and dropped
+        for (const element of elements) {
+            const props = element.properties;
+            const find = (...names: string[]) => props.findIndex(p => names.includes(p.name));
+            const isVertex = element.name === "vertex";
+            const isFace = element.name === "face";
+            const px = find("x"), py = find("y"), pz = find("z");
+            const nx = find("nx"), ny = find("ny"), nz = find("nz");
+            const u = find("u", "s", "texture_u"), v = find("v", "t", "texture_v");
+            const red = find("red", "diffuse_red"), green = find("green", "diffuse_green"), blue = find("blue", "diffuse_blue");
+            const list = find("vertex_indices", "vertex_index");
+            if (isVertex) {
+                if (px < 0 || py < 0 || pz < 0) throw new Error("PLY vertices without x, y and z");
+                vertexCount = element.count;
+                hasNormals = nx >= 0 && ny >= 0 && nz >= 0;
+                hasUVs = u >= 0 && v >= 0;
+                hasColors = red >= 0 && green >= 0 && blue >= 0;
+            }
+
+            const values = new Array<number>(props.length).fill(0);
+            for (let e = 0; e < element.count; e++) {
+                props.forEach((prop, i) => {
+                    if (!prop.countType) {
+                        values[i] = reader.read(prop.type);
+                        return;
+                    }
+                    const count = reader.read(prop.countType);
+                    const items: number[] = [];
+                    for (let k = 0; k < count; k++) items.push(reader.read(prop.type));
+                    if (isFace && i === list) {
+                        // Convex polygons, fanned out like OBJ faces
+                        for (let k = 1; k + 1 < items.length; k++) indices.push(items[0], items[k], items[k + 1]);
+                    }
+                });
+                if (!isVertex) continue;
+                positions.push(values[px], values[py], values[pz]);
+                if (hasNormals) normals.push(values[nx], values[ny], values[nz]);
+                if (hasUVs) uvs.push(values[u], values[v]);
+                if (hasColors) {
+                    for (const c of [red, green, blue]) {
+                        const range = COLOR_RANGE[props[c].type];
+                        colors.push(range ? Math.max(0, values[c] / range) : values[c]);
+                    }
+                }
+            }
+        }
+
+        for (const i of indices) {
+            if (i < 0 || i >= vertexCount) throw new Error(`PLY face index ${i} is out of bounds`);
+        }
+
+        const position = new Float32Array(positions);
+        const mesh: MeshData = {
+            name: "mesh",
+            materialName: hasColors ? VERTEX_COLOR_MATERIAL.name : null,
+            positions: position,
+            normals: hasNormals ? new Float32Array(normals) : computeVertexNormals(position, indices),
+            uvs: hasUVs ? new Float32Array(uvs) : null,
+            colors: hasColors ? new Float32Array(colors) : null,
+            indices: new Uint32Array(indices),
+            boundingBox: computeBoundingBox(position)
+        };
+        return {
+            meshes: [mesh],
+            materials: hasColors ? { [VERTEX_COLOR_MATERIAL.name]: { ...VERTEX_COLOR_MATERIAL } } : {}
+        };
+    }
+
+    /**
+     * Load a PLY file from a local file path (Node.js only)
+     */
+    async loadFromFile(path: string): Promise<ObjModel> {
+        const fs = await import("fs/promises");
+        return this.parse(new Uint8Array(await fs.readFile(path)));
+    }
+
+    /**
+     * Load a PLY file over fetch
+     */
+    async loadFromUrl(url: string): Promise<ObjModel> {
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`Failed to fetch PLY: ${resp.status}`);
+        return this.parse(new Uint8Array(await resp.arrayBuffer()));
+    }
+}
@@ -0,0 +1,222 @@
+import type { MeshData, ObjModel } from "./OBJLoader";
+import { computeBoundingBox, computeCornerNormals, computeVertexNormals } from "./Geometry";
+
+export interface STLLoadOptions {
+    /**
+     * Merge corners closer than `weldTolerance` into shared vertices with smooth normals
+     * (default true). STL stores every triangle on its own; unwelded meshes keep the facet normals.
+     */
+    weld?: boolean;
+    /** Distance under which corners are merged; defaults to a millionth of the model's size */
+    weldTolerance?: number;
+    /**
+     * When welding: the largest angle in radians between faces that are still smoothed together
+     * (default π / 6). Sharper edges, like those of machined parts, keep their facet normals.
+     */
+    creaseAngle?: number;
+}
+
+const DEFAULT_CREASE_ANGLE = Math.PI / 6;
+
+/** Triangles as read from the file: 9 coordinates and 3 normal components each */
+interface Facets {
+    name: string;
+    positions: number[];
+    normals: number[];
+}
+
+function isBinarySTL(bytes: Uint8Array): boolean {
+    if (bytes.length < 84) return false;
+    const count = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true);
+    // The size check is what counts: many binary files start their header with "solid" too
+    return 84 + count * 50 === bytes.length;
+}
+
+function readBinary(bytes: Uint8Array): Facets[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint32(80, true);
+    const positions: number[] = [];
+    const normals: number[] = [];
+    for (let t = 0; t < count; t++) {
+        const o = 84 + t * 50;
+        normals.push(view.getFloat32(o, true), view.getFloat32(o + 4, true), view.getFloat32(o + 8, true));
+        for (let k = 0; k < 9; k++) positions.push(view.getFloat32(o + 12 + k * 4, true));
+        // The trailing attribute byte count carries no standard data
+    }
+    return [{ name: "mesh", positions, normals }];
+}
+
+function readAscii(text: string): Facets[] {
+    const solids: Facets[] = [];
+    let current: Facets | null = null;
+    let corners = 0;
+    const lines = text.split(/\r?\n/);
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const parts = line.split(/\s+/);
+        switch (parts[0]) {
+            case "solid":
+                current = { name: parts.slice(1).join(" ") || "mesh", positions: [], normals: [] };
+                solids.push(current);
+                break;
+            case "facet": {
+                if (!current) throw new Error("STL facet outside of a solid");
+                const [nx, ny, nz] = parts.slice(2, 5).map(Number);
+                if ([nx, ny, nz].some(n => isNaN(n))) throw new Error(`Malformed STL facet: ${line}`);
+                current.normals.push(nx, ny, nz);
+                corners = 0;
+                break;
+            }
+            case "vertex": {
+                if (!current) throw new Error("STL vertex outside of a solid");
+                const [x, y, z] = parts.slice(1, 4).map(Number);
+                if ([x, y, z].some(n => isNaN(n))) throw new Error(`Malformed STL vertex: ${line}`);
+                current.positions.push(x, y, z);
+                corners++;
+                break;
+            }
+            case "endfacet":
+                if (corners !== 3) throw new Error(`STL facet with ${corners} vertices`);
+                break;
+            default:
+                // outer loop, endloop, endsolid
+                break;
+        }
+    }
+    return solids;
+}
+
+/**
+ * Merge positions closer than `tolerance` on a grid of `tolerance`-sized cells, searching the
+ * neighboring cells too so close points on either side of a cell border still meet
+ * @returns The kept positions and, for each input position, the index it was merged into
+ */
+function weldPositions(positions: number[], tolerance: number): { welded: number[], remap: Uint32Array } {
+    const welded: number[] = [];
+    const remap = new Uint32Array(positions.length / 3);
+    const cells = new Map<string, number[]>();
+    const cellOf = (c: number) => Math.floor(c / tolerance);
+    for (let v = 0; v < remap.length; v++) {
+        const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2];
+        const cx = cellOf(x), cy = cellOf(y), cz = cellOf(z);
+        let found = -1;
+        search: for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dz = -1; dz <= 1; dz++) {
+                    for (const w of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+                        if (Math.hypot(welded[w * 3] - x, welded[w * 3 + 1] - y, welded[w * 3 + 2] - z) <= tolerance) {
+                            found = w;
+                            break search;
+                        }
+                    }
+                }
+            }
+        }
+        if (found < 0) {
+            found = welded.length / 3;
+            welded.push(x, y, z);
+            const key = `${cx},${cy},${cz}`;
+            const cell = cells.get(key);
+            if (cell) cell.push(found);
+            else cells.set(key, [found]);
+        }
+        remap[v] = found;
+    }
+    return { welded, remap };
+}
+
+export class STLLoader {
+    /**
+     * Parse an ASCII or binary STL file; every solid in it becomes a mesh
+     * @param data File contents; binary files must be passed as bytes
+     */
+    parse(data: string | Uint8Array, options?: STLLoadOptions): ObjModel {
+        const solids = typeof data === "string" ? readAscii(data)
+            : isBinarySTL(data) ? readBinary(data)
+                : readAscii(new TextDecoder().decode(data));
+        if (!solids.length) throw new Error("Not an STL file: no solid found");
+        const meshes = solids.filter(s => s.positions.length).map(s => this.buildMesh(s, options));
+        return { meshes, materials: {} };
+    }
+
+    /**
+     * Load an STL file from a local file path (Node.js only)
+     */
+    async loadFromFile(path: string, options?: STLLoadOptions): Promise<ObjModel> {
+        const fs = await import("fs/promises");
+        return this.parse(new Uint8Array(await fs.readFile(path)), options);
+    }
+
+    /**
+     * Load an STL file over fetch
+     */
+    async loadFromUrl(url: string, options?: STLLoadOptions): Promise<ObjModel> {
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`Failed to fetch STL: ${resp.status}`);
+        return this.parse(new Uint8Array(await resp.arrayBuffer()), options);
+    }
+
+    private buildMesh(facets: Facets, options?: STLLoadOptions): MeshData {
+        const corners = new Float32Array(facets.positions);
+        const boundingBox = computeBoundingBox(corners);
+
+        if (options?.weld ?? true) {
+            const { min, max } = boundingBox;
+            const size = Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z);
+            const tolerance = options?.weldTolerance ?? (size * 1e-6 || 1e-6);
+            const { welded, remap } = weldPositions(Array.from(corners), tolerance);
+            // Triangles whose corners got merged into each other have no area left
+            const indices: number[] = [];
+            for (let t = 0; t < remap.length; t += 3) {
+                const a = remap[t], b = remap[t + 1], c = remap[t + 2];
+                if (a !== b && b !== c && a !== c) indices.push(a, b, c);
+            }
+            // Corners of a welded vertex on either side of a crease get a vertex each
+            const cornerNormals = computeCornerNormals(welded, indices, { creaseAngle: options?.creaseAngle ?? DEFAULT_CREASE_ANGLE });
+            const vertexMap = new Map<string, number>();
+            const positions: number[] = [];
+            const normals: number[] = [];
+            const split = indices.map((v, i) => {
+                const normal = cornerNormals.subarray(i * 3, i * 3 + 3);
+                const key = `${v}_${normal.join(",")}`;
+                let index = vertexMap.get(key);
+                if (index === undefined) {
+                    index = positions.length / 3;
+                    vertexMap.set(key, index);
+                    positions.push(welded[v * 3], welded[v * 3 + 1], welded[v * 3 + 2]);
+                    normals.push(...normal);
+                }
+                return index;
+            });
+            const weldedPositions = new Float32Array(positions);
+            return {
+                name: facets.name,
+                materialName: null,
+                positions: weldedPositions,
+                normals: new Float32Array(normals),
+                uvs: null,
+                indices: new Uint32Array(split),
+                boundingBox: computeBoundingBox(weldedPositions)
+            };
+        }
+
+        // Facet normals as stored, or from the winding where the file leaves them zero
+        const indices = Uint32Array.from({ length: corners.length / 3 }, (_, i) => i);
+        const computed = computeVertexNormals(corners, indices);
+        const normals = new Float32Array(corners.length);
+        for (let t = 0; t < corners.length / 9; t++) {
+            const nx = facets.normals[t * 3], ny = facets.normals[t * 3 + 1], nz = facets.normals[t * 3 + 2];
+            const len = Math.hypot(nx, ny, nz);
+            for (let k = 0; k < 3; k++) {
+                const o = t * 9 + k * 3;
+                if (len > 0) {
+                    normals[o] = nx / len; normals[o + 1] = ny / len; normals[o + 2] = nz / len;
+                } else {
+                    normals.set(computed.subarray(o, o + 3), o);
+                }
+            }
+        }
+        return { name: facets.name, materialName: null, positions: corners, normals, uvs: null, indices, boundingBox };
+    }
+}
@@ -0,0 +1,68 @@
+import type { Material } from "./Loaders/OBJLoader";
+import type { Vec3 } from "./Math";
+import type { Texture } from "./Textures/Texture";
+import { srgbToLinear } from "./ColorSpace";
+
+/**
+ * A Material with colors scaled to 0..255, defaults filled in and texture maps
+ * resolved to decoded textures, ready for the lighting code.
+ */
+export interface ShadingMaterial {
+    readonly name: string;
+    readonly ambient: Vec3;
+    readonly diffuse: Vec3;
+    readonly specular: Vec3;
+    readonly emissive: Vec3;
+    readonly shininess: number;
+    readonly opacity: number;
+    readonly illum: number;
+    readonly mapKd: Texture | null;
+    readonly mapKs: Texture | null;
+    readonly mapBump: Texture | null;
+    readonly bumpScale: number;
+    readonly mapNorm: Texture | null;
+    /** Pixels whose mapKd alpha (0..1) is below this are cut out; 0 keeps them all */
+    readonly alphaCutoff: number;
+    readonly doubleSided: boolean;
+}
+
+/** Used for meshes without a (known) material; matches the renderer's historical orange look */
+export const DEFAULT_MATERIAL: Material = {
+    name: "default",
+    kd: [200 / 255, 120 / 255, 60 / 255],
+    ks: [200 / 255, 120 / 255, 60 / 255],
+    ns: 16,
+    illum: 2
+};
+
+/**
+ * @param textures Decoded maps keyed by the filenames used in the material
+ * @param linear Decode the colors from sRGB, for lighting in linear space (still scaled to 0..255)
+ */
+export function resolveShadingMaterial(material: Material, textures?: Record<string, Texture>, linear = false): ShadingMaterial {
+    const toVec3 = (rgb: [number, number, number]): Vec3 => linear
+        ? { x: srgbToLinear(rgb[0]) * 255, y: srgbToLinear(rgb[1]) * 255, z: srgbToLinear(rgb[2]) * 255 }
+        : { x: rgb[0] * 255, y: rgb[1] * 255, z: rgb[2] * 255 };
+    const lookup = (file?: string) => (file && textures?.[file]) || null;
+    const mapKd = lookup(material.mapKd);
+    // A textured material without Kd shows its texture unmodified
+    const kd = material.kd ?? (material.mapKd ? [1, 1, 1] : DEFAULT_MATERIAL.kd!);
+    return {
+        name: material.name,
+        // Many exporters leave Ka at zero or omit it; fall back to Kd so unlit sides keep their hue
+        ambient: toVec3(material.ka && material.ka.some(c => c > 0) ? material.ka : kd),
+        diffuse: toVec3(kd),
+        specular: toVec3(material.ks ?? [0, 0, 0]),
+        emissive: toVec3(material.ke ?? [0, 0, 0]),
+        shininess: material.ns ?? DEFAULT_MATERIAL.ns!,
+        opacity: material.d ?? 1,
+        illum: material.illum ?? 2,
+        mapKd,
+        mapKs: lookup(material.mapKs),
+        mapBump: lookup(material.mapBump),
+        bumpScale: material.bumpScale ?? 1,
+        mapNorm: lookup(material.mapNorm),
+        alphaCutoff: material.alphaCutoff ?? 0,
+        doubleSided: material.doubleSided ?? false
+    };
+}
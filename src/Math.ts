@@ -1,29 +1,34 @@
 import type { MeshData } from "./Loaders/OBJLoader";
-import type { DirectionalLight } from "./Objects/DirectionalLight";
 
 type Vec3 = { x: number, y: number, z: number }
 type Vec4 = { x: number, y: number, z: number, w: number }
-type Mat4 = number[]; // length 16, column-major or row-major consistent usage below
+type Mat4 = Float32Array; // length 16, row-major
+type Mat3 = Float32Array; // length 9, row-major
+type Quat = { x: number, y: number, z: number, w: number }
 type ScreenVertex = {
     x: number, y: number, z: number,   // z in 0..1
     recipW: number                     // 1 / clip.w, for perspective-correct interpolation
     color?: [number, number, number], // RGB
+    specular?: [number, number, number], // RGB, added after the diffuse texture is applied
     normal?: Vec3,
-    uv?: [number, number]
+    uv?: [number, number],
+    world?: Vec3 // world-space position; when set the triangle is lit per fragment
     // add here attribute fields like uOverW, vOverW, nxOverW, nyOverW, nzOverW, etc.
 };
 
 function mat4Identity(): Mat4 {
-    return [
+    return new Float32Array([
         1, 0, 0, 0,
         0, 1, 0, 0,
         0, 0, 1, 0,
         0, 0, 0, 1
-    ];
+    ]);
 }
 
-function mat4Mul(a: Mat4, b: Mat4): Mat4 {
-    const out = new Array(16);
+/**
+ * a * b, written to `out` (which must not be a or b) so per-frame products can reuse a matrix
+ */
+function mat4Mul(a: Mat4, b: Mat4, out: Mat4 = new Float32Array(16)): Mat4 {
     for (let row = 0; row < 4; row++) {
         for (let col = 0; col < 4; col++) {
             let sum = 0;
@@ -53,12 +58,26 @@ function mat4Perspective(fovy: number, aspect: number, near: number, far: number
     const f = 1.0 / Math.tan(fovy / 2);
     const nf = 1 / (near - far);
     // row-major
-    return [
+    return new Float32Array([
         f / aspect, 0, 0, 0,
         0, f, 0, 0,
         0, 0, (far + near) * nf, (2 * far * near) * nf,
         0, 0, -1, 0
-    ];
+    ]);
+}
+
+/** Create orthographic projection matrix (WebGL style, maps z to [-1,1]).
+ * The box [left, right] x [bottom, top] x [-near, -far] in view space maps to the clip cube; w stays 1.
+ */
+function mat4Ortho(left: number, right: number, bottom: number, top: number, near: number, far: number): Mat4 {
+    const rl = 1 / (right - left), tb = 1 / (top - bottom), nf = 1 / (near - far);
+    // row-major
+    return new Float32Array([
+        2 * rl, 0, 0, -(right + left) * rl,
+        0, 2 * tb, 0, -(top + bottom) * tb,
+        0, 0, 2 * nf, (far + near) * nf,
+        0, 0, 0, 1
+    ]);
 }
 
 /** Create a view matrix from camera (eye), target, up vector.
@@ -84,23 +103,191 @@ function mat4LookAt(eye: Vec3, target: Vec3, up: Vec3): Mat4 {
     const yz = zxn * xyn - zyn * xxn;
 
     // Row-major view matrix
-    return [
+    return new Float32Array([
         xxn, xyn, xzn, -(xxn * eye.x + xyn * eye.y + xzn * eye.z),
         yx, yy, yz, -(yx * eye.x + yy * eye.y + yz * eye.z),
         zxn, zyn, zzn, -(zxn * eye.x + zyn * eye.y + zzn * eye.z),
         0, 0, 0, 1
-    ];
+    ]);
 }
 
 /** Make a rotation matrix around Y (simple helper for demo) */
 function mat4RotateY(angle: number): Mat4 {
     const c = Math.cos(angle), s = Math.sin(angle);
-    return [
+    return new Float32Array([
         c, 0, s, 0,
         0, 1, 0, 0,
         -s, 0, c, 0,
         0, 0, 0, 1
-    ];
+    ]);
+}
+
+/**
+ * Compose translation * rotation * scale into a row-major model matrix.
+ */
+function mat4Compose(t: Vec3, q: Quat, s: Vec3): Mat4 {
+    const { x, y, z, w } = q;
+    const x2 = x + x, y2 = y + y, z2 = z + z;
+    const xx = x * x2, xy = x * y2, xz = x * z2;
+    const yy = y * y2, yz = y * z2, zz = z * z2;
+    const wx = w * x2, wy = w * y2, wz = w * z2;
+    return new Float32Array([
+        (1 - (yy + zz)) * s.x, (xy - wz) * s.y, (xz + wy) * s.z, t.x,
+        (xy + wz) * s.x, (1 - (xx + zz)) * s.y, (yz - wx) * s.z, t.y,
+        (xz - wy) * s.x, (yz + wx) * s.y, (1 - (xx + yy)) * s.z, t.z,
+        0, 0, 0, 1
+    ]);
+}
+
+/**
+ * Split a row-major model matrix back into translation, rotation and scale (the inverse of
+ * mat4Compose). Shear is lost; a negative determinant is put on the x scale.
+ */
+function mat4Decompose(m: Mat4): { position: Vec3, rotation: Quat, scale: Vec3 } {
+    let sx = Math.hypot(m[0], m[4], m[8]);
+    const sy = Math.hypot(m[1], m[5], m[9]);
+    const sz = Math.hypot(m[2], m[6], m[10]);
+    const det = m[0] * (m[5] * m[10] - m[6] * m[9]) - m[1] * (m[4] * m[10] - m[6] * m[8]) + m[2] * (m[4] * m[9] - m[5] * m[8]);
+    if (det < 0) sx = -sx;
+    // Rotation matrix columns
+    const r00 = m[0] / (sx || 1), r10 = m[4] / (sx || 1), r20 = m[8] / (sx || 1);
+    const r01 = m[1] / (sy || 1), r11 = m[5] / (sy || 1), r21 = m[9] / (sy || 1);
+    const r02 = m[2] / (sz || 1), r12 = m[6] / (sz || 1), r22 = m[10] / (sz || 1);
+    // Shepperd's method: branch on the largest diagonal term for stability
+    const trace = r00 + r11 + r22;
+    let q: Quat;
+    if (trace > 0) {
+        const s = Math.sqrt(trace + 1) * 2;
+        q = { x: (r21 - r12) / s, y: (r02 - r20) / s, z: (r10 - r01) / s, w: s / 4 };
+    } else if (r00 > r11 && r00 > r22) {
+        const s = Math.sqrt(1 + r00 - r11 - r22) * 2;
+        q = { x: s / 4, y: (r01 + r10) / s, z: (r02 + r20) / s, w: (r21 - r12) / s };
+    } else if (r11 > r22) {
+        const s = Math.sqrt(1 + r11 - r00 - r22) * 2;
+        q = { x: (r01 + r10) / s, y: s / 4, z: (r12 + r21) / s, w: (r02 - r20) / s };
+    } else {
+        const s = Math.sqrt(1 + r22 - r00 - r11) * 2;
+        q = { x: (r02 + r20) / s, y: (r12 + r21) / s, z: s / 4, w: (r10 - r01) / s };
+    }
+    return {
+        position: { x: m[3], y: m[7], z: m[11] },
+        rotation: quatNormalize(q),
+        scale: { x: sx, y: sy, z: sz }
+    };
+}
+
+/** General 4x4 inverse; returns the identity for singular matrices */
+function mat4Invert(m: Mat4): Mat4 {
+    const [a00, a01, a02, a03, a10, a11, a12, a13, a20, a21, a22, a23, a30, a31, a32, a33] = m;
+    const b00 = a00 * a11 - a01 * a10, b01 = a00 * a12 - a02 * a10;
+    const b02 = a00 * a13 - a03 * a10, b03 = a01 * a12 - a02 * a11;
+    const b04 = a01 * a13 - a03 * a11, b05 = a02 * a13 - a03 * a12;
+    const b06 = a20 * a31 - a21 * a30, b07 = a20 * a32 - a22 * a30;
+    const b08 = a20 * a33 - a23 * a30, b09 = a21 * a32 - a22 * a31;
+    const b10 = a21 * a33 - a23 * a31, b11 = a22 * a33 - a23 * a32;
+    const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+    if (det === 0) return mat4Identity();
+    const inv = 1 / det;
+    return new Float32Array([
+        (a11 * b11 - a12 * b10 + a13 * b09) * inv,
+        (a02 * b10 - a01 * b11 - a03 * b09) * inv,
+        (a31 * b05 - a32 * b04 + a33 * b03) * inv,
+        (a22 * b04 - a21 * b05 - a23 * b03) * inv,
+        (a12 * b08 - a10 * b11 - a13 * b07) * inv,
+        (a00 * b11 - a02 * b08 + a03 * b07) * inv,
+        (a32 * b02 - a30 * b05 - a33 * b01) * inv,
+        (a20 * b05 - a22 * b02 + a23 * b01) * inv,
+        (a10 * b10 - a11 * b08 + a13 * b06) * inv,
+        (a01 * b08 - a00 * b10 - a03 * b06) * inv,
+        (a30 * b04 - a31 * b02 + a33 * b00) * inv,
+        (a21 * b02 - a20 * b04 - a23 * b00) * inv,
+        (a11 * b07 - a10 * b09 - a12 * b06) * inv,
+        (a00 * b09 - a01 * b07 + a02 * b06) * inv,
+        (a31 * b01 - a30 * b03 - a32 * b00) * inv,
+        (a20 * b03 - a21 * b01 + a22 * b00) * inv
+    ]);
+}
+
+/**
+ * Normal matrix: inverse-transpose of the upper 3x3 of a model matrix, so normals stay
+ * perpendicular to surfaces under non-uniform scale. Not normalized; renormalize after use.
+ */
+function mat3NormalFromMat4(m: Mat4): Mat3 {
+    const a = m[0], b = m[1], c = m[2];
+    const d = m[4], e = m[5], f = m[6];
+    const g = m[8], h = m[9], i = m[10];
+    // Cofactor matrix equals det * inverse-transpose; the positive scale factor doesn't matter
+    // for directions, but keep the sign so mirrored transforms don't flip normals inside out.
+    const c00 = e * i - f * h, c01 = f * g - d * i, c02 = d * h - e * g;
+    const c10 = c * h - b * i, c11 = a * i - c * g, c12 = b * g - a * h;
+    const c20 = b * f - c * e, c21 = c * d - a * f, c22 = a * e - b * d;
+    const det = a * c00 + b * c01 + c * c02;
+    const s = det < 0 ? -1 : 1;
+    return new Float32Array([
+        c00 * s, c01 * s, c02 * s,
+        c10 * s, c11 * s, c12 * s,
+        c20 * s, c21 * s, c22 * s
+    ]);
+}
+
+function mat3MulVec3(m: Mat3, v: Vec3): Vec3 {
+    return {
+        x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+        y: m[3] * v.x + m[4] * v.y + m[5] * v.z,
+        z: m[6] * v.x + m[7] * v.y + m[8] * v.z
+    };
+}
+
+/** Transform a point (w = 1) by a row-major affine matrix */
+function mat4TransformPoint(m: Mat4, p: Vec3): Vec3 {
+    return {
+        x: m[0] * p.x + m[1] * p.y + m[2] * p.z + m[3],
+        y: m[4] * p.x + m[5] * p.y + m[6] * p.z + m[7],
+        z: m[8] * p.x + m[9] * p.y + m[10] * p.z + m[11]
+    };
+}
+
+/** Transform a direction (w = 0), ignoring translation */
+function mat4TransformDirection(m: Mat4, d: Vec3): Vec3 {
+    return {
+        x: m[0] * d.x + m[1] * d.y + m[2] * d.z,
+        y: m[4] * d.x + m[5] * d.y + m[6] * d.z,
+        z: m[8] * d.x + m[9] * d.y + m[10] * d.z
+    };
+}
+
+function quatIdentity(): Quat {
+    return { x: 0, y: 0, z: 0, w: 1 };
+}
+
+/** Rotation of `angle` radians around `axis` (normalized here) */
+function quatFromAxisAngle(axis: Vec3, angle: number): Quat {
+    const n = vnorm(axis);
+    const s = Math.sin(angle / 2);
+    return { x: n.x * s, y: n.y * s, z: n.z * s, w: Math.cos(angle / 2) };
+}
+
+/** Euler angles in radians, applied in X, then Y, then Z order */
+function quatFromEuler(x: number, y: number, z: number): Quat {
+    const qx = quatFromAxisAngle({ x: 1, y: 0, z: 0 }, x);
+    const qy = quatFromAxisAngle({ x: 0, y: 1, z: 0 }, y);
+    const qz = quatFromAxisAngle({ x: 0, y: 0, z: 1 }, z);
+    return quatMul(qz, quatMul(qy, qx));
+}
+
+/** Hamilton product: applying the result rotates by b first, then a */
+function quatMul(a: Quat, b: Quat): Quat {
+    return {
+        x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+        y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+        z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+        w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z
+    };
+}
+
+function quatNormalize(q: Quat): Quat {
+    const len = Math.hypot(q.x, q.y, q.z, q.w) || 1;
+    return { x: q.x / len, y: q.y / len, z: q.z / len, w: q.w / len };
 }
 
 /**
@@ -140,84 +327,117 @@ function projectVertex(pos: Vec3, mvp: Mat4, width: number, height: number) {
     };
 }
 
-function transformTriangleToScreen(a: Vec3, b: Vec3, c: Vec3, mvp: Mat4, width: number, height: number): (ScreenVertex[] | null) {
-    const pa = projectVertex(a, mvp, width, height);
-    const pb = projectVertex(b, mvp, width, height);
-    const pc = projectVertex(c, mvp, width, height);
-    if (!pa || !pb || !pc) return null;
-
-    return [
-        { x: pa.screenX, y: pa.screenY, z: pa.screenZ, recipW: 1 / pa.clipW },
-        { x: pb.screenX, y: pb.screenY, z: pb.screenZ, recipW: 1 / pb.clipW },
-        { x: pc.screenX, y: pc.screenY, z: pc.screenZ, recipW: 1 / pc.clipW }
-    ];
-}
-
-function isTriangleClipped(v0: Vec3, v1: Vec3, v2: Vec3, width: number, height: number) {
-    // Check if all vertices are outside the screen bounds
-    const outOfBounds = (v: Vec3) => v.x < 0 || v.x >= width || v.y < 0 || v.y >= height;
-    if (outOfBounds(v0) && outOfBounds(v1) && outOfBounds(v2)) return true;
-    return false;
+/**
+ * A vertex in homogeneous clip space. Attributes (normal, uv, world position, ...) are packed
+ * into `attrs`; they are linear in clip space, so clipping interpolates them with plain lerps.
+ */
+type ClipVertex = { x: number, y: number, z: number, w: number, attrs: number[] };
+
+// Signed distances to the six frustum planes; inside where all are >= 0 (-w <= x, y, z <= w)
+const CLIP_PLANES: ((v: ClipVertex) => number)[] = [
+    v => v.w + v.z, // near
+    v => v.w - v.z, // far
+    v => v.w + v.x, // left
+    v => v.w - v.x, // right
+    v => v.w + v.y, // bottom
+    v => v.w - v.y  // top
+];
+
+function clipOutcode(v: ClipVertex): number {
+    let code = 0;
+    for (let p = 0; p < 6; p++) {
+        if (CLIP_PLANES[p](v) < 0) code |= 1 << p;
+    }
+    return code;
 }
 
-function getScreenVertex(svert: ScreenVertex, vi: number, uvIdx: number, normals: Float32Array | null, uvs: Float32Array | null): ScreenVertex {
-    const normal = (normals && normals.length > vi + 2)
-        ? { x: normals[vi], y: normals[vi + 1], z: normals[vi + 2] } as Vec3
-        : undefined;
-    const uv = (uvs && uvs.length > uvIdx + 1)
-        ? [uvs[uvIdx], uvs[uvIdx + 1]] as [number, number]
-        : undefined;
+function lerpClipVertex(a: ClipVertex, b: ClipVertex, t: number): ClipVertex {
+    const attrs = new Array<number>(a.attrs.length);
+    for (let i = 0; i < attrs.length; i++) attrs[i] = a.attrs[i] + (b.attrs[i] - a.attrs[i]) * t;
     return {
-        x: svert.x,
-        y: svert.y,
-        z: svert.z,
-        recipW: svert.recipW,
-        color: undefined,
-        normal,
-        uv
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        z: a.z + (b.z - a.z) * t,
+        w: a.w + (b.w - a.w) * t,
+        attrs
     };
 }
 
-function interpolateAttrs(vStart: ScreenVertex, vEnd: ScreenVertex, y: number) {
-    if (vEnd.y === vStart.y) return {
-        z: vStart.z,
-        recipW: vStart.recipW,
-        color: vStart.color || [255, 255, 255],
-        normal: vStart.normal,
-        uv: vStart.uv
-    };
-    const t = (y - vStart.y) / (vEnd.y - vStart.y);
-    const z = vStart.z + (vEnd.z - vStart.z) * t;
-    const recipW = vStart.recipW + (vEnd.recipW - vStart.recipW) * t;
-    let color: [number, number, number];
-    if (vStart.color && vEnd.color) {
-        color = [
-            vStart.color[0] + (vEnd.color[0] - vStart.color[0]) * t,
-            vStart.color[1] + (vEnd.color[1] - vStart.color[1]) * t,
-            vStart.color[2] + (vEnd.color[2] - vStart.color[2]) * t
-        ];
-    } else {
-        color = [255, 255, 255];
+/**
+ * Sutherland-Hodgman clipping of a convex polygon against the view frustum in clip space.
+ * Polygons fully inside are returned as they are, ones fully outside a single plane are
+ * rejected without clipping.
+ * @returns The visible polygon (empty if nothing is left); every vertex has w > 0
+ */
+function clipPolygon(polygon: ClipVertex[]): ClipVertex[] {
+    let all = 0x3f, any = 0;
+    for (const v of polygon) {
+        const code = clipOutcode(v);
+        all &= code;
+        any |= code;
     }
-
-    let normal: Vec3 | undefined = undefined;
-    if (vStart.normal && vEnd.normal) {
-        normal = {
-            x: vStart.normal.x + (vEnd.normal.x - vStart.normal.x) * t,
-            y: vStart.normal.y + (vEnd.normal.y - vStart.normal.y) * t,
-            z: vStart.normal.z + (vEnd.normal.z - vStart.normal.z) * t
-        };
+    if (all) return [];
+    if (!any) return polygon;
+
+    let output = polygon;
+    for (let p = 0; p < 6 && output.length; p++) {
+        if (!(any & (1 << p))) continue;
+        const dist = CLIP_PLANES[p];
+        const input = output;
+        output = [];
+        for (let i = 0; i < input.length; i++) {
+            const a = input[i], b = input[(i + 1) % input.length];
+            const da = dist(a), db = dist(b);
+            if (da >= 0) output.push(a);
+            if ((da >= 0) !== (db >= 0)) output.push(lerpClipVertex(a, b, da / (da - db)));
+        }
     }
+    return output.length >= 3 ? output : [];
+}
+
+/** Perspective divide and viewport transform of a clipped vertex (w > 0) */
+function clipToScreen(v: ClipVertex, width: number, height: number): ScreenVertex {
+    const recipW = 1 / v.w;
+    return {
+        x: (v.x * recipW * 0.5 + 0.5) * width,
+        y: (1.0 - (v.y * recipW * 0.5 + 0.5)) * height,
+        z: v.z * recipW * 0.5 + 0.5,
+        recipW
+    };
+}
 
-    let uv: [number, number] | undefined = undefined;
-    if (vStart.uv && vEnd.uv) {
-        uv = [
-            vStart.uv[0] + (vEnd.uv[0] - vStart.uv[0]) * t,
-            vStart.uv[1] + (vEnd.uv[1] - vStart.uv[1]) * t
-        ];
+/**
+ * Liang-Barsky clip of the segment (x0,y0)-(x1,y1) against an axis-aligned rectangle.
+ * @returns The parametric [t0, t1] range of the visible part, or null if fully outside.
+ */
+function clipLine2D(x0: number, y0: number, x1: number, y1: number, minX: number, minY: number, maxX: number, maxY: number): [number, number] | null {
+    const dx = x1 - x0, dy = y1 - y0;
+    let t0 = 0, t1 = 1;
+    const p = [-dx, dx, -dy, dy];
+    const q = [x0 - minX, maxX - x0, y0 - minY, maxY - y0];
+    for (let i = 0; i < 4; i++) {
+        if (p[i] === 0) {
+            if (q[i] < 0) return null; // parallel and outside
+            continue;
+        }
+        const t = q[i] / p[i];
+        if (p[i] < 0) {
+            if (t > t1) return null;
+            if (t > t0) t0 = t;
+        } else {
+            if (t < t0) return null;
+            if (t < t1) t1 = t;
+        }
     }
+    return [t0, t1];
+}
 
-    return { z, recipW, color, normal, uv };
+/**
+ * Signed area (times two) of the triangle (a, b, p). Positive when p lies to the
+ * right of a->b in screen space (y down); used as an edge function by the rasterizer.
+ */
+function edgeFunction(a: { x: number, y: number }, b: { x: number, y: number }, px: number, py: number): number {
+    return (px - a.x) * (b.y - a.y) - (py - a.y) * (b.x - a.x);
 }
 
 function boundingBoxCenter(bbox: { min: Vec3, max: Vec3 }): Vec3 {
@@ -228,6 +448,63 @@ function boundingBoxCenter(bbox: { min: Vec3, max: Vec3 }): Vec3 {
     };
 }
 
+/**
+ * Where a bounding volume lies relative to the view frustum
+ */
+type FrustumTest = "outside" | "intersects" | "inside";
+
+// Offset of the matrix row each pair of planes uses: z for near/far, x for left/right, y for bottom/top
+const PLANE_ROWS = [8, 0, 4];
+
+/**
+ * The six frustum planes of a (row-major) view-projection matrix, in clipPolygon's order
+ * (near, far, left, right, bottom, top), as a, b, c, d with a unit inward normal (a, b, c).
+ * Planes taken from an MVP matrix are in the model's own space.
+ */
+function frustumPlanes(m: Mat4, out: Float64Array = new Float64Array(24)): Float64Array {
+    // Inside means w + x, w - x, w + y, ... >= 0, so each plane is the w row plus or minus another row
+    for (let p = 0; p < 6; p++) {
+        const sign = p & 1 ? -1 : 1;
+        const r = PLANE_ROWS[p >> 1];
+        const a = m[12] + sign * m[r], b = m[13] + sign * m[r + 1];
+        const c = m[14] + sign * m[r + 2], d = m[15] + sign * m[r + 3];
+        const len = Math.hypot(a, b, c) || 1;
+        out[p * 4] = a / len;
+        out[p * 4 + 1] = b / len;
+        out[p * 4 + 2] = c / len;
+        out[p * 4 + 3] = d / len;
+    }
+    return out;
+}
+
+/** Classify a sphere against planes from frustumPlanes */
+function classifySphere(planes: Float64Array, x: number, y: number, z: number, radius: number): FrustumTest {
+    let inside = true;
+    for (let p = 0; p < 24; p += 4) {
+        const dist = planes[p] * x + planes[p + 1] * y + planes[p + 2] * z + planes[p + 3];
+        if (dist < -radius) return "outside";
+        if (dist < radius) inside = false;
+    }
+    return inside ? "inside" : "intersects";
+}
+
+/**
+ * Classify an axis-aligned box against planes from frustumPlanes, using the corners furthest
+ * along and against each plane normal. Boxes near a frustum corner can be reported as
+ * intersecting although they're outside, which only costs some clipping.
+ */
+function classifyAABB(planes: Float64Array, min: Vec3, max: Vec3): FrustumTest {
+    let inside = true;
+    for (let p = 0; p < 24; p += 4) {
+        const a = planes[p], b = planes[p + 1], c = planes[p + 2], d = planes[p + 3];
+        const far = a * (a > 0 ? max.x : min.x) + b * (b > 0 ? max.y : min.y) + c * (c > 0 ? max.z : min.z) + d;
+        if (far < 0) return "outside";
+        const near = a * (a > 0 ? min.x : max.x) + b * (b > 0 ? min.y : max.y) + c * (c > 0 ? min.z : max.z) + d;
+        if (near < 0) inside = false;
+    }
+    return inside ? "inside" : "intersects";
+}
+
 // Small vector helpers for normal computation / lighting
 const vsub = (a: Vec3, b: Vec3) => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
 const vcross = (a: Vec3, b: Vec3) => ({ x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x });
@@ -237,37 +514,6 @@ const vdot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
 const vadd = (a: Vec3, b: Vec3) => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
 const vscale = (a: Vec3, s: number) => ({ x: a.x * s, y: a.y * s, z: a.z * s });
 
-function computeBlinnPhongLighting(vertex: Vec3, normal: Vec3, viewDir: Vec3, light: DirectionalLight): Vec3 {
-    const ambient = 0.15;
-    let diffuseIntensity = 0;
-    let specularIntensity = 0;
-
-    if (light) {
-        const ldir = vnorm(light.direction); // Ensure light direction is normalized
-        const toLight = { x: -ldir.x, y: -ldir.y, z: -ldir.z };
-        const normalizedNormal = vnorm(normal);
-        diffuseIntensity = Math.max(0, vdot(normalizedNormal, toLight)) * light.intensity;
-
-        // Specular component (Blinn-Phong reflection model)
-        const halfwayDir = vnorm({
-            x: viewDir.x + toLight.x,
-            y: viewDir.y + toLight.y,
-            z: viewDir.z + toLight.z
-        });
-        const specAngle = Math.max(0, vdot(normalizedNormal, halfwayDir));
-        specularIntensity = Math.pow(specAngle, 16) * light.intensity;
-    }
-
-    const baseColor = { x: 200, y: 120, z: 60 }; // Example base color
-    const diff = 1.0 - ambient;
-
-    return {
-        x: Math.max(0, Math.min(255, baseColor.x * (ambient + diff * diffuseIntensity + specularIntensity))),
-        y: Math.max(0, Math.min(255, baseColor.y * (ambient + diff * diffuseIntensity + specularIntensity))),
-        z: Math.max(0, Math.min(255, baseColor.z * (ambient + diff * diffuseIntensity + specularIntensity)))
-    };
-}
-
 function snapVertexToGrid(svert: ScreenVertex, gridSize = 1): ScreenVertex {
     return {
         x: Math.round(svert.x / gridSize) * gridSize,
@@ -282,13 +528,15 @@ function snapVertexToGrid(svert: ScreenVertex, gridSize = 1): ScreenVertex {
 
 export {
     mat4Identity, mat4Mul, mat4MulVec4,
-    mat4Perspective, mat4LookAt, mat4RotateY,
-    projectVertex, transformTriangleToScreen,
-    isTriangleClipped, getScreenVertex,
-    interpolateAttrs, vsub, vcross, vlen, vnorm, vdot,
-    computeBlinnPhongLighting, snapVertexToGrid,
-    boundingBoxCenter, vadd, vscale
+    mat4Perspective, mat4Ortho, mat4LookAt, mat4RotateY,
+    mat4Compose, mat4Decompose, mat4Invert, mat3NormalFromMat4, mat3MulVec3,
+    mat4TransformPoint, mat4TransformDirection,
+    quatIdentity, quatFromAxisAngle, quatFromEuler, quatMul, quatNormalize,
+    projectVertex, clipPolygon, clipToScreen, clipLine2D,
+    edgeFunction, vsub, vcross, vlen, vnorm, vdot,
+    snapVertexToGrid,
+    boundingBoxCenter, frustumPlanes, classifySphere, classifyAABB, vadd, vscale
 };
 
-export type { Vec3, Vec4, Mat4, ScreenVertex };
+export type { Vec3, Vec4, Mat4, Mat3, Quat, ScreenVertex, ClipVertex, FrustumTest };
 
@@ -0,0 +1,96 @@
+import type { MeshData } from "./Loaders/OBJLoader";
+import type { Vec3 } from "./Math";
+
+/**
+ * A node of a MeshBVH, covering triangles[start .. start + count) of its tree
+ */
+export interface BVHNode {
+    readonly min: Vec3;
+    readonly max: Vec3;
+    readonly start: number;
+    readonly count: number;
+    readonly left: BVHNode | null;
+    readonly right: BVHNode | null;
+    /** Leaves only: every vertex their triangles use, once */
+    readonly vertices: Uint32Array | null;
+}
+
+/**
+ * Bounding volume hierarchy over a mesh's triangles, so clusters of triangles outside the view
+ * can be skipped without looking at each of them.
+ */
+export interface MeshBVH {
+    readonly root: BVHNode;
+    /** Triangle numbers (index into mesh.indices divided by 3), ordered so every node covers a contiguous range */
+    readonly triangles: Uint32Array;
+}
+
+/**
+ * Build a BVH by splitting triangles at the median centroid along the longest axis until at
+ * most `leafSize` are left per node.
+ */
+export function buildMeshBVH(mesh: MeshData, leafSize = 256): MeshBVH {
+    const pos = mesh.positions;
+    const idx = mesh.indices;
+    const triangleCount = idx.length / 3;
+
+    const centroids = new Float32Array(triangleCount * 3);
+    for (let t = 0; t < triangleCount; t++) {
+        for (let axis = 0; axis < 3; axis++) {
+            centroids[t * 3 + axis] = (pos[idx[t * 3] * 3 + axis] + pos[idx[t * 3 + 1] * 3 + axis] + pos[idx[t * 3 + 2] * 3 + axis]) / 3;
+        }
+    }
+
+    const triangles = new Uint32Array(triangleCount);
+    for (let t = 0; t < triangleCount; t++) triangles[t] = t;
+
+    // Marks vertices already listed for the leaf being built
+    const seen = new Int32Array(pos.length / 3).fill(-1);
+    let leafId = 0;
+
+    const build = (start: number, count: number): BVHNode => {
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        const cmin = [Infinity, Infinity, Infinity], cmax = [-Infinity, -Infinity, -Infinity];
+        for (let i = start; i < start + count; i++) {
+            const t = triangles[i];
+            for (let k = 0; k < 3; k++) {
+                const v = idx[t * 3 + k] * 3;
+                min.x = Math.min(min.x, pos[v]); max.x = Math.max(max.x, pos[v]);
+                min.y = Math.min(min.y, pos[v + 1]); max.y = Math.max(max.y, pos[v + 1]);
+                min.z = Math.min(min.z, pos[v + 2]); max.z = Math.max(max.z, pos[v + 2]);
+            }
+            for (let axis = 0; axis < 3; axis++) {
+                cmin[axis] = Math.min(cmin[axis], centroids[t * 3 + axis]);
+                cmax[axis] = Math.max(cmax[axis], centroids[t * 3 + axis]);
+            }
+        }
+
+        if (count <= leafSize) {
+            const id = leafId++;
+            const vertices: number[] = [];
+            for (let i = start; i < start + count; i++) {
+                for (let k = 0; k < 3; k++) {
+                    const v = idx[triangles[i] * 3 + k];
+                    if (seen[v] === id) continue;
+                    seen[v] = id;
+                    vertices.push(v);
+                }
+            }
+            return { min, max, start, count, left: null, right: null, vertices: new Uint32Array(vertices) };
+        }
+
+        const extent = [cmax[0] - cmin[0], cmax[1] - cmin[1], cmax[2] - cmin[2]];
+        const axis = extent[0] >= extent[1] && extent[0] >= extent[2] ? 0 : extent[1] >= extent[2] ? 1 : 2;
+        triangles.subarray(start, start + count).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+        const half = count >> 1;
+        return {
+            min, max, start, count,
+            left: build(start, half),
+            right: build(start + half, count - half),
+            vertices: null
+        };
+    };
+
+    return { root: build(0, triangleCount), triangles };
+}
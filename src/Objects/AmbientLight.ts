@@ -0,0 +1,15 @@
+import type { SceneNode } from "../Scene/SceneNode";
+import type { Vec3 } from "../Math";
+
+/** Uniform light from every direction, applied to the material's ambient color */
+export class AmbientLight {
+    readonly type = "ambient";
+    color: Vec3; // RGB
+    intensity: number;
+    node: SceneNode | null = null;
+
+    constructor(color: Vec3, intensity: number) {
+        this.color = color;
+        this.intensity = intensity;
+    }
+}
@@ -1,11 +1,50 @@
-import { vsub, vcross, vnorm, vscale, vadd, type Vec3 } from "../Math";
+import type { SceneNode } from "../Scene/SceneNode";
+import { vsub, vcross, vnorm, vadd, mat4LookAt, mat4Ortho, mat4Perspective, mat4TransformPoint, mat4TransformDirection, type Mat4, type Vec3 } from "../Math";
 
+/** Perspective projection with a vertical field of view in radians */
+export interface PerspectiveProjection {
+    type: "perspective";
+    fov: number;
+    near: number;
+    far: number;
+}
+
+/** View-space bounds of an orthographic view volume */
+export interface OrthographicExtents {
+    left: number;
+    right: number;
+    bottom: number;
+    top: number;
+}
+
+/**
+ * Orthographic projection. `size` is half the visible height in world units, the width follows
+ * the aspect ratio; explicit `extents` (view space) take precedence over it.
+ */
+export interface OrthographicProjection {
+    type: "orthographic";
+    size: number;
+    extents: OrthographicExtents | null;
+    near: number;
+    far: number;
+}
+
+export type Projection = PerspectiveProjection | OrthographicProjection;
+
+/**
+ * Camera state: position, orientation (yaw/pitch around `up`) and projection. Input handling
+ * lives in the controllers under Controls/.
+ */
 export class Camera {
     position: Vec3;
     up: Vec3;
+    /** Movement speed in world units per second, used by FlyController */
     speed: number;
     yaw: number;
     pitch: number;
+    // When attached to a scene node, position/orientation are relative to that node
+    node: SceneNode | null = null;
+    projection: Projection = { type: "perspective", fov: Math.PI / 3, near: 0.1, far: 100 };
 
     constructor(position: Vec3, up: Vec3, speed: number = 1.0, yaw: number = 0, pitch: number = 0) {
         this.position = position;
@@ -13,33 +52,6 @@ export class Camera {
         this.speed = speed;
         this.yaw = yaw;
         this.pitch = pitch;
-
-        this.initKeyboardControls();
-    }
-
-    private initKeyboardControls() {
-        window.addEventListener("keydown", (event) => {
-            switch (event.key) {
-                case "w":
-                    this.moveForward();
-                    break;
-                case "s":
-                    this.moveBackward();
-                    break;
-                case "a":
-                    this.moveLeft();
-                    break;
-                case "d":
-                    this.moveRight();
-                    break;
-                case "ArrowRight":
-                    this.rotateY(0.1);
-                    break;
-                case "ArrowLeft":
-                    this.rotateY(-0.1);
-                    break;
-            }
-        });
     }
 
     public getForwardVector(): Vec3 {
@@ -51,32 +63,72 @@ export class Camera {
         };
     }
 
-    private getRightVector(): Vec3 {
+    public getRightVector(): Vec3 {
         const forward = this.getForwardVector();
         return vnorm(vcross(forward, this.up));
     }
 
-    private moveForward() {
-        const forward = this.getForwardVector();
-        this.position = vadd(this.position, vscale(forward, this.speed));
+    /**
+     * Turn towards a point (in the same space as `position`)
+     */
+    public lookAt(target: Vec3): this {
+        const d = vnorm(vsub(target, this.position));
+        this.yaw = Math.atan2(d.z, d.x);
+        this.pitch = Math.asin(Math.max(-1, Math.min(1, d.y)));
+        return this;
+    }
+
+    public getWorldPosition(): Vec3 {
+        return this.node ? mat4TransformPoint(this.node.worldMatrix, this.position) : this.position;
     }
 
-    private moveBackward() {
+    /**
+     * World-to-view matrix, taking the parent scene node's transform into account.
+     */
+    public getViewMatrix(): Mat4 {
         const forward = this.getForwardVector();
-        this.position = vsub(this.position, vscale(forward, this.speed));
+        let eye = this.position;
+        let target = vadd(this.position, forward);
+        let up = this.up;
+        if (this.node) {
+            const world = this.node.worldMatrix;
+            eye = mat4TransformPoint(world, eye);
+            target = mat4TransformPoint(world, target);
+            up = mat4TransformDirection(world, up);
+        }
+        return mat4LookAt(eye, target, up);
     }
 
-    private moveLeft() {
-        const right = this.getRightVector();
-        this.position = vsub(this.position, vscale(right, this.speed));
+    /**
+     * @param fov Vertical field of view in radians
+     */
+    public setPerspective(fov: number = Math.PI / 3, near: number = 0.1, far: number = 100): this {
+        this.projection = { type: "perspective", fov, near, far };
+        return this;
     }
 
-    private moveRight() {
-        const right = this.getRightVector();
-        this.position = vadd(this.position, vscale(right, this.speed));
+    /**
+     * @param size Half the visible height in world units, or explicit view-space extents
+     */
+    public setOrthographic(size: number | OrthographicExtents, near: number = 0.1, far: number = 100): this {
+        this.projection = typeof size === "number"
+            ? { type: "orthographic", size, extents: null, near, far }
+            : { type: "orthographic", size: (size.top - size.bottom) / 2, extents: size, near, far };
+        return this;
     }
 
-    private rotateY(angle: number) {
-        this.yaw += angle;
+    /**
+     * View-to-clip matrix for a viewport with the given width / height ratio.
+     */
+    public getProjectionMatrix(aspect: number): Mat4 {
+        const p = this.projection;
+        if (p.type === "perspective") {
+            return mat4Perspective(p.fov, aspect, p.near, p.far);
+        }
+        if (p.extents) {
+            const { left, right, bottom, top } = p.extents;
+            return mat4Ortho(left, right, bottom, top, p.near, p.far);
+        }
+        return mat4Ortho(-p.size * aspect, p.size * aspect, -p.size, p.size, p.near, p.far);
     }
-}
\ No newline at end of file
+}
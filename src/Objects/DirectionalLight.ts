@@ -1,13 +1,25 @@
-import type { Vec3 } from "../Math";
+import type { SceneNode } from "../Scene/SceneNode";
+import { createShadowSettings, type ShadowSettings } from "../ShadowMap";
+import { mat4TransformDirection, type Vec3 } from "../Math";
 
 export class DirectionalLight {
+    readonly type = "directional";
     direction: Vec3;
     color: Vec3; // RGB
     intensity: number;
+    // When attached to a scene node, direction is in that node's local space
+    node: SceneNode | null = null;
+    // Render a shadow map for this light every frame; see ShadowSettings for the options
+    castShadow: boolean = false;
+    shadow: ShadowSettings = createShadowSettings();
 
     constructor(direction: Vec3, color: Vec3, intensity: number) {
         this.direction = direction;
         this.color = color;
         this.intensity = intensity;
     }
-}
\ No newline at end of file
+
+    public getWorldDirection(): Vec3 {
+        return this.node ? mat4TransformDirection(this.node.worldMatrix, this.direction) : this.direction;
+    }
+}
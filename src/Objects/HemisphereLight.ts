@@ -0,0 +1,26 @@
+import type { SceneNode } from "../Scene/SceneNode";
+import { mat4TransformDirection, type Vec3 } from "../Math";
+
+/**
+ * Ambient light that blends from a ground color (surfaces facing down) to a sky color
+ * (surfaces facing up), a cheap stand-in for outdoor bounce light.
+ */
+export class HemisphereLight {
+    readonly type = "hemisphere";
+    skyColor: Vec3; // RGB
+    groundColor: Vec3; // RGB
+    intensity: number;
+    up: Vec3;
+    node: SceneNode | null = null;
+
+    constructor(skyColor: Vec3, groundColor: Vec3, intensity: number, up: Vec3 = { x: 0, y: 1, z: 0 }) {
+        this.skyColor = skyColor;
+        this.groundColor = groundColor;
+        this.intensity = intensity;
+        this.up = up;
+    }
+
+    public getWorldUp(): Vec3 {
+        return this.node ? mat4TransformDirection(this.node.worldMatrix, this.up) : this.up;
+    }
+}
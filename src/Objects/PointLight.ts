@@ -0,0 +1,31 @@
+import type { SceneNode } from "../Scene/SceneNode";
+import { mat4TransformPoint, type Vec3 } from "../Math";
+
+export interface Attenuation {
+    constant: number;
+    linear: number;
+    quadratic: number;
+}
+
+export class PointLight {
+    readonly type = "point";
+    position: Vec3;
+    color: Vec3; // RGB
+    intensity: number;
+    range: number; // distance at which the light fades to zero; 0 = unlimited
+    attenuation: Attenuation; // 1 / (constant + linear * d + quadratic * d^2)
+    // When attached to a scene node, position is in that node's local space
+    node: SceneNode | null = null;
+
+    constructor(position: Vec3, color: Vec3, intensity: number, range: number = 0, attenuation: Attenuation = { constant: 1, linear: 0, quadratic: 0 }) {
+        this.position = position;
+        this.color = color;
+        this.intensity = intensity;
+        this.range = range;
+        this.attenuation = attenuation;
+    }
+
+    public getWorldPosition(): Vec3 {
+        return this.node ? mat4TransformPoint(this.node.worldMatrix, this.position) : this.position;
+    }
+}
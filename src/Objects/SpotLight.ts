@@ -0,0 +1,49 @@
+import type { SceneNode } from "../Scene/SceneNode";
+import { createShadowSettings, type ShadowSettings } from "../ShadowMap";
+import type { Attenuation } from "./PointLight";
+import { mat4TransformDirection, mat4TransformPoint, type Vec3 } from "../Math";
+
+export class SpotLight {
+    readonly type = "spot";
+    position: Vec3;
+    direction: Vec3; // direction the cone points in
+    color: Vec3; // RGB
+    intensity: number;
+    innerAngle: number; // half-angle in radians of the fully lit core
+    outerAngle: number; // half-angle in radians where the light reaches zero
+    range: number; // 0 = unlimited
+    attenuation: Attenuation;
+    // When attached to a scene node, position and direction are in that node's local space
+    node: SceneNode | null = null;
+    // Render a shadow map for this light every frame; see ShadowSettings for the options
+    castShadow: boolean = false;
+    shadow: ShadowSettings = createShadowSettings();
+
+    constructor(
+        position: Vec3,
+        direction: Vec3,
+        color: Vec3,
+        intensity: number,
+        innerAngle: number = Math.PI / 8,
+        outerAngle: number = Math.PI / 6,
+        range: number = 0,
+        attenuation: Attenuation = { constant: 1, linear: 0, quadratic: 0 }
+    ) {
+        this.position = position;
+        this.direction = direction;
+        this.color = color;
+        this.intensity = intensity;
+        this.innerAngle = innerAngle;
+        this.outerAngle = outerAngle;
+        this.range = range;
+        this.attenuation = attenuation;
+    }
+
+    public getWorldPosition(): Vec3 {
+        return this.node ? mat4TransformPoint(this.node.worldMatrix, this.position) : this.position;
+    }
+
+    public getWorldDirection(): Vec3 {
+        return this.node ? mat4TransformDirection(this.node.worldMatrix, this.direction) : this.direction;
+    }
+}
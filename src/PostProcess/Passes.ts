@@ -0,0 +1,378 @@
+import type { PostFrame, PostPass } from "./PostProcess";
+import { viewDepth, viewPosition } from "./PostProcess";
+import { linearToSrgb, srgbToLinear } from "../ColorSpace";
+import { vcross, vnorm, type Vec3 } from "../Math";
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+/** An 8-bit sRGB color in the frame's color space, 0..1 */
+function frameColor(frame: PostFrame, rgb: [number, number, number]): [number, number, number] {
+    const c = rgb.map(v => v / 255) as [number, number, number];
+    return frame.linear ? c.map(srgbToLinear) as [number, number, number] : c;
+}
+
+/** Copy the pixels a pass leaves alone */
+function copyPixel(src: Float32Array, out: Float32Array, i: number) {
+    out[i] = src[i];
+    out[i + 1] = src[i + 1];
+    out[i + 2] = src[i + 2];
+    out[i + 3] = src[i + 3];
+}
+
+// Entries of the gamma lookup tables over 0..1
+const GAMMA_TABLE_SIZE = 4096;
+
+/**
+ * Encode linear light for display: the sRGB transfer curve, or a plain power curve when `gamma`
+ * is a number. Values are clamped to 0..1 first, so tone map before this pass.
+ */
+export class GammaPass implements PostPass {
+    public enabled = true;
+    public gamma: "srgb" | number;
+
+    private table = new Float32Array(GAMMA_TABLE_SIZE + 1);
+    private tableGamma: "srgb" | number | null = null;
+
+    constructor(gamma: "srgb" | number = "srgb") {
+        this.gamma = gamma;
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const table = this.lookupTable();
+        const src = frame.color;
+        for (let i = 0; i < src.length; i += 4) {
+            for (let k = 0; k < 3; k++) {
+                const c = src[i + k];
+                out[i + k] = table[c <= 0 ? 0 : c >= 1 ? GAMMA_TABLE_SIZE : Math.round(c * GAMMA_TABLE_SIZE)];
+            }
+            out[i + 3] = src[i + 3];
+        }
+    }
+
+    private lookupTable(): Float32Array {
+        if (this.tableGamma !== this.gamma) {
+            const gamma = this.gamma;
+            for (let i = 0; i <= GAMMA_TABLE_SIZE; i++) {
+                const c = i / GAMMA_TABLE_SIZE;
+                this.table[i] = gamma === "srgb" ? linearToSrgb(c) : Math.pow(c, 1 / gamma);
+            }
+            this.tableGamma = gamma;
+        }
+        return this.table;
+    }
+}
+
+export type ToneMapOperator = "none" | "reinhard" | "aces";
+
+/**
+ * Scale the frame by `exposure`, then compress it into 0..1: "reinhard" maps c to c / (1 + c),
+ * "aces" uses the filmic ACES curve fit (Narkowicz 2015) and "none" only clamps.
+ */
+export class ToneMapPass implements PostPass {
+    public enabled = true;
+    public exposure: number;
+    public operator: ToneMapOperator;
+
+    constructor(options: { exposure?: number, operator?: ToneMapOperator } = {}) {
+        this.exposure = options.exposure ?? 1;
+        this.operator = options.operator ?? "aces";
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const src = frame.color, exposure = this.exposure, operator = this.operator;
+        for (let i = 0; i < src.length; i += 4) {
+            for (let k = 0; k < 3; k++) {
+                const c = Math.max(0, src[i + k] * exposure);
+                let m: number;
+                if (operator === "reinhard") {
+                    m = c / (1 + c);
+                } else if (operator === "aces") {
+                    m = (c * (2.51 * c + 0.03)) / (c * (2.43 * c + 0.59) + 0.14);
+                } else {
+                    m = c;
+                }
+                out[i + k] = Math.min(1, m);
+            }
+            out[i + 3] = src[i + 3];
+        }
+    }
+}
+
+/**
+ * Fade surfaces into `color` with their distance from the camera, linearly from no fog at
+ * `start` to full fog at `end` (view-space units). The background is left as is.
+ */
+export class FogPass implements PostPass {
+    public enabled = true;
+    /** 8-bit sRGB */
+    public color: [number, number, number];
+    public start: number;
+    public end: number;
+
+    constructor(options: { color?: [number, number, number], start?: number, end?: number } = {}) {
+        this.color = options.color ?? [180, 190, 200];
+        this.start = options.start ?? 5;
+        this.end = options.end ?? 50;
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const src = frame.color, depth = frame.depth;
+        const [fr, fg, fb] = frameColor(frame, this.color);
+        const range = Math.max(this.end - this.start, 1e-6);
+        for (let p = 0; p < depth.length; p++) {
+            const i = p * 4;
+            if (depth[p] === Number.POSITIVE_INFINITY) {
+                copyPixel(src, out, i);
+                continue;
+            }
+            const f = Math.min(1, Math.max(0, (viewDepth(frame.projection, depth[p]) - this.start) / range));
+            out[i] = src[i] + (fr - src[i]) * f;
+            out[i + 1] = src[i + 1] + (fg - src[i + 1]) * f;
+            out[i + 2] = src[i + 2] + (fb - src[i + 2]) * f;
+            out[i + 3] = src[i + 3];
+        }
+    }
+}
+
+// SSAO noise tile size: every pixel of a 4x4 block rotates the sample kernel differently, and
+// the blur averages over the same block
+const NOISE_SIZE = 4;
+
+/**
+ * Screen-space ambient occlusion from the depth buffer: normals are rebuilt from neighbouring
+ * depths, points in the hemisphere above each surface are projected onto the screen, and the
+ * surfaces found there occlude by how far above the horizon they rise (so flat ground never
+ * occludes itself, even at grazing angles). The result is blurred over the noise tile and
+ * multiplied into the color.
+ */
+export class SSAOPass implements PostPass {
+    public enabled = true;
+    /** Radius of the sampled hemisphere in world units */
+    public radius: number;
+    /** Hemisphere samples per pixel */
+    public samples: number;
+    /** 0..1 strength of the darkening */
+    public intensity: number;
+    /** Cosine of the angle above the horizon below which surfaces don't occlude, against self-shadowing */
+    public bias: number;
+
+    private kernel: Vec3[] = [];
+    private ao = new Float32Array(0);
+    private blurred = new Float32Array(0);
+
+    constructor(options: { radius?: number, samples?: number, intensity?: number, bias?: number } = {}) {
+        this.radius = options.radius ?? 0.5;
+        this.samples = options.samples ?? 16;
+        this.intensity = options.intensity ?? 1;
+        this.bias = options.bias ?? 0.1;
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const { width, height, depth, color: src } = frame;
+        const pixels = width * height;
+        if (this.ao.length !== pixels) {
+            this.ao = new Float32Array(pixels);
+            this.blurred = new Float32Array(pixels);
+        }
+        const kernel = this.sampleKernel();
+        const ao = this.ao;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                ao[y * width + x] = this.occlusion(frame, x, y, kernel);
+            }
+        }
+
+        // Box blur over the noise tile, only among drawn pixels
+        const blurred = this.blurred;
+        const half = NOISE_SIZE / 2;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0, count = 0;
+                for (let j = y - half; j < y + half; j++) {
+                    for (let i = x - half; i < x + half; i++) {
+                        if (i < 0 || j < 0 || i >= width || j >= height) continue;
+                        if (depth[j * width + i] === Number.POSITIVE_INFINITY) continue;
+                        sum += ao[j * width + i];
+                        count++;
+                    }
+                }
+                blurred[y * width + x] = count ? sum / count : 1;
+            }
+        }
+
+        for (let p = 0; p < pixels; p++) {
+            const i = p * 4;
+            const f = depth[p] === Number.POSITIVE_INFINITY ? 1 : blurred[p];
+            out[i] = src[i] * f;
+            out[i + 1] = src[i + 1] * f;
+            out[i + 2] = src[i + 2] * f;
+            out[i + 3] = src[i + 3];
+        }
+    }
+
+    /** Visibility (1 unoccluded) at one pixel */
+    private occlusion(frame: PostFrame, x: number, y: number, kernel: readonly Vec3[]): number {
+        const { width, height, depth, projection } = frame;
+        const p = viewPosition(frame, x, y);
+        if (!p) return 1;
+        const n = this.reconstructNormal(frame, x, y, p);
+
+        // Tangent frame around n, rotated per pixel of the noise tile
+        const angle = ((x % NOISE_SIZE) * NOISE_SIZE + (y % NOISE_SIZE)) * (Math.PI * 2 / (NOISE_SIZE * NOISE_SIZE)) * 7;
+        const helper = Math.abs(n.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+        const t0 = vnorm(vcross(helper, n)), b0 = vcross(n, t0);
+        const cos = Math.cos(angle), sin = Math.sin(angle);
+        const t = { x: t0.x * cos + b0.x * sin, y: t0.y * cos + b0.y * sin, z: t0.z * cos + b0.z * sin };
+        const b = vcross(n, t);
+
+        const r2 = this.radius * this.radius;
+        let occluded = 0;
+        for (const k of kernel) {
+            const s = {
+                x: p.x + (t.x * k.x + b.x * k.y + n.x * k.z) * this.radius,
+                y: p.y + (t.y * k.x + b.y * k.y + n.y * k.z) * this.radius,
+                z: p.z + (t.z * k.x + b.z * k.y + n.z * k.z) * this.radius
+            };
+            const m = projection;
+            const w = m[12] * s.x + m[13] * s.y + m[14] * s.z + m[15];
+            const ndcX = (m[0] * s.x + m[1] * s.y + m[2] * s.z + m[3]) / w;
+            const ndcY = (m[4] * s.x + m[5] * s.y + m[6] * s.z + m[7]) / w;
+            const sx = Math.floor((ndcX * 0.5 + 0.5) * width);
+            const sy = Math.floor((1 - (ndcY * 0.5 + 0.5)) * height);
+            if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+            const q = viewPosition(frame, sx, sy);
+            if (!q) continue;
+            const vx = q.x - p.x, vy = q.y - p.y, vz = q.z - p.z;
+            const d2 = vx * vx + vy * vy + vz * vz;
+            if (d2 < 1e-12 || d2 >= r2) continue;
+            const cosine = (vx * n.x + vy * n.y + vz * n.z) / Math.sqrt(d2);
+            // Fades out towards the radius
+            occluded += Math.max(0, cosine - this.bias) * (1 - d2 / r2);
+        }
+        return Math.max(0, 1 - this.intensity * occluded / kernel.length);
+    }
+
+    /** Surface normal facing the camera from the neighbours with the smaller depth step on each axis */
+    private reconstructNormal(frame: PostFrame, x: number, y: number, p: Vec3): Vec3 {
+        // Step along one axis, from the neighbour before p to p or from p to the one after
+        const step = (before: Vec3 | null, after: Vec3 | null, fallback: Vec3): Vec3 => {
+            const da = before && { x: p.x - before.x, y: p.y - before.y, z: p.z - before.z };
+            const db = after && { x: after.x - p.x, y: after.y - p.y, z: after.z - p.z };
+            return (da && (!db || Math.abs(da.z) < Math.abs(db.z)) ? da : db) ?? fallback;
+        };
+        const dx = step(viewPosition(frame, x - 1, y), viewPosition(frame, x + 1, y), { x: 1, y: 0, z: 0 });
+        // Screen y runs down, view y up
+        const dy = step(viewPosition(frame, x, y + 1), viewPosition(frame, x, y - 1), { x: 0, y: 1, z: 0 });
+        const n = vnorm(vcross(dx, dy));
+        // Towards the eye at the view-space origin
+        return n.x * -p.x + n.y * -p.y + n.z * -p.z < 0 ? { x: -n.x, y: -n.y, z: -n.z } : n;
+    }
+
+    /** Fixed points in the unit hemisphere around +z, denser near the center */
+    private sampleKernel(): Vec3[] {
+        if (this.kernel.length === this.samples) return this.kernel;
+        const kernel: Vec3[] = [];
+        for (let i = 0; i < this.samples; i++) {
+            // Golden-angle spiral over the hemisphere, scaled towards the origin
+            const h = (i + 0.5) / this.samples;
+            const phi = i * 2.399963229728653;
+            const r = Math.sqrt(1 - h * h);
+            const scale = 0.1 + 0.9 * ((i + 1) / this.samples) ** 2;
+            kernel.push({ x: Math.cos(phi) * r * scale, y: Math.sin(phi) * r * scale, z: h * scale });
+        }
+        this.kernel = kernel;
+        return kernel;
+    }
+}
+
+/**
+ * Draw lines where depth jumps, for a toon look: on the near side of every silhouette and of
+ * creases where neighbouring depths differ by more than `depthThreshold` (relative), and
+ * optionally where the color's luma changes by more than `colorThreshold`.
+ */
+export class OutlinePass implements PostPass {
+    public enabled = true;
+    /** 8-bit sRGB */
+    public color: [number, number, number];
+    /** Line width in pixels */
+    public thickness: number;
+    public depthThreshold: number;
+    /** Luma difference (0..1) that also counts as an edge, or null to only look at depth */
+    public colorThreshold: number | null;
+
+    constructor(options: { color?: [number, number, number], thickness?: number, depthThreshold?: number, colorThreshold?: number | null } = {}) {
+        this.color = options.color ?? [0, 0, 0];
+        this.thickness = options.thickness ?? 1;
+        this.depthThreshold = options.depthThreshold ?? 0.1;
+        this.colorThreshold = options.colorThreshold ?? null;
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const { width, height, depth, projection, color: src } = frame;
+        const [lr, lg, lb] = frameColor(frame, this.color);
+        const t = Math.max(1, Math.round(this.thickness));
+        const luma = (p: number) => 0.299 * src[p * 4] + 0.587 * src[p * 4 + 1] + 0.114 * src[p * 4 + 2];
+        const offsets = [t, 0, -t, 0, 0, t, 0, -t];
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const p = y * width + x, i = p * 4;
+                let edge = false;
+                if (depth[p] !== Number.POSITIVE_INFINITY) {
+                    const d = viewDepth(projection, depth[p]);
+                    for (let k = 0; k < 8 && !edge; k += 2) {
+                        const nx = x + offsets[k], ny = y + offsets[k + 1];
+                        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                        const q = ny * width + nx;
+                        // Only the nearer side of a depth step gets the line
+                        if (depth[q] === Number.POSITIVE_INFINITY) edge = true;
+                        else if ((viewDepth(projection, depth[q]) - d) / d > this.depthThreshold) edge = true;
+                        else if (this.colorThreshold !== null && luma(q) - luma(p) > this.colorThreshold) edge = true;
+                    }
+                }
+                if (edge) {
+                    out[i] = lr;
+                    out[i + 1] = lg;
+                    out[i + 2] = lb;
+                    out[i + 3] = src[i + 3];
+                } else {
+                    copyPixel(src, out, i);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Darken towards the corners: no change within `radius` of the center (1 being the distance to
+ * a corner), then down by up to `strength` at the corners.
+ */
+export class VignettePass implements PostPass {
+    public enabled = true;
+    public strength: number;
+    public radius: number;
+
+    constructor(options: { strength?: number, radius?: number } = {}) {
+        this.strength = options.strength ?? 0.5;
+        this.radius = options.radius ?? 0.5;
+    }
+
+    public render(frame: PostFrame, out: Float32Array) {
+        const { width, height, color: src } = frame;
+        const corner = Math.hypot(0.5, 0.5);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = (y * width + x) * 4;
+                const d = Math.hypot((x + 0.5) / width - 0.5, (y + 0.5) / height - 0.5) / corner;
+                const f = 1 - this.strength * smoothstep(this.radius, 1, d);
+                out[i] = src[i] * f;
+                out[i + 1] = src[i + 1] * f;
+                out[i + 2] = src[i + 2] * f;
+                out[i + 3] = src[i + 3];
+            }
+        }
+    }
+}
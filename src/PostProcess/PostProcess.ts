@@ -0,0 +1,120 @@
+import type { Mat4, Vec3 } from "../Math";
+
+/** What a post pass sees of the finished frame */
+export interface PostFrame {
+    readonly width: number;
+    readonly height: number;
+    /**
+     * RGBA per pixel, rows top first. Linear light when the renderer lights in linear space
+     * (0..1, brighter highlights above 1), the 8-bit sRGB colors scaled to 0..1 otherwise.
+     */
+    readonly color: Float32Array;
+    /** Depth-buffer value per pixel (0 at the near plane, 1 at the far one), Infinity where nothing was drawn */
+    readonly depth: Float32Array;
+    /** Whether `color` holds linear light */
+    readonly linear: boolean;
+    /** The camera's projection matrix, for turning depth back into view space (see viewDepth) */
+    readonly projection: Mat4;
+    /** Frame time in seconds */
+    readonly time: number;
+}
+
+/**
+ * One step of the post-process chain. Built-in passes are in Passes.ts; any object with a
+ * render method can be added as well.
+ */
+export interface PostPass {
+    /** false skips the pass */
+    enabled?: boolean;
+    /**
+     * Write the processed color of `frame` into `out`, which has the layout of frame.color
+     * and holds garbage until written. Every pixel must be written.
+     */
+    render(frame: PostFrame, out: Float32Array): void;
+}
+
+/**
+ * The passes run over every finished frame, in order, between rasterization and presentation.
+ * Each pass reads the color left by the previous one and writes a new color buffer.
+ */
+export class PostProcessChain {
+    private list: PostPass[];
+    // Passes alternate between writing here and into the frame's color buffer
+    private scratch: Float32Array = new Float32Array(0);
+
+    constructor(passes: readonly PostPass[] = []) {
+        this.list = [...passes];
+    }
+
+    get passes(): readonly PostPass[] {
+        return this.list;
+    }
+
+    /** Whether any pass is enabled */
+    get active(): boolean {
+        return this.list.some(pass => pass.enabled !== false);
+    }
+
+    /**
+     * @param index Position in the chain (default: last)
+     */
+    public add(pass: PostPass, index: number = this.list.length): this {
+        this.list.splice(index, 0, pass);
+        return this;
+    }
+
+    public remove(pass: PostPass): this {
+        const i = this.list.indexOf(pass);
+        if (i !== -1) this.list.splice(i, 1);
+        return this;
+    }
+
+    public clear(): this {
+        this.list.length = 0;
+        return this;
+    }
+
+    /**
+     * Run the enabled passes over frame.color.
+     * @returns The buffer holding the result: frame.color or an internal one
+     */
+    public run(frame: PostFrame): Float32Array {
+        if (this.scratch.length !== frame.color.length) this.scratch = new Float32Array(frame.color.length);
+        let input = frame.color, output = this.scratch;
+        for (const pass of this.list) {
+            if (pass.enabled === false) continue;
+            pass.render(input === frame.color ? frame : { ...frame, color: input }, output);
+            [input, output] = [output, input];
+        }
+        return input;
+    }
+}
+
+/**
+ * Distance in front of the camera (view-space -z) of a depth-buffer value, for perspective and
+ * orthographic projections alike.
+ */
+export function viewDepth(projection: Mat4, z: number): number {
+    const ndc = 2 * z - 1;
+    return -(projection[11] - ndc * projection[15]) / (ndc * projection[14] - projection[10]);
+}
+
+/**
+ * View-space position of the surface at the center of pixel (x, y), or null where nothing was
+ * drawn and outside the frame.
+ */
+export function viewPosition(frame: PostFrame, x: number, y: number): Vec3 | null {
+    if (x < 0 || y < 0 || x >= frame.width || y >= frame.height) return null;
+    const z = frame.depth[y * frame.width + x];
+    if (z === Number.POSITIVE_INFINITY) return null;
+    const p = frame.projection;
+    const vz = -viewDepth(p, z);
+    const w = p[14] * vz + p[15];
+    const ndcX = (x + 0.5) / frame.width * 2 - 1;
+    const ndcY = 1 - (y + 0.5) / frame.height * 2;
+    return {
+        x: (ndcX * w - p[2] * vz - p[3]) / p[0],
+        y: (ndcY * w - p[6] * vz - p[7]) / p[5],
+        z: vz
+    };
+}
@@ -0,0 +1,926 @@
+import type { Vec3 } from "../Math";
+import type { LightSet, ResolvedShadow } from "../Lighting";
+import type { MipmapMode, TextureFilter, TextureWrap } from "../Textures/Texture";
+import type { ShaderUniforms } from "../Shaders/Shader";
+
+/** Texture data the kernel samples. Texture satisfies it; workers receive plain copies. */
+export interface KernelTexture {
+    readonly levels: readonly { readonly width: number, readonly height: number, readonly data: Uint8ClampedArray }[];
+    readonly wrapS: TextureWrap;
+    readonly wrapT: TextureWrap;
+    readonly filter: TextureFilter;
+    readonly mipmaps: MipmapMode;
+}
+
+/** The parts of a ShadingMaterial used per fragment */
+export interface KernelMaterial {
+    readonly ambient: Vec3;
+    readonly diffuse: Vec3;
+    readonly specular: Vec3;
+    readonly emissive: Vec3;
+    readonly shininess: number;
+    readonly illum: number;
+    readonly mapKd: KernelTexture | null;
+    readonly mapKs: KernelTexture | null;
+    readonly mapBump: KernelTexture | null;
+    readonly bumpScale: number;
+    readonly mapNorm: KernelTexture | null;
+    readonly alphaCutoff: number;
+}
+
+/** Color and depth memory the kernel writes to; Framebuffer satisfies it */
+export interface KernelTarget {
+    readonly width: number;
+    readonly height: number;
+    /** Color and depth samples per pixel, stored next to each other: 1, 2, 4 or 8 */
+    readonly samples: number;
+    readonly littleEndian: boolean;
+    readonly data32: Uint32Array;
+    readonly zBuffer: Float32Array;
+    /** Linear RGBA floats per sample; when present colors go here instead of data32 */
+    readonly hdr: Float32Array | null;
+    /** Weighted blended transparency sums per sample (see Framebuffer), or null */
+    readonly accum: Float32Array | null;
+    readonly revealage: Float32Array | null;
+}
+
+/** Uniforms of a custom-shader draw: the shader's own next to the ones every shader gets */
+export type DrawUniforms = Record<string, unknown> & ShaderUniforms;
+
+/**
+ * Fragment function of a custom shader (see Shader.fragment): the interpolated varyings in,
+ * RGBA (0..1) out, false to discard
+ */
+export type FragmentProgram = (varyings: Float64Array, uniforms: DrawUniforms, out: Float64Array, lib: ShaderLibrary) => boolean | void;
+
+/** One mesh drawn with a custom shader; triangles refer to it by index */
+export interface KernelDraw {
+    readonly fragment: FragmentProgram;
+    /**
+     * Passed to the fragment function. The kernel sets material, lights, eye and linear on it
+     * before shading each triangle.
+     */
+    readonly uniforms: DrawUniforms;
+    readonly varyings: number;
+}
+
+/** Per-frame inputs shared by every triangle */
+export interface KernelFrameState {
+    materials: readonly KernelMaterial[];
+    lights: LightSet;
+    eye: Vec3;
+    /** Colors are linear light: texture colors get decoded from sRGB before use */
+    linear: boolean;
+    /** Meshes drawn with custom shaders */
+    draws: readonly KernelDraw[];
+}
+
+/**
+ * The fragment stage: rasterization, texturing and per-fragment lighting over triangles packed
+ * into a Float64Array.
+ *
+ * Everything lives inside this one function and only type imports are used, so its source
+ * (`createRasterKernel.toString()`) can be evaluated in a worker as is. Keep it that way: no
+ * references to module-level values from in here.
+ */
+export function createRasterKernel() {
+    // Packed triangle: a header followed by three vertices
+    const FLAGS = 0, MATERIAL = 1, COLOR = 2, TANGENT = 5, BITANGENT = 8, ALPHA = 11, DRAW = 12, HEADER = 13;
+    // Records of custom-shader triangles hold their varyings from VARYINGS on instead of the attributes
+    const VCOLOR = 4, SPECULAR = 7, NORMAL = 10, UV = 13, WORLD = 15, VARYINGS = 4, VERTEX_STRIDE = 20;
+    const MAX_VARYINGS = VERTEX_STRIDE - VARYINGS;
+    const TRIANGLE_STRIDE = HEADER + 3 * VERTEX_STRIDE;
+
+    const HAS_COLOR = 1, HAS_SPECULAR = 2, HAS_NORMAL = 4, HAS_UV = 8, HAS_WORLD = 16, WRITE_COLOR = 32, HAS_TANGENT = 64;
+    const RECEIVE_SHADOWS = 128;
+    // Render state
+    const NO_DEPTH_TEST = 256, NO_DEPTH_WRITE = 512;
+    const BLEND_ALPHA = 1024, BLEND_ADD = 2048, BLEND_MULTIPLY = 4096, BLEND_ACCUMULATE = 8192;
+    const BLENDED = BLEND_ALPHA | BLEND_ADD | BLEND_MULTIPLY | BLEND_ACCUMULATE;
+
+    // Sample positions within the pixel (x, y pairs) by sample count, the standard D3D patterns
+    const SAMPLE_PATTERNS: Record<number, number[]> = {
+        2: [0.75, 0.75, 0.25, 0.25],
+        4: [0.375, 0.125, 0.875, 0.375, 0.125, 0.625, 0.625, 0.875],
+        8: [
+            0.5625, 0.3125, 0.4375, 0.6875, 0.8125, 0.5625, 0.3125, 0.1875,
+            0.1875, 0.8125, 0.0625, 0.4375, 0.6875, 0.9375, 0.9375, 0.0625
+        ]
+    };
+
+    /** See ColorSpace.srgbToLinear */
+    function srgbToLinear(c: number): number {
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    }
+
+    // 8-bit sRGB value to linear 0..1
+    const SRGB_TO_LINEAR = new Float32Array(256);
+    for (let i = 0; i < 256; i++) SRGB_TO_LINEAR[i] = srgbToLinear(i / 255);
+
+    // Scratch
+    const texel = new Float32Array(4);
+    const lit = new Float64Array(6);
+    const normal = new Float64Array(3);
+    const fragColor = new Float64Array(4);
+    const sampleDepth = new Float64Array(8);
+    // Interpolated varyings, viewed at each shader's count
+    const varyingViews: Float64Array[] = [];
+    const varyingBuffer = new Float64Array(MAX_VARYINGS);
+    for (let n = 0; n <= MAX_VARYINGS; n++) varyingViews.push(varyingBuffer.subarray(0, n));
+    // Screen-space gradients of varying * recipW and of recipW over the custom-shaded triangle
+    // being drawn, and 1 / recipW at its fragment being shaded, for dFdx and dFdy
+    const varyingDx = new Float64Array(MAX_VARYINGS), varyingDy = new Float64Array(MAX_VARYINGS);
+    let recipWDx = 0, recipWDy = 0, fragmentW = 0;
+
+    function wrapIndex(i: number, size: number, mode: TextureWrap): number {
+        switch (mode) {
+            case "clamp":
+                return i < 0 ? 0 : i >= size ? size - 1 : i;
+            case "mirror": {
+                const period = size * 2;
+                let m = i % period;
+                if (m < 0) m += period;
+                return m < size ? m : period - 1 - m;
+            }
+            default: {
+                const m = i % size;
+                return m < 0 ? m + size : m;
+            }
+        }
+    }
+
+    function sampleLevel(texture: KernelTexture, level: number, u: number, v: number, out: Float32Array) {
+        const { width, height, data } = texture.levels[level];
+        // Flip v: image rows are stored top first
+        const fx = u * width - 0.5;
+        const fy = (1 - v) * height - 0.5;
+
+        if (texture.filter === "nearest") {
+            const x = wrapIndex(Math.floor(fx + 0.5), width, texture.wrapS);
+            const y = wrapIndex(Math.floor(fy + 0.5), height, texture.wrapT);
+            const i = (y * width + x) * 4;
+            out[0] = data[i];
+            out[1] = data[i + 1];
+            out[2] = data[i + 2];
+            out[3] = data[i + 3];
+            return;
+        }
+
+        const x0f = Math.floor(fx), y0f = Math.floor(fy);
+        const tx = fx - x0f, ty = fy - y0f;
+        const x0 = wrapIndex(x0f, width, texture.wrapS), x1 = wrapIndex(x0f + 1, width, texture.wrapS);
+        const y0 = wrapIndex(y0f, height, texture.wrapT), y1 = wrapIndex(y0f + 1, height, texture.wrapT);
+        const i00 = (y0 * width + x0) * 4, i10 = (y0 * width + x1) * 4;
+        const i01 = (y1 * width + x0) * 4, i11 = (y1 * width + x1) * 4;
+        for (let k = 0; k < 4; k++) {
+            const top = data[i00 + k] + (data[i10 + k] - data[i00 + k]) * tx;
+            const bottom = data[i01 + k] + (data[i11 + k] - data[i01 + k]) * tx;
+            out[k] = top + (bottom - top) * ty;
+        }
+    }
+
+    /** See Texture.sample */
+    function sampleTexture(texture: KernelTexture, u: number, v: number, lod: number, out: Float32Array) {
+        const levels = texture.levels;
+        if (texture.mipmaps === "none" || lod <= 0 || levels.length === 1) {
+            sampleLevel(texture, 0, u, v, out);
+            return;
+        }
+        const maxLevel = levels.length - 1;
+        if (texture.mipmaps === "nearest") {
+            sampleLevel(texture, Math.min(maxLevel, Math.round(lod)), u, v, out);
+            return;
+        }
+        const l0 = Math.min(maxLevel, Math.floor(lod));
+        const l1 = Math.min(maxLevel, l0 + 1);
+        const t = l0 === l1 ? 0 : lod - l0;
+        sampleLevel(texture, l0, u, v, out);
+        if (t > 0) {
+            const r = out[0], g = out[1], b = out[2], a = out[3];
+            sampleLevel(texture, l1, u, v, out);
+            out[0] = r + (out[0] - r) * t;
+            out[1] = g + (out[1] - g) * t;
+            out[2] = b + (out[2] - b) * t;
+            out[3] = a + (out[3] - a) * t;
+        }
+    }
+
+    /** See Texture.computeLod */
+    function computeLod(texture: KernelTexture, dudx: number, dvdx: number, dudy: number, dvdy: number): number {
+        const w = texture.levels[0].width, h = texture.levels[0].height;
+        const rhoX = Math.hypot(dudx * w, dvdx * h);
+        const rhoY = Math.hypot(dudy * w, dvdy * h);
+        const rho = Math.max(rhoX, rhoY);
+        return rho > 0 ? Math.log2(rho) : 0;
+    }
+
+    function smoothstep(edge0: number, edge1: number, x: number): number {
+        if (edge1 <= edge0) return x >= edge1 ? 1 : 0;
+        const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+        return t * t * (3 - 2 * t);
+    }
+
+    /**
+     * Fraction (0..1) of the shadow map's texels around the point's projection that see the
+     * point, i.e. percentage-closer filtering over a (2 * pcfRadius + 1)² box. Points outside
+     * the map are lit.
+     */
+    function shadowVisibility(shadow: ResolvedShadow, px: number, py: number, pz: number, nx: number, ny: number, nz: number): number {
+        const m = shadow.matrix, size = shadow.size;
+        // Normal offset: look the point up a few texels off the surface so it doesn't shadow
+        // itself. Texels of perspective maps grow with the distance from the light.
+        let offset = shadow.normalBias * shadow.texelSize;
+        if (shadow.perspective) offset *= m[12] * px + m[13] * py + m[14] * pz + m[15];
+        px += nx * offset;
+        py += ny * offset;
+        pz += nz * offset;
+        const cx = m[0] * px + m[1] * py + m[2] * pz + m[3];
+        const cy = m[4] * px + m[5] * py + m[6] * pz + m[7];
+        const cz = m[8] * px + m[9] * py + m[10] * pz + m[11];
+        const cw = m[12] * px + m[13] * py + m[14] * pz + m[15];
+        if (cw <= 0) return 1;
+
+        const sx = (cx / cw * 0.5 + 0.5) * size;
+        const sy = (1.0 - (cy / cw * 0.5 + 0.5)) * size;
+        // The bias is a fraction of the light's depth range; for perspective maps it is applied
+        // to the linear depth (w) and converted back to the map's post-divide depth
+        let z: number;
+        if (shadow.perspective) {
+            const { near: n, far: f } = shadow;
+            const d = Math.max(n, cw - shadow.bias * (f - n));
+            z = ((f + n) - 2 * f * n / d) / (f - n) * 0.5 + 0.5;
+        } else {
+            z = cz / cw * 0.5 + 0.5 - shadow.bias;
+        }
+
+        const depth = shadow.depth, r = shadow.pcfRadius;
+        const tx = Math.floor(sx), ty = Math.floor(sy);
+        let lit = 0;
+        for (let y = ty - r; y <= ty + r; y++) {
+            for (let x = tx - r; x <= tx + r; x++) {
+                if (x < 0 || y < 0 || x >= size || y >= size || z <= depth[y * size + x]) lit++;
+            }
+        }
+        return lit / ((2 * r + 1) * (2 * r + 1));
+    }
+
+    /**
+     * Accumulate every light at a surface point into out[0..2] (emissive + ambient + diffuse)
+     * and out[3..5] (specular), 0..255 and not clamped. Materials with illum 0 come out unlit.
+     * (nx, ny, nz) must be normalized; pass withView = false for diffuse only and
+     * receiveShadows = false to ignore the lights' shadow maps.
+     */
+    function shade(
+        px: number, py: number, pz: number,
+        nx: number, ny: number, nz: number,
+        vx: number, vy: number, vz: number, withView: boolean, receiveShadows: boolean,
+        lightSet: LightSet, material: KernelMaterial, out: Float64Array
+    ) {
+        const { ambient: ka, diffuse: kd, specular: ks, emissive: ke } = material;
+        if (material.illum === 0) {
+            // Color on and no lighting
+            out[0] = kd.x; out[1] = kd.y; out[2] = kd.z;
+            out[3] = out[4] = out[5] = 0;
+            return;
+        }
+        const withSpecular = withView && material.illum !== 1;
+
+        // Incoming light, split by which material color it scales
+        let ar = lightSet.ambient.x, ag = lightSet.ambient.y, ab = lightSet.ambient.z;
+        let dr = 0, dg = 0, db = 0;
+        let sr = 0, sg = 0, sb = 0;
+
+        for (const light of lightSet.lights) {
+            if (light.type === "hemisphere") {
+                const t = 0.5 + 0.5 * (nx * light.direction.x + ny * light.direction.y + nz * light.direction.z);
+                ar += light.groundColor.x + (light.color.x - light.groundColor.x) * t;
+                ag += light.groundColor.y + (light.color.y - light.groundColor.y) * t;
+                ab += light.groundColor.z + (light.color.z - light.groundColor.z) * t;
+                continue;
+            }
+
+            let lx: number, ly: number, lz: number; // towards the light
+            let scale = 1;
+            if (light.type === "directional") {
+                lx = -light.direction.x; ly = -light.direction.y; lz = -light.direction.z;
+            } else {
+                lx = light.position.x - px;
+                ly = light.position.y - py;
+                lz = light.position.z - pz;
+                const dist = Math.hypot(lx, ly, lz) || 1;
+                lx /= dist; ly /= dist; lz /= dist;
+                // Distance falloff, windowed to reach exactly zero at `range` when one is set
+                scale = 1 / Math.max(light.constant + light.linear * dist + light.quadratic * dist * dist, 1e-6);
+                if (light.range > 0) {
+                    const r = dist / light.range;
+                    const w = Math.max(0, 1 - r * r * r * r);
+                    scale *= w * w;
+                }
+                if (light.type === "spot") {
+                    const cosAngle = -(lx * light.direction.x + ly * light.direction.y + lz * light.direction.z);
+                    scale *= smoothstep(light.cosOuter, light.cosInner, cosAngle);
+                }
+                if (scale <= 0) continue;
+            }
+
+            const nDotL = nx * lx + ny * ly + nz * lz;
+            if (nDotL <= 0) continue;
+            if (receiveShadows && light.shadow) {
+                scale *= shadowVisibility(light.shadow, px, py, pz, nx, ny, nz);
+                if (scale <= 0) continue;
+            }
+            const d = nDotL * scale;
+            dr += light.color.x * d; dg += light.color.y * d; db += light.color.z * d;
+
+            if (withSpecular) {
+                let hx = vx + lx, hy = vy + ly, hz = vz + lz;
+                const hl = Math.hypot(hx, hy, hz) || 1;
+                hx /= hl; hy /= hl; hz /= hl;
+                const nDotH = Math.max(0, nx * hx + ny * hy + nz * hz);
+                const s = Math.pow(nDotH, material.shininess) * scale;
+                sr += light.color.x * s; sg += light.color.y * s; sb += light.color.z * s;
+            }
+        }
+
+        out[0] = ke.x + ka.x * ar + kd.x * dr;
+        out[1] = ke.y + ka.y * ag + kd.y * dg;
+        out[2] = ke.z + ka.z * ab + kd.z * db;
+        out[3] = ks.x * sr;
+        out[4] = ks.y * sg;
+        out[5] = ks.z * sb;
+    }
+
+    /** Decode the sRGB color in out[0..2] (0..255, possibly filtered) to linear, kept at 0..255 */
+    function decodeTexel(out: Float32Array) {
+        for (let k = 0; k < 3; k++) {
+            out[k] = SRGB_TO_LINEAR[(out[k] + 0.5) | 0] * 255;
+        }
+    }
+
+    /** Screen-space x derivative of interpolated varying k at the fragment being shaded: d(V/W) = (dV - v dW) / W */
+    function dFdx(k: number): number {
+        return (varyingDx[k] - varyingBuffer[k] * recipWDx) * fragmentW;
+    }
+
+    /** Like dFdx along y */
+    function dFdy(k: number): number {
+        return (varyingDy[k] - varyingBuffer[k] * recipWDy) * fragmentW;
+    }
+
+    /**
+     * Weight of a fragment at view depth `depth` in weighted blended transparency: near fragments
+     * dominate the average of the ones drawn over a pixel (McGuire and Bavoil, equation 7)
+     */
+    function transparencyWeight(alpha: number, depth: number): number {
+        const d = Math.abs(depth);
+        const w = 10 / (1e-5 + Math.pow(d / 5, 2) + Math.pow(d / 200, 6));
+        return alpha * (w < 1e-2 ? 1e-2 : w > 3e3 ? 3e3 : w);
+    }
+
+    /**
+     * Combine a fragment of color (r, g, b) (0..255, not clamped) and opacity `alpha` with
+     * sample `si` of the target, as the BLEND_* bit in `flags` says
+     * @param weight For BLEND_ACCUMULATE, see transparencyWeight
+     */
+    function blendSample(target: KernelTarget, si: number, flags: number, r: number, g: number, b: number, alpha: number, weight: number) {
+        if (r < 0) r = 0;
+        if (g < 0) g = 0;
+        if (b < 0) b = 0;
+        const o = si * 4;
+        if (flags & BLEND_ACCUMULATE) {
+            const accum = target.accum!, aw = alpha * weight / 255;
+            accum[o] += r * aw;
+            accum[o + 1] += g * aw;
+            accum[o + 2] += b * aw;
+            accum[o + 3] += alpha * weight;
+            target.revealage![si] *= 1 - alpha;
+            return;
+        }
+
+        const hdr = target.hdr;
+        let dr: number, dg: number, db: number, da: number;
+        if (hdr) {
+            dr = hdr[o] * 255; dg = hdr[o + 1] * 255; db = hdr[o + 2] * 255; da = hdr[o + 3];
+        } else {
+            const c = target.data32[si];
+            if (target.littleEndian) {
+                dr = c & 255; dg = (c >>> 8) & 255; db = (c >>> 16) & 255; da = (c >>> 24) / 255;
+            } else {
+                dr = c >>> 24; dg = (c >>> 16) & 255; db = (c >>> 8) & 255; da = (c & 255) / 255;
+            }
+        }
+        if (flags & BLEND_ADD) {
+            dr += r * alpha; dg += g * alpha; db += b * alpha;
+        } else if (flags & BLEND_MULTIPLY) {
+            dr *= 1 - alpha + r / 255 * alpha;
+            dg *= 1 - alpha + g / 255 * alpha;
+            db *= 1 - alpha + b / 255 * alpha;
+        } else {
+            dr += (r - dr) * alpha; dg += (g - dg) * alpha; db += (b - db) * alpha;
+            da = alpha + da * (1 - alpha);
+        }
+
+        if (hdr) {
+            hdr[o] = dr / 255; hdr[o + 1] = dg / 255; hdr[o + 2] = db / 255; hdr[o + 3] = da;
+            return;
+        }
+        const cr = (dr > 255 ? 255 : dr) | 0, cg = (dg > 255 ? 255 : dg) | 0, cb = (db > 255 ? 255 : db) | 0;
+        const ca = (da * 255 + 0.5) | 0;
+        target.data32[si] = target.littleEndian
+            ? (ca << 24) | (cb << 16) | (cg << 8) | cr
+            : (cr << 24) | (cg << 16) | (cb << 8) | ca;
+    }
+
+    /**
+     * Apply the material's tangent-space normal map (norm) or height map (bump) to the unit normal
+     * in n[0..2], using the triangle's dP/du and dP/dv in frame[offset..offset + 5]
+     * re-orthogonalized against it.
+     */
+    function perturbNormal(material: KernelMaterial, frame: ArrayLike<number>, offset: number, u: number, v: number, n: Float64Array) {
+        const nx = n[0], ny = n[1], nz = n[2];
+        const t0x = frame[offset], t0y = frame[offset + 1], t0z = frame[offset + 2];
+        const b0x = frame[offset + 3], b0y = frame[offset + 4], b0z = frame[offset + 5];
+
+        const nt = nx * t0x + ny * t0y + nz * t0z;
+        let tx = t0x - nx * nt, ty = t0y - ny * nt, tz = t0z - nz * nt;
+        const tl = Math.hypot(tx, ty, tz) || 1;
+        tx /= tl; ty /= tl; tz /= tl;
+        const nb = nx * b0x + ny * b0y + nz * b0z;
+        const tb = tx * b0x + ty * b0y + tz * b0z;
+        let bx = b0x - nx * nb - tx * tb, by = b0y - ny * nb - ty * tb, bz = b0z - nz * nb - tz * tb;
+        const bl = Math.hypot(bx, by, bz) || 1;
+        bx /= bl; by /= bl; bz /= bl;
+
+        let ox: number, oy: number, oz: number;
+        if (material.mapNorm) {
+            sampleTexture(material.mapNorm, u, v, 0, texel);
+            const sx = texel[0] / 127.5 - 1, sy = texel[1] / 127.5 - 1, sz = texel[2] / 127.5 - 1;
+            ox = tx * sx + bx * sy + nx * sz;
+            oy = ty * sx + by * sy + ny * sz;
+            oz = tz * sx + bz * sy + nz * sz;
+        } else if (material.mapBump) {
+            // Height (red channel, 0..1 times -bm) differentiated one texel along u and v, turned
+            // into a world-space slope by the surface's length per unit of UV
+            const map = material.mapBump;
+            const { width, height } = map.levels[0];
+            const scale = material.bumpScale / 255;
+            sampleTexture(map, u, v, 0, texel);
+            const h = texel[0];
+            sampleTexture(map, u + 1 / width, v, 0, texel);
+            const slopeU = (texel[0] - h) * width * scale / (Math.hypot(t0x, t0y, t0z) || 1);
+            sampleTexture(map, u, v + 1 / height, 0, texel);
+            const slopeV = (texel[0] - h) * height * scale / (Math.hypot(b0x, b0y, b0z) || 1);
+            ox = nx - (tx * slopeU + bx * slopeV);
+            oy = ny - (ty * slopeU + by * slopeV);
+            oz = nz - (tz * slopeU + bz * slopeV);
+        } else {
+            return;
+        }
+        const ol = Math.hypot(ox, oy, oz) || 1;
+        n[0] = ox / ol;
+        n[1] = oy / ol;
+        n[2] = oz / ol;
+    }
+
+    /**
+     * Pack a screen-space triangle at index `tri` from vertex records in `verts` (VERTEX_STRIDE
+     * numbers each: x, y, z, recipW, then the attributes at the offsets in vertexLayout). The
+     * winding is normalized so the inside has positive edge values.
+     * @param i0 Record index of the first vertex, likewise i1 and i2
+     * @param attributes Bits from `attributes` saying which fields the records carry. Records with
+     * world positions and normals get lit per fragment, in shadow when RECEIVE_SHADOWS is set too;
+     * a color (0..255) next to them tints the lit surface like a diffuse map.
+     * The NO_DEPTH_* and BLEND_* bits set the render state.
+     * @param writeColor false for depth-only passes
+     * @param r Flat color, used when the records carry no color or world position, likewise g and b
+     * @param tangent World-space dP/du then dP/dv for normal and bump maps, or null
+     * @param alpha Opacity of blended triangles, multiplied by the alpha of the diffuse map
+     * @param draw Index of the triangle's custom-shader draw in the frame state, -1 for the
+     * built-in shading above. The records then carry that draw's varyings.
+     * @returns false for degenerate (zero-area) triangles, which are not written
+     */
+    function packTriangle(
+        buf: Float64Array, tri: number,
+        verts: Float64Array, i0: number, i1: number, i2: number, attributes: number,
+        writeColor: boolean, r: number, g: number, b: number, material: number,
+        tangent: Float64Array | null, alpha = 1, draw = -1
+    ): boolean {
+        let o0 = i0 * VERTEX_STRIDE, o1 = i1 * VERTEX_STRIDE, o2 = i2 * VERTEX_STRIDE;
+        const area = (verts[o2] - verts[o0]) * (verts[o1 + 1] - verts[o0 + 1]) - (verts[o2 + 1] - verts[o0 + 1]) * (verts[o1] - verts[o0]);
+        if (area === 0) return false;
+        if (area < 0) {
+            const t = o1;
+            o1 = o2;
+            o2 = t;
+        }
+
+        let flags = attributes & (HAS_COLOR | HAS_SPECULAR | HAS_NORMAL | HAS_UV | RECEIVE_SHADOWS | NO_DEPTH_TEST | NO_DEPTH_WRITE | BLENDED);
+        if ((attributes & HAS_WORLD) && (attributes & HAS_NORMAL)) flags |= HAS_WORLD;
+        if (writeColor) flags |= WRITE_COLOR;
+        if (tangent) flags |= HAS_TANGENT;
+
+        const base = tri * TRIANGLE_STRIDE;
+        buf[base + FLAGS] = flags;
+        buf[base + MATERIAL] = material;
+        buf[base + COLOR] = r;
+        buf[base + COLOR + 1] = g;
+        buf[base + COLOR + 2] = b;
+        buf[base + ALPHA] = alpha;
+        buf[base + DRAW] = draw;
+        if (tangent) {
+            for (let k = 0; k < 6; k++) buf[base + TANGENT + k] = tangent[k];
+        }
+
+        const dst = base + HEADER;
+        for (let k = 0; k < VERTEX_STRIDE; k++) {
+            buf[dst + k] = verts[o0 + k];
+            buf[dst + VERTEX_STRIDE + k] = verts[o1 + k];
+            buf[dst + 2 * VERTEX_STRIDE + k] = verts[o2 + k];
+        }
+        return true;
+    }
+
+    /**
+     * Edge-function rasterizer for one packed triangle, limited to the pixel rectangle
+     * [minX, maxX] x [minY, maxY]. Pixels are sampled at their centers and shared edges follow a
+     * top-left style tie-break so neighbouring triangles never draw a pixel twice. Edge values are
+     * evaluated directly per pixel rather than stepped, so the result doesn't depend on how the
+     * screen is split into tiles.
+     *
+     * Depth (post-divide z) is affine in screen space and is interpolated linearly. Color, normal,
+     * UV and world position are interpolated perspective-correctly: each attribute is weighted by
+     * recipW and the sum is divided by the interpolated recipW.
+     *
+     * Multisampled targets get coverage and depth tested per sample, while the color is shaded
+     * once per pixel, at the center of the samples that passed, and stored to each of them.
+     * Blended triangles combine their color with what is there instead (see blendSample).
+     *
+     * Triangles of custom shaders get their varyings interpolated perspective-correctly and
+     * colored by the shader's fragment function; their depth is only written once it has not
+     * discarded the fragment.
+     */
+    function rasterizeTriangle(
+        buf: Float64Array, tri: number,
+        minX: number, minY: number, maxX: number, maxY: number,
+        target: KernelTarget, state: KernelFrameState
+    ) {
+        const base = tri * TRIANGLE_STRIDE;
+        const o0 = base + HEADER, o1 = o0 + VERTEX_STRIDE, o2 = o1 + VERTEX_STRIDE;
+        const x0 = buf[o0], y0 = buf[o0 + 1], x1 = buf[o1], y1 = buf[o1 + 1], x2 = buf[o2], y2 = buf[o2 + 1];
+
+        // Bounding box clamped to the requested rectangle
+        minX = Math.max(minX, Math.floor(Math.min(x0, x1, x2)));
+        maxX = Math.min(maxX, Math.ceil(Math.max(x0, x1, x2)));
+        minY = Math.max(minY, Math.floor(Math.min(y0, y1, y2)));
+        maxY = Math.min(maxY, Math.ceil(Math.max(y0, y1, y2)));
+        if (minX > maxX || minY > maxY) return;
+
+        const flags = buf[base + FLAGS];
+        const writeColor = (flags & WRITE_COLOR) !== 0;
+        const hasColor = (flags & HAS_COLOR) !== 0;
+        const hasSpecular = (flags & HAS_SPECULAR) !== 0;
+        const hasNormal = (flags & HAS_NORMAL) !== 0;
+        const hasUV = (flags & HAS_UV) !== 0;
+        const hasWorld = (flags & HAS_WORLD) !== 0;
+        const hasTangent = (flags & HAS_TANGENT) !== 0;
+        const receiveShadows = (flags & RECEIVE_SHADOWS) !== 0;
+        const depthTest = (flags & NO_DEPTH_TEST) === 0;
+        const depthWrite = (flags & NO_DEPTH_WRITE) === 0;
+        const blended = (flags & BLENDED) !== 0;
+        const alpha = buf[base + ALPHA];
+        const drawIndex = buf[base + DRAW];
+        const draw = drawIndex >= 0 ? state.draws[drawIndex] : null;
+        const material = state.materials[buf[base + MATERIAL]];
+        // Cut-out materials keep neither color nor depth where the texture's alpha is too low
+        const masked = writeColor && !draw && material.alphaCutoff > 0;
+        // Written by the kernel only where the fragment survives
+        const earlyDepth = depthWrite && !draw && !masked;
+
+        // Edge i is opposite vertex i
+        const e0dx = x2 - x1, e0dy = y2 - y1;
+        const e1dx = x0 - x2, e1dy = y0 - y2;
+        const e2dx = x1 - x0, e2dy = y1 - y0;
+        // Ownership of pixel centers exactly on an edge: for any edge direction d, exactly one of
+        // d and -d is owned, so two triangles sharing the edge never both draw those pixels.
+        const own0 = e0dy < 0 || (e0dy === 0 && e0dx > 0);
+        const own1 = e1dy < 0 || (e1dy === 0 && e1dx > 0);
+        const own2 = e2dy < 0 || (e2dy === 0 && e2dx > 0);
+
+        const area = (x2 - x0) * (y1 - y0) - (y2 - y0) * (x1 - x0);
+        const invArea = 1 / area;
+        const z0 = buf[o0 + 2], z1 = buf[o1 + 2], z2 = buf[o2 + 2];
+        const rw0 = buf[o0 + 3], rw1 = buf[o1 + 3], rw2 = buf[o2 + 3];
+
+        const texture = writeColor && hasUV && !draw ? material.mapKd : null;
+        const specularMap = writeColor && hasUV && !draw ? material.mapKs : null;
+        const bumpy = hasTangent && hasUV && (material.mapNorm || material.mapBump);
+        let uniforms: DrawUniforms | null = null, varyings = varyingViews[0];
+        if (draw) {
+            uniforms = draw.uniforms;
+            uniforms.material = material;
+            uniforms.lights = state.lights;
+            uniforms.eye = state.eye;
+            uniforms.linear = state.linear;
+            varyings = varyingViews[draw.varyings];
+            // Gradients of varying * recipW for dFdx and dFdy, as for the UVs below
+            for (let k = 0; k < draw.varyings; k++) {
+                const a0 = buf[o0 + VARYINGS + k] * rw0, a1 = buf[o1 + VARYINGS + k] * rw1, a2 = buf[o2 + VARYINGS + k] * rw2;
+                varyingDx[k] = (e0dy * a0 + e1dy * a1 + e2dy * a2) * invArea;
+                varyingDy[k] = -(e0dx * a0 + e1dx * a1 + e2dx * a2) * invArea;
+            }
+            recipWDx = (e0dy * rw0 + e1dy * rw1 + e2dy * rw2) * invArea;
+            recipWDy = -(e0dx * rw0 + e1dx * rw1 + e2dx * rw2) * invArea;
+        }
+
+        // Screen-space gradients of u*recipW, v*recipW and recipW for per-pixel mip selection
+        let dUdx = 0, dUdy = 0, dVdx = 0, dVdy = 0, dWdx = 0, dWdy = 0;
+        if (texture && texture.mipmaps !== "none") {
+            const u0 = buf[o0 + UV] * rw0, u1 = buf[o1 + UV] * rw1, u2 = buf[o2 + UV] * rw2;
+            const t0 = buf[o0 + UV + 1] * rw0, t1 = buf[o1 + UV + 1] * rw1, t2 = buf[o2 + UV + 1] * rw2;
+            dUdx = (e0dy * u0 + e1dy * u1 + e2dy * u2) * invArea;
+            dUdy = -(e0dx * u0 + e1dx * u1 + e2dx * u2) * invArea;
+            dVdx = (e0dy * t0 + e1dy * t1 + e2dy * t2) * invArea;
+            dVdy = -(e0dx * t0 + e1dx * t1 + e2dx * t2) * invArea;
+            dWdx = (e0dy * rw0 + e1dy * rw1 + e2dy * rw2) * invArea;
+            dWdy = -(e0dx * rw0 + e1dx * rw1 + e2dx * rw2) * invArea;
+        }
+
+        const { width, zBuffer, data32, hdr, littleEndian, samples } = target;
+        const linear = state.linear;
+        const pattern = samples > 1 ? SAMPLE_PATTERNS[samples] : null;
+        const eye = state.eye;
+        const fx = base + COLOR;
+        let r = 0, g = 0, b = 0, sr = 0, sg = 0, sb = 0, u = 0, v = 0, ta = 255;
+
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                const idx = y * width + x;
+                let px = x + 0.5, py = y + 0.5;
+                // Samples that passed the depth test, one bit each
+                let mask = 1;
+                if (pattern) {
+                    mask = 0;
+                    let sumX = 0, sumY = 0, passed = 0;
+                    for (let s = 0; s < samples; s++) {
+                        const qx = x + pattern[s * 2], qy = y + pattern[s * 2 + 1];
+                        const w0 = (qx - x1) * e0dy - (qy - y1) * e0dx;
+                        const w1 = (qx - x2) * e1dy - (qy - y2) * e1dx;
+                        const w2 = (qx - x0) * e2dy - (qy - y0) * e2dx;
+                        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+                        if ((w0 === 0 && !own0) || (w1 === 0 && !own1) || (w2 === 0 && !own2)) continue;
+                        const z = (w0 * z0 + w1 * z1 + w2 * z2) * invArea;
+                        const si = idx * samples + s;
+                        if (depthTest && z >= zBuffer[si]) continue;
+                        if (earlyDepth) zBuffer[si] = z;
+                        sampleDepth[s] = z;
+                        mask |= 1 << s;
+                        sumX += qx;
+                        sumY += qy;
+                        passed++;
+                    }
+                    if (!mask || !writeColor) continue;
+                    // Unlike the pixel center, the samples' center is always inside the triangle
+                    px = sumX / passed;
+                    py = sumY / passed;
+                }
+
+                const w0 = (px - x1) * e0dy - (py - y1) * e0dx;
+                const w1 = (px - x2) * e1dy - (py - y2) * e1dx;
+                const w2 = (px - x0) * e2dy - (py - y0) * e2dx;
+                const b0 = w0 * invArea, b1 = w1 * invArea, b2 = w2 * invArea;
+                if (!pattern) {
+                    if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+                    if ((w0 === 0 && !own0) || (w1 === 0 && !own1) || (w2 === 0 && !own2)) continue;
+                    const z = b0 * z0 + b1 * z1 + b2 * z2;
+                    if (depthTest && z >= zBuffer[idx]) continue;
+                    if (earlyDepth) zBuffer[idx] = z;
+                    sampleDepth[0] = z;
+                    if (!writeColor) continue;
+                }
+
+                // Perspective-correct weights
+                const p0 = b0 * rw0, p1 = b1 * rw1, p2 = b2 * rw2;
+                const invW = 1 / (p0 + p1 + p2);
+                const c0 = p0 * invW, c1 = p1 * invW, c2 = p2 * invW;
+
+                if (hasUV) {
+                    u = c0 * buf[o0 + UV] + c1 * buf[o1 + UV] + c2 * buf[o2 + UV];
+                    v = c0 * buf[o0 + UV + 1] + c1 * buf[o1 + UV + 1] + c2 * buf[o2 + UV + 1];
+                }
+                if (draw) {
+                    for (let k = 0; k < varyings.length; k++) {
+                        varyings[k] = c0 * buf[o0 + VARYINGS + k] + c1 * buf[o1 + VARYINGS + k] + c2 * buf[o2 + VARYINGS + k];
+                    }
+                    fragmentW = invW;
+                    fragColor[0] = fragColor[1] = fragColor[2] = 0;
+                    fragColor[3] = 1;
+                    if (draw.fragment(varyings, uniforms!, fragColor, library) === false) continue;
+                    if (depthWrite) {
+                        for (let s = 0; s < samples; s++) {
+                            if (mask & (1 << s)) zBuffer[idx * samples + s] = sampleDepth[s];
+                        }
+                    }
+                    r = fragColor[0] * 255;
+                    g = fragColor[1] * 255;
+                    b = fragColor[2] * 255;
+                    ta = fragColor[3] * 255;
+                } else if (hasWorld) {
+                    // Blinn-Phong at this pixel with the view vector towards the actual eye
+                    const wx = c0 * buf[o0 + WORLD] + c1 * buf[o1 + WORLD] + c2 * buf[o2 + WORLD];
+                    const wy = c0 * buf[o0 + WORLD + 1] + c1 * buf[o1 + WORLD + 1] + c2 * buf[o2 + WORLD + 1];
+                    const wz = c0 * buf[o0 + WORLD + 2] + c1 * buf[o1 + WORLD + 2] + c2 * buf[o2 + WORLD + 2];
+                    let nx = c0 * buf[o0 + NORMAL] + c1 * buf[o1 + NORMAL] + c2 * buf[o2 + NORMAL];
+                    let ny = c0 * buf[o0 + NORMAL + 1] + c1 * buf[o1 + NORMAL + 1] + c2 * buf[o2 + NORMAL + 1];
+                    let nz = c0 * buf[o0 + NORMAL + 2] + c1 * buf[o1 + NORMAL + 2] + c2 * buf[o2 + NORMAL + 2];
+                    const nl = Math.hypot(nx, ny, nz) || 1;
+                    normal[0] = nx / nl; normal[1] = ny / nl; normal[2] = nz / nl;
+                    if (bumpy) perturbNormal(material, buf, base + TANGENT, u, v, normal);
+                    nx = normal[0]; ny = normal[1]; nz = normal[2];
+
+                    let vx = eye.x - wx, vy = eye.y - wy, vz = eye.z - wz;
+                    const vl = Math.hypot(vx, vy, vz) || 1;
+                    vx /= vl; vy /= vl; vz /= vl;
+                    shade(wx, wy, wz, nx, ny, nz, vx, vy, vz, true, receiveShadows, state.lights, material, lit);
+                    r = lit[0]; g = lit[1]; b = lit[2];
+                    sr = lit[3]; sg = lit[4]; sb = lit[5];
+                    if (hasColor) {
+                        // Vertex colors
+                        r *= (c0 * buf[o0 + VCOLOR] + c1 * buf[o1 + VCOLOR] + c2 * buf[o2 + VCOLOR]) / 255;
+                        g *= (c0 * buf[o0 + VCOLOR + 1] + c1 * buf[o1 + VCOLOR + 1] + c2 * buf[o2 + VCOLOR + 1]) / 255;
+                        b *= (c0 * buf[o0 + VCOLOR + 2] + c1 * buf[o1 + VCOLOR + 2] + c2 * buf[o2 + VCOLOR + 2]) / 255;
+                    }
+                } else if (hasColor) {
+                    r = c0 * buf[o0 + VCOLOR] + c1 * buf[o1 + VCOLOR] + c2 * buf[o2 + VCOLOR];
+                    g = c0 * buf[o0 + VCOLOR + 1] + c1 * buf[o1 + VCOLOR + 1] + c2 * buf[o2 + VCOLOR + 1];
+                    b = c0 * buf[o0 + VCOLOR + 2] + c1 * buf[o1 + VCOLOR + 2] + c2 * buf[o2 + VCOLOR + 2];
+                } else {
+                    r = buf[fx];
+                    g = buf[fx + 1];
+                    b = buf[fx + 2];
+                }
+
+                if (texture) {
+                    let lod = 0;
+                    if (texture.mipmaps !== "none") {
+                        // d(U/W) = (dU - u dW) / W
+                        lod = computeLod(
+                            texture,
+                            (dUdx - u * dWdx) * invW, (dVdx - v * dWdx) * invW,
+                            (dUdy - u * dWdy) * invW, (dVdy - v * dWdy) * invW
+                        );
+                    }
+                    sampleTexture(texture, u, v, lod, texel);
+                    ta = texel[3];
+                    if (linear) decodeTexel(texel);
+                    r *= texel[0] / 255;
+                    g *= texel[1] / 255;
+                    b *= texel[2] / 255;
+                }
+                if (masked) {
+                    if (ta / 255 < material.alphaCutoff) continue;
+                    if (depthWrite) {
+                        for (let s = 0; s < samples; s++) {
+                            if (mask & (1 << s)) zBuffer[idx * samples + s] = sampleDepth[s];
+                        }
+                    }
+                }
+
+                if (hasWorld || hasSpecular) {
+                    if (!hasWorld) {
+                        sr = c0 * buf[o0 + SPECULAR] + c1 * buf[o1 + SPECULAR] + c2 * buf[o2 + SPECULAR];
+                        sg = c0 * buf[o0 + SPECULAR + 1] + c1 * buf[o1 + SPECULAR + 1] + c2 * buf[o2 + SPECULAR + 1];
+                        sb = c0 * buf[o0 + SPECULAR + 2] + c1 * buf[o1 + SPECULAR + 2] + c2 * buf[o2 + SPECULAR + 2];
+                    }
+                    if (specularMap) {
+                        sampleTexture(specularMap, u, v, 0, texel);
+                        if (linear) decodeTexel(texel);
+                        sr *= texel[0] / 255;
+                        sg *= texel[1] / 255;
+                        sb *= texel[2] / 255;
+                    }
+                    r += sr;
+                    g += sg;
+                    b += sb;
+                }
+
+                if (blended) {
+                    const a = texture || draw ? alpha * ta / 255 : alpha;
+                    const weight = flags & BLEND_ACCUMULATE ? transparencyWeight(a, invW) : 0;
+                    for (let s = 0; s < samples; s++) {
+                        if (mask & (1 << s)) blendSample(target, idx * samples + s, flags, r, g, b, a, weight);
+                    }
+                    continue;
+                }
+                if (hdr) {
+                    const lr = r < 0 ? 0 : r / 255, lg = g < 0 ? 0 : g / 255, lb = b < 0 ? 0 : b / 255;
+                    for (let s = 0; s < samples; s++) {
+                        if (!(mask & (1 << s))) continue;
+                        const o = (idx * samples + s) * 4;
+                        hdr[o] = lr;
+                        hdr[o + 1] = lg;
+                        hdr[o + 2] = lb;
+                        hdr[o + 3] = 1;
+                    }
+                    continue;
+                }
+                const cr = (r < 0 ? 0 : r > 255 ? 255 : r) | 0;
+                const cg = (g < 0 ? 0 : g > 255 ? 255 : g) | 0;
+                const cb = (b < 0 ? 0 : b > 255 ? 255 : b) | 0;
+                const color = littleEndian
+                    ? (255 << 24) | (cb << 16) | (cg << 8) | cr
+                    : (cr << 24) | (cg << 16) | (cb << 8) | 255;
+                if (pattern) {
+                    for (let s = 0; s < samples; s++) {
+                        if (mask & (1 << s)) data32[idx * samples + s] = color;
+                    }
+                } else {
+                    data32[idx] = color;
+                }
+            }
+        }
+    }
+
+    /**
+     * Rasterize the triangles triangles[start..end) (indices into `buf`, in submission order)
+     * restricted to the tile [x0, x1) x [y0, y1).
+     */
+    function rasterizeTile(
+        buf: Float64Array, triangles: ArrayLike<number>, start: number, end: number,
+        x0: number, y0: number, x1: number, y1: number,
+        target: KernelTarget, state: KernelFrameState
+    ) {
+        const maxX = Math.min(x1, target.width) - 1;
+        const maxY = Math.min(y1, target.height) - 1;
+        for (let i = start; i < end; i++) {
+            rasterizeTriangle(buf, triangles[i], x0, y0, maxX, maxY, target, state);
+        }
+    }
+
+    /** What custom fragment functions get as `lib`, with scratch of their own apart from the kernel's */
+    const library = {
+        sampleTexture, computeLod, shade, srgbToLinear, decodeTexel, perturbNormal, dFdx, dFdy,
+        texel: new Float32Array(4), light: new Float64Array(6), normal: new Float64Array(3), frame: new Float64Array(6)
+    };
+
+    return {
+        TRIANGLE_STRIDE,
+        VERTEX_STRIDE,
+        MAX_VARYINGS,
+        /** Offsets of the attributes within a vertex record */
+        vertexLayout: { COLOR: VCOLOR, SPECULAR, NORMAL, UV, WORLD, VARYINGS },
+        /** Bits for packTriangle's `attributes` */
+        attributes: {
+            COLOR: HAS_COLOR, SPECULAR: HAS_SPECULAR, NORMAL: HAS_NORMAL, UV: HAS_UV, WORLD: HAS_WORLD, RECEIVE_SHADOWS,
+            NO_DEPTH_TEST, NO_DEPTH_WRITE, BLEND_ALPHA, BLEND_ADD, BLEND_MULTIPLY, BLEND_ACCUMULATE
+        },
+        packTriangle,
+        rasterizeTile,
+        sampleTexture,
+        computeLod,
+        shade
+    };
+}
+
+export type RasterKernel = ReturnType<typeof createRasterKernel>;
+
+/** Kernel functions available to custom fragment functions, which can't import anything */
+export interface ShaderLibrary {
+    /** Sample a texture at (u, v) and mip level `lod` into out[0..3], 0..255 */
+    sampleTexture(texture: KernelTexture, u: number, v: number, lod: number, out: Float32Array): void;
+    /** Mip level for the given screen-space UV derivatives */
+    computeLod(texture: KernelTexture, dudx: number, dvdx: number, dudy: number, dvdy: number): number;
+    /**
+     * The built-in Blinn-Phong lighting of a surface point: out[0..2] emissive + ambient + diffuse,
+     * out[3..5] specular, 0..255
+     */
+    shade(
+        px: number, py: number, pz: number, nx: number, ny: number, nz: number,
+        vx: number, vy: number, vz: number, withView: boolean, receiveShadows: boolean,
+        lights: LightSet, material: KernelMaterial, out: Float64Array
+    ): void;
+    /** sRGB-encoded channel (0..1) to linear light, for colors given in sRGB when uniforms.linear is set */
+    srgbToLinear(c: number): number;
+    /** Decode a texel's sRGB color in out[0..2] (0..255) to linear in place, as textures are when uniforms.linear is set */
+    decodeTexel(out: Float32Array): void;
+    /**
+     * Apply the material's normal or bump map at (u, v) to the unit normal in n[0..2], with the
+     * surface's world-space dP/du and dP/dv in frame[offset..offset + 5]
+     */
+    perturbNormal(material: KernelMaterial, frame: ArrayLike<number>, offset: number, u: number, v: number, n: Float64Array): void;
+    /** Screen-space derivative of varying k along x at the fragment being shaded */
+    dFdx(k: number): number;
+    /** Likewise along y */
+    dFdy(k: number): number;
+    /**
+     * Scratch for the fragment function being run, so it needn't allocate per fragment: a texel
+     * for sampleTexture, a light for shade, a normal for perturbNormal and its tangent frame.
+     * Their contents don't survive from one fragment to the next.
+     */
+    readonly texel: Float32Array;
+    readonly light: Float64Array;
+    readonly normal: Float64Array;
+    readonly frame: Float64Array;
+}
+
+/** Kernel instance for work done on this thread */
+export const localKernel = createRasterKernel();
@@ -0,0 +1,257 @@
+import type { Framebuffer } from "../Framebuffer";
+import type { LightSet } from "../Lighting";
+import type { Vec3 } from "../Math";
+import {
+    createRasterKernel, type DrawUniforms, type FragmentProgram, type KernelFrameState, type KernelMaterial, type KernelTarget, type RasterKernel
+} from "./RasterKernel";
+
+/** The part of browser Workers and Node worker_threads Workers the pool uses */
+interface WorkerHandle {
+    postMessage(message: unknown): void;
+    terminate(): unknown;
+    ref?(): void;
+    unref?(): void;
+}
+
+/**
+ * One frame's binned triangles. Every array lives in a SharedArrayBuffer;
+ * tile t owns binItems[binOffsets[t]..binOffsets[t + 1]).
+ */
+export interface TileJob {
+    triangles: Float64Array;
+    binOffsets: Uint32Array;
+    binItems: Uint32Array;
+    tilesX: number;
+    tilesY: number;
+    tileSize: number;
+}
+
+/** A KernelDraw as sent to the workers: the fragment function by its index in "programs" messages */
+interface WorkerDraw {
+    program: number;
+    uniforms: Record<string, unknown>;
+    varyings: number;
+}
+
+type WorkerMessage =
+    | { type: "init", color: SharedArrayBuffer, depth: SharedArrayBuffer, hdr: SharedArrayBuffer | null, accum: SharedArrayBuffer | null, revealage: SharedArrayBuffer | null, width: number, height: number, samples: number, littleEndian: boolean }
+    | { type: "materials", materials: readonly KernelMaterial[] }
+    | { type: "programs", sources: string[] }
+    | ({ type: "frame", counter: Int32Array, lights: LightSet, eye: Vec3, linear: boolean, draws: WorkerDraw[] } & TileJob);
+
+type WorkerReply = { type: "done" } | { type: "error", message: string };
+
+/** What a worker talks to the pool through: `self` in browsers, `parentPort` in worker_threads */
+interface WorkerPort {
+    postMessage(message: WorkerReply): void;
+    on?(event: "message", listener: (message: WorkerMessage) => void): void;
+    onmessage?: ((event: MessageEvent<WorkerMessage>) => void) | null;
+}
+
+// Kept in a variable so bundlers targeting the browser leave the import alone
+const NODE_WORKER_THREADS = "node:worker_threads";
+
+/**
+ * Worker entry point. Like createRasterKernel it must stay self-contained, since its
+ * source is what runs in the worker.
+ */
+function rasterWorkerMain(kernel: RasterKernel, port: WorkerPort) {
+    let target: KernelTarget | null = null;
+    let materials: readonly KernelMaterial[] = [];
+    const programs: FragmentProgram[] = [];
+
+    // Functions stringify as expressions, methods as `name(...) { ... }`, which only parses in an object
+    const compile = (source: string): FragmentProgram => {
+        try {
+            return new Function(`return (${source});`)();
+        } catch {
+            const holder = new Function(`return ({ ${source} });`)();
+            return holder[Object.keys(holder)[0]];
+        }
+    };
+
+    const handle = (msg: WorkerMessage) => {
+        if (msg.type === "init") {
+            target = {
+                width: msg.width,
+                height: msg.height,
+                samples: msg.samples,
+                littleEndian: msg.littleEndian,
+                data32: new Uint32Array(msg.color),
+                zBuffer: new Float32Array(msg.depth),
+                hdr: msg.hdr ? new Float32Array(msg.hdr) : null,
+                accum: msg.accum ? new Float32Array(msg.accum) : null,
+                revealage: msg.revealage ? new Float32Array(msg.revealage) : null
+            };
+        } else if (msg.type === "materials") {
+            materials = msg.materials;
+        } else if (msg.type === "programs") {
+            for (const source of msg.sources) programs.push(compile(source));
+        } else if (msg.type === "frame") {
+            try {
+                // The kernel sets the uniforms left out of WorkerDraw before shading
+                const draws = msg.draws.map(d => ({ fragment: programs[d.program], uniforms: d.uniforms as DrawUniforms, varyings: d.varyings }));
+                const state = { materials, lights: msg.lights, eye: msg.eye, linear: msg.linear, draws };
+                const tileCount = msg.tilesX * msg.tilesY;
+                const size = msg.tileSize;
+                // Take tiles until none are left, so fast workers pick up the slack of slow ones
+                for (let tile = Atomics.add(msg.counter, 0, 1); tile < tileCount; tile = Atomics.add(msg.counter, 0, 1)) {
+                    const x0 = (tile % msg.tilesX) * size, y0 = Math.floor(tile / msg.tilesX) * size;
+                    kernel.rasterizeTile(
+                        msg.triangles, msg.binItems, msg.binOffsets[tile], msg.binOffsets[tile + 1],
+                        x0, y0, x0 + size, y0 + size, target!, state
+                    );
+                }
+                port.postMessage({ type: "done" });
+            } catch (e) {
+                port.postMessage({ type: "error", message: String((e as Error)?.stack ?? e) });
+            }
+        }
+    };
+
+    if (typeof port.on === "function") port.on("message", handle);
+    else port.onmessage = e => handle(e.data);
+}
+
+const WORKER_SOURCE = `"use strict";
+const port = typeof self !== "undefined" ? self : require("node:worker_threads").parentPort;
+(${rasterWorkerMain.toString()})((${createRasterKernel.toString()})(), port);
+`;
+
+/**
+ * A pool of workers that rasterize binned triangles straight into a shared framebuffer.
+ * Browser Workers are started from a Blob URL, Node/Bun ones through worker_threads.
+ */
+export class RasterPool {
+    private workers: WorkerHandle[] = [];
+    private remaining = 0;
+    private settle: ((error?: Error) => void) | null = null;
+    private materialsVersion = -1;
+    // Fragment functions already compiled in the workers, their index by source, so functions
+    // re-created every frame compile once
+    private programs = new Map<string, number>();
+
+    private constructor() { }
+
+    /** Workers need SharedArrayBuffer, which browsers only expose on cross-origin isolated pages */
+    static isSupported(): boolean {
+        return typeof SharedArrayBuffer !== "undefined" && (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated !== false;
+    }
+
+    /**
+     * @param framebuffer Must be shared (see Framebuffer)
+     */
+    static async create(size: number, framebuffer: Framebuffer): Promise<RasterPool> {
+        if (!framebuffer.shared) throw new Error("RasterPool needs a shared framebuffer");
+        const pool = new RasterPool();
+        for (let i = 0; i < size; i++) {
+            const worker = await pool.spawn();
+            worker.postMessage({
+                type: "init",
+                color: framebuffer.buffer as SharedArrayBuffer,
+                depth: framebuffer.zBuffer.buffer as SharedArrayBuffer,
+                hdr: (framebuffer.hdr?.buffer ?? null) as SharedArrayBuffer | null,
+                accum: (framebuffer.accum?.buffer ?? null) as SharedArrayBuffer | null,
+                revealage: (framebuffer.revealage?.buffer ?? null) as SharedArrayBuffer | null,
+                width: framebuffer.width,
+                height: framebuffer.height,
+                samples: framebuffer.samples,
+                littleEndian: framebuffer.littleEndian
+            } satisfies WorkerMessage);
+            pool.workers.push(worker);
+        }
+        return pool;
+    }
+
+    get size() {
+        return this.workers.length;
+    }
+
+    /**
+     * Rasterize every tile of the job; resolves once all workers are done.
+     * @param materialsVersion Changes whenever `materials` does, so they're only re-sent then
+     */
+    public run(job: TileJob, state: KernelFrameState, materialsVersion: number): Promise<void> {
+        if (this.settle) return Promise.reject(new Error("RasterPool is already running a frame"));
+        if (materialsVersion !== this.materialsVersion) {
+            this.broadcast({ type: "materials", materials: state.materials });
+            this.materialsVersion = materialsVersion;
+        }
+        return new Promise<void>((resolve, reject) => {
+            this.remaining = this.workers.length;
+            this.settle = (error) => {
+                this.settle = null;
+                for (const worker of this.workers) worker.unref?.();
+                if (error) reject(error);
+                else resolve();
+            };
+            for (const worker of this.workers) worker.ref?.();
+            const counter = new Int32Array(new SharedArrayBuffer(4));
+            const draws = this.workerDraws(state);
+            this.broadcast({ type: "frame", counter, lights: state.lights, eye: state.eye, linear: state.linear, draws, ...job });
+        });
+    }
+
+    public dispose() {
+        for (const worker of this.workers) worker.terminate();
+        this.workers = [];
+        this.programs.clear();
+        this.settle?.(new Error("RasterPool disposed"));
+    }
+
+    /**
+     * The frame's draws as workers take them, sending the source of fragment functions they
+     * haven't seen yet first. The kernel fills in the uniforms shared by the whole frame itself,
+     * so those aren't copied with every draw.
+     */
+    private workerDraws(state: KernelFrameState): WorkerDraw[] {
+        const sources: string[] = [];
+        const draws = state.draws.map(({ fragment, uniforms, varyings }) => {
+            const source = fragment.toString();
+            let program = this.programs.get(source);
+            if (program === undefined) {
+                program = this.programs.size;
+                this.programs.set(source, program);
+                sources.push(source);
+            }
+            const { material, lights, eye, linear, ...own } = uniforms;
+            return { program, uniforms: own, varyings };
+        });
+        if (sources.length) this.broadcast({ type: "programs", sources });
+        return draws;
+    }
+
+    private broadcast(message: WorkerMessage) {
+        for (const worker of this.workers) worker.postMessage(message);
+    }
+
+    private onReply(reply: WorkerReply) {
+        if (!this.settle) return;
+        if (reply.type === "error") {
+            this.settle(new Error(`Raster worker failed: ${reply.message}`));
+        } else if (--this.remaining === 0) {
+            this.settle();
+        }
+    }
+
+    private onError(error: unknown) {
+        this.settle?.(error instanceof Error ? error : new Error(String((error as ErrorEvent)?.message ?? error)));
+    }
+
+    private async spawn(): Promise<WorkerHandle> {
+        if (typeof Worker !== "undefined") {
+            const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+            const worker = new Worker(url);
+            worker.onmessage = (e) => this.onReply(e.data);
+            worker.onerror = (e) => this.onError(e);
+            return worker;
+        }
+        const { Worker: NodeWorker } = await import(/* @vite-ignore */ NODE_WORKER_THREADS);
+        const worker = new NodeWorker(WORKER_SOURCE, { eval: true });
+        worker.on("message", (reply: WorkerReply) => this.onReply(reply));
+        worker.on("error", (error: Error) => this.onError(error));
+        // Idle workers shouldn't keep the process alive; run() refs them while a frame is in flight
+        worker.unref();
+        return worker;
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * How a blended fragment combines with the color already in the frame:
+ * "normal" draws it over with its opacity, "additive" adds its color times its opacity and
+ * "multiply" darkens the frame by its color, faded by its opacity.
+ */
+export type BlendMode = "normal" | "additive" | "multiply";
+
+/** Fixed-function state meshes are drawn with; see SceneNode.renderState */
+export interface RenderState {
+    /** Hide fragments behind what is already in the depth buffer */
+    depthTest: boolean;
+    /** Store the depth of drawn fragments; "auto" stores it for opaque meshes only */
+    depthWrite: boolean | "auto";
+    blend: BlendMode;
+    /** Multiplies the material's opacity (MTL d, or 1 - Tr); below 1 the mesh is blended */
+    opacity: number;
+}
+
+/** Depth tested and written, opaque unless the material says otherwise */
+export function createRenderState(): RenderState {
+    return {
+        depthTest: true,
+        depthWrite: "auto",
+        blend: "normal",
+        opacity: 1
+    };
+}
@@ -1,59 +1,229 @@
 // External Imports
-import type { ObjModel } from "./Loaders/OBJLoader";
+import type { Material, MeshData, ObjModel } from "./Loaders/OBJLoader";
+import type { RenderTarget } from "./Targets/RenderTarget";
 import type { Camera } from "./Objects/Camera";
+import type { CameraController } from "./Controls/CameraController";
 import type { DirectionalLight } from "./Objects/DirectionalLight";
+import type { SpotLight } from "./Objects/SpotLight";
+import type { Light, LightSet, ResolvedShadow } from "./Lighting";
+import type { DrawUniforms, KernelDraw, KernelFrameState } from "./Raster/RasterKernel";
+import type { Shader } from "./Shaders/Shader";
+import type { RenderState } from "./RenderState";
 
 // Internal Imports
+import { Framebuffer } from "./Framebuffer";
+import { SceneNode } from "./Scene/SceneNode";
+import { CanvasTarget } from "./Targets/CanvasTarget";
+import { encodePNG } from "./Image/PNG";
+import { encodePPM } from "./Image/PPM";
+import { DEFAULT_MATERIAL, resolveShadingMaterial, type ShadingMaterial } from "./Materials";
+import { resolveLights } from "./Lighting";
+import { localKernel } from "./Raster/RasterKernel";
+import { srgbToLinear } from "./ColorSpace";
+import { RasterPool, type TileJob } from "./Raster/RasterPool";
+import { VertexStage } from "./VertexStage";
+import { MAX_VARYINGS } from "./Shaders/Shader";
+import { FlatShader, GouraudShader, PhongShader } from "./Shaders/Shaders";
+import { buildMeshBVH, type BVHNode, type MeshBVH } from "./MeshBVH";
+import { ShadowMap, type ShadowCaster } from "./ShadowMap";
+import { applyFXAA, downsample, fxaaScratchBytes, resolveSamples } from "./Antialias";
+import { PostProcessChain, type PostPass } from "./PostProcess/PostProcess";
+import { GammaPass } from "./PostProcess/Passes";
 import {
-    computeBlinnPhongLighting,
-    getScreenVertex,
-    isTriangleClipped,
-    mat4LookAt,
+    mat3NormalFromMat4,
+    mat4Identity,
     mat4Mul,
-    mat4MulVec4,
-    mat4Perspective,
-    mat4RotateY,
     snapVertexToGrid,
-    transformTriangleToScreen,
-    vcross,
-    vdot,
-    vnorm,
-    vsub,
-    type ScreenVertex,
+    boundingBoxCenter,
+    frustumPlanes,
+    classifySphere,
+    classifyAABB,
+    type FrustumTest,
+    clipPolygon,
+    clipToScreen,
     type Vec3,
     type Mat4,
-    projectVertex,
+    type Mat3,
+    clipLine2D,
+    type ClipVertex,
 } from "./Math";
 
+/**
+ * The built-in shading: "gouraud" lights at the vertices and interpolates the color, "phong"
+ * interpolates normals and lights every pixel ("blinn-phong" is the old name of "gouraud").
+ * "wireframe" draws every edge, "hidden-line" only the edges not covered by a surface.
+ * "flat", "gouraud" and "phong" draw the same as FlatShader, GouraudShader and PhongShader.
+ */
+export type ShadingMode = "flat" | "gouraud" | "phong" | "blinn-phong" | "wireframe" | "hidden-line";
+
 export interface RendererOptions {
-    shading?: "flat" | "blinn-phong" | "wireframe";
+    /** A built-in mode or a custom shader for every mesh; scene nodes can set their own shader */
+    shading?: ShadingMode | Shader<object>;
     snapVertices?: boolean;
+    /** Line color for wireframe, hidden-line and overlay edges (default white) */
+    wireframeColor?: [number, number, number];
+    /** Draw the mesh edges on top of the solid shading modes */
+    wireframeOverlay?: boolean;
+    /** Material for meshes without a usemtl or whose material is missing from the MTL */
+    defaultMaterial?: Material;
+    /** Gray ambient level used when the scene has no AmbientLight or HemisphereLight (default 0.15) */
+    ambient?: number;
+    /**
+     * Number of raster workers used by renderFrameAsync and start (default 0: rasterize on this
+     * thread). Needs SharedArrayBuffer, i.e. a cross-origin isolated page in browsers; without it
+     * frames are rasterized on this thread.
+     */
+    threads?: number;
+    /**
+     * Meshes with at least this many triangles get a bounding volume hierarchy, so clusters of
+     * their triangles outside the view are skipped as a whole (default 4096, 0 turns it off)
+     */
+    clusterCulling?: number;
+    /**
+     * "ssaa" renders at antialiasSamples times the resolution on each axis and box-filters down,
+     * "msaa" tests coverage and depth at antialiasSamples points per pixel but shades each
+     * triangle once per pixel, "fxaa" blurs along the color edges of the finished frame
+     * (default "none")
+     */
+    antialias?: "none" | "ssaa" | "msaa" | "fxaa";
+    /** Supersampling factor per axis for "ssaa" (default 2), samples per pixel for "msaa": 2, 4 or 8 (default 4) */
+    antialiasSamples?: number;
+    /**
+     * Light in linear space into a floating-point color buffer: material, texture and light
+     * colors are decoded from sRGB first, and highlights may go above 1 until the post-process
+     * chain tone maps and encodes them (default false: light the sRGB values into 8 bits)
+     */
+    linearLighting?: boolean;
+    /**
+     * Passes run over every finished frame, in order (see getPostProcess). Defaults to a
+     * GammaPass with linearLighting and to none otherwise.
+     */
+    postProcess?: PostPass[];
+    /**
+     * How meshes with an opacity below 1 are blended. "sorted" draws their triangles after the
+     * opaque ones, back to front; "weighted" uses weighted blended order-independent
+     * transparency, which stays stable where transparent meshes intersect at the cost of
+     * approximating the order (default "sorted"). Additive and multiply blending don't depend
+     * on the order and are drawn directly in both modes.
+     */
+    transparency?: "sorted" | "weighted";
+}
+
+/** Counters for the last frame */
+export interface RenderStats {
+    /** Meshes on visible scene nodes */
+    meshes: number;
+    /** Meshes whose bounds were entirely outside the view frustum */
+    meshesCulled: number;
+    /** Triangles of all those meshes */
+    triangles: number;
+    /** Triangles skipped because their mesh or BVH cluster was outside the view frustum */
+    trianglesCulled: number;
+    /** BVH clusters outside the view frustum in meshes that were not culled as a whole */
+    clustersCulled: number;
+    /** Bytes of the buffers kept for antialiasing on top of a plain framebuffer of the target's size */
+    antialiasBytes: number;
+    /** Milliseconds spent resolving samples or in the FXAA pass */
+    antialiasMs: number;
+    /** Milliseconds spent in the post-process chain, including the conversions around it */
+    postProcessMs: number;
+    /** Raster workers that drew the last frame, 0 when it was rasterized on this thread */
+    threads: number;
 }
 
+// Triangles are binned into square screen tiles that are rasterized independently
+const TILE_SIZE = 64;
+
+// Vertex record layout of the raster kernel, used for the polygon being assembled
+const VERTEX_STRIDE = localKernel.VERTEX_STRIDE;
+const { COLOR, SPECULAR, NORMAL, UV, WORLD, VARYINGS } = localKernel.vertexLayout;
+const ATTR = localKernel.attributes;
+// A triangle clipped against the six frustum planes has at most nine vertices
+const MAX_POLYGON = 9;
+
+// Built-in shaders drawn by the native code of their modes, which is faster and draws the same
+const NATIVE_SHADERS = new Map<object, ShadingMode>([
+    [FlatShader.prototype, "flat"], [GouraudShader.prototype, "gouraud"], [PhongShader.prototype, "phong"]
+]);
+
+/** The built-in mode the shader stands for, unless it is a subclass or has functions of its own */
+function nativeShading(shader: Shader<object>): ShadingMode | undefined {
+    if (Object.hasOwn(shader, "vertex") || Object.hasOwn(shader, "fragment") || Object.hasOwn(shader, "triangle")) return undefined;
+    return NATIVE_SHADERS.get(Object.getPrototypeOf(shader));
+}
+
+const MSAA_SAMPLE_COUNTS = [2, 4, 8];
+// Grid (in pixels) vertices are snapped to with snapVertices
+const SNAP_GRID = 5;
+
+// Pull edges 0.5% of the remaining depth range towards the camera so they win over their own faces
+const WIREFRAME_DEPTH_BIAS = 0.005;
+
 export class Renderer {
 
-    // Canvas and Context
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-    private width: number;
-    private height: number;
+    // Output
+    private target: RenderTarget;
+    // Set by allocateBuffers, like the tile grid.
+    // What the scene is rasterized into: larger than the target with SSAA, multisampled with MSAA
+    private framebuffer!: Framebuffer;
+    // The finished frame at the target's size; the same buffers as `framebuffer` without SSAA or MSAA
+    private output!: Framebuffer;
+    // Size of `framebuffer`
+    private width!: number;
+    private height!: number;
+    // Supersampling factor per axis, 1 without SSAA
+    private ssaaScale: number;
+    private fxaaScratch: ArrayBuffer | null = null;
+    private postProcess: PostProcessChain;
+    // The 8-bit frame as floats for the post chain, when not lighting into HDR buffers
+    private postColor = new Float32Array(0);
 
     // Rendering State
     private running: boolean = false;
     private timescale: number = 0.001;
-    private littleEndian: boolean;
-
-    // Buffers
-    private imageData: ImageData | undefined;
-    private buffer: ArrayBuffer;
-    private buf8: Uint8ClampedArray;
-    private data32: Uint32Array;
-    private zBuffer: Float32Array;
 
     // Scene Data
-    private objModels: ObjModel[] = [];
+    private scene: SceneNode = new SceneNode("root");
     private mainCamera: Camera | null = null;
     private mainDirectionalLight: DirectionalLight | null = null;
+    private lights: Light[] = [];
+    // Resolved for the frame being drawn
+    private activeCamera: Camera | null = null;
+    private activeLights: LightSet = { ambient: { x: 0, y: 0, z: 0 }, lights: [] };
+    private activeNormalMatrix: Mat3 = mat3NormalFromMat4(mat4Identity());
+    private activeEye: Vec3 = { x: 0, y: 0, z: 0 };
+    private activeView: Mat4 = mat4Identity();
+    private activeProjection: Mat4 = mat4Identity();
+    private activeReceiveShadow = true;
+    // Built-in mode of the node being drawn, from the shading option or a built-in shader
+    private activeShading: ShadingMode | undefined;
+    // Kernel render-state bits and opacity of the mesh being drawn, and whether it is blended
+    private activeStateBits = 0;
+    private activeAlpha = 1;
+    private activeTransparent = false;
+    // Meshes drawn with custom shaders this frame, and the index of the one being drawn (-1: none)
+    private draws: KernelDraw[] = [];
+    private activeDraw = -1;
+    // Varyings of the triangle being drawn for its shader's triangle function, packed per vertex
+    private cornerVaryings = new Float64Array(3 * MAX_VARYINGS);
+    private polygonVaryings = new Float64Array(MAX_POLYGON * MAX_VARYINGS);
+    // Depth maps of the shadow-casting lights, kept between frames
+    private shadowMaps = new Map<DirectionalLight | SpotLight, ShadowMap>();
+    // World-space dP/du then dP/dv of the triangle being drawn, for normal and bump maps
+    private tangentFrame = new Float64Array(6);
+    private hasTangentFrame = false;
+
+    /** Called with the frame time (seconds) before each frame; animate scene nodes here */
+    public onUpdate: ((time: number) => void) | null = null;
+    /**
+     * Called when the raster workers fail to start or fail during a frame, after which frames
+     * are rasterized on this thread, and with errors that stop the loop started by start().
+     * Without a handler, errors that stop the loop are rethrown from a timer, as uncaught errors.
+     */
+    public onError: ((error: Error) => void) | null = null;
+    private controllers: CameraController[] = [];
+    // Frame time (seconds) of the previous frame, for the controllers' time step
+    private lastFrameTime: number | null = null;
 
     // Performance Metrics
     private lastFpsUpdate: number = 0;
@@ -63,155 +233,236 @@ export class Renderer {
     // Renderer Options
     private options: RendererOptions;
 
-    // Add a precomputed projection matrix
-    private projMatrix: Mat4;
-
-    // Initialize the rasterization worker
-    private rasterWorker: Worker;
-
-    constructor(canvasId: string, options: RendererOptions = {}) {
+    // Reused every frame
+    private viewProj: Mat4 = mat4Identity();
+    private mvp: Mat4 = mat4Identity();
+
+    // Per-vertex results for the mesh being drawn, and the (clipped) triangle assembled from them
+    // as kernel vertex records
+    private vertexStage = new VertexStage();
+    private polygon = new Float64Array(MAX_POLYGON * VERTEX_STRIDE);
+    private lit = new Float64Array(6);
+    private clippedEdge = new Float64Array(6);
+    // Frustum planes of the node being drawn, in its model space
+    private planes = new Float64Array(24);
+    private stats: RenderStats = {
+        meshes: 0, meshesCulled: 0, triangles: 0, trianglesCulled: 0, clustersCulled: 0,
+        antialiasBytes: 0, antialiasMs: 0, postProcessMs: 0, threads: 0
+    };
+
+    // Triangles packed for the raster kernel, and per tile the indices of those touching it
+    private triangles: Float64Array;
+    private triangleCount = 0;
+    private tilesX!: number;
+    private tilesY!: number;
+    private bins!: number[][];
+    // Blended triangles, binned after the opaque ones: packed index, depth and bounding box (6 numbers each)
+    private transparent: number[] = [];
+    // Wireframe edges (x0, y0, z0, x1, y1, z1, r, g, b, depthBias), drawn once the triangles are done
+    private lines: number[] = [];
+
+    // Raster workers, started on the first threaded frame
+    private pool: Promise<RasterPool | null> | null = null;
+    // Set once the workers failed; frames are rasterized on this thread from then on
+    private workersFailed = false;
+
+    // Material of the mesh being drawn (and its index in `materials`), and resolved materials per MTL entry
+    private activeMaterial: ShadingMaterial;
+    private activeMaterialId = 0;
+    private defaultMaterial: ShadingMaterial;
+    private materialCache = new WeakMap<Material, ShadingMaterial>();
+    // Materials referenced by packed triangles; grows as new materials are drawn
+    private materialIds = new Map<ShadingMaterial, number>();
+    private materials: ShadingMaterial[] = [];
+
+    // Unique edges per mesh for the wireframe modes
+    private edgeCache = new WeakMap<MeshData, Uint32Array>();
+    // Triangle clusters of large meshes for culling
+    private bvhCache = new WeakMap<MeshData, MeshBVH>();
+
+    /**
+     * @param target Where finished frames go. A string is treated as a canvas element id
+     * (browser only); pass a MemoryTarget to render headless under Node/Bun.
+     */
+    constructor(target: RenderTarget | string, options: RendererOptions = {}) {
         this.options = options;
-        this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
-        this.ctx = this.canvas.getContext("2d")!;
-        this.width = this.canvas.width;
-        this.height = this.canvas.height;
-        this.imageData = this.ctx?.getImageData(0, 0, this.width, this.height);
-        const byteLen = this.imageData.data.length; // bytes = width * height * 4
-
-        this.buffer = new ArrayBuffer(byteLen);
-        this.buf8 = new Uint8ClampedArray(this.buffer);
-        this.data32 = new Uint32Array(this.buffer);
-
-        const tmp = new Uint32Array([0x0a0b0c0d]);
-        const tmp8 = new Uint8Array(tmp.buffer);
-        // if tmp8[0] === 0x0d it's little-endian (lowest byte at lowest address)
-        this.littleEndian = tmp8[0] === 0x0d;
-
-        this.zBuffer = new Float32Array(this.width * this.height);
-        this.clearZ();
-
-        // Precompute the projection matrix
-        const aspect = this.width / this.height;
-        this.projMatrix = mat4Perspective(Math.PI / 3, aspect, 0.1, 100);
-
-        // Initialize the rasterization worker
-        this.rasterWorker = new Worker("./src/RasterWorker.js");
-        this.rasterWorker.onmessage = (event) => {
-            const { buf8 } = event.data;
-            this.buf8.set(buf8);
-            this.present();
-        };
-    }
-
-    private drawLine3DEFLA(x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, r: number, g: number, b: number, a = 255): void {
-        let dx = Math.abs(x1 - x0);
-        let dy = Math.abs(y1 - y0);
-        let dz = Math.abs(z1 - z0);
-
-        let xs = x0 < x1 ? 1 : -1;
-        let ys = y0 < y1 ? 1 : -1;
-        let zs = z0 < z1 ? 1 : -1;
-
-        let longLen = Math.max(dx, dy, dz);
-        let shortLen1 = 0, shortLen2 = 0;
-
-        if (longLen === dx) {
-            shortLen1 = dy;
-            shortLen2 = dz;
-        } else if (longLen === dy) {
-            shortLen1 = dx;
-            shortLen2 = dz;
-        } else {
-            shortLen1 = dx;
-            shortLen2 = dy;
+        this.target = typeof target === "string" ? new CanvasTarget(target) : target;
+        const antialias = options.antialias ?? "none";
+        this.ssaaScale = antialias === "ssaa" ? Math.max(1, Math.floor(options.antialiasSamples ?? 2)) : 1;
+        if (antialias === "msaa" && !MSAA_SAMPLE_COUNTS.includes(options.antialiasSamples ?? 4)) {
+            throw new Error(`Unsupported MSAA sample count: ${options.antialiasSamples} (use 2, 4 or 8)`);
         }
+        this.allocateBuffers(Math.max(1, this.target.width), Math.max(1, this.target.height), (options.threads ?? 0) > 0 && RasterPool.isSupported());
+        this.triangles = this.allocateTriangles(1024);
+        this.postProcess = new PostProcessChain(options.postProcess ?? (options.linearLighting ? [new GammaPass()] : []));
 
-        let decInc1 = shortLen1 === 0 ? 0 : (shortLen1 << 16) / longLen;
-        let decInc2 = shortLen2 === 0 ? 0 : (shortLen2 << 16) / longLen;
+        this.defaultMaterial = resolveShadingMaterial(options.defaultMaterial ?? DEFAULT_MATERIAL, undefined, options.linearLighting);
+        this.activeMaterial = this.defaultMaterial;
+    }
 
-        let j1 = 0, j2 = 0;
+    /**
+     * EFLA (Extremely Fast Line Algorithm) stepping along the major screen axis in 16.16 fixed point.
+     * Depth is interpolated linearly along the line, which is exact for post-divide z.
+     * @param depthBias Fraction of the remaining depth range (1 - z) the line is pulled towards
+     * the camera, so edges drawn over their own faces win the depth test.
+     */
+    private drawLine3DEFLA(x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, r: number, g: number, b: number, a = 255, depthBias = 0): void {
+        const clipped = clipLine2D(x0, y0, x1, y1, 0, 0, this.width - 1, this.height - 1);
+        if (!clipped) return;
+        const [t0, t1] = clipped;
+        const zStart = z0 + (z1 - z0) * t0;
+        const zEnd = z0 + (z1 - z0) * t1;
+        let x = Math.round(x0 + (x1 - x0) * t0);
+        let y = Math.round(y0 + (y1 - y0) * t0);
+        const xEnd = Math.round(x0 + (x1 - x0) * t1);
+        const yEnd = Math.round(y0 + (y1 - y0) * t1);
+
+        const dx = Math.abs(xEnd - x);
+        const dy = Math.abs(yEnd - y);
+        const xs = x < xEnd ? 1 : -1;
+        const ys = y < yEnd ? 1 : -1;
+        const xMajor = dx >= dy;
+        const longLen = xMajor ? dx : dy;
+        const shortLen = xMajor ? dy : dx;
+
+        const decInc = longLen === 0 ? 0 : (shortLen << 16) / longLen;
+        const zInc = longLen === 0 ? 0 : (zEnd - zStart) / longLen;
+
+        let j = 0;
+        let z = zStart;
         for (let i = 0; i <= longLen; i++) {
-            if (this.depthTest(x0, y0, z0)) {
-                this.setPixel(x0, y0, r, g, b, a);
+            if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
+                this.framebuffer.plot(x, y, z - depthBias * (1 - z), r, g, b, a);
             }
 
-            if (longLen === dx) {
-                x0 += xs;
-                j1 += decInc1;
-                j2 += decInc2;
-                y0 += (j1 >> 16) * ys;
-                z0 += (j2 >> 16) * zs;
-                j1 &= 0xFFFF;
-                j2 &= 0xFFFF;
-            } else if (longLen === dy) {
-                y0 += ys;
-                j1 += decInc1;
-                j2 += decInc2;
-                x0 += (j1 >> 16) * xs;
-                z0 += (j2 >> 16) * zs;
-                j1 &= 0xFFFF;
-                j2 &= 0xFFFF;
+            j += decInc;
+            if (xMajor) {
+                x += xs;
+                y += (j >> 16) * ys;
             } else {
-                z0 += zs;
-                j1 += decInc1;
-                j2 += decInc2;
-                x0 += (j1 >> 16) * xs;
-                y0 += (j2 >> 16) * ys;
-                j1 &= 0xFFFF;
-                j2 &= 0xFFFF;
+                y += ys;
+                x += (j >> 16) * xs;
             }
+            j &= 0xFFFF;
+            z += zInc;
         }
     }
 
-    private drawTriangleScanline(v0: ScreenVertex, v1: ScreenVertex, v2: ScreenVertex, color: Vec3 = { x: 200, y: 120, z: 60 }) {
-        // Sort vertices by y
-        let [a, b, c] = [v0, v1, v2].sort((v1, v2) => v1.y - v2.y);
-
-        // Precompute bounding box
-        const minY = Math.max(0, Math.ceil(Math.min(a.y, b.y, c.y)));
-        const maxY = Math.min(this.height - 1, Math.floor(Math.max(a.y, b.y, c.y)));
-
-        // Precompute edge interpolations
-        const edgeAC = precomputeEdge(a, c);
-        const edgeAB = precomputeEdge(a, b);
-        const edgeBC = precomputeEdge(b, c);
-
-        for (let y = minY; y <= maxY; y++) {
-            // Find x-intersections with edges
-            let x1 = interpolateEdge(edgeAC, y);
-            let x2 = y < b.y ? interpolateEdge(edgeAB, y) : interpolateEdge(edgeBC, y);
+    /**
+     * Pack a triangle of the polygon being assembled for the raster kernel and add it to the bins
+     * of the tiles its bounding box touches. Blended triangles are set aside for binTransparent.
+     * @param i0 Index of the first vertex in `polygon`, likewise i1 and i2
+     * @param attributes Kernel attribute bits of the polygon's vertex records
+     * @param writeColor false for depth-only passes
+     * @param r Flat color, used when the vertices carry no color or world position, likewise g and b
+     */
+    private queueTriangle(i0: number, i1: number, i2: number, attributes: number, writeColor: boolean, r: number, g: number, b: number) {
+        const p = this.polygon;
+        const o0 = i0 * VERTEX_STRIDE, o1 = i1 * VERTEX_STRIDE, o2 = i2 * VERTEX_STRIDE;
+        const minX = Math.max(0, Math.floor(Math.min(p[o0], p[o1], p[o2])));
+        const maxX = Math.min(this.width - 1, Math.ceil(Math.max(p[o0], p[o1], p[o2])));
+        const minY = Math.max(0, Math.floor(Math.min(p[o0 + 1], p[o1 + 1], p[o2 + 1])));
+        const maxY = Math.min(this.height - 1, Math.ceil(Math.max(p[o0 + 1], p[o1 + 1], p[o2 + 1])));
+        if (minX > maxX || minY > maxY) return;
+
+        const tri = this.triangleCount;
+        if ((tri + 1) * localKernel.TRIANGLE_STRIDE > this.triangles.length) {
+            const grown = this.allocateTriangles(this.triangles.length / localKernel.TRIANGLE_STRIDE * 2);
+            grown.set(this.triangles);
+            this.triangles = grown;
+        }
+        const packed = localKernel.packTriangle(
+            this.triangles, tri, p, i0, i1, i2, attributes | this.activeStateBits, writeColor, r, g, b,
+            this.activeMaterialId, this.hasTangentFrame ? this.tangentFrame : null, this.activeAlpha, this.activeDraw
+        );
+        if (!packed) return;
+        this.triangleCount++;
+
+        if (this.activeTransparent && writeColor) {
+            this.transparent.push(tri, (p[o0 + 2] + p[o1 + 2] + p[o2 + 2]) / 3, minX, minY, maxX, maxY);
+            return;
+        }
+        this.binTriangle(tri, minX, minY, maxX, maxY);
+    }
 
-            if (x1 > x2) [x1, x2] = [x2, x1];
+    /** Add packed triangle `tri` to the bins of the tiles the pixel rectangle touches */
+    private binTriangle(tri: number, minX: number, minY: number, maxX: number, maxY: number) {
+        for (let ty = Math.floor(minY / TILE_SIZE); ty <= Math.floor(maxY / TILE_SIZE); ty++) {
+            for (let tx = Math.floor(minX / TILE_SIZE); tx <= Math.floor(maxX / TILE_SIZE); tx++) {
+                this.bins[ty * this.tilesX + tx].push(tri);
+            }
+        }
+    }
 
-            const startX = Math.max(0, Math.ceil(x1));
-            const endX = Math.min(this.width - 1, Math.floor(x2));
+    /**
+     * Bin the blended triangles behind the opaque ones, so they are drawn over a finished depth
+     * buffer; back to front unless the transparency is order independent.
+     */
+    private binTransparent() {
+        const t = this.transparent;
+        const order = Array.from({ length: t.length / 6 }, (_, i) => i * 6);
+        if (this.options.transparency !== "weighted") order.sort((a, b) => t[b + 1] - t[a + 1]);
+        for (const i of order) this.binTriangle(t[i], t[i + 2], t[i + 3], t[i + 4], t[i + 5]);
+    }
 
-            for (let x = startX; x <= endX; x++) {
-                const t = (x2 === x1) ? 0 : (x - x1) / (x2 - x1);
-                const z = interpolateZ(edgeAC, edgeAB, edgeBC, x, y, t);
+    /** Room for `count` packed triangles, shared with the workers when the framebuffer is */
+    private allocateTriangles(count: number): Float64Array {
+        const bytes = count * localKernel.TRIANGLE_STRIDE * Float64Array.BYTES_PER_ELEMENT;
+        return new Float64Array(this.framebuffer.shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes));
+    }
 
-                if (this.depthTest(x, y, z)) {
-                    this.setPixel(x, y, color.x, color.y, color.z);
-                }
-            }
+    private materialId(material: ShadingMaterial): number {
+        let id = this.materialIds.get(material);
+        if (id === undefined) {
+            id = this.materials.length;
+            this.materials.push(material);
+            this.materialIds.set(material, id);
         }
+        return id;
+    }
 
-        function precomputeEdge(vStart: ScreenVertex, vEnd: ScreenVertex) {
-            const dy = vEnd.y - vStart.y;
-            const dx = vEnd.x - vStart.x;
-            const dz = vEnd.z - vStart.z;
-            return { vStart, vEnd, dx, dy, dz };
+    /** Rasterize every tile on this thread */
+    private rasterizeTiles() {
+        const state = this.frameState();
+        for (let t = 0; t < this.bins.length; t++) {
+            const bin = this.bins[t];
+            if (!bin.length) continue;
+            const x0 = (t % this.tilesX) * TILE_SIZE, y0 = Math.floor(t / this.tilesX) * TILE_SIZE;
+            localKernel.rasterizeTile(this.triangles, bin, 0, bin.length, x0, y0, x0 + TILE_SIZE, y0 + TILE_SIZE, this.framebuffer, state);
         }
+    }
+
+    private frameState(): KernelFrameState {
+        return {
+            materials: this.materials, lights: this.activeLights, eye: this.activeEye,
+            linear: this.options.linearLighting ?? false, draws: this.draws
+        };
+    }
 
-        function interpolateEdge(edge: any, y: number): number {
-            const { vStart, vEnd, dx, dy } = edge;
-            if (dy === 0) return vStart.x;
-            return vStart.x + dx * ((y - vStart.y) / dy);
+    /** The bins flattened into shared memory for the workers */
+    private tileJob(): TileJob {
+        let total = 0;
+        for (const bin of this.bins) total += bin.length;
+        const binOffsets = new Uint32Array(new SharedArrayBuffer((this.bins.length + 1) * 4));
+        const binItems = new Uint32Array(new SharedArrayBuffer(Math.max(1, total) * 4));
+        let offset = 0;
+        for (let t = 0; t < this.bins.length; t++) {
+            binOffsets[t] = offset;
+            binItems.set(this.bins[t], offset);
+            offset += this.bins[t].length;
         }
+        binOffsets[this.bins.length] = offset;
+        return { triangles: this.triangles, binOffsets, binItems, tilesX: this.tilesX, tilesY: this.tilesY, tileSize: TILE_SIZE };
+    }
 
-        function interpolateZ(edgeAC: any, edgeAB: any, edgeBC: any, x: number, y: number, t: number): number {
-            // Simplified Z interpolation logic for demonstration
-            return edgeAC.vStart.z + (edgeAC.vEnd.z - edgeAC.vStart.z) * t;
+    private drawQueuedLines() {
+        const lines = this.lines;
+        for (let i = 0; i < lines.length; i += 10) {
+            this.drawLine3DEFLA(
+                lines[i], lines[i + 1], lines[i + 2],
+                lines[i + 3], lines[i + 4], lines[i + 5],
+                lines[i + 6], lines[i + 7], lines[i + 8], 255, lines[i + 9]
+            );
         }
     }
 
@@ -221,12 +472,9 @@ export class Renderer {
         this.running = true;
         this.lastFpsUpdate = performance.now();
         this.frameCount = 0;
-        const loop = (t: number) => {
-            this.clear(20, 20, 30);
-            this.clearZ();
-            this.renderPixel(t * this.timescale);
-            this.present();
-
+        // Don't let controllers catch up on the time spent stopped
+        this.lastFrameTime = null;
+        const next = () => {
             // FPS calculation
             this.frameCount++;
             const now = performance.now();
@@ -237,12 +485,21 @@ export class Renderer {
             }
 
             // Draw FPS
-            this.ctx.fillStyle = "white";
-            this.ctx.font = "16px monospace";
-            this.ctx.fillText(`FPS: ${this.fps}`, 10, 20);
+            this.target.drawText?.(`FPS: ${this.fps}`, 10, 20);
 
             if (this.running) requestAnimationFrame(loop);
         };
+        const fail = (e: unknown) => {
+            // dispose() rejects a threaded frame that is still running; that frame is just dropped
+            if (!this.running) return;
+            this.running = false;
+            const error = e instanceof Error ? e : new Error(String(e));
+            if (this.onError) this.onError(error);
+            // Thrown outside the promise chain, so it is reported as an uncaught error
+            else setTimeout(() => { throw error; });
+        };
+        // Resolves once the frame is drawn or its error handled
+        const loop = (t: number) => this.renderFrameAsync(t).then(next, fail);
         requestAnimationFrame(loop);
     }
 
@@ -254,223 +511,952 @@ export class Renderer {
         this.running = false;
         let start = performance.now();
         for (let i = 0; i < frames; i++) {
-            this.clear(20, 20, 30);
-            this.clearZ();
-            this.renderPixel(i * this.timescale);
-            this.present();
+            this.renderFrame(i);
         }
         let end = performance.now();
         let fps = frames / ((end - start) / 1000);
         // Draw FPS
-        this.ctx.fillStyle = "white";
-        this.ctx.font = "16px monospace";
-        this.ctx.fillText(`FPS: ${fps.toFixed(2)}`, 10, 20);
+        this.target.drawText?.(`FPS: ${fps.toFixed(2)}`, 10, 20);
+        return fps;
     }
 
-    // Rendering Methods
-    private renderPixel(time: number) {
-        // Precompute transformation matrices
-        const modelMat = mat4RotateY(time);
-        const forward = this.mainCamera!.getForwardVector();
-        const target = {
-            x: this.mainCamera!.position.x + forward.x,
-            y: this.mainCamera!.position.y + forward.y,
-            z: this.mainCamera!.position.z + forward.z
-        };
-        const view = mat4LookAt(this.mainCamera!.position, target, this.mainCamera!.up);
-        const mv = mat4Mul(view, modelMat);
-        const mvp = mat4Mul(this.projMatrix, mv);
-
-        // Loop through all loaded OBJ models
-        for (const objModel of this.objModels) {
-            for (const mesh of objModel.meshes) {
-                this.renderMesh(mesh, mvp, modelMat);
+    /**
+     * Render and present a single frame.
+     * @param time Timestamp in milliseconds (same units as requestAnimationFrame)
+     */
+    public renderFrame(time: number) {
+        this.beginFrame(time);
+        this.rasterizeTiles();
+        this.endFrame();
+    }
+
+    /**
+     * Like renderFrame, but rasterizes on the worker pool when the `threads` option asks for one.
+     * Falls back to this thread when SharedArrayBuffer is unavailable or the workers fail, and
+     * reports worker failures to onError. Rejects when the renderer is disposed mid-frame.
+     */
+    public async renderFrameAsync(time: number): Promise<void> {
+        this.beginFrame(time);
+        const current = this.getPool();
+        const pool = await current;
+        if (pool) {
+            this.stats.threads = pool.size;
+            try {
+                await pool.run(this.tileJob(), this.frameState(), this.materials.length);
+            } catch (e) {
+                // Disposed (or resized) while the workers were drawing
+                if (this.pool !== current) throw e;
+                this.workerFailure(e);
+                // Start over on this thread, since the workers may have drawn part of the frame
+                this.clearBuffers();
+                this.rasterizeTiles();
             }
+        } else {
+            this.rasterizeTiles();
         }
+        this.endFrame();
+    }
+
+    /** Stop using the workers after they failed and pass the error on to onError */
+    private workerFailure(e: unknown) {
+        this.workersFailed = true;
+        this.stats.threads = 0;
+        this.disposePool();
+        this.onError?.(e instanceof Error ? e : new Error(String(e)));
+    }
 
-        // Update the canvas with the rendered image
-        if (this.imageData) {
-            this.imageData.data.set(this.buf8);
-            this.ctx.putImageData(this.imageData, 0, 0);
+    /** Stop rendering and terminate the raster workers */
+    public dispose() {
+        this.stop();
+        this.disposePool();
+    }
+
+    private disposePool() {
+        const pool = this.pool;
+        this.pool = null;
+        pool?.then(p => p?.dispose());
+    }
+
+    /**
+     * Reallocate the color and depth buffers (and the tile grid) when the target changed size,
+     * e.g. after a canvas resize or a device pixel ratio change.
+     */
+    private resizeToTarget() {
+        this.target.updateSize?.();
+        const width = Math.max(1, this.target.width), height = Math.max(1, this.target.height);
+        if (width === this.output.width && height === this.output.height) return;
+        this.allocateBuffers(width, height, this.framebuffer.shared);
+        // The workers draw into the old buffers; a new pool is started with the next threaded frame
+        this.disposePool();
+    }
+
+    /** Buffers and tile grid for a target of this size, in the configured antialiasing mode */
+    private allocateBuffers(width: number, height: number, shared: boolean) {
+        const antialias = this.options.antialias ?? "none";
+        const scale = this.ssaaScale;
+        const samples = antialias === "msaa" ? this.options.antialiasSamples ?? 4 : 1;
+        const hdr = this.options.linearLighting ?? false;
+        this.width = width * scale;
+        this.height = height * scale;
+        const oit = this.options.transparency === "weighted";
+        this.framebuffer = new Framebuffer(this.width, this.height, shared, samples, hdr, oit);
+        this.output = scale > 1 || samples > 1 ? new Framebuffer(width, height, false, 1, hdr) : this.framebuffer;
+        this.fxaaScratch = antialias === "fxaa" ? new ArrayBuffer(fxaaScratchBytes(width, height)) : null;
+        this.stats.antialiasBytes = this.output === this.framebuffer
+            ? this.fxaaScratch?.byteLength ?? 0
+            : this.framebuffer.byteLength;
+        this.tilesX = Math.ceil(this.width / TILE_SIZE);
+        this.tilesY = Math.ceil(this.height / TILE_SIZE);
+        this.bins = Array.from({ length: this.tilesX * this.tilesY }, () => []);
+    }
+
+    private getPool(): Promise<RasterPool | null> {
+        if (!this.framebuffer.shared || this.workersFailed) return Promise.resolve(null);
+        this.pool ??= RasterPool.create(this.options.threads ?? 0, this.framebuffer).catch(e => {
+            this.workerFailure(e);
+            return null;
+        });
+        return this.pool;
+    }
+
+    private clearBuffers() {
+        this.framebuffer.clear(20, 20, 30);
+        this.framebuffer.clearZ();
+    }
+
+    /** Clear the buffers, then transform, clip and bin the scene */
+    private beginFrame(time: number) {
+        this.resizeToTarget();
+        this.clearBuffers();
+        this.triangleCount = 0;
+        for (const bin of this.bins) bin.length = 0;
+        this.lines.length = 0;
+        this.transparent.length = 0;
+        this.draws.length = 0;
+        const stats = this.stats;
+        stats.meshes = stats.meshesCulled = stats.triangles = stats.trianglesCulled = stats.clustersCulled = 0;
+        stats.antialiasMs = stats.postProcessMs = stats.threads = 0;
+        this.renderPixel(time * this.timescale);
+        this.binTransparent();
+    }
+
+    private endFrame() {
+        this.framebuffer.compositeTransparent();
+        this.drawQueuedLines();
+        this.resolve();
+        this.runPostProcess();
+        if (this.fxaaScratch) {
+            const start = performance.now();
+            applyFXAA(this.output, this.fxaaScratch);
+            this.stats.antialiasMs += performance.now() - start;
         }
+        this.present();
     }
 
-    private renderMesh(mesh: ObjModel["meshes"][number], mvp: Mat4, modelMat: Mat4) {
+    /** Bring the rasterized frame down to `output` at the target's size */
+    private resolve() {
+        const start = performance.now();
+        if (this.ssaaScale > 1) {
+            downsample(this.framebuffer, this.output, this.ssaaScale);
+        } else if (this.framebuffer.samples > 1) {
+            resolveSamples(this.framebuffer, this.output);
+        } else {
+            return;
+        }
+        this.stats.antialiasMs = performance.now() - start;
+    }
 
-        const pos = mesh.positions;
-        const normals = mesh.normals;
-        const uvs = mesh.uvs;
-        const idx = mesh.indices;
+    /**
+     * Run the post-process chain over `output` and store the result as its 8-bit colors. HDR
+     * frames always go through here, since that is where they get quantized.
+     */
+    private runPostProcess() {
+        const out = this.output;
+        if (!out.hdr && !this.postProcess.active) return;
+        const start = performance.now();
+        let color = out.hdr;
+        if (!color) {
+            if (this.postColor.length !== out.buf8.length) this.postColor = new Float32Array(out.buf8.length);
+            color = this.postColor;
+            for (let i = 0; i < color.length; i++) color[i] = out.buf8[i] / 255;
+        }
+        const result = this.postProcess.run({
+            width: out.width,
+            height: out.height,
+            color,
+            depth: out.zBuffer,
+            linear: out.hdr !== null,
+            projection: this.activeProjection,
+            time: this.lastFrameTime ?? 0
+        });
+        // Uint8ClampedArray clamps and rounds
+        const buf8 = out.buf8;
+        for (let i = 0; i < result.length; i++) buf8[i] = result[i] * 255;
+        this.stats.postProcessMs = performance.now() - start;
+    }
 
-        // Collect triangles into a batch
-        const triangles = [];
-        for (let i = 0; i < idx.length; i += 3) {
-            const vi0 = idx[i] * 3, vi1 = idx[i + 1] * 3, vi2 = idx[i + 2] * 3;
-            const v0 = { x: pos[vi0], y: pos[vi0 + 1], z: pos[vi0 + 2] };
-            const v1 = { x: pos[vi1], y: pos[vi1 + 1], z: pos[vi1 + 2] };
-            const v2 = { x: pos[vi2], y: pos[vi2 + 1], z: pos[vi2 + 2] };
-            triangles.push({ v0, v1, v2, i });
+    /**
+     * How much of the scene the last frame drew and culled, and what antialiasing and
+     * post-processing cost.
+     */
+    public getStats(): RenderStats {
+        return { ...this.stats };
+    }
+
+    /**
+     * The last frame at the target's size. With SSAA or MSAA the scene is rasterized into larger
+     * buffers and this holds the resolved colors and the nearest depth of each pixel's samples.
+     */
+    public getFramebuffer(): Framebuffer {
+        return this.output;
+    }
+
+    /**
+     * The passes run over every finished frame; add, remove or reorder them at any time.
+     */
+    public getPostProcess(): PostProcessChain {
+        return this.postProcess;
+    }
+
+    /**
+     * Encode the last rendered frame without going through a canvas.
+     * @param format "png" or "ppm" (binary P6 for color, P5 for depth)
+     * @param buffer "color" for the color buffer, "depth" for a grayscale depth map
+     */
+    public exportFrame(format: "png" | "ppm" = "png", buffer: "color" | "depth" = "color"): Uint8Array {
+        const { width, height } = this.output;
+        if (buffer === "depth") {
+            const gray = this.output.depthToGrayscale();
+            return format === "png"
+                ? encodePNG(gray, width, height, "gray", 1)
+                : encodePPM(gray, width, height, true, 1);
+        }
+        return format === "png"
+            ? encodePNG(this.output.buf8, width, height, "rgba")
+            : encodePPM(this.output.buf8, width, height);
+    }
+
+    // Rendering Methods
+    private renderPixel(time: number) {
+        const dt = this.lastFrameTime === null ? 0 : Math.max(0, time - this.lastFrameTime);
+        this.lastFrameTime = time;
+        for (const controller of this.controllers) controller.update(dt);
+        this.onUpdate?.(time);
+        this.scene.updateWorldMatrix();
+
+        // An explicitly set camera wins over ones attached to scene nodes; all lights contribute
+        let sceneCamera: Camera | null = null;
+        const lights = this.lights.slice();
+        this.scene.traverse(node => {
+            sceneCamera ??= node.camera;
+            if (node.light && node.visible && !lights.includes(node.light)) lights.push(node.light);
+        });
+        this.activeCamera = this.mainCamera ?? sceneCamera;
+        if (!this.activeCamera) return;
+        this.activeLights = resolveLights(lights, this.options.ambient ?? 0.15, this.renderShadowMaps(lights), this.options.linearLighting);
+        this.activeEye = this.activeCamera.getWorldPosition();
+
+        const view = this.activeView = this.activeCamera.getViewMatrix();
+        const proj = this.activeProjection = this.activeCamera.getProjectionMatrix(this.width / this.height);
+        const viewProj = mat4Mul(proj, view, this.viewProj);
+        this.renderNode(this.scene, viewProj);
+        this.activeMaterial = this.defaultMaterial;
+        this.activeStateBits = 0;
+        this.activeAlpha = 1;
+        this.activeTransparent = false;
+    }
+
+    /**
+     * Draw the depth map of every light that casts shadows, as seen from that light
+     */
+    private renderShadowMaps(lights: readonly Light[]): Map<Light, ResolvedShadow> {
+        const shadows = new Map<Light, ResolvedShadow>();
+        const casting = lights.filter((light): light is DirectionalLight | SpotLight =>
+            (light.type === "directional" || light.type === "spot") && light.castShadow);
+        for (const light of this.shadowMaps.keys()) {
+            if (!casting.includes(light)) this.shadowMaps.delete(light);
         }
+        if (casting.length === 0) return shadows;
+
+        const casters: ShadowCaster[] = [];
+        this.collectShadowCasters(this.scene, casters);
+        for (const light of casting) {
+            let map = this.shadowMaps.get(light);
+            if (!map) {
+                map = new ShadowMap(this.framebuffer.shared);
+                this.shadowMaps.set(light, map);
+            }
+            const shadow = map.render(light, casters);
+            if (shadow) shadows.set(light, shadow);
+        }
+        return shadows;
+    }
 
-        // Process the batch
-        for (const triangle of triangles) {
-            this.renderTriangle(idx, triangle.i, pos, normals, uvs, mvp, modelMat);
+    private collectShadowCasters(node: SceneNode, out: ShadowCaster[]) {
+        if (!node.visible) return;
+        if (node.model && node.castShadow) {
+            for (const mesh of node.meshes ?? node.model.meshes) {
+                out.push({ mesh, model: node.worldMatrix });
+            }
+        }
+        for (const child of node.children) {
+            this.collectShadowCasters(child, out);
         }
     }
 
-    private renderTriangle(
-        idx: Uint32Array,
-        i: number,
-        pos: Float32Array,
-        normals: Float32Array,
-        uvs: Float32Array | null,
-        mvp: Mat4,
-        modelMat: Mat4
-    ) {
-        // Get vertex positions
-        const vi0 = idx[i] * 3, vi1 = idx[i + 1] * 3, vi2 = idx[i + 2] * 3;
-        const v0 = { x: pos[vi0], y: pos[vi0 + 1], z: pos[vi0 + 2] };
-        const v1 = { x: pos[vi1], y: pos[vi1 + 1], z: pos[vi1 + 2] };
-        const v2 = { x: pos[vi2], y: pos[vi2 + 1], z: pos[vi2 + 2] };
+    private renderNode(node: SceneNode, viewProj: Mat4) {
+        if (!node.visible) return;
+        if (node.model) {
+            const modelMat = node.worldMatrix;
+            const mvp = mat4Mul(viewProj, modelMat, this.mvp);
+            frustumPlanes(mvp, this.planes);
+            this.activeNormalMatrix = node.normalMatrix;
+            this.activeReceiveShadow = node.receiveShadow;
+            const shading = this.options.shading;
+            let shader = node.shader ?? (typeof shading === "object" ? shading : null);
+            const native = shader && nativeShading(shader);
+            this.activeShading = native ?? (typeof shading === "string" ? shading : undefined);
+            if (native) shader = null;
+            for (const mesh of node.meshes ?? node.model.meshes) {
+                this.activeMaterial = this.resolveMaterial(node.model, mesh);
+                this.activeMaterialId = this.materialId(this.activeMaterial);
+                this.setRenderState(node.getRenderState(mesh));
+                if (shader) this.renderProgram(mesh, shader, mvp, modelMat);
+                else this.renderMesh(mesh, mvp, modelMat);
+            }
+        }
+        for (const child of node.children) {
+            this.renderNode(child, viewProj);
+        }
+    }
 
-        // Transform to screen space
-        const sverts = transformTriangleToScreen(v0, v1, v2, mvp, this.width, this.height);
-        if (!sverts) return;
+    /**
+     * Turn a mesh's render state and the active material's opacity into the kernel bits its
+     * triangles are packed with
+     */
+    private setRenderState(state: RenderState) {
+        const alpha = Math.min(1, Math.max(0, this.activeMaterial.opacity * state.opacity));
+        let blend = 0;
+        if (state.blend === "additive") blend = ATTR.BLEND_ADD;
+        else if (state.blend === "multiply") blend = ATTR.BLEND_MULTIPLY;
+        else if (alpha < 1) blend = this.framebuffer.accum ? ATTR.BLEND_ACCUMULATE : ATTR.BLEND_ALPHA;
+        const blended = blend !== 0;
+        let bits = blend;
+        if (!state.depthTest) bits |= ATTR.NO_DEPTH_TEST;
+        if (state.depthWrite === false || (state.depthWrite === "auto" && blended)) bits |= ATTR.NO_DEPTH_WRITE;
+        this.activeStateBits = bits;
+        this.activeAlpha = alpha;
+        this.activeTransparent = blended;
+    }
 
-        // Apply snapping to screen vertices if snapVertices is enabled
-        if (this.options.snapVertices) {
-            sverts[0] = snapVertexToGrid(sverts[0], 5);
-            sverts[1] = snapVertexToGrid(sverts[1], 5);
-            sverts[2] = snapVertexToGrid(sverts[2], 5);
+    /**
+     * The mesh's MTL material with its texture maps resolved, or the default material
+     */
+    private resolveMaterial(model: ObjModel, mesh: MeshData): ShadingMaterial {
+        const material = mesh.materialName ? model.materials[mesh.materialName] : undefined;
+        if (!material) return this.defaultMaterial;
+        let resolved = this.materialCache.get(material);
+        if (!resolved) {
+            resolved = resolveShadingMaterial(material, model.textures, this.options.linearLighting);
+            this.materialCache.set(material, resolved);
         }
+        return resolved;
+    }
 
-        // Optionally: clipping and backface culling
-        if (isTriangleClipped(sverts[0], sverts[1], sverts[2], this.width, this.height)) {
+    private renderMesh(mesh: MeshData, mvp: Mat4, modelMat: Mat4) {
+        const shading = this.activeShading;
+        const stats = this.stats;
+        const triangleCount = mesh.indices.length / 3;
+        stats.meshes++;
+        stats.triangles += triangleCount;
+
+        const visibility = this.classifyBounds(mesh.boundingBox.min, mesh.boundingBox.max);
+        if (visibility === "outside") {
+            stats.meshesCulled++;
+            stats.trianglesCulled += triangleCount;
             return;
         }
-        const ax = sverts[0].x, ay = sverts[0].y;
-        const bx = sverts[1].x, by = sverts[1].y;
-        const cx = sverts[2].x, cy = sverts[2].y;
-        const area2 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
-        if (area2 > 0) {
-            return; // Cull backfaces
-        }
-
-        // Compute face normal in world/model space
-        const p0w = mat4MulVec4(modelMat, { x: v0.x, y: v0.y, z: v0.z, w: 1 });
-        const p1w = mat4MulVec4(modelMat, { x: v1.x, y: v1.y, z: v1.z, w: 1 });
-        const p2w = mat4MulVec4(modelMat, { x: v2.x, y: v2.y, z: v2.z, w: 1 });
-        const e1 = vsub({ x: p1w.x, y: p1w.y, z: p1w.z }, { x: p0w.x, y: p0w.y, z: p0w.z });
-        const e2 = vsub({ x: p2w.x, y: p2w.y, z: p2w.z }, { x: p0w.x, y: p0w.y, z: p0w.z });
-
-        const sv0: ScreenVertex = getScreenVertex(sverts[0], vi0, idx[i] * 2, normals, uvs);
-        const sv1: ScreenVertex = getScreenVertex(sverts[1], vi1, idx[i + 1] * 2, normals, uvs);
-        const sv2: ScreenVertex = getScreenVertex(sverts[2], vi2, idx[i + 2] * 2, normals, uvs);
-
-        if (this.options.shading === "flat") {
-            this.renderFlatShading(sv0, sv1, sv2, e1, e2);
-        } else if (this.options.shading === "blinn-phong") {
-            this.renderBlinnPhongShading(sv0, sv1, sv2, v0, v1, v2, normals);
-        } else if (this.options.shading === "wireframe") {
-            // TODO: Implement wireframe rendering
+
+        const stage = this.vertexStage;
+        const gridSize = this.options.snapVertices ? SNAP_GRID * this.ssaaScale : 0;
+        // The edge modes need every vertex, so only solid meshes are culled by cluster
+        const withEdges = shading === "wireframe" || shading === "hidden-line" || !!this.options.wireframeOverlay;
+        const threshold = this.options.clusterCulling ?? 4096;
+        if (visibility === "intersects" && !withEdges && threshold > 0 && triangleCount >= threshold) {
+            const bvh = this.getMeshBVH(mesh);
+            stage.begin(mesh, mvp, modelMat, this.activeNormalMatrix, this.width, this.height, gridSize);
+            this.renderCluster(mesh, bvh, bvh.root, true);
+            return;
+        }
+
+        stage.transform(mesh, mvp, modelMat, this.activeNormalMatrix, this.width, this.height, gridSize);
+        if (shading === "wireframe") {
+            this.renderWireframe(mesh, 0);
             return;
         }
+
+        const idx = mesh.indices;
+        for (let i = 0; i < idx.length; i += 3) {
+            this.renderTriangle(mesh, idx[i], idx[i + 1], idx[i + 2]);
+        }
+
+        // Edges drawn over the (depth-only or shaded) surfaces, hidden where something is in front
+        if (shading === "hidden-line" || this.options.wireframeOverlay) {
+            this.renderWireframe(mesh, WIREFRAME_DEPTH_BIAS);
+        }
     }
 
-    private renderFlatShading(sv0: ScreenVertex, sv1: ScreenVertex, sv2: ScreenVertex, e1: Vec3, e2: Vec3) {
-        const ambient = 0.15;
-        const ld = this.mainDirectionalLight!.direction;
-        const ldir = vnorm(ld); // Normalize light direction
-        const base = { x: 200, y: 120, z: 60 };
-        const diff = 1.0 - ambient;
-        const faceNormal = vnorm(vcross(e1, e2));
-        const lightIntensity = Math.max(0, vdot(faceNormal, { x: -ldir.x, y: -ldir.y, z: -ldir.z })) * this.mainDirectionalLight!.intensity;
-        const finalColor: Vec3 = {
-            x: Math.max(0, Math.min(255, base.x * (ambient + diff * lightIntensity))),
-            y: Math.max(0, Math.min(255, base.y * (ambient + diff * lightIntensity))),
-            z: Math.max(0, Math.min(255, base.z * (ambient + diff * lightIntensity)))
+    /**
+     * Draw a mesh with a custom shader: its vertex function runs here on every vertex, its
+     * fragment function in the raster kernel. The mesh isn't culled by its bounds, since the
+     * vertex function may put its vertices anywhere.
+     */
+    private renderProgram(mesh: MeshData, shader: Shader<object>, mvp: Mat4, modelMat: Mat4) {
+        if (shader.varyings > MAX_VARYINGS) {
+            throw new Error(`Shaders can pass at most ${MAX_VARYINGS} varyings, not ${shader.varyings}`);
+        }
+        this.stats.meshes++;
+        this.stats.triangles += mesh.indices.length / 3;
+
+        const uniforms: DrawUniforms = {
+            ...shader.uniforms,
+            modelMatrix: modelMat,
+            normalMatrix: this.activeNormalMatrix,
+            viewMatrix: this.activeView,
+            projectionMatrix: this.activeProjection,
+            // this.mvp is reused by the next node
+            mvp: new Float32Array(mvp),
+            eye: this.activeEye,
+            time: this.lastFrameTime ?? 0,
+            lights: this.activeLights,
+            receiveShadows: this.activeReceiveShadow,
+            material: this.activeMaterial,
+            linear: this.options.linearLighting ?? false,
+            attributes: {
+                normals: mesh.normals.length >= mesh.positions.length,
+                uvs: !!mesh.uvs && mesh.uvs.length >= mesh.positions.length / 3 * 2,
+                colors: !!mesh.colors && mesh.colors.length >= mesh.positions.length
+            }
         };
-        this.drawTriangleScanline(sv0, sv1, sv2, finalColor);
+        this.activeDraw = this.draws.length;
+        this.draws.push({ fragment: shader.fragment, uniforms, varyings: shader.varyings });
+
+        const gridSize = this.options.snapVertices ? SNAP_GRID * this.ssaaScale : 0;
+        this.vertexStage.transformProgram(mesh, shader, uniforms, this.width, this.height, gridSize);
+        this.hasTangentFrame = false;
+        const idx = mesh.indices;
+        for (let i = 0; i < idx.length; i += 3) {
+            this.renderProgramTriangle(idx[i], idx[i + 1], idx[i + 2], shader, uniforms);
+        }
+        this.activeDraw = -1;
+
+        if (this.options.wireframeOverlay) this.renderWireframe(mesh, WIREFRAME_DEPTH_BIAS);
     }
 
-    private renderBlinnPhongShading(
-        sv0: ScreenVertex,
-        sv1: ScreenVertex,
-        sv2: ScreenVertex,
-        v0: Vec3,
-        v1: Vec3,
-        v2: Vec3,
-        normals: Float32Array
-    ) {
-        const viewDir = vnorm({
-            x: -this.mainCamera!.position.x,
-            y: -this.mainCamera!.position.y,
-            z: -this.mainCamera!.position.z
-        });
+    /**
+     * Assemble triangle (a, b, c) of a custom-shaded mesh with the shader's varyings, clip it,
+     * cull it if it faces away and queue what is left, after the shader's triangle function
+     */
+    private renderProgramTriangle(a: number, b: number, c: number, shader: Shader<object>, uniforms: DrawUniforms) {
+        const { outcode, screen, recipW } = this.vertexStage;
+        const varyings = shader.varyings;
+        const stageVaryings = this.vertexStage.varyings;
+        if (outcode[a] & outcode[b] & outcode[c]) return;
+
+        let count = 3;
+        if (outcode[a] | outcode[b] | outcode[c]) {
+            count = this.clipVaryings(a, b, c, varyings);
+            if (!count) return;
+        } else {
+            const p = this.polygon;
+            [a, b, c].forEach((v, k) => {
+                const o = k * VERTEX_STRIDE;
+                p[o] = screen[v * 3];
+                p[o + 1] = screen[v * 3 + 1];
+                p[o + 2] = screen[v * 3 + 2];
+                p[o + 3] = recipW[v];
+                for (let i = 0; i < varyings; i++) p[o + VARYINGS + i] = stageVaryings[v * MAX_VARYINGS + i];
+            });
+        }
+        const back = this.facesAway(count);
+        if (back && !this.activeMaterial.doubleSided) return;
+        if (shader.triangle) {
+            const corners = this.cornerVaryings, polygon = this.polygonVaryings, p = this.polygon;
+            [a, b, c].forEach((v, k) => corners.set(stageVaryings.subarray(v * MAX_VARYINGS, v * MAX_VARYINGS + varyings), k * varyings));
+            for (let k = 0; k < count; k++) {
+                const o = k * VERTEX_STRIDE + VARYINGS;
+                polygon.set(p.subarray(o, o + varyings), k * varyings);
+            }
+            shader.triangle(corners.subarray(0, 3 * varyings), polygon.subarray(0, count * varyings), count, uniforms, back);
+            for (let k = 0; k < count; k++) {
+                p.set(polygon.subarray(k * varyings, (k + 1) * varyings), k * VERTEX_STRIDE + VARYINGS);
+            }
+        }
+        this.drawPolygon(count, 0, true);
+    }
 
-        const vertexColors = [
-            computeBlinnPhongLighting(v0, { x: normals[0], y: normals[1], z: normals[2] }, viewDir, this.mainDirectionalLight!),
-            computeBlinnPhongLighting(v1, { x: normals[3], y: normals[4], z: normals[5] }, viewDir, this.mainDirectionalLight!),
-            computeBlinnPhongLighting(v2, { x: normals[6], y: normals[7], z: normals[8] }, viewDir, this.mainDirectionalLight!)
-        ];
-        sv0.color = [vertexColors[0].x, vertexColors[0].y, vertexColors[0].z];
-        sv1.color = [vertexColors[1].x, vertexColors[1].y, vertexColors[1].z];
-        sv2.color = [vertexColors[2].x, vertexColors[2].y, vertexColors[2].z];
-        this.drawTriangleScanline(sv0, sv1, sv2);
+    /**
+     * Like clipTriangle, for the varyings of a custom-shaded mesh
+     * @returns The number of vertices left in `polygon`
+     */
+    private clipVaryings(a: number, b: number, c: number, varyings: number): number {
+        const { clip, varyings: stageVaryings } = this.vertexStage;
+        const corners: ClipVertex[] = [a, b, c].map(v => ({
+            x: clip[v * 4], y: clip[v * 4 + 1], z: clip[v * 4 + 2], w: clip[v * 4 + 3],
+            attrs: Array.from(stageVaryings.subarray(v * MAX_VARYINGS, v * MAX_VARYINGS + varyings))
+        }));
+
+        const polygon = clipPolygon(corners);
+        const p = this.polygon;
+        for (let k = 0; k < polygon.length; k++) {
+            const cv = polygon[k];
+            const sv = this.options.snapVertices
+                ? snapVertexToGrid(clipToScreen(cv, this.width, this.height), SNAP_GRID * this.ssaaScale)
+                : clipToScreen(cv, this.width, this.height);
+            const o = k * VERTEX_STRIDE;
+            p[o] = sv.x;
+            p[o + 1] = sv.y;
+            p[o + 2] = sv.z;
+            p[o + 3] = sv.recipW;
+            for (let i = 0; i < varyings; i++) p[o + VARYINGS + i] = cv.attrs[i];
+        }
+        return polygon.length;
     }
 
-    // Utility Methods
-    private clearZ() {
-        this.zBuffer.fill(Number.POSITIVE_INFINITY);
+    /**
+     * Draw the triangles of a BVH node, skipping the subtrees outside the view frustum
+     * @param test false once a parent was found to be entirely inside
+     */
+    private renderCluster(mesh: MeshData, bvh: MeshBVH, node: BVHNode, test: boolean) {
+        if (test) {
+            const visibility = classifyAABB(this.planes, node.min, node.max);
+            if (visibility === "outside") {
+                this.stats.clustersCulled++;
+                this.stats.trianglesCulled += node.count;
+                return;
+            }
+            test = visibility === "intersects";
+        }
+        if (node.left && node.right) {
+            this.renderCluster(mesh, bvh, node.left, test);
+            this.renderCluster(mesh, bvh, node.right, test);
+            return;
+        }
+        this.vertexStage.transformVertices(node.vertices!);
+        const idx = mesh.indices, triangles = bvh.triangles;
+        for (let i = node.start; i < node.start + node.count; i++) {
+            const t = triangles[i] * 3;
+            this.renderTriangle(mesh, idx[t], idx[t + 1], idx[t + 2]);
+        }
     }
 
-    private clear(r = 0, g = 0, b = 0, a = 255) {
-        const packed = this.packRGBA(r, g, b, a);
-        this.data32.fill(packed);
+    /**
+     * Bounds in the current node's model space against its view frustum: the bounding sphere
+     * first, then the box where the sphere is inconclusive
+     */
+    private classifyBounds(min: Vec3, max: Vec3): FrustumTest {
+        const center = boundingBoxCenter({ min, max });
+        const radius = Math.hypot(max.x - min.x, max.y - min.y, max.z - min.z) / 2;
+        const sphere = classifySphere(this.planes, center.x, center.y, center.z, radius);
+        return sphere === "intersects" ? classifyAABB(this.planes, min, max) : sphere;
     }
 
-    private present() {
-        if (!this.imageData) return;
-        this.imageData.data.set(this.buf8);
-        this.ctx.putImageData(this.imageData, 0, 0);
+    private getMeshBVH(mesh: MeshData): MeshBVH {
+        let bvh = this.bvhCache.get(mesh);
+        if (!bvh) {
+            bvh = buildMeshBVH(mesh);
+            this.bvhCache.set(mesh, bvh);
+        }
+        return bvh;
     }
 
-    private packRGBA(r: number, g: number, b: number, a = 255): number {
-        if (this.littleEndian) {
-            return (a << 24) | (b << 16) | (g << 8) | r;
+    /**
+     * Queue every unique edge of the mesh in the vertex stage for drawing with depth testing.
+     */
+    private renderWireframe(mesh: MeshData, depthBias: number) {
+        const { clip, screen } = this.vertexStage;
+        const [r, g, b] = this.options.wireframeColor ?? [255, 255, 255];
+        const edges = this.getMeshEdges(mesh);
+        const clipped = this.clippedEdge;
+        for (let e = 0; e < edges.length; e += 2) {
+            const ia = edges[e], ib = edges[e + 1];
+            // Signed distances to the near plane; the side of the screen is left to the 2D clip
+            const da = clip[ia * 4 + 2] + clip[ia * 4 + 3];
+            const db = clip[ib * 4 + 2] + clip[ib * 4 + 3];
+            if (da < 0 && db < 0) continue;
+
+            let src = screen, sa = ia * 3, sb = ib * 3;
+            if (da < 0 || db < 0) {
+                // Replace the endpoint behind the camera with the near-plane crossing
+                const t = da / (da - db);
+                const at = (k: number) => clip[ia * 4 + k] + (clip[ib * 4 + k] - clip[ia * 4 + k]) * t;
+                const inside = da < 0 ? ib : ia;
+                clipped[0] = screen[inside * 3];
+                clipped[1] = screen[inside * 3 + 1];
+                clipped[2] = screen[inside * 3 + 2];
+                this.projectClipPoint(at(0), at(1), at(2), at(3), clipped, 3);
+                src = clipped;
+                sa = 0;
+                sb = 3;
+            }
+            this.lines.push(
+                src[sa], src[sa + 1], src[sa + 2],
+                src[sb], src[sb + 1], src[sb + 2],
+                r, g, b, depthBias
+            );
+        }
+    }
+
+    /** Perspective divide and viewport transform of a clip-space point into out[offset..offset + 2] */
+    private projectClipPoint(x: number, y: number, z: number, w: number, out: Float64Array, offset: number) {
+        out[offset] = (x / w * 0.5 + 0.5) * this.width;
+        out[offset + 1] = (1.0 - (y / w * 0.5 + 0.5)) * this.height;
+        out[offset + 2] = z / w * 0.5 + 0.5;
+    }
+
+    /**
+     * Unique triangle edges of a mesh as index pairs, cached per mesh.
+     * Vertices split by the loader (same position, different uv/normal) are welded first,
+     * so seams don't produce doubled edges.
+     */
+    private getMeshEdges(mesh: MeshData): Uint32Array {
+        let edges = this.edgeCache.get(mesh);
+        if (edges) return edges;
+
+        const pos = mesh.positions;
+        const weld = new Uint32Array(pos.length / 3);
+        const byPosition = new Map<string, number>();
+        for (let v = 0; v < weld.length; v++) {
+            const key = `${pos[v * 3]},${pos[v * 3 + 1]},${pos[v * 3 + 2]}`;
+            let canonical = byPosition.get(key);
+            if (canonical === undefined) {
+                canonical = v;
+                byPosition.set(key, v);
+            }
+            weld[v] = canonical;
+        }
+
+        const seen = new Set<number>();
+        const out: number[] = [];
+        const idx = mesh.indices;
+        for (let i = 0; i < idx.length; i += 3) {
+            for (let k = 0; k < 3; k++) {
+                const a = weld[idx[i + k]], b = weld[idx[i + (k + 1) % 3]];
+                if (a === b) continue;
+                const key = a < b ? a * weld.length + b : b * weld.length + a;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                out.push(a, b);
+            }
+        }
+
+        edges = new Uint32Array(out);
+        this.edgeCache.set(mesh, edges);
+        return edges;
+    }
+
+    /**
+     * Assemble triangle (a, b, c) from the vertex stage, clip it against the view frustum, cull it
+     * if it faces away and shade what is left. Triangles with every vertex inside the frustum are
+     * copied straight into `polygon`; the rest go through clipPolygon and may become a convex
+     * polygon, which is drawn as a fan.
+     */
+    private renderTriangle(mesh: MeshData, a: number, b: number, c: number) {
+        const stage = this.vertexStage;
+        const outcode = stage.outcode;
+        if (outcode[a] & outcode[b] & outcode[c]) return; // all outside the same plane
+
+        const uvs = mesh.uvs && mesh.uvs.length >= mesh.positions.length / 3 * 2 ? mesh.uvs : null;
+        const colors = mesh.colors && mesh.colors.length >= mesh.positions.length ? mesh.colors : null;
+        const hasNormals = mesh.normals.length >= mesh.positions.length;
+
+        const world = stage.world;
+        const e1x = world[b * 3] - world[a * 3], e1y = world[b * 3 + 1] - world[a * 3 + 1], e1z = world[b * 3 + 2] - world[a * 3 + 2];
+        const e2x = world[c * 3] - world[a * 3], e2y = world[c * 3 + 1] - world[a * 3 + 1], e2z = world[c * 3 + 2] - world[a * 3 + 2];
+        let fnx = e1y * e2z - e1z * e2y, fny = e1z * e2x - e1x * e2z, fnz = e1x * e2y - e1y * e2x;
+        const fl = Math.hypot(fnx, fny, fnz) || 1;
+        fnx /= fl; fny /= fl; fnz /= fl;
+
+        let count = 3;
+        if (outcode[a] | outcode[b] | outcode[c]) {
+            count = this.clipTriangle(a, b, c, uvs, colors);
+            if (!count) return;
         } else {
-            return (r << 24) | (g << 16) | (b << 8) | a;
+            this.loadVertex(0, a, uvs, colors);
+            this.loadVertex(1, b, uvs, colors);
+            this.loadVertex(2, c, uvs, colors);
+        }
+        const p = this.polygon;
+        if (!hasNormals) {
+            for (let k = 0; k < count; k++) {
+                const o = k * VERTEX_STRIDE + NORMAL;
+                p[o] = fnx; p[o + 1] = fny; p[o + 2] = fnz;
+            }
+        }
+
+        if (this.facesAway(count)) {
+            if (!this.activeMaterial.doubleSided) return; // Cull backfaces
+            // The back of a double-sided face is lit from behind
+            fnx = -fnx; fny = -fny; fnz = -fnz;
+            for (let k = 0; k < count; k++) {
+                const o = k * VERTEX_STRIDE + NORMAL;
+                p[o] = -p[o]; p[o + 1] = -p[o + 1]; p[o + 2] = -p[o + 2];
+            }
+        }
+
+        const shading = this.activeShading;
+        if (shading === "hidden-line") {
+            // Depth-only pass; the edges are drawn against it afterwards
+            this.drawPolygon(count, 0, false);
+            return;
+        }
+
+        const uvBits = uvs ? ATTR.UV : 0;
+        this.hasTangentFrame = false;
+        if (shading === "flat") {
+            const lit = this.lit;
+            localKernel.shade(
+                (world[a * 3] + world[b * 3] + world[c * 3]) / 3,
+                (world[a * 3 + 1] + world[b * 3 + 1] + world[c * 3 + 1]) / 3,
+                (world[a * 3 + 2] + world[b * 3 + 2] + world[c * 3 + 2]) / 3,
+                fnx, fny, fnz, 0, 0, 0, false, this.activeReceiveShadow, this.activeLights, this.activeMaterial, lit
+            );
+            if (colors) {
+                // The face's light, tinted by each vertex's color
+                for (let k = 0; k < count; k++) {
+                    const o = k * VERTEX_STRIDE + COLOR;
+                    p[o] *= lit[0] / 255; p[o + 1] *= lit[1] / 255; p[o + 2] *= lit[2] / 255;
+                }
+                this.drawPolygon(count, ATTR.COLOR | uvBits, true);
+            } else {
+                this.drawPolygon(count, uvBits, true, lit[0], lit[1], lit[2]);
+            }
+        } else if (shading === "gouraud" || shading === "blinn-phong") {
+            this.renderGouraudShading(count, !!colors);
+            this.drawPolygon(count, ATTR.COLOR | ATTR.SPECULAR | uvBits, true);
+        } else if (shading === "phong") {
+            if (uvs) {
+                this.setTangentFrame(
+                    e1x, e1y, e1z, e2x, e2y, e2z,
+                    uvs[b * 2] - uvs[a * 2], uvs[b * 2 + 1] - uvs[a * 2 + 1],
+                    uvs[c * 2] - uvs[a * 2], uvs[c * 2 + 1] - uvs[a * 2 + 1]
+                );
+            }
+            // The kernel lights every pixel from the interpolated world positions and normals
+            const shadowBits = this.activeReceiveShadow ? ATTR.RECEIVE_SHADOWS : 0;
+            const colorBits = colors ? ATTR.COLOR : 0;
+            this.drawPolygon(count, ATTR.NORMAL | ATTR.WORLD | uvBits | shadowBits | colorBits, true);
+        }
+    }
+
+    /**
+     * Whether the first `count` vertices of `polygon` wind clockwise on screen, i.e. the polygon
+     * shows its back. Every vertex is in front of the camera after clipping, so the screen-space
+     * winding is reliable.
+     */
+    private facesAway(count: number): boolean {
+        const p = this.polygon;
+        let area2 = 0;
+        const ax = p[0], ay = p[1];
+        for (let k = 1; k < count - 1; k++) {
+            const o = k * VERTEX_STRIDE, n = o + VERTEX_STRIDE;
+            area2 += (p[o] - ax) * (p[n + 1] - ay) - (p[o + 1] - ay) * (p[n] - ax);
+        }
+        return area2 > 0;
+    }
+
+    /**
+     * Copy vertex `v` of the vertex stage into record `slot` of `polygon`, with its vertex color
+     * (0..255, linear when lighting is) in the color field
+     */
+    private loadVertex(slot: number, v: number, uvs: Float32Array | null, colors: Float32Array | null) {
+        const { screen, recipW, normal, world } = this.vertexStage;
+        const p = this.polygon, o = slot * VERTEX_STRIDE;
+        p[o] = screen[v * 3];
+        p[o + 1] = screen[v * 3 + 1];
+        p[o + 2] = screen[v * 3 + 2];
+        p[o + 3] = recipW[v];
+        p[o + NORMAL] = normal[v * 3];
+        p[o + NORMAL + 1] = normal[v * 3 + 1];
+        p[o + NORMAL + 2] = normal[v * 3 + 2];
+        if (uvs) {
+            p[o + UV] = uvs[v * 2];
+            p[o + UV + 1] = uvs[v * 2 + 1];
+        }
+        p[o + WORLD] = world[v * 3];
+        p[o + WORLD + 1] = world[v * 3 + 1];
+        p[o + WORLD + 2] = world[v * 3 + 2];
+        if (colors) {
+            for (let k = 0; k < 3; k++) p[o + COLOR + k] = this.vertexColor(colors[v * 3 + k]);
         }
     }
 
-    private setPixel(x: number, y: number, r: number, g: number, b: number, a = 255) {
-        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return;
-        const idx = y * this.width + x;
-        this.data32[idx] = this.packRGBA(r | 0, g | 0, b | 0, a | 0);
+    /** A 0..1 sRGB vertex color channel as the lighting code takes colors */
+    private vertexColor(c: number): number {
+        return (this.options.linearLighting ? srgbToLinear(c) : c) * 255;
+    }
+
+    /**
+     * Clip triangle (a, b, c) in clip space into `polygon`, interpolating the world normal,
+     * uv, world position and vertex color.
+     * @returns The number of vertices left (0 when nothing is visible)
+     */
+    private clipTriangle(a: number, b: number, c: number, uvs: Float32Array | null, colors: Float32Array | null): number {
+        const { clip, normal, world } = this.vertexStage;
+        const corners: ClipVertex[] = [a, b, c].map(v => ({
+            x: clip[v * 4], y: clip[v * 4 + 1], z: clip[v * 4 + 2], w: clip[v * 4 + 3],
+            attrs: [
+                normal[v * 3], normal[v * 3 + 1], normal[v * 3 + 2],
+                uvs ? uvs[v * 2] : 0, uvs ? uvs[v * 2 + 1] : 0,
+                world[v * 3], world[v * 3 + 1], world[v * 3 + 2],
+                colors ? this.vertexColor(colors[v * 3]) : 0,
+                colors ? this.vertexColor(colors[v * 3 + 1]) : 0,
+                colors ? this.vertexColor(colors[v * 3 + 2]) : 0
+            ]
+        }));
+
+        const polygon = clipPolygon(corners);
+        const p = this.polygon;
+        for (let k = 0; k < polygon.length; k++) {
+            const cv = polygon[k];
+            const sv = this.options.snapVertices
+                ? snapVertexToGrid(clipToScreen(cv, this.width, this.height), SNAP_GRID * this.ssaaScale)
+                : clipToScreen(cv, this.width, this.height);
+            const at = cv.attrs;
+            const o = k * VERTEX_STRIDE;
+            p[o] = sv.x;
+            p[o + 1] = sv.y;
+            p[o + 2] = sv.z;
+            p[o + 3] = sv.recipW;
+            const nl = Math.hypot(at[0], at[1], at[2]) || 1;
+            p[o + NORMAL] = at[0] / nl;
+            p[o + NORMAL + 1] = at[1] / nl;
+            p[o + NORMAL + 2] = at[2] / nl;
+            p[o + UV] = at[3];
+            p[o + UV + 1] = at[4];
+            p[o + WORLD] = at[5];
+            p[o + WORLD + 1] = at[6];
+            p[o + WORLD + 2] = at[7];
+            p[o + COLOR] = at[8];
+            p[o + COLOR + 1] = at[9];
+            p[o + COLOR + 2] = at[10];
+        }
+        return polygon.length;
     }
 
-    private depthTest(x: number, y: number, z: number): boolean {
-        const idx = y * this.width + x;
+    /**
+     * Draw the first `count` vertices of `polygon` (convex) as a triangle fan around its first vertex
+     * @param attributes Kernel attribute bits of the vertex records
+     */
+    private drawPolygon(count: number, attributes: number, writeColor: boolean, r = 0, g = 0, b = 0) {
+        for (let k = 1; k < count - 1; k++) {
+            this.queueTriangle(0, k, k + 1, attributes, writeColor, r, g, b);
+        }
+    }
 
-        // Early z-culling: Skip if the current z is greater than the z-buffer value
-        if (z >= this.zBuffer[idx]) {
-            return false;
+    /**
+     * Blinn-Phong evaluated at each vertex of `polygon` with its own normal and view vector;
+     * the rasterizer interpolates the resulting colors.
+     * @param tinted Multiply the light (but not the highlights) by the vertex colors already in the records
+     */
+    private renderGouraudShading(count: number, tinted: boolean) {
+        const eye = this.activeEye;
+        const p = this.polygon, lit = this.lit;
+        for (let k = 0; k < count; k++) {
+            const o = k * VERTEX_STRIDE;
+            const wx = p[o + WORLD], wy = p[o + WORLD + 1], wz = p[o + WORLD + 2];
+            let vx = eye.x - wx, vy = eye.y - wy, vz = eye.z - wz;
+            const vl = Math.hypot(vx, vy, vz) || 1;
+            vx /= vl; vy /= vl; vz /= vl;
+            localKernel.shade(
+                wx, wy, wz, p[o + NORMAL], p[o + NORMAL + 1], p[o + NORMAL + 2],
+                vx, vy, vz, true, this.activeReceiveShadow, this.activeLights, this.activeMaterial, lit
+            );
+            const tr = tinted ? p[o + COLOR] / 255 : 1, tg = tinted ? p[o + COLOR + 1] / 255 : 1, tb = tinted ? p[o + COLOR + 2] / 255 : 1;
+            p[o + COLOR] = lit[0] * tr;
+            p[o + COLOR + 1] = lit[1] * tg;
+            p[o + COLOR + 2] = lit[2] * tb;
+            p[o + SPECULAR] = lit[3];
+            p[o + SPECULAR + 1] = lit[4];
+            p[o + SPECULAR + 2] = lit[5];
         }
+    }
+
+    /**
+     * World-space UV axes of the triangle for normal and bump maps: solves
+     * e1 = du1 * T + dv1 * B, e2 = du2 * T + dv2 * B into tangentFrame. Left unset when the
+     * material has no such map.
+     */
+    private setTangentFrame(
+        e1x: number, e1y: number, e1z: number, e2x: number, e2y: number, e2z: number,
+        du1: number, dv1: number, du2: number, dv2: number
+    ) {
+        const material = this.activeMaterial;
+        if (!material.mapNorm && !material.mapBump) return;
+        const det = du1 * dv2 - du2 * dv1;
+        if (Math.abs(det) <= 1e-12) return;
+        const r = 1 / det, t = this.tangentFrame;
+        t[0] = (e1x * dv2 - e2x * dv1) * r;
+        t[1] = (e1y * dv2 - e2y * dv1) * r;
+        t[2] = (e1z * dv2 - e2z * dv1) * r;
+        t[3] = (e2x * du1 - e1x * du2) * r;
+        t[4] = (e2y * du1 - e1y * du2) * r;
+        t[5] = (e2z * du1 - e1z * du2) * r;
+        this.hasTangentFrame = true;
+    }
 
-        // Update z-buffer with the new depth value
-        this.zBuffer[idx] = z;
-        return true;
+    // Utility Methods
+    private present() {
+        this.target.present(this.output);
     }
 
     public setCamera(camera: Camera) {
         this.mainCamera = camera;
     }
 
+    /**
+     * Update a camera controller at the start of every frame, with the time since the previous one
+     */
+    public addController(controller: CameraController) {
+        if (!this.controllers.includes(controller)) this.controllers.push(controller);
+    }
+
+    /** Stop updating a controller; it keeps its event listeners until disposed */
+    public removeController(controller: CameraController) {
+        const i = this.controllers.indexOf(controller);
+        if (i !== -1) this.controllers.splice(i, 1);
+    }
+
+    /** Set the main directional light, replacing the one set by a previous call */
     public setDirectionalLight(light: DirectionalLight) {
+        if (this.mainDirectionalLight) this.removeLight(this.mainDirectionalLight);
         this.mainDirectionalLight = light;
+        this.addLight(light);
+    }
+
+    /**
+     * Add a light that isn't attached to a scene node. Lights on scene nodes are picked up automatically.
+     */
+    public addLight(light: Light) {
+        if (!this.lights.includes(light)) this.lights.push(light);
+    }
+
+    public removeLight(light: Light) {
+        const i = this.lights.indexOf(light);
+        if (i !== -1) this.lights.splice(i, 1);
+        if (light === this.mainDirectionalLight) this.mainDirectionalLight = null;
+    }
+
+    /**
+     * Add a model to the scene under its own node
+     * @returns The new node, for positioning/animating the model
+     */
+    public addModel(model: ObjModel, parent: SceneNode = this.scene): SceneNode {
+        return parent.add(new SceneNode(model.meshes[0]?.name ?? "model").attachModel(model));
     }
 
-    public addModel(model: ObjModel) {
-        this.objModels.push(model);
+    /** Root of the scene graph; attach nodes with models, cameras and lights here */
+    public getScene(): SceneNode {
+        return this.scene;
     }
 }
\ No newline at end of file
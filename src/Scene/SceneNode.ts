@@ -0,0 +1,229 @@
+import type { MeshData, ObjModel } from "../Loaders/OBJLoader";
+import type { Camera } from "../Objects/Camera";
+import type { Light } from "../Lighting";
+import type { Shader } from "../Shaders/Shader";
+import { createRenderState, type RenderState } from "../RenderState";
+import {
+    mat3NormalFromMat4,
+    mat4Compose,
+    mat4Identity,
+    mat4Mul,
+    quatFromAxisAngle,
+    quatIdentity,
+    quatMul,
+    quatNormalize,
+    type Mat3,
+    type Mat4,
+    type Quat,
+    type Vec3
+} from "../Math";
+
+/**
+ * A node in the scene graph: a local TRS transform, children, and optional attachments.
+ * Local and world matrices are cached and only rebuilt after the transform (or an
+ * ancestor's transform) changes, so set transforms through the accessors or call markDirty().
+ */
+export class SceneNode {
+    name: string;
+    visible: boolean = true;
+    // Whether this node's meshes show up in shadow maps and are darkened by them
+    castShadow: boolean = true;
+    receiveShadow: boolean = true;
+    // Depth, blending and opacity of this node's meshes, unless overridden per mesh
+    renderState: RenderState = createRenderState();
+    // Custom shader for this node's meshes instead of the renderer's shading
+    shader: Shader<object> | null = null;
+
+    // Attachments
+    model: ObjModel | null = null;
+    meshes: MeshData[] | null = null; // subset of model.meshes to draw; null draws all of them
+    camera: Camera | null = null;
+    light: Light | null = null;
+
+    private meshRenderStates = new Map<MeshData, RenderState>();
+
+    private _position: Vec3 = { x: 0, y: 0, z: 0 };
+    private _rotation: Quat = quatIdentity();
+    private _scale: Vec3 = { x: 1, y: 1, z: 1 };
+
+    private _parent: SceneNode | null = null;
+    private _children: SceneNode[] = [];
+
+    private localMatrix: Mat4 = mat4Identity();
+    private _worldMatrix: Mat4 = mat4Identity();
+    private _normalMatrix: Mat3 = mat3NormalFromMat4(mat4Identity());
+    private localDirty = true;
+    private worldDirty = true;
+
+    constructor(name: string = "node") {
+        this.name = name;
+    }
+
+    // Transform
+
+    get position(): Readonly<Vec3> {
+        return this._position;
+    }
+
+    set position(p: Vec3) {
+        this._position = { x: p.x, y: p.y, z: p.z };
+        this.markDirty();
+    }
+
+    /** Unit quaternion; normalized on assignment */
+    get rotation(): Readonly<Quat> {
+        return this._rotation;
+    }
+
+    set rotation(q: Quat) {
+        this._rotation = quatNormalize(q);
+        this.markDirty();
+    }
+
+    get scale(): Readonly<Vec3> {
+        return this._scale;
+    }
+
+    set scale(s: Vec3) {
+        this._scale = { x: s.x, y: s.y, z: s.z };
+        this.markDirty();
+    }
+
+    public setPosition(x: number, y: number, z: number): this {
+        this.position = { x, y, z };
+        return this;
+    }
+
+    public setScale(x: number, y: number = x, z: number = x): this {
+        this.scale = { x, y, z };
+        return this;
+    }
+
+    /** Rotate around a local axis, on top of the current rotation */
+    public rotate(axis: Vec3, angle: number): this {
+        this.rotation = quatMul(this._rotation, quatFromAxisAngle(axis, angle));
+        return this;
+    }
+
+    /** Flag this node's local matrix (and thereby every descendant's world matrix) as stale */
+    public markDirty() {
+        this.localDirty = true;
+        this.worldDirty = true;
+    }
+
+    // Hierarchy
+
+    get parent(): SceneNode | null {
+        return this._parent;
+    }
+
+    get children(): readonly SceneNode[] {
+        return this._children;
+    }
+
+    public add(child: SceneNode): SceneNode {
+        if (child === this) throw new Error("A scene node cannot be its own child");
+        for (let p: SceneNode | null = this; p; p = p._parent) {
+            if (p === child) throw new Error("Adding this node would create a cycle in the scene graph");
+        }
+        child._parent?.remove(child);
+        child._parent = this;
+        child.worldDirty = true;
+        this._children.push(child);
+        return child;
+    }
+
+    public remove(child: SceneNode) {
+        const i = this._children.indexOf(child);
+        if (i < 0) return;
+        this._children.splice(i, 1);
+        child._parent = null;
+        child.worldDirty = true;
+    }
+
+    /** Depth-first visit of this node and every descendant */
+    public traverse(visit: (node: SceneNode) => void) {
+        visit(this);
+        for (const child of this._children) child.traverse(visit);
+    }
+
+    public find(name: string): SceneNode | null {
+        if (this.name === name) return this;
+        for (const child of this._children) {
+            const found = child.find(name);
+            if (found) return found;
+        }
+        return null;
+    }
+
+    // Attachments
+
+    public attachModel(model: ObjModel, meshes: MeshData[] | null = null): this {
+        this.model = model;
+        this.meshes = meshes;
+        return this;
+    }
+
+    /** The render state `mesh` is drawn with: its own override if it has one, the node's otherwise */
+    public getRenderState(mesh: MeshData): RenderState {
+        return this.meshRenderStates.get(mesh) ?? this.renderState;
+    }
+
+    /**
+     * Change some fields of the node's render state, or of a single mesh's. A mesh's first
+     * change gives it an override that starts as a copy of the node's state.
+     */
+    public setRenderState(state: Partial<RenderState>, mesh?: MeshData): this {
+        if (!mesh) {
+            Object.assign(this.renderState, state);
+            return this;
+        }
+        this.meshRenderStates.set(mesh, { ...this.getRenderState(mesh), ...state });
+        return this;
+    }
+
+    public attachCamera(camera: Camera): this {
+        this.camera = camera;
+        camera.node = this;
+        return this;
+    }
+
+    public attachLight(light: Light): this {
+        this.light = light;
+        light.node = this;
+        return this;
+    }
+
+    // Matrices
+
+    /**
+     * Refresh cached matrices for this subtree. Only nodes whose transform, or an ancestor's
+     * transform, changed since the last call are recomputed.
+     * @param force Recompute world matrices even if this node is clean (parent changed)
+     */
+    public updateWorldMatrix(force = false) {
+        if (this.localDirty) {
+            this.localMatrix = mat4Compose(this._position, this._rotation, this._scale);
+            this.localDirty = false;
+        }
+        const changed = force || this.worldDirty;
+        if (changed) {
+            this._worldMatrix = this._parent
+                ? mat4Mul(this._parent._worldMatrix, this.localMatrix)
+                : this.localMatrix;
+            this._normalMatrix = mat3NormalFromMat4(this._worldMatrix);
+            this.worldDirty = false;
+        }
+        for (const child of this._children) child.updateWorldMatrix(changed);
+    }
+
+    /** Local-to-world transform as of the last updateWorldMatrix() */
+    get worldMatrix(): Mat4 {
+        return this._worldMatrix;
+    }
+
+    /** Inverse-transpose of the world matrix's 3x3 part, for transforming normals */
+    get normalMatrix(): Mat3 {
+        return this._normalMatrix;
+    }
+}
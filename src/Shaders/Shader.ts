@@ -0,0 +1,99 @@
+import type { MeshData } from "../Loaders/OBJLoader";
+import type { LightSet } from "../Lighting";
+import type { Mat3, Mat4, Vec3 } from "../Math";
+import type { KernelMaterial, ShaderLibrary } from "../Raster/RasterKernel";
+import { localKernel } from "../Raster/RasterKernel";
+
+/** Most varyings a shader can pass from its vertex to its fragment function */
+export const MAX_VARYINGS = localKernel.MAX_VARYINGS;
+
+/** One vertex of the mesh being drawn; the same object is refilled for every vertex */
+export interface VertexInput {
+    mesh: MeshData;
+    /** Index of the vertex in the mesh's attribute arrays */
+    index: number;
+    /** Object-space position */
+    readonly position: Float64Array;
+    /** Object-space normal, zero when the mesh has none */
+    readonly normal: Float64Array;
+    /** Texture coordinate, zero when the mesh has none */
+    readonly uv: Float64Array;
+    /** Vertex color (0..1 sRGB), white when the mesh has none */
+    readonly color: Float64Array;
+}
+
+/** What a vertex function writes */
+export interface VertexOutput {
+    /** Clip-space x, y, z, w */
+    readonly position: Float64Array;
+    /** The shader's varyings, interpolated across each triangle for its fragments */
+    readonly varyings: Float64Array;
+}
+
+/** Values the renderer provides every shader, next to the shader's own uniforms */
+export interface ShaderUniforms {
+    /** Object to world */
+    modelMatrix: Mat4;
+    /** For object-space normals, see SceneNode.normalMatrix */
+    normalMatrix: Mat3;
+    viewMatrix: Mat4;
+    projectionMatrix: Mat4;
+    /** projection * view * model */
+    mvp: Mat4;
+    /** Camera position in world space */
+    eye: Vec3;
+    /** Frame time in seconds */
+    time: number;
+    lights: LightSet;
+    /** Whether the scene node takes shadows, for ShaderLibrary.shade */
+    receiveShadows: boolean;
+    /** The mesh's material, colors 0..255 */
+    material: KernelMaterial;
+    /** Whether colors are linear light (see RendererOptions.linearLighting) */
+    linear: boolean;
+    /** Which attributes the mesh has; VertexInput holds the defaults for the others */
+    attributes: { normals: boolean, uvs: boolean, colors: boolean };
+}
+
+/**
+ * A programmable replacement for the built-in shading modes, set as RendererOptions.shading or
+ * per scene node. The vertex function places each vertex in clip space and computes varyings,
+ * which are clipped and interpolated perspective-correctly; the fragment function turns them
+ * into a color.
+ *
+ * With worker threads fragment functions run in the workers, from their source: like
+ * createRasterKernel they must not use anything but their arguments (no closures, imports or
+ * `this`), and `uniforms` must be structured-cloneable, as it is copied to the workers every frame.
+ * Vertex functions always run on the calling thread and may use anything.
+ */
+export interface Shader<U extends object = Record<string, unknown>> {
+    /** Number of varyings the vertex function writes, at most MAX_VARYINGS */
+    readonly varyings: number;
+    /** The shader's own values, passed to both functions along with ShaderUniforms */
+    uniforms: U;
+    vertex(input: VertexInput, uniforms: U & ShaderUniforms, out: VertexOutput): void;
+    /**
+     * Write the fragment's RGBA (0..1, linear light when the renderer lights in linear space) to
+     * `out`, which starts as opaque black. The alpha only counts for meshes that blend (see
+     * RenderState). Return false to discard the fragment, leaving color and depth untouched.
+     */
+    fragment(varyings: Float64Array, uniforms: U & ShaderUniforms, out: Float64Array, lib: ShaderLibrary): boolean | void;
+    /**
+     * Optional, for work per triangle on the calling thread once it is clipped and found to face
+     * the camera: `polygon` holds the varyings of the `count` vertices it was clipped to (the
+     * three corners when it is entirely in view), one vertex after another, and may be changed.
+     * `corners` holds the varyings of the three corners before clipping. `back` is true for the
+     * back of a face of a double-sided material, whose normals should be flipped.
+     */
+    triangle?(corners: Float64Array, polygon: Float64Array, count: number, uniforms: U & ShaderUniforms, back: boolean): void;
+}
+
+/** Write mvp * input.position to out.position, the usual first line of a vertex function */
+export function projectVertex(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput) {
+    const m = uniforms.mvp, p = input.position, o = out.position;
+    const x = p[0], y = p[1], z = p[2];
+    o[0] = m[0] * x + m[1] * y + m[2] * z + m[3];
+    o[1] = m[4] * x + m[5] * y + m[6] * z + m[7];
+    o[2] = m[8] * x + m[9] * y + m[10] * z + m[11];
+    o[3] = m[12] * x + m[13] * y + m[14] * z + m[15];
+}
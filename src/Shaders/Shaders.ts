@@ -0,0 +1,407 @@
+import type { KernelMaterial, ShaderLibrary } from "../Raster/RasterKernel";
+import type { Shader, ShaderUniforms, VertexInput, VertexOutput } from "./Shader";
+import { projectVertex } from "./Shader";
+import { localKernel } from "../Raster/RasterKernel";
+import { srgbToLinear } from "../ColorSpace";
+
+// Normal and light of the face or vertex being lit by a triangle function
+const normal = new Float64Array(3);
+const lit = new Float64Array(6);
+
+/** World-space position of the vertex into out.varyings[offset..offset + 2] */
+function worldPosition(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput, offset: number) {
+    const m = uniforms.modelMatrix, p = input.position;
+    out.varyings[offset] = m[0] * p[0] + m[1] * p[1] + m[2] * p[2] + m[3];
+    out.varyings[offset + 1] = m[4] * p[0] + m[5] * p[1] + m[6] * p[2] + m[7];
+    out.varyings[offset + 2] = m[8] * p[0] + m[9] * p[1] + m[10] * p[2] + m[11];
+}
+
+/** World-space normal of the vertex into out.varyings[offset..offset + 2] */
+function worldNormal(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput, offset: number) {
+    const n = uniforms.normalMatrix, v = input.normal;
+    const x = n[0] * v[0] + n[1] * v[1] + n[2] * v[2];
+    const y = n[3] * v[0] + n[4] * v[1] + n[5] * v[2];
+    const z = n[6] * v[0] + n[7] * v[1] + n[8] * v[2];
+    const l = Math.hypot(x, y, z) || 1;
+    out.varyings[offset] = x / l;
+    out.varyings[offset + 1] = y / l;
+    out.varyings[offset + 2] = z / l;
+}
+
+/** The vertex color as the lighting takes it (0..255, linear when lighting is) into out.varyings[offset..offset + 2] */
+function vertexColor(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput, offset: number) {
+    for (let k = 0; k < 3; k++) {
+        const c = input.color[k];
+        out.varyings[offset + k] = (uniforms.linear ? srgbToLinear(c) : c) * 255;
+    }
+}
+
+/**
+ * Normal of the triangle whose corners have their world positions at varyings 0..2 (`stride`
+ * varyings each) into polygon[offset..offset + 2] of each of its `count` vertices, flipped for
+ * its back
+ */
+function faceNormal(corners: Float64Array, stride: number, polygon: Float64Array, count: number, offset: number, back: boolean) {
+    const e1x = corners[stride] - corners[0], e1y = corners[stride + 1] - corners[1], e1z = corners[stride + 2] - corners[2];
+    const e2x = corners[2 * stride] - corners[0], e2y = corners[2 * stride + 1] - corners[1], e2z = corners[2 * stride + 2] - corners[2];
+    const x = e1y * e2z - e1z * e2y, y = e1z * e2x - e1x * e2z, z = e1x * e2y - e1y * e2x;
+    const l = (Math.hypot(x, y, z) || 1) * (back ? -1 : 1);
+    for (let k = 0; k < count; k++) {
+        const o = k * stride + offset;
+        polygon[o] = x / l;
+        polygon[o + 1] = y / l;
+        polygon[o + 2] = z / l;
+    }
+}
+
+/**
+ * Normalize the normals at polygon[offset..offset + 2] of each of the `count` vertices, which
+ * clipping may have shortened, or give them the face normal when the mesh has no normals;
+ * flipped for the triangle's back
+ */
+function polygonNormals(
+    corners: Float64Array, stride: number, polygon: Float64Array, count: number, offset: number, uniforms: ShaderUniforms, back: boolean
+) {
+    if (!uniforms.attributes.normals) {
+        faceNormal(corners, stride, polygon, count, offset, back);
+        return;
+    }
+    for (let k = 0; k < count; k++) {
+        const o = k * stride + offset;
+        const l = (Math.hypot(polygon[o], polygon[o + 1], polygon[o + 2]) || 1) * (back ? -1 : 1);
+        polygon[o] /= l;
+        polygon[o + 1] /= l;
+        polygon[o + 2] /= l;
+    }
+}
+
+/**
+ * Shading "flat" as a shader: each face lit once, at its center with its own normal, without
+ * highlights, and tinted by the vertex colors and the diffuse map. Built on ShaderLibrary.shade;
+ * extend it, or copy it, to change the lighting of the built-in mode.
+ *
+ * Varyings: world position (0..2), UV (3..4) and color (5..7, 0..255).
+ */
+export class FlatShader implements Shader<{}> {
+    public readonly varyings = 8;
+    public uniforms = {};
+
+    public vertex(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        worldPosition(input, uniforms, out, 0);
+        out.varyings[3] = input.uv[0];
+        out.varyings[4] = input.uv[1];
+        vertexColor(input, uniforms, out, 5);
+    }
+
+    /** Replaces the colors with the face's light, tinted by the vertex colors */
+    public triangle(corners: Float64Array, polygon: Float64Array, count: number, uniforms: ShaderUniforms, back: boolean) {
+        const n = this.varyings;
+        faceNormal(corners, n, normal, 1, 0, back);
+        localKernel.shade(
+            (corners[0] + corners[n] + corners[2 * n]) / 3,
+            (corners[1] + corners[n + 1] + corners[2 * n + 1]) / 3,
+            (corners[2] + corners[n + 2] + corners[2 * n + 2]) / 3,
+            normal[0], normal[1], normal[2], 0, 0, 0, false, uniforms.receiveShadows, uniforms.lights, uniforms.material, lit
+        );
+        const tinted = uniforms.attributes.colors;
+        for (let k = 0; k < count; k++) {
+            const o = k * n + 5;
+            for (let c = 0; c < 3; c++) polygon[o + c] = tinted ? polygon[o + c] * (lit[c] / 255) : lit[c];
+        }
+    }
+
+    public fragment(varyings: Float64Array, uniforms: ShaderUniforms, out: Float64Array, lib: ShaderLibrary) {
+        let r = varyings[5], g = varyings[6], b = varyings[7];
+        const map = uniforms.material.mapKd;
+        if (map && uniforms.attributes.uvs) {
+            const texel = lib.texel;
+            const lod = map.mipmaps === "none" ? 0 : lib.computeLod(map, lib.dFdx(3), lib.dFdx(4), lib.dFdy(3), lib.dFdy(4));
+            lib.sampleTexture(map, varyings[3], varyings[4], lod, texel);
+            out[3] = texel[3] / 255;
+            if (uniforms.linear) lib.decodeTexel(texel);
+            r *= texel[0] / 255;
+            g *= texel[1] / 255;
+            b *= texel[2] / 255;
+        }
+        if (out[3] < uniforms.material.alphaCutoff) return false;
+        out[0] = r / 255;
+        out[1] = g / 255;
+        out[2] = b / 255;
+    }
+}
+
+/**
+ * Shading "gouraud" as a shader: Blinn-Phong at the vertices of each clipped triangle, with the
+ * light interpolated across it and tinted by the vertex colors and the diffuse map, and the
+ * highlights by the specular map. See FlatShader.
+ *
+ * Varyings: world position (0..2), normal (3..5), UV (6..7), color (8..10) and specular light
+ * (11..13), the last two 0..255.
+ */
+export class GouraudShader implements Shader<{}> {
+    public readonly varyings = 14;
+    public uniforms = {};
+
+    public vertex(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        worldPosition(input, uniforms, out, 0);
+        worldNormal(input, uniforms, out, 3);
+        out.varyings[6] = input.uv[0];
+        out.varyings[7] = input.uv[1];
+        vertexColor(input, uniforms, out, 8);
+    }
+
+    /** Lights each vertex, replacing the colors with the light tinted by them */
+    public triangle(corners: Float64Array, polygon: Float64Array, count: number, uniforms: ShaderUniforms, back: boolean) {
+        const n = this.varyings, eye = uniforms.eye;
+        polygonNormals(corners, n, polygon, count, 3, uniforms, back);
+        const tinted = uniforms.attributes.colors;
+        for (let k = 0; k < count; k++) {
+            const o = k * n;
+            const wx = polygon[o], wy = polygon[o + 1], wz = polygon[o + 2];
+            let vx = eye.x - wx, vy = eye.y - wy, vz = eye.z - wz;
+            const vl = Math.hypot(vx, vy, vz) || 1;
+            vx /= vl; vy /= vl; vz /= vl;
+            localKernel.shade(
+                wx, wy, wz, polygon[o + 3], polygon[o + 4], polygon[o + 5],
+                vx, vy, vz, true, uniforms.receiveShadows, uniforms.lights, uniforms.material, lit
+            );
+            for (let c = 0; c < 3; c++) {
+                polygon[o + 8 + c] = lit[c] * (tinted ? polygon[o + 8 + c] / 255 : 1);
+                polygon[o + 11 + c] = lit[3 + c];
+            }
+        }
+    }
+
+    public fragment(varyings: Float64Array, uniforms: ShaderUniforms, out: Float64Array, lib: ShaderLibrary) {
+        let r = varyings[8], g = varyings[9], b = varyings[10];
+        let sr = varyings[11], sg = varyings[12], sb = varyings[13];
+        const { mapKd, mapKs } = uniforms.material;
+        if (uniforms.attributes.uvs && (mapKd || mapKs)) {
+            const texel = lib.texel;
+            const u = varyings[6], v = varyings[7];
+            if (mapKd) {
+                const lod = mapKd.mipmaps === "none" ? 0 : lib.computeLod(mapKd, lib.dFdx(6), lib.dFdx(7), lib.dFdy(6), lib.dFdy(7));
+                lib.sampleTexture(mapKd, u, v, lod, texel);
+                out[3] = texel[3] / 255;
+                if (uniforms.linear) lib.decodeTexel(texel);
+                r *= texel[0] / 255;
+                g *= texel[1] / 255;
+                b *= texel[2] / 255;
+            }
+            if (mapKs) {
+                lib.sampleTexture(mapKs, u, v, 0, texel);
+                if (uniforms.linear) lib.decodeTexel(texel);
+                sr *= texel[0] / 255;
+                sg *= texel[1] / 255;
+                sb *= texel[2] / 255;
+            }
+        }
+        if (out[3] < uniforms.material.alphaCutoff) return false;
+        out[0] = (r + sr) / 255;
+        out[1] = (g + sg) / 255;
+        out[2] = (b + sb) / 255;
+    }
+}
+
+/**
+ * Shading "phong" as a shader: Blinn-Phong at every pixel from the interpolated normal, bent by
+ * the material's normal or bump map, tinted by the vertex colors and the diffuse map, with the
+ * highlights scaled by the specular map. See FlatShader.
+ *
+ * Varyings: world position (0..2), normal (3..5), UV (6..7) and color (8..10, 0..255).
+ */
+export class PhongShader implements Shader<{}> {
+    public readonly varyings = 11;
+    public uniforms = {};
+
+    public vertex(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        worldPosition(input, uniforms, out, 0);
+        worldNormal(input, uniforms, out, 3);
+        out.varyings[6] = input.uv[0];
+        out.varyings[7] = input.uv[1];
+        vertexColor(input, uniforms, out, 8);
+    }
+
+    public triangle(corners: Float64Array, polygon: Float64Array, count: number, uniforms: ShaderUniforms, back: boolean) {
+        polygonNormals(corners, this.varyings, polygon, count, 3, uniforms, back);
+    }
+
+    public fragment(varyings: Float64Array, uniforms: ShaderUniforms, out: Float64Array, lib: ShaderLibrary) {
+        const material = uniforms.material, textured = uniforms.attributes.uvs;
+        const wx = varyings[0], wy = varyings[1], wz = varyings[2];
+        const u = varyings[6], v = varyings[7];
+        const nl = Math.hypot(varyings[3], varyings[4], varyings[5]) || 1;
+        const normal = lib.normal;
+        normal[0] = varyings[3] / nl;
+        normal[1] = varyings[4] / nl;
+        normal[2] = varyings[5] / nl;
+        if (textured && (material.mapNorm || material.mapBump)) {
+            // dP/du and dP/dv from the screen-space derivatives of the world position and UV:
+            // dP/dx = dP/du du/dx + dP/dv dv/dx, likewise along y
+            const dudx = lib.dFdx(6), dvdx = lib.dFdx(7), dudy = lib.dFdy(6), dvdy = lib.dFdy(7);
+            const det = dudx * dvdy - dvdx * dudy;
+            if (det !== 0) {
+                const frame = lib.frame;
+                for (let k = 0; k < 3; k++) {
+                    const dpdx = lib.dFdx(k), dpdy = lib.dFdy(k);
+                    frame[k] = (dpdx * dvdy - dpdy * dvdx) / det;
+                    frame[k + 3] = (dpdy * dudx - dpdx * dudy) / det;
+                }
+                lib.perturbNormal(material, frame, 0, u, v, normal);
+            }
+        }
+
+        const eye = uniforms.eye;
+        let vx = eye.x - wx, vy = eye.y - wy, vz = eye.z - wz;
+        const vl = Math.hypot(vx, vy, vz) || 1;
+        vx /= vl; vy /= vl; vz /= vl;
+        const light = lib.light;
+        lib.shade(wx, wy, wz, normal[0], normal[1], normal[2], vx, vy, vz, true, uniforms.receiveShadows, uniforms.lights, material, light);
+        let r = light[0], g = light[1], b = light[2];
+        let sr = light[3], sg = light[4], sb = light[5];
+        if (uniforms.attributes.colors) {
+            r *= varyings[8] / 255;
+            g *= varyings[9] / 255;
+            b *= varyings[10] / 255;
+        }
+
+        const { mapKd, mapKs } = material;
+        if (textured && (mapKd || mapKs)) {
+            const texel = lib.texel;
+            if (mapKd) {
+                const lod = mapKd.mipmaps === "none" ? 0 : lib.computeLod(mapKd, lib.dFdx(6), lib.dFdx(7), lib.dFdy(6), lib.dFdy(7));
+                lib.sampleTexture(mapKd, u, v, lod, texel);
+                out[3] = texel[3] / 255;
+                if (uniforms.linear) lib.decodeTexel(texel);
+                r *= texel[0] / 255;
+                g *= texel[1] / 255;
+                b *= texel[2] / 255;
+            }
+            if (mapKs) {
+                lib.sampleTexture(mapKs, u, v, 0, texel);
+                if (uniforms.linear) lib.decodeTexel(texel);
+                sr *= texel[0] / 255;
+                sg *= texel[1] / 255;
+                sb *= texel[2] / 255;
+            }
+        }
+        if (out[3] < uniforms.material.alphaCutoff) return false;
+        out[0] = (r + sr) / 255;
+        out[1] = (g + sg) / 255;
+        out[2] = (b + sb) / 255;
+    }
+}
+
+/** Shows world-space normals as colors, x, y and z mapped from -1..1 to red, green and blue */
+export class NormalShader implements Shader<{}> {
+    public readonly varyings = 3;
+    public uniforms = {};
+
+    public vertex(input: VertexInput, uniforms: ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        worldNormal(input, uniforms, out, 0);
+    }
+
+    public fragment(varyings: Float64Array, uniforms: ShaderUniforms, out: Float64Array) {
+        const l = Math.hypot(varyings[0], varyings[1], varyings[2]) || 1;
+        out[0] = varyings[0] / l * 0.5 + 0.5;
+        out[1] = varyings[1] / l * 0.5 + 0.5;
+        out[2] = varyings[2] / l * 0.5 + 0.5;
+    }
+}
+
+export interface UVCheckerUniforms {
+    /** Squares per unit of UV along each axis */
+    scale: number;
+    /** The two square colors, 8-bit sRGB */
+    colors: [[number, number, number], [number, number, number]];
+}
+
+/** A checkerboard over the texture coordinates, for inspecting UV layouts and seams */
+export class UVCheckerShader implements Shader<UVCheckerUniforms> {
+    public readonly varyings = 2;
+    public uniforms: UVCheckerUniforms;
+
+    constructor(options: Partial<UVCheckerUniforms> = {}) {
+        this.uniforms = {
+            scale: options.scale ?? 8,
+            colors: options.colors ?? [[230, 230, 230], [40, 40, 40]]
+        };
+    }
+
+    public vertex(input: VertexInput, uniforms: UVCheckerUniforms & ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        out.varyings[0] = input.uv[0];
+        out.varyings[1] = input.uv[1];
+    }
+
+    public fragment(varyings: Float64Array, uniforms: UVCheckerUniforms & ShaderUniforms, out: Float64Array, lib: ShaderLibrary) {
+        const parity = (Math.floor(varyings[0] * uniforms.scale) + Math.floor(varyings[1] * uniforms.scale)) & 1;
+        const color = uniforms.colors[parity];
+        for (let k = 0; k < 3; k++) {
+            out[k] = uniforms.linear ? lib.srgbToLinear(color[k] / 255) : color[k] / 255;
+        }
+    }
+}
+
+export interface ToonUniforms {
+    /** Number of diffuse light levels */
+    bands: number;
+    /** A white, diffuse-only material the light reaching the surface is measured with */
+    white: KernelMaterial;
+}
+
+/**
+ * Cel shading: the built-in lighting without specular highlights, with the light reaching the
+ * surface in a few flat bands
+ */
+export class ToonShader implements Shader<ToonUniforms> {
+    public readonly varyings = 6;
+    public uniforms: ToonUniforms;
+
+    constructor(options: { bands?: number } = {}) {
+        const white = { x: 255, y: 255, z: 255 }, black = { x: 0, y: 0, z: 0 };
+        this.uniforms = {
+            bands: options.bands ?? 3,
+            white: {
+                ambient: white, diffuse: white, specular: black, emissive: black, shininess: 1, illum: 1,
+                mapKd: null, mapKs: null, mapBump: null, bumpScale: 1, mapNorm: null, alphaCutoff: 0
+            }
+        };
+    }
+
+    public vertex(input: VertexInput, uniforms: ToonUniforms & ShaderUniforms, out: VertexOutput) {
+        projectVertex(input, uniforms, out);
+        worldPosition(input, uniforms, out, 0);
+        worldNormal(input, uniforms, out, 3);
+    }
+
+    public fragment(varyings: Float64Array, uniforms: ToonUniforms & ShaderUniforms, out: Float64Array, lib: ShaderLibrary) {
+        const material = uniforms.material;
+        const { ambient: ka, diffuse: kd, emissive: ke } = material;
+        if (material.illum === 0) {
+            out[0] = kd.x / 255;
+            out[1] = kd.y / 255;
+            out[2] = kd.z / 255;
+            return;
+        }
+        const nl = Math.hypot(varyings[3], varyings[4], varyings[5]) || 1;
+        // The lights through a white material: falloff, spot cones, shadows and hemisphere lights
+        // as the built-in lighting has them, on top of the flat ambient
+        const light = lib.light;
+        lib.shade(
+            varyings[0], varyings[1], varyings[2], varyings[3] / nl, varyings[4] / nl, varyings[5] / nl,
+            0, 0, 0, false, uniforms.receiveShadows, uniforms.lights, uniforms.white, light
+        );
+        const ambient = uniforms.lights.ambient, bands = uniforms.bands;
+        const r = Math.min(1, Math.ceil((light[0] / 255 - ambient.x) * bands) / bands);
+        const g = Math.min(1, Math.ceil((light[1] / 255 - ambient.y) * bands) / bands);
+        const b = Math.min(1, Math.ceil((light[2] / 255 - ambient.z) * bands) / bands);
+        out[0] = (ke.x + ka.x * ambient.x + kd.x * r) / 255;
+        out[1] = (ke.y + ka.y * ambient.y + kd.y * g) / 255;
+        out[2] = (ke.z + ka.z * ambient.z + kd.z * b) / 255;
+    }
+}
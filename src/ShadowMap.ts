@@ -0,0 +1,222 @@
+import type { MeshData } from "./Loaders/OBJLoader";
+import type { DirectionalLight } from "./Objects/DirectionalLight";
+import type { SpotLight } from "./Objects/SpotLight";
+import type { ResolvedShadow } from "./Lighting";
+import type { KernelFrameState, KernelTarget } from "./Raster/RasterKernel";
+import { localKernel } from "./Raster/RasterKernel";
+import { VertexStage } from "./VertexStage";
+import {
+    mat3NormalFromMat4,
+    mat4Identity,
+    mat4LookAt,
+    mat4Mul,
+    mat4Ortho,
+    mat4Perspective,
+    mat4TransformPoint,
+    vadd,
+    vnorm,
+    vscale,
+    type Mat4,
+    type Vec3
+} from "./Math";
+
+/** Shadow options of a DirectionalLight or SpotLight */
+export interface ShadowSettings {
+    /** Width and height of the depth map in texels (default 1024) */
+    mapSize: number;
+    /** Depth offset against shadow acne, as a fraction of the light's depth range (default 0.003) */
+    bias: number;
+    /** Shadow-map texels surfaces are pushed along their normal before the lookup (default 1.5) */
+    normalBias: number;
+    /** Percentage-closer filtering radius in texels: (2r + 1)² samples, 0 for hard edges (default 1) */
+    pcfRadius: number;
+}
+
+export function createShadowSettings(): ShadowSettings {
+    return { mapSize: 1024, bias: 0.003, normalBias: 1.5, pcfRadius: 1 };
+}
+
+/** A mesh that casts shadows, with its local-to-world transform */
+export interface ShadowCaster {
+    mesh: MeshData;
+    model: Mat4;
+}
+
+const IDENTITY_NORMAL = mat3NormalFromMat4(mat4Identity());
+// The one triangle rasterized at a time
+const FIRST_TRIANGLE = [0];
+// Wider than the spot cone so the PCF kernel has texels at its edge
+const SPOT_FOV_MARGIN = 0.05;
+
+/**
+ * Depth of the shadow casters as seen from a light, redrawn every frame. Directional lights
+ * get an orthographic view fitted around the casters, spot lights a perspective view covering
+ * their cone. Depth-only triangles go through the same vertex stage and raster kernel as
+ * the main view, without clipping: triangles crossing the light's near plane are skipped.
+ */
+export class ShadowMap {
+    public size = 0;
+    public depth: Float32Array = new Float32Array(0);
+
+    private shared: boolean;
+    private stage = new VertexStage();
+    private verts = new Float64Array(3 * localKernel.VERTEX_STRIDE);
+    private packed = new Float64Array(localKernel.TRIANGLE_STRIDE);
+    private mvp = new Float32Array(16);
+    private state: KernelFrameState = { materials: [], lights: { ambient: { x: 0, y: 0, z: 0 }, lights: [] }, eye: { x: 0, y: 0, z: 0 }, linear: false, draws: [] };
+
+    /**
+     * @param shared Keep the depth map in a SharedArrayBuffer so raster workers see it without a copy
+     */
+    constructor(shared = false) {
+        this.shared = shared;
+    }
+
+    /**
+     * Draw the casters from the light's point of view.
+     * @returns The map for the lighting code, or null when no caster is in the light's view
+     */
+    public render(light: DirectionalLight | SpotLight, casters: readonly ShadowCaster[]): ResolvedShadow | null {
+        const corners = casterCorners(casters);
+        if (corners.length === 0) return null;
+        const view = light.type === "directional"
+            ? this.fitDirectional(light, corners)
+            : this.fitSpot(light, corners);
+        if (!view) return null;
+
+        const settings = light.shadow;
+        this.reserve(settings.mapSize);
+        this.depth.fill(Number.POSITIVE_INFINITY);
+        for (const caster of casters) {
+            this.drawCaster(caster, view.matrix);
+        }
+        return {
+            matrix: view.matrix,
+            size: this.size,
+            depth: this.depth,
+            perspective: light.type === "spot",
+            near: view.near,
+            far: view.far,
+            texelSize: view.extent / this.size,
+            bias: settings.bias,
+            normalBias: settings.normalBias,
+            pcfRadius: Math.max(0, Math.floor(settings.pcfRadius))
+        };
+    }
+
+    /** Orthographic box along the light direction around every caster */
+    private fitDirectional(light: DirectionalLight, corners: Vec3[]) {
+        const direction = vnorm(light.getWorldDirection());
+        const center = { x: 0, y: 0, z: 0 };
+        for (const c of corners) {
+            center.x += c.x / corners.length;
+            center.y += c.y / corners.length;
+            center.z += c.z / corners.length;
+        }
+        const up = Math.abs(direction.y) > 0.99 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+        const view = mat4LookAt(vadd(center, vscale(direction, -1)), center, up);
+
+        const min = { x: Infinity, y: Infinity, z: Infinity };
+        const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+        for (const c of corners) {
+            const p = mat4TransformPoint(view, c);
+            min.x = Math.min(min.x, p.x); max.x = Math.max(max.x, p.x);
+            min.y = Math.min(min.y, p.y); max.y = Math.max(max.y, p.y);
+            min.z = Math.min(min.z, p.z); max.z = Math.max(max.z, p.z);
+        }
+        // A little padding so casters touching the box don't get clipped by rounding
+        const pad = Math.max(max.x - min.x, max.y - min.y, max.z - min.z, 1e-3) * 0.01;
+        const near = -max.z - pad, far = -min.z + pad;
+        const proj = mat4Ortho(min.x - pad, max.x + pad, min.y - pad, max.y + pad, near, far);
+        const extent = Math.max(max.x - min.x, max.y - min.y) + 2 * pad;
+        return { matrix: mat4Mul(proj, view), near, far, extent };
+    }
+
+    /** Perspective view down the cone, reaching the furthest caster (or the light's range) */
+    private fitSpot(light: SpotLight, corners: Vec3[]) {
+        const position = light.getWorldPosition();
+        const direction = vnorm(light.getWorldDirection());
+        const up = Math.abs(direction.y) > 0.99 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 };
+        const view = mat4LookAt(position, vadd(position, direction), up);
+
+        let nearest = Infinity, furthest = 0;
+        for (const c of corners) {
+            const d = -mat4TransformPoint(view, c).z;
+            nearest = Math.min(nearest, d);
+            furthest = Math.max(furthest, d);
+        }
+        if (furthest <= 0) return null;
+        let far = furthest * 1.01;
+        if (light.range > 0) far = Math.min(far, light.range);
+        const near = Math.max(far * 1e-3, nearest * 0.99);
+        if (near >= far) return null;
+
+        const fov = Math.min(2 * Math.max(light.outerAngle, light.innerAngle) + SPOT_FOV_MARGIN, Math.PI * 0.95);
+        const proj = mat4Perspective(fov, 1, near, far);
+        // Width of the view at distance 1
+        const extent = 2 * Math.tan(fov / 2);
+        return { matrix: mat4Mul(proj, view), near, far, extent };
+    }
+
+    private drawCaster(caster: ShadowCaster, viewProj: Mat4) {
+        const { mesh, model } = caster;
+        const stage = this.stage, verts = this.verts, packed = this.packed;
+        const stride = localKernel.VERTEX_STRIDE;
+        const target: KernelTarget = {
+            width: this.size,
+            height: this.size,
+            samples: 1,
+            littleEndian: true,
+            data32: new Uint32Array(0),
+            zBuffer: this.depth,
+            hdr: null,
+            accum: null,
+            revealage: null
+        };
+        stage.transform(mesh, mat4Mul(viewProj, model, this.mvp), model, IDENTITY_NORMAL, this.size, this.size);
+        const { outcode, screen, recipW } = stage;
+
+        const idx = mesh.indices;
+        for (let i = 0; i < idx.length; i += 3) {
+            const a = idx[i], b = idx[i + 1], c = idx[i + 2];
+            if (outcode[a] & outcode[b] & outcode[c]) continue;
+            // Behind or crossing the near plane (bit 0): only possible for spot lights
+            if ((outcode[a] | outcode[b] | outcode[c]) & 1) continue;
+            for (let k = 0; k < 3; k++) {
+                const v = idx[i + k], o = k * stride;
+                verts[o] = screen[v * 3];
+                verts[o + 1] = screen[v * 3 + 1];
+                verts[o + 2] = screen[v * 3 + 2];
+                verts[o + 3] = recipW[v];
+            }
+            // Both faces are drawn, so open meshes cast shadows too
+            if (!localKernel.packTriangle(packed, 0, verts, 0, 1, 2, 0, false, 0, 0, 0, 0, null)) continue;
+            localKernel.rasterizeTile(packed, FIRST_TRIANGLE, 0, 1, 0, 0, this.size, this.size, target, this.state);
+        }
+    }
+
+    private reserve(size: number) {
+        size = Math.max(1, Math.floor(size));
+        if (size === this.size) return;
+        this.size = size;
+        const Buffer = this.shared ? SharedArrayBuffer : ArrayBuffer;
+        this.depth = new Float32Array(new Buffer(size * size * 4));
+    }
+}
+
+/** World-space bounding box corners of every caster */
+function casterCorners(casters: readonly ShadowCaster[]): Vec3[] {
+    const corners: Vec3[] = [];
+    for (const { mesh, model } of casters) {
+        if (mesh.indices.length === 0) continue;
+        const { min, max } = mesh.boundingBox;
+        for (let k = 0; k < 8; k++) {
+            corners.push(mat4TransformPoint(model, {
+                x: k & 1 ? max.x : min.x,
+                y: k & 2 ? max.y : min.y,
+                z: k & 4 ? max.z : min.z
+            }));
+        }
+    }
+    return corners;
+}
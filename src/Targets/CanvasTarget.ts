@@ -0,0 +1,63 @@
+import type { Framebuffer } from "../Framebuffer";
+import type { RenderTarget } from "./RenderTarget";
+
+export interface CanvasTargetOptions {
+    /**
+     * Size the canvas to its displayed (CSS) size times the device pixel ratio before every
+     * frame, so it stays sharp when the layout or the zoom level changes (default false: the
+     * canvas width/height attributes are used as they are)
+     */
+    autoSize?: boolean;
+}
+
+/**
+ * Presents frames into a 2D canvas via putImageData.
+ */
+export class CanvasTarget implements RenderTarget {
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D;
+    private imageData: ImageData;
+    private autoSize: boolean;
+
+    constructor(canvas: HTMLCanvasElement | string, options: CanvasTargetOptions = {}) {
+        this.canvas = typeof canvas === "string"
+            ? document.getElementById(canvas) as HTMLCanvasElement
+            : canvas;
+        if (!this.canvas) throw new Error(`Canvas not found: ${canvas}`);
+        this.ctx = this.canvas.getContext("2d")!;
+        this.autoSize = options.autoSize ?? false;
+        this.updateSize();
+        this.imageData = this.ctx.createImageData(this.canvas.width, this.canvas.height);
+    }
+
+    get width() {
+        return this.canvas.width;
+    }
+
+    get height() {
+        return this.canvas.height;
+    }
+
+    public updateSize() {
+        if (!this.autoSize) return;
+        const ratio = window.devicePixelRatio || 1;
+        const width = Math.max(1, Math.round(this.canvas.clientWidth * ratio));
+        const height = Math.max(1, Math.round(this.canvas.clientHeight * ratio));
+        if (this.canvas.width !== width) this.canvas.width = width;
+        if (this.canvas.height !== height) this.canvas.height = height;
+    }
+
+    public present(framebuffer: Framebuffer) {
+        if (this.imageData.width !== framebuffer.width || this.imageData.height !== framebuffer.height) {
+            this.imageData = this.ctx.createImageData(framebuffer.width, framebuffer.height);
+        }
+        this.imageData.data.set(framebuffer.buf8);
+        this.ctx.putImageData(this.imageData, 0, 0);
+    }
+
+    public drawText(text: string, x: number, y: number) {
+        this.ctx.fillStyle = "white";
+        this.ctx.font = "16px monospace";
+        this.ctx.fillText(text, x, y);
+    }
+}
@@ -0,0 +1,38 @@
+import type { Framebuffer } from "../Framebuffer";
+import type { RenderTarget } from "./RenderTarget";
+
+/**
+ * Headless target: keeps a copy of the last presented frame in memory.
+ * Works anywhere (Node, Bun, workers) since it never touches the DOM.
+ */
+export class MemoryTarget implements RenderTarget {
+    width: number;
+    height: number;
+    pixels: Uint8ClampedArray; // RGBA, row-major, top row first
+    public frameCount: number = 0;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.pixels = new Uint8ClampedArray(width * height * 4);
+    }
+
+    /**
+     * Change the size; the renderer picks it up with the next frame.
+     */
+    public resize(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.pixels = new Uint8ClampedArray(width * height * 4);
+    }
+
+    public present(framebuffer: Framebuffer) {
+        this.pixels.set(framebuffer.buf8);
+        this.frameCount++;
+    }
+
+    public getPixel(x: number, y: number): [number, number, number, number] {
+        const i = (y * this.width + x) * 4;
+        return [this.pixels[i], this.pixels[i + 1], this.pixels[i + 2], this.pixels[i + 3]];
+    }
+}
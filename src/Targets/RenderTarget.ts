@@ -0,0 +1,22 @@
+import type { Framebuffer } from "../Framebuffer";
+
+/**
+ * Somewhere a finished frame goes. The renderer only ever writes into its own
+ * Framebuffer; a target decides what "presenting" it means (blit to a canvas,
+ * keep a copy in memory, ...).
+ */
+export interface RenderTarget {
+    readonly width: number;
+    readonly height: number;
+
+    /**
+     * Optional: called before each frame so the target can follow its display size. The renderer
+     * reallocates its buffers whenever width or height change.
+     */
+    updateSize?(): void;
+
+    present(framebuffer: Framebuffer): void;
+
+    /** Optional text overlay (FPS counter etc.), drawn after present. */
+    drawText?(text: string, x: number, y: number): void;
+}
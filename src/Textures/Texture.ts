@@ -0,0 +1,94 @@
+import type { RGBAImage } from "../Image/PNG";
+import { localKernel } from "../Raster/RasterKernel";
+
+export type TextureWrap = "repeat" | "clamp" | "mirror";
+export type TextureFilter = "nearest" | "bilinear";
+export type MipmapMode = "none" | "nearest" | "linear";
+
+export interface TextureOptions {
+    wrapS?: TextureWrap;
+    wrapT?: TextureWrap;
+    filter?: TextureFilter;
+    /** "nearest" picks the closest mip level, "linear" blends the two nearest (trilinear) */
+    mipmaps?: MipmapMode;
+}
+
+interface MipLevel {
+    readonly width: number;
+    readonly height: number;
+    readonly data: Uint8ClampedArray; // RGBA, top row first
+}
+
+/**
+ * RGBA8 texture with an optional box-filtered mip chain.
+ * UVs follow the OBJ/GL convention: (0, 0) is the bottom-left corner of the image.
+ */
+export class Texture {
+    readonly name: string;
+    readonly levels: MipLevel[];
+    wrapS: TextureWrap;
+    wrapT: TextureWrap;
+    filter: TextureFilter;
+    mipmaps: MipmapMode;
+
+    constructor(image: RGBAImage, options: TextureOptions = {}, name = "") {
+        if (image.width <= 0 || image.height <= 0) throw new Error(`Invalid texture size: ${image.width}x${image.height}`);
+        this.name = name;
+        this.wrapS = options.wrapS ?? "repeat";
+        this.wrapT = options.wrapT ?? "repeat";
+        this.filter = options.filter ?? "bilinear";
+        this.mipmaps = options.mipmaps ?? "linear";
+        this.levels = [{ width: image.width, height: image.height, data: new Uint8ClampedArray(image.data) }];
+        if (this.mipmaps !== "none") this.generateMipmaps();
+    }
+
+    get width() {
+        return this.levels[0].width;
+    }
+
+    get height() {
+        return this.levels[0].height;
+    }
+
+    /**
+     * Build the mip chain down to 1x1 by averaging 2x2 blocks (edge texels are clamped on odd sizes).
+     */
+    public generateMipmaps() {
+        this.levels.length = 1;
+        let src = this.levels[0];
+        while (src.width > 1 || src.height > 1) {
+            const width = Math.max(1, src.width >> 1);
+            const height = Math.max(1, src.height >> 1);
+            const data = new Uint8ClampedArray(width * height * 4);
+            for (let y = 0; y < height; y++) {
+                const sy0 = Math.min(src.height - 1, y * 2), sy1 = Math.min(src.height - 1, y * 2 + 1);
+                for (let x = 0; x < width; x++) {
+                    const sx0 = Math.min(src.width - 1, x * 2), sx1 = Math.min(src.width - 1, x * 2 + 1);
+                    const a = (sy0 * src.width + sx0) * 4, b = (sy0 * src.width + sx1) * 4;
+                    const c = (sy1 * src.width + sx0) * 4, d = (sy1 * src.width + sx1) * 4;
+                    const o = (y * width + x) * 4;
+                    for (let k = 0; k < 4; k++) {
+                        data[o + k] = (src.data[a + k] + src.data[b + k] + src.data[c + k] + src.data[d + k] + 2) >> 2;
+                    }
+                }
+            }
+            src = { width, height, data };
+            this.levels.push(src);
+        }
+    }
+
+    /**
+     * Mip level of detail from screen-space UV derivatives (log2 of texels per pixel).
+     */
+    public computeLod(dudx: number, dvdx: number, dudy: number, dvdy: number): number {
+        return localKernel.computeLod(this, dudx, dvdx, dudy, dvdy);
+    }
+
+    /**
+     * Sample the texture into out[0..3] (RGBA, 0..255).
+     * @param lod Level of detail from computeLod; ignored when mipmaps are off
+     */
+    public sample(u: number, v: number, lod: number, out: Float32Array) {
+        localKernel.sampleTexture(this, u, v, lod, out);
+    }
+}
@@ -0,0 +1,52 @@
+import { decodePNG, type RGBAImage } from "../Image/PNG";
+import { decodePPM } from "../Image/PPM";
+import { Texture, type TextureOptions } from "./Texture";
+
+function isPNG(bytes: Uint8Array): boolean {
+    return bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+}
+
+function isPPM(bytes: Uint8Array): boolean {
+    return bytes.length > 2 && bytes[0] === 0x50 && [0x32, 0x33, 0x35, 0x36].includes(bytes[1]); // P2, P3, P5, P6
+}
+
+export class TextureLoader {
+    /**
+     * Decode image bytes. PNG and PPM/PGM are decoded in pure TypeScript everywhere;
+     * other formats (JPEG, WebP, ...) need the browser's createImageBitmap.
+     */
+    async decode(bytes: Uint8Array, name = ""): Promise<RGBAImage> {
+        if (isPNG(bytes)) return decodePNG(bytes);
+        if (isPPM(bytes)) return decodePPM(bytes);
+
+        if (typeof createImageBitmap === "function" && typeof OffscreenCanvas === "function") {
+            const bitmap = await createImageBitmap(new Blob([bytes as Uint8Array<ArrayBuffer>]));
+            const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+            const ctx = canvas.getContext("2d")!;
+            ctx.drawImage(bitmap, 0, 0);
+            const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+            bitmap.close();
+            return { width: imageData.width, height: imageData.height, data: imageData.data };
+        }
+        throw new Error(`Unsupported image format${name ? `: ${name}` : ""} (only PNG and PPM decode outside the browser)`);
+    }
+
+    /**
+     * Load a texture over fetch (browser, or any runtime with fetch)
+     */
+    async loadFromUrl(url: string, options?: TextureOptions): Promise<Texture> {
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`Failed to fetch texture: ${resp.status}`);
+        const bytes = new Uint8Array(await resp.arrayBuffer());
+        return new Texture(await this.decode(bytes, url), options, url);
+    }
+
+    /**
+     * Load a texture from a local file path (Node.js only)
+     */
+    async loadFromFile(path: string, options?: TextureOptions): Promise<Texture> {
+        const fs = await import('fs/promises');
+        const bytes = new Uint8Array(await fs.readFile(path));
+        return new Texture(await this.decode(bytes, path), options, path);
+    }
+}
@@ -0,0 +1,184 @@
+import type { MeshData } from "./Loaders/OBJLoader";
+import type { Mat3, Mat4 } from "./Math";
+import type { Shader, ShaderUniforms, VertexInput, VertexOutput } from "./Shaders/Shader";
+import { MAX_VARYINGS } from "./Shaders/Shader";
+
+/**
+ * The vertex stage: transforms every vertex of a mesh once into structure-of-arrays buffers,
+ * from which triangles are then assembled by index. The buffers grow to the largest mesh drawn
+ * and are reused for every mesh after that, so drawing allocates nothing per vertex.
+ * Meshes with a custom shader go through its vertex function instead (transformProgram).
+ */
+export class VertexStage {
+    /** Vertices in the mesh last passed to transform or begin */
+    public count = 0;
+    /** Clip-space x, y, z, w per vertex */
+    public clip = new Float64Array(0);
+    /** Screen x, y in pixels and depth in 0..1 per vertex; only meaningful where w > 0 */
+    public screen = new Float64Array(0);
+    /** 1 / w per vertex, for perspective-correct interpolation */
+    public recipW = new Float64Array(0);
+    /** World-space position per vertex */
+    public world = new Float64Array(0);
+    /** Normalized world-space normal per vertex; zero when the mesh has no normals */
+    public normal = new Float64Array(0);
+    /** Frustum planes the vertex lies outside of, one bit per plane in clipPolygon's order */
+    public outcode = new Uint8Array(0);
+    /** MAX_VARYINGS numbers per vertex, the varyings written by transformProgram's shader */
+    public varyings = new Float64Array(0);
+
+    // Inputs of the mesh being transformed
+    private positions: Float32Array = new Float32Array(0);
+    private normals: Float32Array | null = null;
+    private mvp: Mat4 | null = null;
+    private model: Mat4 | null = null;
+    private normalMatrix: Mat3 | null = null;
+    private width = 0;
+    private height = 0;
+    private gridSize = 0;
+
+    // Handed to vertex functions, refilled for every vertex
+    private input: VertexInput = {
+        mesh: null!, index: 0, position: new Float64Array(3), normal: new Float64Array(3), uv: new Float64Array(2),
+        color: new Float64Array(3)
+    };
+    private output: VertexOutput = { position: new Float64Array(4), varyings: new Float64Array(MAX_VARYINGS) };
+
+    /**
+     * Transform every vertex of the mesh.
+     * @param gridSize Round screen positions to multiples of this many pixels (0 leaves them as they are)
+     */
+    public transform(mesh: MeshData, mvp: Mat4, model: Mat4, normalMatrix: Mat3, width: number, height: number, gridSize = 0) {
+        this.begin(mesh, mvp, model, normalMatrix, width, height, gridSize);
+        for (let v = 0; v < this.count; v++) this.transformVertex(v);
+    }
+
+    /**
+     * Size the buffers for the mesh without transforming anything yet; follow up with
+     * transformVertices for the vertices that are actually needed. See transform for the parameters.
+     */
+    public begin(mesh: MeshData, mvp: Mat4, model: Mat4, normalMatrix: Mat3, width: number, height: number, gridSize = 0) {
+        const pos = mesh.positions;
+        this.count = pos.length / 3;
+        this.reserve(this.count);
+        this.positions = pos;
+        this.normals = mesh.normals.length >= pos.length ? mesh.normals : null;
+        this.mvp = mvp;
+        this.model = model;
+        this.normalMatrix = normalMatrix;
+        this.width = width;
+        this.height = height;
+        this.gridSize = gridSize;
+    }
+
+    /**
+     * Run the shader's vertex function on every vertex of the mesh. Fills everything but `world`
+     * and `normal`, which the shader's varyings replace.
+     */
+    public transformProgram(mesh: MeshData, shader: Shader<object>, uniforms: ShaderUniforms, width: number, height: number, gridSize = 0) {
+        const pos = mesh.positions;
+        this.count = pos.length / 3;
+        this.reserve(this.count);
+        this.width = width;
+        this.height = height;
+        this.gridSize = gridSize;
+        const normals = mesh.normals.length >= pos.length ? mesh.normals : null;
+        const uvs = mesh.uvs && mesh.uvs.length >= this.count * 2 ? mesh.uvs : null;
+        const colors = mesh.colors && mesh.colors.length >= pos.length ? mesh.colors : null;
+        const input = this.input, out = this.output;
+        input.mesh = mesh;
+        for (let v = 0; v < this.count; v++) {
+            input.index = v;
+            for (let k = 0; k < 3; k++) {
+                input.position[k] = pos[v * 3 + k];
+                input.normal[k] = normals ? normals[v * 3 + k] : 0;
+                input.color[k] = colors ? colors[v * 3 + k] : 1;
+            }
+            input.uv[0] = uvs ? uvs[v * 2] : 0;
+            input.uv[1] = uvs ? uvs[v * 2 + 1] : 0;
+            out.varyings.fill(0);
+            shader.vertex(input, uniforms, out);
+            const clip = out.position;
+            this.project(v, clip[0], clip[1], clip[2], clip[3]);
+            this.varyings.set(out.varyings, v * MAX_VARYINGS);
+        }
+    }
+
+    /** Transform the listed vertices of the mesh passed to begin */
+    public transformVertices(vertices: Uint32Array) {
+        for (let i = 0; i < vertices.length; i++) this.transformVertex(vertices[i]);
+    }
+
+    private transformVertex(v: number) {
+        const { world, normal, positions: pos, normals } = this;
+        const m = this.mvp!, w = this.model!, n = this.normalMatrix!;
+
+        const px = pos[v * 3], py = pos[v * 3 + 1], pz = pos[v * 3 + 2];
+        this.project(
+            v,
+            m[0] * px + m[1] * py + m[2] * pz + m[3],
+            m[4] * px + m[5] * py + m[6] * pz + m[7],
+            m[8] * px + m[9] * py + m[10] * pz + m[11],
+            m[12] * px + m[13] * py + m[14] * pz + m[15]
+        );
+
+        world[v * 3] = w[0] * px + w[1] * py + w[2] * pz + w[3];
+        world[v * 3 + 1] = w[4] * px + w[5] * py + w[6] * pz + w[7];
+        world[v * 3 + 2] = w[8] * px + w[9] * py + w[10] * pz + w[11];
+
+        if (normals) {
+            const nx = normals[v * 3], ny = normals[v * 3 + 1], nz = normals[v * 3 + 2];
+            const tx = n[0] * nx + n[1] * ny + n[2] * nz;
+            const ty = n[3] * nx + n[4] * ny + n[5] * nz;
+            const tz = n[6] * nx + n[7] * ny + n[8] * nz;
+            const len = Math.hypot(tx, ty, tz) || 1;
+            normal[v * 3] = tx / len;
+            normal[v * 3 + 1] = ty / len;
+            normal[v * 3 + 2] = tz / len;
+        } else {
+            normal[v * 3] = normal[v * 3 + 1] = normal[v * 3 + 2] = 0;
+        }
+    }
+
+    /** Store clip-space (cx, cy, cz, cw) as vertex v, with its outcode and screen position */
+    private project(v: number, cx: number, cy: number, cz: number, cw: number) {
+        const { clip, screen, recipW, outcode, width, height, gridSize } = this;
+        clip[v * 4] = cx;
+        clip[v * 4 + 1] = cy;
+        clip[v * 4 + 2] = cz;
+        clip[v * 4 + 3] = cw;
+
+        let code = 0;
+        if (cw + cz < 0) code |= 1;
+        if (cw - cz < 0) code |= 2;
+        if (cw + cx < 0) code |= 4;
+        if (cw - cx < 0) code |= 8;
+        if (cw + cy < 0) code |= 16;
+        if (cw - cy < 0) code |= 32;
+        outcode[v] = code;
+
+        const rw = 1 / cw;
+        recipW[v] = rw;
+        let sx = (cx * rw * 0.5 + 0.5) * width;
+        let sy = (1.0 - (cy * rw * 0.5 + 0.5)) * height;
+        if (gridSize > 0) {
+            sx = Math.round(sx / gridSize) * gridSize;
+            sy = Math.round(sy / gridSize) * gridSize;
+        }
+        screen[v * 3] = sx;
+        screen[v * 3 + 1] = sy;
+        screen[v * 3 + 2] = cz * rw * 0.5 + 0.5;
+    }
+
+    private reserve(count: number) {
+        if (count <= this.outcode.length) return;
+        const capacity = Math.max(count, this.outcode.length * 2);
+        this.clip = new Float64Array(capacity * 4);
+        this.screen = new Float64Array(capacity * 3);
+        this.recipW = new Float64Array(capacity);
+        this.world = new Float64Array(capacity * 3);
+        this.normal = new Float64Array(capacity * 3);
+        this.outcode = new Uint8Array(capacity);
+        this.varyings = new Float64Array(capacity * MAX_VARYINGS);
+    }
+}
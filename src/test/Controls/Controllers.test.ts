@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { Camera } from '../../Objects/Camera';
+import { OrbitController } from '../../Controls/OrbitController';
+import { FlyController } from '../../Controls/FlyController';
+import { CameraPath } from '../../Controls/CameraPath';
+import { vlen, type Vec3 } from '../../Math';
+
+const up = { x: 0, y: 1, z: 0 };
+
+function dispatch(target: EventTarget, type: string, props: object) {
+    target.dispatchEvent(Object.assign(new Event(type), props));
+}
+
+function expectVec(actual: Vec3, expected: Vec3) {
+    expect(actual.x).toBeCloseTo(expected.x);
+    expect(actual.y).toBeCloseTo(expected.y);
+    expect(actual.z).toBeCloseTo(expected.z);
+}
+
+describe('Camera', () => {
+    it('turns towards a point', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 5 }, up).lookAt({ x: 0, y: 0, z: 0 });
+        expectVec(camera.getForwardVector(), { x: 0, y: 0, z: -1 });
+    });
+});
+
+describe('OrbitController', () => {
+    it('starts from the camera position and keeps it facing the target', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 5 }, up);
+        const orbit = new OrbitController(camera, null);
+        expect(orbit.distance).toBeCloseTo(5);
+
+        orbit.rotate(Math.PI / 2, 0);
+        expect(vlen(camera.position)).toBeCloseTo(5);
+        expectVec(camera.getForwardVector(), { x: -camera.position.x / 5, y: 0, z: -camera.position.z / 5 });
+
+        // Elevation stops short of the pole
+        orbit.rotate(0, 10);
+        expect(orbit.elevation).toBeLessThan(Math.PI / 2);
+        expect(camera.position.y).toBeLessThan(5);
+    });
+
+    it('zooms within its limits and pans the target', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 5 }, up);
+        const orbit = new OrbitController(camera, null, { minDistance: 2 });
+        orbit.zoom(0.1);
+        expect(orbit.distance).toBe(2);
+
+        orbit.pan(1, 0);
+        expectVec(orbit.target, { x: 1, y: 0, z: 0 });
+        expectVec(camera.position, { x: 1, y: 0, z: 2 });
+    });
+
+    it('rotates on drag and zooms on wheel until disposed', () => {
+        const element = new EventTarget();
+        const camera = new Camera({ x: 0, y: 0, z: 5 }, up);
+        const orbit = new OrbitController(camera, element);
+
+        dispatch(element, 'pointerdown', { pointerId: 1, button: 0, clientX: 0, clientY: 0 });
+        dispatch(element, 'pointermove', { pointerId: 1, clientX: 100, clientY: 0 });
+        dispatch(element, 'pointerup', { pointerId: 1 });
+        expect(camera.position.z).toBeLessThan(5);
+
+        dispatch(element, 'wheel', { deltaY: 100 });
+        expect(orbit.distance).toBeCloseTo(5.5);
+
+        orbit.dispose();
+        dispatch(element, 'wheel', { deltaY: 100 });
+        expect(orbit.distance).toBeCloseTo(5.5);
+    });
+
+    it('pinches to zoom with two pointers', () => {
+        const element = new EventTarget();
+        const orbit = new OrbitController(new Camera({ x: 0, y: 0, z: 5 }, up), element);
+        dispatch(element, 'pointerdown', { pointerId: 1, button: 0, clientX: 0, clientY: 0 });
+        dispatch(element, 'pointerdown', { pointerId: 2, button: 0, clientX: 100, clientY: 0 });
+        dispatch(element, 'pointermove', { pointerId: 2, clientX: 200, clientY: 0 });
+        expect(orbit.distance).toBeCloseTo(2.5);
+    });
+});
+
+describe('FlyController', () => {
+    it('moves at camera.speed units per second while keys are held', () => {
+        const keys = new EventTarget();
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, up, 2);
+        const fly = new FlyController(camera, null, { keyTarget: keys });
+
+        dispatch(keys, 'keydown', { code: 'KeyW' });
+        fly.update(0.25);
+        fly.update(0.25);
+        expectVec(camera.position, { x: 1, y: 0, z: 0 });
+
+        dispatch(keys, 'keyup', { code: 'KeyW' });
+        dispatch(keys, 'keydown', { code: 'KeyD' });
+        fly.update(0.5);
+        expectVec(camera.position, { x: 1, y: 0, z: 1 });
+
+        // Losing focus releases every key
+        dispatch(keys, 'blur', {});
+        fly.update(1);
+        expectVec(camera.position, { x: 1, y: 0, z: 1 });
+        fly.dispose();
+    });
+
+    it('looks around on drag with pitch clamped', () => {
+        const element = new EventTarget();
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, up);
+        new FlyController(camera, element, { keyTarget: null, lookSpeed: 0.01 });
+
+        dispatch(element, 'pointerdown', { pointerId: 1, clientX: 0, clientY: 0 });
+        dispatch(element, 'pointermove', { pointerId: 1, clientX: 10, clientY: -1000 });
+        expect(camera.yaw).toBeCloseTo(0.1);
+        expect(camera.pitch).toBeLessThan(Math.PI / 2);
+        expect(camera.pitch).toBeGreaterThan(1.5);
+    });
+});
+
+describe('CameraPath', () => {
+    const keyframes = [
+        { time: 0, position: { x: 0, y: 0, z: 10 }, target: { x: 0, y: 0, z: 0 } },
+        { time: 1, position: { x: 10, y: 0, z: 0 }, target: { x: 0, y: 0, z: 0 } },
+        { time: 2, position: { x: 0, y: 0, z: -10 }, target: { x: 0, y: 5, z: 0 } }
+    ];
+
+    it('passes through its keyframes looking at their targets', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, up);
+        const path = new CameraPath(camera, keyframes);
+        path.evaluate(1);
+        expectVec(camera.position, { x: 10, y: 0, z: 0 });
+        expectVec(camera.getForwardVector(), { x: -1, y: 0, z: 0 });
+
+        path.update(2.5);
+        expect(path.finished).toBe(true);
+        expectVec(camera.position, { x: 0, y: 0, z: -10 });
+        expect(camera.pitch).toBeCloseTo(Math.atan2(5, 10));
+    });
+
+    it('wraps around when looping and faces along the path without targets', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, up);
+        const path = new CameraPath(camera, [
+            { time: 0, position: { x: 0, y: 0, z: 0 } },
+            { time: 2, position: { x: 4, y: 0, z: 0 } }
+        ], { loop: true });
+        path.evaluate(3);
+        expectVec(camera.position, { x: 2, y: 0, z: 0 });
+        expectVec(camera.getForwardVector(), { x: 1, y: 0, z: 0 });
+        expect(path.finished).toBe(false);
+    });
+});
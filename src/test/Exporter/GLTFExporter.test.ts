@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GLTFExporter } from '../../Exporters/GLTFExporter';
+import { GLTFLoader } from '../../Loaders/GLTFLoader';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { PLYLoader } from '../../Loaders/PLYLoader';
+
+describe('GLTFExporter', () => {
+    let exporter: GLTFExporter;
+    let loader: GLTFLoader;
+
+    beforeEach(() => {
+        exporter = new GLTFExporter();
+        loader = new GLTFLoader();
+    });
+
+    it('writes a GLB that parses back to the same meshes and materials', async () => {
+        const model = await loader.loadFromFile('src/test/Loader/fixtures/scene.glb');
+        const glb = exporter.exportGLB(model);
+        const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+        expect(view.getUint32(0, true)).toBe(0x46546c67);
+        expect(view.getUint32(8, true)).toBe(glb.length);
+        expect(glb.length % 4).toBe(0);
+
+        const reloaded = loader.parse(glb);
+        expect(reloaded.meshes).toEqual(model.meshes);
+        expect(reloaded.materials).toEqual(model.materials);
+        // One node per mesh, at the origin
+        expect(reloaded.scene.children.map(n => n.name)).toEqual(model.meshes.map(m => m.name));
+    });
+
+    it('embeds decoded textures with their sampler settings', async () => {
+        const model = await loader.loadFromFile('src/test/Loader/fixtures/texturedQuad.gltf');
+        const dir = await mkdtemp(join(tmpdir(), 'glb-export-'));
+        try {
+            await exporter.exportToFile(model, join(dir, 'quad.glb'));
+            const reloaded = await loader.loadFromFile(join(dir, 'quad.glb'));
+            expect(reloaded.meshes).toEqual(model.meshes);
+            const texture = reloaded.textures?.['checker.png'];
+            expect(texture).toBeDefined();
+            expect(texture!.levels[0].data).toEqual(model.textures!['checker.png'].levels[0].data);
+            expect(texture!.filter).toBe('nearest');
+            expect(texture!.wrapS).toBe('clamp');
+            expect(texture!.mipmaps).toBe('linear');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+
+        // Without embedding, the image is referred to by its name
+        const linked = loader.parse(exporter.exportGLB(model, { embedTextures: false }));
+        expect(linked.materials['Checker'].mapKd).toBe('checker.png');
+    });
+
+    it('converts Blinn-Phong materials and keeps vertex colors', () => {
+        const obj = new OBJLoader().parse([
+            'v 0 0 0', 'v 1 0 0', 'v 0 1 0',
+            'vn 0 0 1',
+            'o Tri', 'usemtl Glass', 'f 1//1 2//1 3//1'
+        ].join('\n'), { 'a.mtl': 'newmtl Glass\nKd 0.2 0.4 0.6\nNs 50\nd 0.5\nKe 0.1 0 0' });
+        const glass = loader.parse(exporter.exportGLB(obj)).materials['Glass'];
+        expect(glass.pbr).toMatchObject({ baseColorFactor: [0.2, 0.4, 0.6, 0.5], metallicFactor: 0, alphaMode: 'BLEND' });
+        // The loader derives the same diffuse color, opacity and shininess again
+        expect(glass.kd).toEqual([0.2, 0.4, 0.6]);
+        expect(glass.d).toBe(0.5);
+        expect(glass.ke).toEqual([0.1, 0, 0]);
+        expect(glass.ns).toBeCloseTo(50, 6);
+
+        const ply = new PLYLoader().parse([
+            'ply', 'format ascii 1.0',
+            'element vertex 3',
+            'property float x', 'property float y', 'property float z',
+            'property uchar red', 'property uchar green', 'property uchar blue',
+            'element face 1', 'property list uchar int vertex_indices',
+            'end_header',
+            '0 0 0 255 0 0', '1 0 0 0 128 0', '0 1 0 0 0 255',
+            '3 0 1 2'
+        ].join('\n'));
+        const mesh = loader.parse(exporter.exportGLB(ply)).meshes[0];
+        expect(mesh.uvs).toBeNull();
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2]);
+        // Stored linear, read back as sRGB
+        mesh.colors!.forEach((c, i) => expect(c).toBeCloseTo(ply.meshes[0].colors![i], 5));
+    });
+});
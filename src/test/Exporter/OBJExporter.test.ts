@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OBJExporter } from '../../Exporters/OBJExporter';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { PLYLoader } from '../../Loaders/PLYLoader';
+import { STLLoader } from '../../Loaders/STLLoader';
+
+const MTL = `
+newmtl Shiny
+Ka 0.1 0.1 0.1
+Kd 0.8 0.2 0.2
+Ks 0.5 0.5 0.5
+Ns 64
+d 0.75
+illum 2
+map_Kd wood.png
+map_bump -bm 0.5 bumps.png
+
+newmtl Plain
+Kd 0.3 0.3 0.3
+`;
+
+describe('OBJExporter', () => {
+    let exporter: OBJExporter;
+    let loader: OBJLoader;
+
+    beforeEach(() => {
+        exporter = new OBJExporter();
+        loader = new OBJLoader();
+    });
+
+    it('reproduces the meshes of a loaded OBJ', async () => {
+        const model = await loader.loadFromFile('src/Examples/teddyBear.obj');
+        const { obj, mtl } = exporter.export(model);
+        expect(mtl).toBe('');
+        expect(obj).not.toContain('mtllib');
+        expect(loader.parse(obj).meshes).toEqual(model.meshes);
+    });
+
+    it('writes shared positions, UVs and normals once', () => {
+        const model = loader.parse(`
+            o Left
+            v 0 0 0
+            v 1 0 0
+            v 1 1 0
+            v 0 1 0
+            vt 0 0
+            vt 1 0
+            vt 1 1
+            vn 0 0 1
+            f 1/1/1 2/2/1 3/3/1
+            o Right
+            v 2 0 0
+            f 2/2/1 5/1/1 3/3/1
+        `);
+        const { obj } = exporter.export(model);
+        const count = (tag: string) => obj.split('\n').filter(l => l.startsWith(`${tag} `)).length;
+        expect(count('v')).toBe(4);
+        expect(count('vt')).toBe(3);
+        expect(count('vn')).toBe(1);
+        expect(obj).toContain('o Left\nf 1/1/1 2/2/1 3/3/1\no Right\nf 2/2/1 4/1/1 3/3/1');
+        expect(loader.parse(obj).meshes).toEqual(model.meshes);
+    });
+
+    it('writes materials as MTL and round-trips them with mtllib', () => {
+        const model = loader.parse([
+            'mtllib scene.mtl',
+            'v 0 0 0', 'v 1 0 0', 'v 0 1 0', 'v 0 0 1',
+            'vt 0 0', 'vt 1 0', 'vt 0 1',
+            'vn 0 0 1',
+            'o Bare', 'f 2/1/1 3/2/1 4/3/1',
+            'o Top', 'usemtl Shiny', 'f 1/1/1 2/2/1 3/3/1',
+            'o Side', 'usemtl Plain', 'f 1/1/1 3/3/1 4/2/1'
+        ].join('\n'), { 'scene.mtl': MTL });
+
+        const { obj, mtl } = exporter.export(model, { mtlFilename: 'out.mtl' });
+        expect(obj.startsWith('mtllib out.mtl\n')).toBe(true);
+        expect(mtl).toContain('map_bump -bm 0.5 bumps.png');
+        const reloaded = loader.parse(obj, { 'out.mtl': mtl });
+        expect(reloaded.meshes).toEqual(model.meshes);
+        expect(reloaded.materials).toEqual(model.materials);
+        expect(reloaded.meshes.map(m => m.materialName)).toEqual([null, 'Shiny', 'Plain']);
+    });
+
+    it('keeps objects, groups and material switches', () => {
+        const model = loader.parse([
+            'v 0 0 0', 'v 1 0 0', 'v 0 1 0', 'v 1 1 0',
+            'o Lamp', 'g shade glass', 'usemtl Shiny', 'f 1 2 3', 'usemtl Plain', 'f 2 4 3',
+            'g post', 'f 1 2 4'
+        ].join('\n'), { 'a.mtl': MTL });
+        const { obj, mtl } = exporter.export(model);
+        expect(obj).toMatch(/o Lamp\ng shade glass\nusemtl Shiny\nf .*\nusemtl Plain\nf .*\ng post\nf /);
+        const reloaded = loader.parse(obj, { 'model.mtl': mtl });
+        expect(reloaded.meshes).toEqual(model.meshes);
+        expect(reloaded.objects).toEqual(model.objects);
+    });
+
+    it('keeps vertex colors and meshes without UVs', () => {
+        const model = new PLYLoader().parse([
+            'ply', 'format ascii 1.0',
+            'element vertex 3',
+            'property float x', 'property float y', 'property float z',
+            'property float red', 'property float green', 'property float blue',
+            'element face 1', 'property list uchar int vertex_indices',
+            'end_header',
+            '0 0 0 1 0 0', '1 0 0 0 0.5 0', '0 1 0 0 0 1',
+            '3 0 1 2'
+        ].join('\n'));
+        const { obj, mtl } = exporter.export(model);
+        expect(obj).toContain('v 1 0 0 0 0.5 0');
+        expect(obj).toContain('f 1//1 2//1 3//1');
+        const reloaded = loader.parse(obj, { 'model.mtl': mtl });
+        expect(reloaded.meshes).toEqual(model.meshes);
+        expect(reloaded.materials).toEqual(model.materials);
+    });
+
+    it('round-trips welded STL meshes', () => {
+        const stl = [
+            'solid part',
+            'facet normal 0 0 1', 'outer loop', 'vertex 0 0 0', 'vertex 1 0 0', 'vertex 1 1 0', 'endloop', 'endfacet',
+            'facet normal 0 0 1', 'outer loop', 'vertex 0 0 0', 'vertex 1 1 0', 'vertex 0 1 0', 'endloop', 'endfacet',
+            'endsolid part'
+        ].join('\n');
+        const model = new STLLoader().parse(stl);
+        const reloaded = loader.parse(exporter.export(model).obj);
+        expect(reloaded.meshes).toEqual(model.meshes);
+    });
+
+    it('writes the OBJ and its MTL side by side', async () => {
+        const model = loader.parse('v 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Plain\nf 1 2 3', { 'a.mtl': MTL });
+        const dir = await mkdtemp(join(tmpdir(), 'obj-export-'));
+        try {
+            await exporter.exportToFile(model, join(dir, 'mesh.obj'));
+            expect(await readFile(join(dir, 'mesh.obj'), 'utf8')).toMatch(/^mtllib mesh\.mtl\n/);
+            const reloaded = await loader.loadFromFile(join(dir, 'mesh.obj'), { loadTextures: false });
+            expect(reloaded.meshes).toEqual(model.meshes);
+            expect(reloaded.materials).toEqual(model.materials);
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, inflateSync } from 'zlib';
+import { zlibDeflate, zlibInflate } from '../../Image/Deflate';
+import { decodePNG, encodePNG } from '../../Image/PNG';
+import { decodePPM, encodePPM } from '../../Image/PPM';
+
+function gradient(width: number, height: number): Uint8ClampedArray {
+    const px = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = (y * width + x) * 4;
+            px[o] = x * 8;
+            px[o + 1] = y * 8;
+            px[o + 2] = (x * y) & 0xff;
+            px[o + 3] = x < width / 2 ? 255 : 128;
+        }
+    }
+    return px;
+}
+
+describe('Deflate', () => {
+    const text = new TextEncoder().encode('the quick brown fox jumps over the lazy dog. '.repeat(200));
+
+    it('round-trips through our own inflate', () => {
+        const packed = zlibDeflate(text);
+        expect(packed.length).toBeLessThan(text.length / 4);
+        expect(zlibInflate(packed)).toEqual(text);
+    });
+
+    it('interoperates with zlib in both directions', () => {
+        expect(new Uint8Array(inflateSync(zlibDeflate(text)))).toEqual(text);
+        // Node emits dynamic Huffman blocks, which our encoder never does
+        expect(zlibInflate(new Uint8Array(deflateSync(text)))).toEqual(text);
+        expect(zlibInflate(new Uint8Array(deflateSync(text, { level: 0 })))).toEqual(text);
+    });
+});
+
+describe('PNG', () => {
+    it('round-trips RGBA pixels', () => {
+        const px = gradient(20, 12);
+        const decoded = decodePNG(encodePNG(px, 20, 12));
+        expect(decoded.width).toBe(20);
+        expect(decoded.height).toBe(12);
+        expect(decoded.data).toEqual(px);
+    });
+
+    it('writes RGB and grayscale files', () => {
+        const px = gradient(8, 8);
+        const rgb = decodePNG(encodePNG(px, 8, 8, 'rgb'));
+        expect(Array.from(rgb.data.slice(4 * 5, 4 * 5 + 4))).toEqual([40, 0, 0, 255]);
+
+        const gray = new Uint8Array([0, 64, 128, 255]);
+        const decoded = decodePNG(encodePNG(gray, 2, 2, 'gray', 1));
+        expect(Array.from(decoded.data.filter((_, i) => i % 4 === 0))).toEqual([0, 64, 128, 255]);
+    });
+
+    it('rejects corrupted files', () => {
+        const bytes = encodePNG(gradient(4, 4), 4, 4);
+        bytes[20] ^= 0xff;
+        expect(() => decodePNG(bytes)).toThrow(/CRC/);
+        expect(() => decodePNG(new Uint8Array(16))).toThrow(/Not a PNG/);
+    });
+});
+
+describe('PPM', () => {
+    it('round-trips color and grayscale maps', () => {
+        const px = gradient(6, 5);
+        const decoded = decodePPM(encodePPM(px, 6, 5));
+        for (let i = 0; i < 6 * 5; i++) {
+            expect(Array.from(decoded.data.slice(i * 4, i * 4 + 3))).toEqual(Array.from(px.slice(i * 4, i * 4 + 3)));
+        }
+
+        const gray = decodePPM(encodePPM(new Uint8Array([7, 200]), 2, 1, true, 1));
+        expect(Array.from(gray.data)).toEqual([7, 7, 7, 255, 200, 200, 200, 255]);
+    });
+
+    it('parses ASCII files with comments', () => {
+        const text = 'P3\n# tiny\n2 1\n15\n15 0 0  0 15 0\n';
+        const decoded = decodePPM(new TextEncoder().encode(text));
+        expect(Array.from(decoded.data)).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+    });
+});
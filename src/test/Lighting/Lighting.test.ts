@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { computeBlinnPhongLighting, computeFlatLighting, resolveLights } from '../../Lighting';
+import { resolveShadingMaterial } from '../../Materials';
+import { AmbientLight } from '../../Objects/AmbientLight';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { HemisphereLight } from '../../Objects/HemisphereLight';
+import { PointLight } from '../../Objects/PointLight';
+import { SpotLight } from '../../Objects/SpotLight';
+import { SceneNode } from '../../Scene/SceneNode';
+
+const WHITE = { x: 1, y: 1, z: 1 };
+const ORIGIN = { x: 0, y: 0, z: 0 };
+const UP = { x: 0, y: 1, z: 0 };
+const material = resolveShadingMaterial({ name: 'white', kd: [1, 1, 1], ks: [1, 1, 1], ns: 8, illum: 2 });
+
+describe('Lighting', () => {
+    it('falls back to the default ambient level without any lights', () => {
+        const color = computeFlatLighting(UP, ORIGIN, resolveLights([], 0.2), material);
+        expect(color.x).toBeCloseTo(255 * 0.2);
+        expect(color.y).toBeCloseTo(255 * 0.2);
+    });
+
+    it('adds colored contributions from several lights', () => {
+        const lights = resolveLights([
+            new DirectionalLight({ x: 0, y: -1, z: 0 }, { x: 1, y: 0, z: 0 }, 1),
+            new DirectionalLight({ x: 0, y: -1, z: 0 }, { x: 0, y: 0, z: 1 }, 0.5),
+            new AmbientLight(WHITE, 0.1)
+        ], 0.5);
+        const color = computeFlatLighting(UP, ORIGIN, lights, material);
+        // The ambient light replaces the default level
+        expect(color.x).toBeCloseTo(255 * 1.1);
+        expect(color.y).toBeCloseTo(255 * 0.1);
+        expect(color.z).toBeCloseTo(255 * 0.6);
+    });
+
+    it('attenuates point lights and cuts them off at their range', () => {
+        const light = new PointLight({ x: 0, y: 2, z: 0 }, WHITE, 1, 5, { constant: 1, linear: 0, quadratic: 0.25 });
+        const lights = resolveLights([light], 0);
+        const near = computeFlatLighting(UP, ORIGIN, lights, material);
+        const far = computeFlatLighting(UP, { x: 0, y: -2, z: 0 }, lights, material);
+        const outside = computeFlatLighting(UP, { x: 0, y: -4, z: 0 }, lights, material);
+        expect(near.x).toBeGreaterThan(far.x);
+        expect(far.x).toBeGreaterThan(0);
+        expect(outside.x).toBe(0);
+    });
+
+    it('follows the node a positional light is attached to', () => {
+        const light = new PointLight(ORIGIN, WHITE, 1);
+        const node = new SceneNode('lamp').setPosition(0, -1, 0).attachLight(light);
+        node.updateWorldMatrix();
+        // The light is now below the surface, which faces up
+        expect(computeFlatLighting(UP, ORIGIN, resolveLights([light], 0), material).x).toBe(0);
+    });
+
+    it('fades spot lights between the inner and outer cone', () => {
+        const light = new SpotLight({ x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 }, WHITE, 1, Math.PI / 8, Math.PI / 4);
+        const lights = resolveLights([light], 0);
+        const center = computeFlatLighting(UP, ORIGIN, lights, material);
+        const edge = computeFlatLighting(UP, { x: Math.tan(Math.PI * 3 / 16), y: 0, z: 0 }, lights, material);
+        const outside = computeFlatLighting(UP, { x: 2, y: 0, z: 0 }, lights, material);
+        expect(center.x).toBeCloseTo(255);
+        expect(edge.x).toBeGreaterThan(0);
+        expect(edge.x).toBeLessThan(center.x);
+        expect(outside.x).toBe(0);
+    });
+
+    it('blends hemisphere lights from ground to sky by the normal', () => {
+        const lights = resolveLights([new HemisphereLight({ x: 0, y: 0, z: 1 }, { x: 0, y: 1, z: 0 }, 1)], 0.5);
+        const up = computeFlatLighting(UP, ORIGIN, lights, material);
+        const down = computeFlatLighting({ x: 0, y: -1, z: 0 }, ORIGIN, lights, material);
+        const side = computeFlatLighting({ x: 1, y: 0, z: 0 }, ORIGIN, lights, material);
+        expect([up.x, up.y, up.z]).toEqual([0, 0, 255]);
+        expect([down.x, down.y, down.z]).toEqual([0, 255, 0]);
+        expect(side.y).toBeCloseTo(127.5);
+        expect(side.z).toBeCloseTo(127.5);
+    });
+
+    it('only adds specular from lights in front of the surface', () => {
+        const behind = resolveLights([new DirectionalLight({ x: 0, y: 1, z: 0 }, WHITE, 1)], 0);
+        expect(computeBlinnPhongLighting(ORIGIN, UP, { x: 0, y: -1, z: 0 }, behind, material).specular.x).toBe(0);
+
+        const above = resolveLights([new DirectionalLight({ x: 0, y: -1, z: 0 }, WHITE, 1)], 0);
+        expect(computeBlinnPhongLighting(ORIGIN, UP, UP, above, material).specular.x).toBeCloseTo(255);
+    });
+});
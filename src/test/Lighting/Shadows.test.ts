@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { SpotLight } from '../../Objects/SpotLight';
+import { Renderer } from '../../Renderer';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+import type { Light } from '../../Lighting';
+import { grid } from '../Renderer/scenes';
+
+interface Scene {
+    light: Light;
+    cameraTarget: { x: number, y: number, z: number };
+    castShadow?: boolean;
+    blockerCasts?: boolean;
+    groundReceives?: boolean;
+    shading?: 'flat' | 'gouraud' | 'phong';
+    threads?: number;
+}
+
+/** A ground plane with a blocker 2 units above the origin, rendered from above and to the side */
+async function render(scene: Scene) {
+    const target = new MemoryTarget(64, 64);
+    const renderer = new Renderer(target, { shading: scene.shading ?? 'phong', ambient: 0.1, threads: scene.threads });
+    const camera = new Camera({ x: scene.cameraTarget.x, y: 8, z: scene.cameraTarget.z - 8 }, { x: 0, y: 1, z: 0 });
+    renderer.setCamera(camera.lookAt(scene.cameraTarget));
+    const light = scene.light as DirectionalLight | SpotLight;
+    light.castShadow = scene.castShadow ?? true;
+    light.shadow.mapSize = 256;
+    renderer.addLight(light);
+    renderer.addModel(grid(8, 0, 16)).receiveShadow = scene.groundReceives ?? true;
+    renderer.addModel(grid(1, 2)).castShadow = scene.blockerCasts ?? true;
+    await renderer.renderFrameAsync(0);
+    renderer.dispose();
+    return target;
+}
+
+const slanted = () => new DirectionalLight({ x: 1, y: -1, z: 0 }, { x: 1, y: 1, z: 1 }, 1);
+// Directly behind the blocker as seen from the slanted light
+const shadowed = { x: 2, y: 0, z: 0 };
+
+describe('Shadows', () => {
+    it('darkens what a directional light cannot see', async () => {
+        const lit = await render({ light: slanted(), cameraTarget: shadowed, castShadow: false });
+        const shaded = await render({ light: slanted(), cameraTarget: shadowed });
+
+        expect(shaded.getPixel(32, 32)[0]).toBeLessThan(lit.getPixel(32, 32)[0] / 2);
+        // Only the shadow changes, and only towards darker
+        let darker = 0;
+        for (let i = 0; i < lit.pixels.length; i += 4) {
+            expect(shaded.pixels[i]).toBeLessThanOrEqual(lit.pixels[i]);
+            if (shaded.pixels[i] < lit.pixels[i]) darker++;
+        }
+        expect(darker).toBeGreaterThan(0);
+        expect(darker).toBeLessThan(64 * 64 / 2);
+    });
+
+    it('respects per-mesh cast and receive flags', async () => {
+        const lit = await render({ light: slanted(), cameraTarget: shadowed, castShadow: false });
+        const notCast = await render({ light: slanted(), cameraTarget: shadowed, blockerCasts: false });
+        const notReceived = await render({ light: slanted(), cameraTarget: shadowed, groundReceives: false });
+        expect(notCast.pixels).toEqual(lit.pixels);
+        expect(notReceived.pixels).toEqual(lit.pixels);
+    });
+
+    it('casts spot light shadows through a perspective map', async () => {
+        const spot = () => new SpotLight({ x: 0, y: 6, z: 0 }, { x: 0, y: -1, z: 0 }, { x: 1, y: 1, z: 1 }, 1, Math.PI / 4, Math.PI / 3);
+        const origin = { x: 0, y: 0, z: 0 };
+        const lit = await render({ light: spot(), cameraTarget: origin, castShadow: false });
+        const shaded = await render({ light: spot(), cameraTarget: origin });
+        expect(shaded.getPixel(32, 32)[0]).toBeLessThan(lit.getPixel(32, 32)[0] / 2);
+        // Away from the blocker the ground stays lit: no acne
+        expect(shaded.getPixel(32, 60)).toEqual(lit.getPixel(32, 60));
+    });
+
+    it('shadows per face and per vertex in the other shading modes, and on worker threads', async () => {
+        for (const shading of ['flat', 'gouraud'] as const) {
+            const lit = await render({ light: slanted(), cameraTarget: shadowed, castShadow: false, shading });
+            const shaded = await render({ light: slanted(), cameraTarget: shadowed, shading });
+            expect(shaded.pixels).not.toEqual(lit.pixels);
+        }
+        const single = await render({ light: slanted(), cameraTarget: shadowed });
+        const threaded = await render({ light: slanted(), cameraTarget: shadowed, threads: 2 });
+        expect(threaded.pixels).toEqual(single.pixels);
+    });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GLTFLoader } from '../../Loaders/GLTFLoader';
+import { mat4TransformPoint } from '../../Math';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { SpotLight } from '../../Objects/SpotLight';
+import type { ShadingMode } from '../../Renderer';
+import { PhongShader } from '../../Shaders/Shaders';
+import { Texture } from '../../Textures/Texture';
+import { quadRenderer, quads } from '../Renderer/scenes';
+
+/** A data URI holding the typed arrays back to back, each padded to 4 bytes */
+function dataUri(...arrays: ArrayBufferView[]): { uri: string, offsets: number[], byteLength: number } {
+    const offsets: number[] = [];
+    const chunks: Buffer[] = [];
+    let length = 0;
+    for (const a of arrays) {
+        offsets.push(length);
+        const bytes = Buffer.from(a.buffer, a.byteOffset, a.byteLength);
+        const padded = Buffer.concat([bytes, Buffer.alloc((4 - bytes.length % 4) % 4)]);
+        chunks.push(padded);
+        length += padded.length;
+    }
+    return { uri: `data:application/octet-stream;base64,${Buffer.concat(chunks).toString('base64')}`, offsets, byteLength: length };
+}
+
+/**
+ * A textured square of half-size 1 at z = 1 with the one material, facing +z unless `back`; a
+ * texture named mask.png goes with it when the material uses texture 0
+ */
+function squareGltf(material: object, back = false): string {
+    const positions = new Float32Array([-1, -1, 1, 1, -1, 1, 1, 1, 1, -1, 1, 1]);
+    const uvs = new Float32Array([0, 1, 1, 1, 1, 0, 0, 0]);
+    const indices = new Uint8Array(back ? [0, 2, 1, 0, 3, 2] : [0, 1, 2, 0, 2, 3]);
+    const buffer = dataUri(positions, uvs, indices);
+    return JSON.stringify({
+        asset: { version: '2.0' },
+        meshes: [{ primitives: [{ attributes: { POSITION: 0, TEXCOORD_0: 1 }, indices: 2, material: 0 }] }],
+        materials: [{ name: 'Square', ...material }],
+        textures: [{ source: 0 }],
+        images: [{ uri: 'mask.png' }],
+        nodes: [{ mesh: 0 }],
+        accessors: [
+            { bufferView: 0, componentType: 5126, count: 4, type: 'VEC3' },
+            { bufferView: 1, componentType: 5126, count: 4, type: 'VEC2' },
+            { bufferView: 2, componentType: 5121, count: 6, type: 'SCALAR' }
+        ],
+        bufferViews: [
+            { buffer: 0, byteOffset: buffer.offsets[0], byteLength: 48 },
+            { buffer: 0, byteOffset: buffer.offsets[1], byteLength: 32 },
+            { buffer: 0, byteOffset: buffer.offsets[2], byteLength: 6 }
+        ],
+        buffers: [{ uri: buffer.uri, byteLength: buffer.byteLength }]
+    });
+}
+
+describe('GLTFLoader', () => {
+    let loader: GLTFLoader;
+
+    beforeEach(() => {
+        loader = new GLTFLoader();
+    });
+
+    it('parses an indexed triangle from a data URI buffer', () => {
+        const positions = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+        const indices = new Uint8Array([0, 1, 2, 0, 2, 3]);
+        const buffer = dataUri(positions, indices);
+        const model = loader.parse(JSON.stringify({
+            asset: { version: '2.0' },
+            meshes: [{ name: 'Quad', primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] }],
+            nodes: [{ mesh: 0 }],
+            accessors: [
+                { bufferView: 0, componentType: 5126, count: 4, type: 'VEC3' },
+                { bufferView: 1, componentType: 5121, count: 6, type: 'SCALAR' }
+            ],
+            bufferViews: [
+                { buffer: 0, byteOffset: buffer.offsets[0], byteLength: 48 },
+                { buffer: 0, byteOffset: buffer.offsets[1], byteLength: 6 }
+            ],
+            buffers: [{ uri: buffer.uri, byteLength: buffer.byteLength }]
+        }));
+
+        expect(model.meshes.length).toBe(1);
+        const mesh = model.meshes[0];
+        expect(mesh.name).toBe('Quad');
+        expect(mesh.materialName).toBeNull();
+        expect(mesh.uvs).toBeNull();
+        // Without normals every triangle gets its own vertices with the face normal
+        expect(mesh.positions.length).toBe(18);
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(Array.from(mesh.normals.slice(0, 3))).toEqual([0, 0, 1]);
+        expect(mesh.boundingBox).toEqual({ min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 0 } });
+        // Nodes without a scene become roots
+        expect(model.scene.children.length).toBe(1);
+        expect(model.scene.children[0].meshes).toEqual([mesh]);
+    });
+
+    it('reads strided, normalized and sparse accessors', () => {
+        // Interleaved: float position, then a normalized byte normal padded to 4 bytes
+        const interleaved = new ArrayBuffer(3 * 16);
+        const view = new DataView(interleaved);
+        [[0, 0, 0], [2, 0, 0], [0, 2, 0]].forEach((p, i) => {
+            p.forEach((c, k) => view.setFloat32(i * 16 + k * 4, c, true));
+            view.setInt8(i * 16 + 12, 0);
+            view.setInt8(i * 16 + 13, -128);
+            view.setInt8(i * 16 + 14, 127);
+        });
+        const uvs = new Uint16Array([0, 0, 65535, 0, 0, 32768]);
+        // Sparse: move vertex 2 to z = 5, on top of an accessor without a bufferView
+        const sparseIndices = new Uint16Array([2]);
+        const sparseValues = new Float32Array([0, 0, 5]);
+        const buffer = dataUri(new Uint8Array(interleaved), uvs, sparseIndices, sparseValues);
+        const model = loader.parse(JSON.stringify({
+            asset: { version: '2.0' },
+            meshes: [{ primitives: [{ attributes: { POSITION: 0, NORMAL: 1, TEXCOORD_0: 2, _OFFSET: 3 } }] }],
+            accessors: [
+                { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' },
+                { bufferView: 0, byteOffset: 12, componentType: 5120, normalized: true, count: 3, type: 'VEC3' },
+                { bufferView: 1, componentType: 5123, normalized: true, count: 3, type: 'VEC2' },
+                {
+                    componentType: 5126, count: 3, type: 'VEC3',
+                    sparse: { count: 1, indices: { bufferView: 2, componentType: 5123 }, values: { bufferView: 3 } }
+                }
+            ],
+            bufferViews: [
+                { buffer: 0, byteOffset: buffer.offsets[0], byteLength: 48, byteStride: 16 },
+                { buffer: 0, byteOffset: buffer.offsets[1], byteLength: 12 },
+                { buffer: 0, byteOffset: buffer.offsets[2], byteLength: 2 },
+                { buffer: 0, byteOffset: buffer.offsets[3], byteLength: 12 }
+            ],
+            buffers: [{ uri: buffer.uri, byteLength: buffer.byteLength }]
+        }));
+
+        const mesh = model.meshes[0];
+        expect(mesh.name).toBe('mesh0');
+        expect(Array.from(mesh.positions)).toEqual([0, 0, 0, 2, 0, 0, 0, 2, 0]);
+        // -128 clamps to -1, 127 maps to 1
+        expect(Array.from(mesh.normals.slice(0, 3))).toEqual([0, -1, 1]);
+        // v is flipped to the bottom-up convention of Texture
+        expect(mesh.uvs![2]).toBe(1);
+        expect(mesh.uvs![3]).toBe(1);
+        expect(mesh.uvs![5]).toBeCloseTo(1 - 32768 / 65535, 6);
+
+        // The same sparse accessor read on its own as indices-free positions
+        const sparse = loader.parse(JSON.stringify({
+            asset: { version: '2.0' },
+            meshes: [{ primitives: [{ attributes: { POSITION: 1 } }] }],
+            accessors: [
+                { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' },
+                {
+                    bufferView: 0, componentType: 5126, count: 3, type: 'VEC3',
+                    sparse: { count: 1, indices: { bufferView: 2, componentType: 5123 }, values: { bufferView: 3 } }
+                }
+            ],
+            bufferViews: [
+                { buffer: 0, byteOffset: buffer.offsets[0], byteLength: 48, byteStride: 16 },
+                { buffer: 0, byteOffset: buffer.offsets[1], byteLength: 12 },
+                { buffer: 0, byteOffset: buffer.offsets[2], byteLength: 2 },
+                { buffer: 0, byteOffset: buffer.offsets[3], byteLength: 12 }
+            ],
+            buffers: [{ uri: buffer.uri, byteLength: buffer.byteLength }]
+        }));
+        expect(Array.from(sparse.meshes[0].positions.slice(6, 9))).toEqual([0, 0, 5]);
+    });
+
+    it('triangulates strips and fans with consistent winding', () => {
+        const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 2, 0]);
+        const buffer = dataUri(positions);
+        const gltf = (mode: number) => JSON.stringify({
+            asset: { version: '2.0' },
+            meshes: [{ primitives: [{ attributes: { POSITION: 0 }, mode }] }],
+            accessors: [{ bufferView: 0, componentType: 5126, count: 5, type: 'VEC3' }],
+            bufferViews: [{ buffer: 0, byteLength: 60 }],
+            buffers: [{ uri: buffer.uri, byteLength: buffer.byteLength }]
+        });
+        const strip = loader.parse(gltf(5)).meshes[0];
+        expect(strip.indices.length).toBe(9);
+        // Every strip triangle faces +z
+        for (let i = 0; i < strip.normals.length; i += 3) expect(strip.normals[i + 2]).toBeCloseTo(1, 6);
+        expect(loader.parse(gltf(6)).meshes[0].indices.length).toBe(9);
+        // Points and lines have no triangles to draw
+        expect(loader.parse(gltf(1)).meshes.length).toBe(0);
+    });
+
+    it('rejects other versions and missing buffers', () => {
+        expect(() => loader.parse(JSON.stringify({ asset: { version: '1.0' } }))).toThrow(/version/);
+        expect(() => loader.parse(JSON.stringify({
+            asset: { version: '2.0' },
+            buffers: [{ uri: 'missing.bin', byteLength: 4 }]
+        }))).toThrow(/missing\.bin/);
+    });
+
+    it('loads a .gltf with an external buffer and texture', async () => {
+        const model = await loader.loadFromFile('src/test/Loader/fixtures/texturedQuad.gltf');
+        expect(model.scene.name).toBe('Quad scene');
+        const mesh = model.meshes[0];
+        expect(mesh.materialName).toBe('Checker');
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+        expect(Array.from(mesh.uvs!.slice(0, 4))).toEqual([0, 0, 1, 0]);
+
+        const material = model.materials['Checker'];
+        expect(material.pbr?.metallicFactor).toBe(0);
+        expect(material.pbr?.roughnessFactor).toBe(0.5);
+        expect(material.mapKd).toBe('checker.png');
+        const texture = model.textures?.['checker.png'];
+        expect(texture).toBeDefined();
+        expect(texture!.width).toBe(64);
+        // From the sampler
+        expect(texture!.filter).toBe('nearest');
+        expect(texture!.wrapS).toBe('clamp');
+        expect(texture!.mipmaps).toBe('linear');
+
+        const skipped = await loader.loadFromFile('src/test/Loader/fixtures/texturedQuad.gltf', { loadTextures: false });
+        expect(skipped.textures).toBeUndefined();
+    });
+
+    it('loads a .glb with its node hierarchy, camera, light and embedded texture', async () => {
+        const model = await loader.loadFromFile('src/test/Loader/fixtures/scene.glb');
+        const rig = model.scene.find('Rig')!;
+        const body = model.scene.find('Body')!;
+        expect(rig.children).toContain(body);
+        expect(body.meshes).toEqual([model.meshes[0]]);
+        expect(body.model).toBe(model);
+
+        // The rig's matrix turns +x into -z and moves it to x = 2; the body then scales by 2 and lifts by 1
+        model.scene.updateWorldMatrix();
+        const p = mat4TransformPoint(body.worldMatrix, { x: 1, y: 0, z: 0 });
+        expect(p.x).toBeCloseTo(2, 5);
+        expect(p.y).toBeCloseTo(1, 5);
+        expect(p.z).toBeCloseTo(-2, 5);
+
+        expect(model.cameras.length).toBe(1);
+        const camera = model.cameras[0];
+        expect(camera.node).toBe(model.scene.find('Eye'));
+        expect(camera.projection).toMatchObject({ type: 'perspective', fov: 0.8, near: 0.05 });
+        expect(camera.getForwardVector().z).toBeCloseTo(-1, 6);
+
+        // Pointing down: the lamp is rotated -90 degrees around x
+        const light = model.lights[0] as SpotLight;
+        expect(light).toBeInstanceOf(SpotLight);
+        expect(light.color).toEqual({ x: 1, y: 0.5, z: 0.25 });
+        expect(light.range).toBe(20);
+        expect(light.outerAngle).toBeCloseTo(0.6, 6);
+        expect(light.getWorldDirection().y).toBeCloseTo(-1, 5);
+        expect(light.getWorldPosition().y).toBeCloseTo(4, 5);
+
+        const material = model.materials['Gold'];
+        expect(material.pbr).toMatchObject({ alphaMode: 'BLEND', doubleSided: true, metallicFactor: 1, baseColorTexture: 'embedded' });
+        expect(material.d).toBe(0.5);
+        expect(material.ke).toEqual([0.1, 0, 0]);
+        expect(model.textures?.['embedded']?.width).toBe(64);
+    });
+
+    it('draws double-sided materials from behind, lit as from the front', () => {
+        const render = (shading: ShadingMode | PhongShader, material: object, back: boolean) => {
+            const { target, renderer: r } = quadRenderer({ shading });
+            r.addLight(new DirectionalLight({ x: 0, y: 0, z: -1 }, { x: 1, y: 1, z: 1 }, 1));
+            r.addModel(quads([{ material: 'red', size: 2, z: 0 }]));
+            r.addModel(loader.parse(squareGltf(material, back)));
+            r.renderFrame(0);
+            return target.getPixel(24, 24);
+        };
+        const white = { pbrMetallicRoughness: { metallicFactor: 0, roughnessFactor: 1 } };
+        for (const shading of ['flat', 'phong', new (class extends PhongShader {})()] as const) {
+            const front = render(shading, white, false);
+            expect(front[0]).toBeGreaterThan(200);
+            // Culled unless double-sided, showing the red square behind
+            expect(render(shading, white, true)).toEqual([255, 0, 0, 255]);
+            expect(render(shading, { ...white, doubleSided: true }, true)).toEqual(front);
+        }
+    });
+
+    it('cuts out MASK materials where the base color alpha is below the cutoff', () => {
+        // Transparent on the left, opaque on the right, half-transparent through the base color factor
+        const mask = new Texture(
+            { width: 2, height: 1, data: new Uint8ClampedArray([255, 255, 255, 0, 255, 255, 255, 255]) },
+            { filter: 'nearest', mipmaps: 'none' }, 'mask.png'
+        );
+        const render = (shading: ShadingMode | PhongShader, material: object) => {
+            const { target, renderer: r } = quadRenderer({ shading });
+            r.addModel(quads([{ material: 'red', size: 2, z: 0 }]));
+            const model = loader.parse(squareGltf({
+                pbrMetallicRoughness: { baseColorTexture: { index: 0 }, baseColorFactor: [1, 1, 1, 0.8] },
+                emissiveFactor: [1, 1, 1],
+                ...material
+            }));
+            r.addModel(Object.assign(model, { textures: { 'mask.png': mask } }));
+            r.renderFrame(0);
+            return { target, depth: r.getFramebuffer().zBuffer };
+        };
+        const behind = render('flat', { alphaMode: 'OPAQUE' });
+        expect(behind.target.getPixel(18, 24)).toEqual([255, 255, 255, 255]);
+
+        for (const shading of ['flat', 'gouraud', 'phong', new (class extends PhongShader {})()] as const) {
+            const { target, depth } = render(shading, { alphaMode: 'MASK', alphaCutoff: 0.5 });
+            // The red square shows through the cut-out, which keeps its depth too
+            expect(target.getPixel(18, 24)).toEqual([255, 0, 0, 255]);
+            expect(depth[24 * 48 + 18]).toBeGreaterThan(behind.depth[24 * 48 + 18]);
+            expect(target.getPixel(30, 24)).toEqual([255, 255, 255, 255]);
+            // 0.8 of the right half's alpha is below 0.9
+            expect(render(shading, { alphaMode: 'MASK', alphaCutoff: 0.9 }).target.getPixel(30, 24)).toEqual([255, 0, 0, 255]);
+        }
+    });
+});
@@ -83,4 +83,199 @@ describe('OBJLoader', () => {
         expect(mesh.normals.length).toBe(mesh.positions.length);
         expectUnitNormal(mesh.normals[0], mesh.normals[1], mesh.normals[2]);
     });
+
+    it('splits generated normals at smoothing group boundaries', () => {
+        // Two squares meeting at a right angle along the edge x = 0..1, y = 0, z = 0
+        const fold = (s1: string, s2: string) => loader.parse(`
+            v 0 0 0
+            v 1 0 0
+            v 1 1 0
+            v 0 1 0
+            v 1 0 1
+            v 0 0 1
+            s ${s1}
+            f 1 2 3 4
+            s ${s2}
+            f 2 1 6 5
+        `, undefined, { normalWeighting: 'angle' }).meshes[0];
+
+        // One group: the edge vertices are shared and their normals lean halfway
+        const smooth = fold('1', '1');
+        expect(smooth.positions.length).toBe(18);
+        const half = Math.SQRT1_2;
+        expect(smooth.normals[0]).toBeCloseTo(0);
+        expect(smooth.normals[1]).toBeCloseTo(half);
+        expect(smooth.normals[2]).toBeCloseTo(half);
+
+        // Two groups, or flat faces: the edge is split and every face keeps its own normal
+        for (const mesh of [fold('1', '2'), fold('off', 'off')]) {
+            expect(mesh.positions.length).toBe(24);
+            expect(Array.from(mesh.normals.slice(0, 12))).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]);
+            expect(Array.from(mesh.normals.slice(12, 24))).toEqual([0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0]);
+        }
+    });
+
+    it('reads a bare or named s as smoothing on', () => {
+        // Exporters write these; they used to be skipped and must not stop the file from loading
+        const text = (s: string) => `
+            v 0 0 0
+            v 1 0 0
+            v 1 1 0
+            v 0 1 0
+            v 1 0 1
+            v 0 0 1
+            s off
+            ${s}
+            f 1 2 3 4
+            f 2 1 6 5
+        `;
+        for (const s of ['s', 's on']) {
+            // The faces share the edge vertices as with 's 1'
+            expect(loader.parse(text(s)).meshes[0].positions.length).toBe(18);
+        }
+        expect(loader.parse(text('s 0')).meshes[0].positions.length).toBe(24);
+    });
+
+    it('splits generated normals at the crease angle', () => {
+        // A shallow (30 degree) and a sharp (90 degree) fold of the same strip
+        const text = `
+            v 0 0 0
+            v 1 0 0
+            v 1 1 0
+            v 0 1 0
+            v 1 2 0.5773503
+            v 0 2 0.5773503
+            v 1 1 1
+            v 0 1 1
+            o Shallow
+            f 1 2 3 4
+            f 4 3 5 6
+            o Sharp
+            f 1 2 3 4
+            f 4 3 7 8
+        `;
+        const vertexCounts = (creaseAngle?: number) =>
+            loader.parse(text, undefined, { creaseAngle }).meshes.map(m => m.positions.length / 3);
+        expect(vertexCounts()).toEqual([6, 6]);
+        expect(vertexCounts(Math.PI / 3)).toEqual([6, 8]);
+        expect(vertexCounts(Math.PI / 12)).toEqual([8, 8]);
+    });
+
+    it('generates normals only where the file has none', () => {
+        const mesh = loader.parse(`
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            v 1 1 0
+            vn 0.6 0 0.8
+            f 1//1 2//1 3//1
+            f 2 4 3
+        `).meshes[0];
+        expect(Array.from(mesh.normals.slice(0, 3))).toEqual([0.6, 0, 0.8].map(Math.fround));
+        // The corners of the second face without vn are new vertices with the face normal
+        expect(mesh.positions.length).toBe(18);
+        expect(Array.from(mesh.normals.slice(9))).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+    });
+
+    it('weights generated normals by area or by corner angle', () => {
+        // A large triangle facing +z and a small one facing +x, both with a right angle at the origin
+        const text = `
+            v 0 0 0
+            v 4 0 0
+            v 0 4 0
+            v 0 1 0
+            v 0 0 1
+            f 1 2 3
+            f 1 4 5
+        `;
+        const byArea = loader.parse(text).meshes[0].normals;
+        expect(byArea[2]).toBeGreaterThan(byArea[0] * 10);
+        const byAngle = loader.parse(text, undefined, { normalWeighting: 'angle' }).meshes[0].normals;
+        expect(byAngle[0]).toBeCloseTo(Math.SQRT1_2);
+        expect(byAngle[1]).toBeCloseTo(0);
+        expect(byAngle[2]).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('splits groups into a submesh per material and keeps the o/g hierarchy', () => {
+        const model = loader.parse(`
+            mtllib base.mtl extra.mtl
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            v 1 1 0
+            o Lamp
+            g shade glass
+            usemtl Red
+            f 1 2 3
+            usemtl Blue
+            f 2 4 3
+            usemtl Red
+            f 1 3 4
+            g post
+            f 1 2 4
+            o Base
+            usemtl
+            f 1 2 3
+        `);
+        expect(model.mtllibs).toEqual(['base.mtl', 'extra.mtl']);
+        expect(model.meshes.map(m => [m.name, m.materialName])).toEqual([
+            ['shade glass', 'Red'],
+            ['shade glass', 'Blue'],
+            // usemtl holds across g until the next usemtl
+            ['post', 'Red'],
+            ['Base', null]
+        ]);
+        expect(model.meshes.map(m => m.indices.length)).toEqual([6, 3, 3, 3]);
+
+        const [lamp, base] = model.objects!;
+        expect(lamp.name).toBe('Lamp');
+        expect(lamp.groups.map(g => g.names)).toEqual([['shade', 'glass'], ['post']]);
+        expect(lamp.groups[0].meshes).toEqual(model.meshes.slice(0, 2));
+        expect(base.groups).toEqual([{ names: [], meshes: [model.meshes[3]] }]);
+    });
+
+    it('loads map_Kd textures next to the OBJ file', async () => {
+        const model = await loader.loadFromFile('src/test/Loader/fixtures/texturedPlane.obj');
+        expect(model.materials['Checker'].mapKd).toBe('checker.png');
+        const texture = model.textures?.['checker.png'];
+        expect(texture).toBeDefined();
+        expect(texture!.width).toBe(64);
+        expect(texture!.levels.length).toBe(7);
+
+        const skipped = await loader.loadFromFile('src/test/Loader/fixtures/texturedPlane.obj', { loadTextures: false });
+        expect(skipped.textures).toBeUndefined();
+    });
+
+    it('parses extended MTL fields and map options', () => {
+        const materials = loader.parseMTL(`
+            newmtl Glass
+            Ka 0.1 0.1 0.1
+            Kd 0.2 0.4 0.6
+            Ks 1 1 1
+            Ke 0.5
+            Ns 96
+            Tr 0.25
+            illum 1
+            map_Kd -s 2 2 1 -o 0.5 0.5 diffuse map.png
+            map_Ks spec.png
+            map_bump -bm 0.3 bump.png
+            norm normal.png
+
+            newmtl Plain
+            d 0.5
+        `);
+
+        const glass = materials['Glass'];
+        expect(glass.ka).toEqual([0.1, 0.1, 0.1]);
+        expect(glass.ke).toEqual([0.5, 0.5, 0.5]);
+        expect(glass.ns).toBe(96);
+        expect(glass.d).toBeCloseTo(0.75);
+        expect(glass.illum).toBe(1);
+        expect(glass.mapKd).toBe('diffuse map.png');
+        expect(glass.mapKs).toBe('spec.png');
+        expect(glass.mapBump).toBe('bump.png');
+        expect(glass.bumpScale).toBeCloseTo(0.3);
+        expect(glass.mapNorm).toBe('normal.png');
+        expect(materials['Plain'].d).toBe(0.5);
+    });
 });
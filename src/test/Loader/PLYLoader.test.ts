@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PLYLoader } from '../../Loaders/PLYLoader';
+
+/** A quad with one colored vertex per corner, as a single polygon */
+const HEADER = (format: string) => [
+    'ply',
+    `format ${format} 1.0`,
+    'comment made by hand',
+    'element vertex 4',
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'element face 1',
+    'property list uchar int vertex_indices',
+    'end_header'
+].join('\n') + '\n';
+
+const VERTICES = [
+    [0, 0, 0, 255, 0, 0],
+    [1, 0, 0, 0, 255, 0],
+    [1, 1, 0, 0, 0, 255],
+    [0, 1, 0, 255, 255, 255]
+];
+
+function binaryPLY(littleEndian: boolean): Uint8Array {
+    const header = new TextEncoder().encode(HEADER(littleEndian ? 'binary_little_endian' : 'binary_big_endian'));
+    const body = new DataView(new ArrayBuffer(VERTICES.length * 15 + 1 + 4 * 4));
+    let o = 0;
+    for (const v of VERTICES) {
+        for (let k = 0; k < 3; k++, o += 4) body.setFloat32(o, v[k], littleEndian);
+        for (let k = 3; k < 6; k++) body.setUint8(o++, v[k]);
+    }
+    body.setUint8(o++, 4);
+    for (let k = 0; k < 4; k++, o += 4) body.setInt32(o, k, littleEndian);
+    const bytes = new Uint8Array(header.length + body.byteLength);
+    bytes.set(header);
+    bytes.set(new Uint8Array(body.buffer), header.length);
+    return bytes;
+}
+
+describe('PLYLoader', () => {
+    let loader: PLYLoader;
+
+    beforeEach(() => {
+        loader = new PLYLoader();
+    });
+
+    it('parses ASCII vertices, colors and polygon faces', () => {
+        const model = loader.parse(HEADER('ascii') + VERTICES.map(v => v.join(' ')).join('\n') + '\n4 0 1 2 3\n');
+        expect(model.meshes.length).toBe(1);
+        const mesh = model.meshes[0];
+        expect(Array.from(mesh.positions)).toEqual(VERTICES.flatMap(v => v.slice(0, 3)));
+        // The quad is fanned into two triangles
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+        expect(Array.from(mesh.colors!)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1]);
+        expect(Array.from(mesh.normals.slice(0, 3))).toEqual([0, 0, 1]);
+        expect(mesh.uvs).toBeNull();
+        // Colored meshes get a white material so the colors show as they are
+        expect(mesh.materialName).toBe('vertexColors');
+        expect(model.materials['vertexColors'].kd).toEqual([1, 1, 1]);
+    });
+
+    it('reads binary files in either byte order', () => {
+        const little = loader.parse(binaryPLY(true)).meshes[0];
+        const big = loader.parse(binaryPLY(false)).meshes[0];
+        for (const mesh of [little, big]) {
+            expect(Array.from(mesh.positions)).toEqual(VERTICES.flatMap(v => v.slice(0, 3)));
+            expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+            expect(Array.from(mesh.colors!.slice(3, 6))).toEqual([0, 1, 0]);
+        }
+    });
+
+    it('reads normals and UVs and skips unknown elements', () => {
+        const model = loader.parse([
+            'ply',
+            'format ascii 1.0',
+            'element vertex 3',
+            'property double x', 'property double y', 'property double z',
+            'property float nx', 'property float ny', 'property float nz',
+            'property float s', 'property float t',
+            'element edge 1',
+            'property int vertex1', 'property int vertex2',
+            'element face 1',
+            'property list uchar uint vertex_index',
+            'end_header',
+            '0 0 0 0 1 0 0 0',
+            '1 0 0 0 1 0 1 0',
+            '0 0 1 0 1 0 0 1',
+            '0 1',
+            '3 0 2 1'
+        ].join('\r\n'));
+        const mesh = model.meshes[0];
+        expect(Array.from(mesh.normals.slice(0, 3))).toEqual([0, 1, 0]);
+        expect(Array.from(mesh.uvs!)).toEqual([0, 0, 1, 0, 0, 1]);
+        expect(mesh.colors).toBeNull();
+        expect(mesh.materialName).toBeNull();
+        expect(model.materials).toEqual({});
+        expect(Array.from(mesh.indices)).toEqual([0, 2, 1]);
+    });
+
+    it('rejects malformed files', () => {
+        expect(() => loader.parse('solid cube')).toThrow(/end_header/);
+        expect(() => loader.parse('ply\nformat binary_mixed 1.0\nend_header\n')).toThrow(/Unsupported/);
+        expect(() => loader.parse(HEADER('ascii') + '0 0 0 1 1 1\n')).toThrow(/ends early/);
+        const outOfBounds = HEADER('ascii') + VERTICES.map(v => v.join(' ')).join('\n') + '\n3 0 1 9\n';
+        expect(() => loader.parse(outOfBounds)).toThrow(/out of bounds/);
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { STLLoader } from '../../Loaders/STLLoader';
+
+/** Two triangles of a unit square in the z = 0 plane, sharing the diagonal */
+const SQUARE = [
+    [[0, 0, 0], [1, 0, 0], [1, 1, 0]],
+    [[0, 0, 0], [1, 1, 0], [0, 1, 0]]
+];
+
+/** The unit cube, two counter-clockwise triangles per face */
+function cube(): number[][][] {
+    const faces = [
+        [[0, 0, 0], [0, 1, 0], [1, 1, 0], [1, 0, 0]], [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]],
+        [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]], [[0, 1, 0], [0, 1, 1], [1, 1, 1], [1, 1, 0]],
+        [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]], [[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]]
+    ];
+    return faces.flatMap(([a, b, c, d]) => [[a, b, c], [a, c, d]]);
+}
+
+function asciiSTL(name: string, triangles: number[][][], normal = '0 0 1'): string {
+    return [
+        `solid ${name}`,
+        ...triangles.flatMap(t => [
+            `  facet normal ${normal}`,
+            '    outer loop',
+            ...t.map(v => `      vertex ${v.join(' ')}`),
+            '    endloop',
+            '  endfacet'
+        ]),
+        `endsolid ${name}`
+    ].join('\n');
+}
+
+function binarySTL(triangles: number[][][], header = 'binary'): Uint8Array {
+    const bytes = new Uint8Array(84 + triangles.length * 50);
+    bytes.set(new TextEncoder().encode(header));
+    const view = new DataView(bytes.buffer);
+    view.setUint32(80, triangles.length, true);
+    triangles.forEach((t, i) => {
+        const o = 84 + i * 50;
+        view.setFloat32(o + 8, 1, true);
+        t.flat().forEach((c, k) => view.setFloat32(o + 12 + k * 4, c, true));
+    });
+    return bytes;
+}
+
+describe('STLLoader', () => {
+    let loader: STLLoader;
+
+    beforeEach(() => {
+        loader = new STLLoader();
+    });
+
+    it('parses ASCII solids into welded meshes', () => {
+        const model = loader.parse(asciiSTL('square', SQUARE) + '\n' + asciiSTL('other', [SQUARE[0]]));
+        expect(model.meshes.length).toBe(2);
+        const mesh = model.meshes[0];
+        expect(mesh.name).toBe('square');
+        expect(mesh.materialName).toBeNull();
+        expect(mesh.uvs).toBeNull();
+        // The shared diagonal is merged: 4 corners instead of 6
+        expect(mesh.positions.length).toBe(12);
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+        for (let i = 0; i < mesh.normals.length; i += 3) {
+            expect(Array.from(mesh.normals.slice(i, i + 3))).toEqual([0, 0, 1]);
+        }
+        expect(mesh.boundingBox).toEqual({ min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 0 } });
+        expect(model.meshes[1].name).toBe('other');
+    });
+
+    it('detects binary files by their size even when the header starts with "solid"', () => {
+        const model = loader.parse(binarySTL(SQUARE, 'solid exported'));
+        expect(model.meshes.length).toBe(1);
+        expect(model.meshes[0].positions.length).toBe(12);
+        expect(model.meshes[0].indices.length).toBe(6);
+    });
+
+    it('welds corners within the tolerance and drops collapsed triangles', () => {
+        const nudged = [
+            SQUARE[0],
+            [[0.001, 0, 0], [1, 1.001, 0], [0, 1, 0]],
+            // Two corners within the tolerance of each other: no area left once welded
+            [[0, 0, 0], [0.0005, 0, 0], [0, 1, 0]]
+        ];
+        // The default tolerance only merges exact matches: 7 distinct corners
+        expect(loader.parse(asciiSTL('s', nudged)).meshes[0].positions.length).toBe(21);
+
+        const mesh = loader.parse(asciiSTL('s', nudged), { weldTolerance: 0.01 }).meshes[0];
+        expect(mesh.positions.length).toBe(12);
+        expect(mesh.indices.length).toBe(6);
+    });
+
+    it('keeps the edges of welded meshes hard beyond the crease angle', () => {
+        const mesh = loader.parse(binarySTL(cube())).meshes[0];
+        // Each face keeps its own 4 corners, all with the face's normal
+        expect(mesh.positions.length).toBe(24 * 3);
+        expect(mesh.indices.length).toBe(36);
+        for (let t = 0; t < mesh.indices.length; t += 3) {
+            const [a, b, c] = Array.from(mesh.indices.slice(t, t + 3), i => Array.from(mesh.normals.slice(i * 3, i * 3 + 3)));
+            expect(b).toEqual(a);
+            expect(c).toEqual(a);
+            expect(a.map(Math.abs).sort()).toEqual([0, 0, 1]);
+        }
+
+        // Smoothing across every edge shares the 8 corners
+        const smooth = loader.parse(binarySTL(cube()), { creaseAngle: Math.PI }).meshes[0];
+        expect(smooth.positions.length).toBe(8 * 3);
+        expect(Math.abs(smooth.normals[0])).toBeCloseTo(1 / Math.sqrt(3), 6);
+    });
+
+    it('keeps facet normals when welding is off', () => {
+        const scaled = loader.parse(asciiSTL('s', SQUARE, '0 0 2'), { weld: false }).meshes[0];
+        expect(scaled.positions.length).toBe(18);
+        expect(Array.from(scaled.indices)).toEqual([0, 1, 2, 3, 4, 5]);
+        expect(Array.from(scaled.normals.slice(0, 3))).toEqual([0, 0, 1]);
+
+        // Zero normals come from the winding instead; this one is clockwise seen from +z
+        const flipped = loader.parse(asciiSTL('s', [[[0, 0, 0], [1, 1, 0], [1, 0, 0]]], '0 0 0'), { weld: false }).meshes[0];
+        expect(Array.from(flipped.normals.slice(0, 3))).toEqual([0, 0, -1]);
+    });
+
+    it('rejects malformed files', () => {
+        expect(() => loader.parse('not an stl')).toThrow(/no solid/);
+        expect(() => loader.parse(asciiSTL('s', [[[0, 0, 0], [1, 0, 0]]]))).toThrow(/2 vertices/);
+        expect(() => loader.parse('solid s\nfacet normal 0 0 1\nvertex 0 x 0')).toThrow(/Malformed/);
+    });
+});
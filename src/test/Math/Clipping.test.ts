@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { clipPolygon, clipToScreen, type ClipVertex } from '../../Math';
+
+const vertex = (x: number, y: number, z: number, w: number, ...attrs: number[]): ClipVertex => ({ x, y, z, w, attrs });
+
+describe('Clip-space polygon clipping', () => {
+    it('keeps polygons inside the frustum untouched', () => {
+        const tri = [vertex(0, 0, 0, 1), vertex(0.5, 0, 0, 1), vertex(0, 0.5, 0, 1)];
+        expect(clipPolygon(tri)).toBe(tri);
+    });
+
+    it('rejects polygons outside a single plane', () => {
+        expect(clipPolygon([vertex(2, 0, 0, 1), vertex(3, 1, 0, 1), vertex(2, -1, 0, 1)])).toEqual([]);
+        // Entirely behind the camera
+        expect(clipPolygon([vertex(0, 0, 1, -1), vertex(1, 0, 2, -2), vertex(0, 1, 1, -1)])).toEqual([]);
+    });
+
+    it('cuts a triangle crossing the near plane into a quad with interpolated attributes', () => {
+        // z + w is 1 at the first two vertices and -1 at the third, behind the near plane
+        const clipped = clipPolygon([
+            vertex(0, 0, 0, 1, 10),
+            vertex(0.5, 0, 0, 1, 20),
+            vertex(0, 0.5, -2, 1, 30)
+        ]);
+        expect(clipped).toHaveLength(4);
+        for (const v of clipped) {
+            expect(v.z + v.w).toBeGreaterThanOrEqual(-1e-9);
+            expect(v.w).toBeGreaterThan(0);
+        }
+        // The new vertices sit halfway along the crossing edges
+        expect(clipped.map(v => v.attrs[0])).toEqual([10, 20, 25, 20]);
+    });
+
+    it('clips a screen-covering triangle to the view rectangle', () => {
+        const clipped = clipPolygon([vertex(-10, -10, 0, 1), vertex(10, -10, 0, 1), vertex(0, 10, 0, 1)]);
+        expect(clipped.length).toBeGreaterThanOrEqual(4);
+        for (const v of clipped) {
+            const s = clipToScreen(v, 100, 50);
+            expect(s.x).toBeGreaterThanOrEqual(-1e-6);
+            expect(s.x).toBeLessThanOrEqual(100 + 1e-6);
+            expect(s.y).toBeGreaterThanOrEqual(-1e-6);
+            expect(s.y).toBeLessThanOrEqual(50 + 1e-6);
+        }
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { classifyAABB, classifySphere, frustumPlanes, mat4LookAt, mat4Mul, mat4Perspective } from '../../Math';
+
+// Camera at the origin looking down -z, 90 degree field of view, near 1, far 100
+const planes = frustumPlanes(mat4Mul(
+    mat4Perspective(Math.PI / 2, 1, 1, 100),
+    mat4LookAt({ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: -1 }, { x: 0, y: 1, z: 0 })
+));
+
+describe('Frustum culling', () => {
+    it('extracts inward unit planes in clipping order', () => {
+        // Near plane z = -1 facing -z, far plane z = -100 facing +z
+        expect(Array.from(planes.subarray(0, 4))).toEqual([0, 0, -1, -1].map(v => expect.closeTo(v, 5)));
+        expect(Array.from(planes.subarray(4, 8))).toEqual([0, 0, 1, 100].map(v => expect.closeTo(v, 3)));
+        for (let p = 0; p < 6; p++) {
+            expect(Math.hypot(planes[p * 4], planes[p * 4 + 1], planes[p * 4 + 2])).toBeCloseTo(1);
+        }
+    });
+
+    it('classifies spheres', () => {
+        expect(classifySphere(planes, 0, 0, -10, 1)).toBe('inside');
+        expect(classifySphere(planes, 0, 0, 10, 1)).toBe('outside');
+        expect(classifySphere(planes, 0, 0, -1, 2)).toBe('intersects');
+        // Beyond the right plane x = -z
+        expect(classifySphere(planes, 20, 0, -10, 1)).toBe('outside');
+    });
+
+    it('classifies boxes', () => {
+        const box = (x: number, y: number, z: number, r: number) => classifyAABB(
+            planes, { x: x - r, y: y - r, z: z - r }, { x: x + r, y: y + r, z: z + r }
+        );
+        expect(box(0, 0, -10, 1)).toBe('inside');
+        expect(box(0, 0, 10, 1)).toBe('outside');
+        expect(box(0, -20, -10, 1)).toBe('outside');
+        expect(box(10, 0, -10, 1)).toBe('intersects');
+        expect(box(0, 0, -100, 1)).toBe('intersects');
+    });
+});
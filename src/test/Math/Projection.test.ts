@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { mat4MulVec4, mat4Ortho } from '../../Math';
+import { Camera } from '../../Objects/Camera';
+
+describe('Projections', () => {
+    it('maps the orthographic view box onto the clip cube', () => {
+        const m = mat4Ortho(-4, 2, -1, 3, 1, 11);
+        const toClip = (x: number, y: number, z: number) => {
+            const c = mat4MulVec4(m, { x, y, z, w: 1 });
+            return [c.x, c.y, c.z, c.w];
+        };
+        expect(toClip(-4, -1, -1)).toEqual([-1, -1, -1, 1].map(v => expect.closeTo(v, 5)));
+        expect(toClip(2, 3, -11)).toEqual([1, 1, 1, 1].map(v => expect.closeTo(v, 5)));
+        expect(toClip(-1, 1, -6)).toEqual([0, 0, 0, 1].map(v => expect.closeTo(v, 5)));
+    });
+
+    it('builds the camera projection from its settings and the aspect ratio', () => {
+        const camera = new Camera({ x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+        // Default: 60 degree perspective, near 0.1, far 100
+        expect(camera.projection).toEqual({ type: 'perspective', fov: Math.PI / 3, near: 0.1, far: 100 });
+
+        camera.setPerspective(Math.PI / 2, 1, 1000);
+        const persp = camera.getProjectionMatrix(2);
+        // A point 500 units away is within the far plane; at 45 degrees up it's on the top edge
+        const top = mat4MulVec4(persp, { x: 0, y: 500, z: -500, w: 1 });
+        expect(top.y / top.w).toBeCloseTo(1);
+        expect(top.z / top.w).toBeLessThan(1);
+
+        camera.setOrthographic(5);
+        const ortho = camera.getProjectionMatrix(2);
+        const corner = mat4MulVec4(ortho, { x: 10, y: 5, z: -1, w: 1 });
+        expect(corner.x).toBeCloseTo(1);
+        expect(corner.y).toBeCloseTo(1);
+
+        camera.setOrthographic({ left: 0, right: 4, bottom: 0, top: 2 });
+        expect(camera.projection).toMatchObject({ type: 'orthographic', size: 1 });
+        const origin = mat4MulVec4(camera.getProjectionMatrix(2), { x: 0, y: 0, z: -1, w: 1 });
+        expect([origin.x, origin.y]).toEqual([-1, -1].map(v => expect.closeTo(v, 5)));
+    });
+});
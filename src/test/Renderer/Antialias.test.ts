@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { Renderer, type RendererOptions } from '../../Renderer';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+
+const BACKGROUND = 20;
+
+/** A bright flat triangle with slanted edges on the dark background */
+async function render(options: RendererOptions) {
+    const target = new MemoryTarget(64, 48);
+    const renderer = new Renderer(target, { shading: 'flat', ...options });
+    renderer.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+    renderer.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+    renderer.addModel(new OBJLoader().parse(`
+        v 0 -1 -1
+        v 0 -1 1
+        v 0 1 0
+        f 1 2 3
+    `));
+    await renderer.renderFrameAsync(0);
+    renderer.dispose();
+    return { target, renderer };
+}
+
+/** Red levels strictly between the background and the triangle's fill */
+function intermediates(target: MemoryTarget, fill: number) {
+    let count = 0;
+    for (let i = 0; i < target.pixels.length; i += 4) {
+        if (target.pixels[i] > BACKGROUND && target.pixels[i] < fill) count++;
+    }
+    return count;
+}
+
+describe('Antialiasing', () => {
+    it('leaves edges hard without it', async () => {
+        const { target, renderer } = await render({});
+        expect(intermediates(target, target.getPixel(32, 24)[0])).toBe(0);
+        expect(renderer.getStats().antialiasBytes).toBe(0);
+    });
+
+    for (const antialias of ['ssaa', 'msaa', 'fxaa'] as const) {
+        it(`blends edge pixels with ${antialias} and reports its cost`, async () => {
+            const plain = await render({});
+            const { target, renderer } = await render({ antialias });
+            const fill = plain.target.getPixel(32, 24)[0];
+
+            expect(intermediates(target, fill)).toBeGreaterThan(10);
+            // Inside the triangle and on the background nothing changes
+            expect(target.getPixel(32, 24)).toEqual(plain.target.getPixel(32, 24));
+            expect(target.getPixel(0, 0)).toEqual(plain.target.getPixel(0, 0));
+            // The frame keeps the target's size
+            const fb = renderer.getFramebuffer();
+            expect([fb.width, fb.height]).toEqual([64, 48]);
+            expect(fb.zBuffer[24 * 64 + 32]).toBeLessThan(1);
+
+            const stats = renderer.getStats();
+            expect(stats.antialiasBytes).toBeGreaterThan(0);
+            expect(stats.antialiasMs).toBeGreaterThanOrEqual(0);
+        });
+    }
+
+    it('costs memory with the sample count', async () => {
+        const bytes = async (options: RendererOptions) => (await render(options)).renderer.getStats().antialiasBytes;
+        const plane = 64 * 48 * 8;
+        expect(await bytes({ antialias: 'ssaa', antialiasSamples: 3 })).toBe(9 * plane);
+        expect(await bytes({ antialias: 'msaa', antialiasSamples: 8 })).toBe(8 * plane);
+        expect(() => new Renderer(new MemoryTarget(4, 4), { antialias: 'msaa', antialiasSamples: 3 })).toThrow();
+    });
+
+    it('resolves the same multisampled frame on worker threads', async () => {
+        const single = await render({ antialias: 'msaa', shading: 'phong' });
+        const threaded = await render({ antialias: 'msaa', shading: 'phong', threads: 2 });
+        expect(threaded.target.pixels).toEqual(single.target.pixels);
+    });
+
+    it('keeps wireframe lines on every sample', async () => {
+        const { target } = await render({ antialias: 'msaa', shading: 'wireframe', wireframeColor: [0, 255, 0] });
+        let green = 0;
+        for (let i = 0; i < target.pixels.length; i += 4) {
+            if (target.pixels[i + 1] === 255) green++;
+        }
+        expect(green).toBeGreaterThan(20);
+    });
+});
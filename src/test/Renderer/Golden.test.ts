@@ -0,0 +1,57 @@
+import { describe, it } from 'vitest';
+import { OBJLoader, type ObjModel } from '../../Loaders/OBJLoader';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { Renderer, type RendererOptions } from '../../Renderer';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+import { expectToMatchGolden, framebufferImage } from './golden';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+const SHADING_MODES: NonNullable<RendererOptions['shading']>[] = ['flat', 'gouraud', 'phong', 'wireframe', 'hidden-line'];
+
+const SCENES = [
+    { name: 'teddyBear', path: 'src/Examples/teddyBear.obj', eye: { x: -50, y: 0, z: 0 } },
+    { name: 'lamp', path: 'src/Examples/lamp.obj', eye: { x: -14, y: 2.5, z: 0 } },
+];
+
+function renderScene(model: ObjModel, eye: { x: number, y: number, z: number }, options: RendererOptions) {
+    const renderer = new Renderer(new MemoryTarget(WIDTH, HEIGHT), options);
+    renderer.setCamera(new Camera(eye, { x: 0, y: 1, z: 0 }));
+    renderer.setDirectionalLight(new DirectionalLight({ x: 1, y: -1, z: -1 }, { x: 1, y: 1, z: 1 }, 0.8));
+    renderer.addModel(model);
+    renderer.renderFrame(0);
+    return framebufferImage(renderer.getFramebuffer());
+}
+
+describe('Golden images', () => {
+    it('matches the textured plane reference (perspective-correct UVs, mipmaps)', async () => {
+        const model = await new OBJLoader().loadFromFile('src/test/Loader/fixtures/texturedPlane.obj');
+        const renderer = new Renderer(new MemoryTarget(WIDTH, HEIGHT), { shading: 'flat' });
+        renderer.setCamera(new Camera({ x: -12, y: 3, z: 0 }, { x: 0, y: 1, z: 0 }, 1, 0, -0.35));
+        renderer.setDirectionalLight(new DirectionalLight({ x: 0, y: -1, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+        renderer.addModel(model);
+        renderer.renderFrame(0);
+        expectToMatchGolden('texturedPlane-flat', framebufferImage(renderer.getFramebuffer()));
+    });
+
+    for (const scene of SCENES) {
+        describe(scene.name, () => {
+            let model: ObjModel;
+            const load = async () => model ??= await new OBJLoader().loadFromFile(scene.path);
+
+            for (const shading of SHADING_MODES) {
+                it(`matches the ${shading} reference`, async () => {
+                    const image = renderScene(await load(), scene.eye, { shading });
+                    expectToMatchGolden(`${scene.name}-${shading}`, image);
+                });
+            }
+
+            it('matches the flat + wireframe overlay reference', async () => {
+                const image = renderScene(await load(), scene.eye, { shading: 'flat', wireframeOverlay: true, wireframeColor: [0, 0, 0] });
+                expectToMatchGolden(`${scene.name}-flat-overlay`, image);
+            });
+        });
+    }
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { OBJLoader, type Material } from '../../Loaders/OBJLoader';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { Renderer, type RendererOptions } from '../../Renderer';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+import { viewDepth, type PostFrame, type PostPass } from '../../PostProcess/PostProcess';
+import { FogPass, GammaPass, OutlinePass, SSAOPass, ToneMapPass, VignettePass } from '../../PostProcess/Passes';
+import { mat4Ortho, mat4Perspective } from '../../Math';
+import { grid, gridLines } from './scenes';
+
+const BACKGROUND = [20, 20, 30, 255];
+
+interface Scene {
+    options?: RendererOptions;
+    /** A wall standing on the floor along x = 0, facing -x */
+    wall?: boolean;
+    intensity?: number;
+}
+
+/** A floor seen from above and to the side, lit from above */
+function render(scene: Scene = {}) {
+    const target = new MemoryTarget(64, 48);
+    const renderer = new Renderer(target, { shading: 'phong', ...scene.options });
+    const camera = new Camera({ x: -6, y: 4, z: 0 }, { x: 0, y: 1, z: 0 });
+    renderer.setCamera(camera.lookAt({ x: 0, y: 0, z: 0 }));
+    renderer.setDirectionalLight(new DirectionalLight({ x: 0.3, y: -1, z: 0.2 }, { x: 1, y: 1, z: 1 }, scene.intensity ?? 1));
+    const lines = gridLines(20, 0, 8);
+    if (scene.wall) {
+        const o = lines.filter(l => l.startsWith('v')).length;
+        lines.push('v 0 0 -20', 'v 0 4 -20', 'v 0 4 20', 'v 0 0 20', `f ${o + 1} ${o + 3} ${o + 2}`, `f ${o + 1} ${o + 4} ${o + 3}`);
+    }
+    renderer.addModel(new OBJLoader().parse(lines.join('\n')));
+    renderer.renderFrame(0);
+    return { target, renderer };
+}
+
+const luma = (p: number[]) => 0.299 * p[0] + 0.587 * p[1] + 0.114 * p[2];
+
+describe('Post-processing', () => {
+    it('leaves the frame alone without passes', () => {
+        const { renderer } = render();
+        expect(renderer.getPostProcess().passes).toEqual([]);
+        expect(renderer.getStats().postProcessMs).toBe(0);
+    });
+
+    it('runs user-defined passes in order with the color and depth buffers', () => {
+        const plain = render().target;
+        const seen: PostFrame[] = [];
+        const invert: PostPass = {
+            render(frame, out) {
+                seen.push(frame);
+                for (let i = 0; i < out.length; i += 4) {
+                    out[i] = 1 - frame.color[i];
+                    out[i + 1] = 1 - frame.color[i + 1];
+                    out[i + 2] = 1 - frame.color[i + 2];
+                    out[i + 3] = frame.color[i + 3];
+                }
+            }
+        };
+        const disabled: PostPass = { enabled: false, render: () => { throw new Error('disabled pass ran'); } };
+        const { target, renderer } = render({ options: { postProcess: [invert, disabled] } });
+
+        expect(seen).toHaveLength(1);
+        expect(seen[0].linear).toBe(false);
+        expect([seen[0].width, seen[0].height]).toEqual([64, 48]);
+        expect(seen[0].depth[24 * 64 + 32]).toBeLessThan(1);
+        expect(seen[0].depth[0]).toBe(Infinity);
+        expect(target.getPixel(0, 0)).toEqual([235, 235, 225, 255]);
+        const [r, g, b] = plain.getPixel(32, 24);
+        expect(target.getPixel(32, 24)).toEqual([255 - r, 255 - g, 255 - b, 255]);
+        expect(renderer.getStats().postProcessMs).toBeGreaterThan(0);
+
+        // Running twice inverts back
+        renderer.getPostProcess().add(invert, 0).remove(disabled);
+        renderer.renderFrame(0);
+        expect(target.pixels).toEqual(plain.pixels);
+    });
+
+    it('lights in linear space and encodes with the default gamma pass', () => {
+        const unlit: Material = { name: 'unlit', kd: [0.5, 0.3, 0.2], illum: 0 };
+        const plain = render({ options: { defaultMaterial: unlit } }).target;
+        const linear = render({ options: { defaultMaterial: unlit, linearLighting: true } });
+        expect(linear.renderer.getPostProcess().passes[0]).toBeInstanceOf(GammaPass);
+        // Unlit colors and the background survive the round trip
+        for (const [x, y] of [[32, 24], [0, 0]]) {
+            const a = plain.getPixel(x, y), b = linear.target.getPixel(x, y);
+            for (let k = 0; k < 3; k++) expect(Math.abs(a[k] - b[k])).toBeLessThanOrEqual(1);
+        }
+
+        // Half the light is more than half as bright once encoded
+        const gray: Material = { name: 'gray', kd: [0.8, 0.8, 0.8], ks: [0, 0, 0] };
+        const srgbLit = render({ options: { defaultMaterial: gray, ambient: 0 }, intensity: 0.5 }).target.getPixel(32, 24)[0];
+        const linearLit = render({ options: { defaultMaterial: gray, ambient: 0, linearLighting: true }, intensity: 0.5 }).target.getPixel(32, 24)[0];
+        expect(linearLit).toBeGreaterThan(srgbLit * 1.2);
+        // Without encoding the linear frame is darker
+        const raw = render({ options: { defaultMaterial: gray, ambient: 0, linearLighting: true, postProcess: [] }, intensity: 0.5 }).target.getPixel(32, 24)[0];
+        expect(raw).toBeLessThan(srgbLit);
+    });
+
+    it('lights into HDR buffers on worker threads and through MSAA', async () => {
+        const frame = async (options: RendererOptions) => {
+            const target = new MemoryTarget(64, 48);
+            const renderer = new Renderer(target, { shading: 'phong', linearLighting: true, antialias: 'msaa', ...options });
+            renderer.setCamera(new Camera({ x: -6, y: 4, z: 0 }, { x: 0, y: 1, z: 0 }).lookAt({ x: 0, y: 0, z: 0 }));
+            renderer.setDirectionalLight(new DirectionalLight({ x: 0.3, y: -1, z: 0.2 }, { x: 1, y: 1, z: 1 }, 1));
+            renderer.addModel(grid(20, 0, 8));
+            await renderer.renderFrameAsync(0);
+            renderer.dispose();
+            return target;
+        };
+        const single = await frame({});
+        const threaded = await frame({ threads: 2 });
+        expect(threaded.pixels).toEqual(single.pixels);
+        const [r, g, b] = single.getPixel(32, 24);
+        expect(r).toBeGreaterThan(g);
+        expect(g).toBeGreaterThan(b);
+    });
+
+    it('tone maps highlights instead of clipping them', () => {
+        const options = { linearLighting: true, ambient: 0 };
+        const clipped = render({ options, intensity: 8 }).target;
+        const mapped = render({ options: { ...options, postProcess: [new ToneMapPass({ operator: 'reinhard' }), new GammaPass()] }, intensity: 8 }).target;
+        expect(clipped.getPixel(32, 24).slice(0, 2)).toEqual([255, 255]);
+        const [r, g, b] = mapped.getPixel(32, 24);
+        expect(r).toBeLessThan(255);
+        // Hue order is kept: the default material is orange
+        expect(r).toBeGreaterThan(g);
+        expect(g).toBeGreaterThan(b);
+
+        const dim = render({ options: { ...options, postProcess: [new ToneMapPass({ exposure: 0.1, operator: 'none' }), new GammaPass()] }, intensity: 8 }).target;
+        expect(dim.getPixel(32, 24)[0]).toBeLessThan(255);
+    });
+
+    it('fogs distant surfaces but not the background', () => {
+        const plain = render().target;
+        const { target } = render({ options: { postProcess: [new FogPass({ color: [0, 0, 255], start: 6, end: 20 })] } });
+        expect(target.getPixel(0, 0)).toEqual(BACKGROUND);
+        // The bottom of the frame is near the camera, the top of the floor far away
+        expect(target.getPixel(32, 46)).toEqual(plain.getPixel(32, 46));
+        let top = 0;
+        while (plain.getPixel(32, top)[0] === BACKGROUND[0]) top++;
+        expect(target.getPixel(32, top + 1)[2]).toBeGreaterThan(plain.getPixel(32, top + 1)[2] + 50);
+    });
+
+    it('darkens creases with SSAO and leaves open floor alone', () => {
+        const ssao = () => new SSAOPass({ radius: 1.5 });
+        const open = render({ options: { postProcess: [ssao()] } }).target;
+        const openPlain = render().target;
+        expect(luma(open.getPixel(32, 40))).toBeCloseTo(luma(openPlain.getPixel(32, 40)), -1);
+
+        const plain = render({ wall: true }).target;
+        const { target } = render({ wall: true, options: { postProcess: [ssao()] } });
+        // The wall is much darker than the floor in front of it
+        let crease = 0;
+        while (luma(plain.getPixel(32, crease)) < 150) crease++;
+        expect(luma(target.getPixel(32, crease))).toBeLessThan(luma(plain.getPixel(32, crease)) - 10);
+        expect(luma(target.getPixel(32, crease - 1))).toBeLessThan(luma(plain.getPixel(32, crease - 1)) - 5);
+        // Away from the crease the wall keeps its shade
+        expect(luma(target.getPixel(32, 4))).toBeCloseTo(luma(plain.getPixel(32, 4)), -1);
+    });
+
+    it('outlines silhouettes', () => {
+        const plain = render().target;
+        const { target } = render({ options: { postProcess: [new OutlinePass({ color: [255, 0, 255] })] } });
+        let top = 0;
+        while (plain.getPixel(32, top)[0] === BACKGROUND[0]) top++;
+        expect(target.getPixel(32, top)).toEqual([255, 0, 255, 255]);
+        expect(target.getPixel(32, top + 3)).toEqual(plain.getPixel(32, top + 3));
+        expect(target.getPixel(0, 0)).toEqual(BACKGROUND);
+    });
+
+    it('darkens the corners with a vignette', () => {
+        const plain = render().target;
+        const { target } = render({ options: { postProcess: [new VignettePass({ strength: 0.5 })] } });
+        expect(target.getPixel(32, 24)).toEqual(plain.getPixel(32, 24));
+        expect(target.getPixel(63, 47)[0]).toBeLessThan(plain.getPixel(63, 47)[0] * 0.6);
+    });
+
+    it('turns depth-buffer values back into view distances', () => {
+        for (const projection of [mat4Perspective(1, 1.5, 0.5, 40), mat4Ortho(-2, 2, -1, 1, 0.5, 40)]) {
+            for (const distance of [0.5, 3, 40]) {
+                const w = projection[14] * -distance + projection[15];
+                const z = (projection[10] * -distance + projection[11]) / w * 0.5 + 0.5;
+                expect(viewDepth(projection, z)).toBeCloseTo(distance, 3);
+            }
+        }
+    });
+});
@@ -0,0 +1,459 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { PLYLoader } from '../../Loaders/PLYLoader';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { PointLight } from '../../Objects/PointLight';
+import { SceneNode } from '../../Scene/SceneNode';
+import { Texture } from '../../Textures/Texture';
+import { Renderer } from '../../Renderer';
+import { projectVertex, type Shader } from '../../Shaders/Shader';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+
+const BACKGROUND = [20, 20, 30, 255];
+
+describe('Renderer (headless)', () => {
+    let target: MemoryTarget;
+    let renderer: Renderer;
+
+    beforeEach(() => {
+        target = new MemoryTarget(64, 48);
+        renderer = new Renderer(target, { shading: 'flat' });
+        renderer.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        renderer.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+    });
+
+    it('renders into a memory target without a DOM', () => {
+        const model = new OBJLoader().parse(`
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `);
+        renderer.addModel(model);
+        renderer.renderFrame(0);
+
+        expect(target.frameCount).toBe(1);
+        // Corners stay background, the center is covered by the triangle
+        expect(target.getPixel(0, 0)).toEqual(BACKGROUND);
+        expect(target.getPixel(32, 24)).not.toEqual(BACKGROUND);
+        // The presented copy matches the framebuffer the rasterizer wrote to
+        expect(renderer.getFramebuffer().getPixel(32, 24)).toEqual(target.getPixel(32, 24));
+        expect(renderer.getFramebuffer().zBuffer[24 * 64 + 32]).toBeLessThan(1);
+    });
+
+    it('draws only triangle edges in wireframe mode', () => {
+        renderer = new Renderer(target, { shading: 'wireframe', wireframeColor: [0, 255, 0] });
+        renderer.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        renderer.addModel(new OBJLoader().parse(`
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `));
+        renderer.renderFrame(0);
+
+        const fb = renderer.getFramebuffer();
+        expect(target.getPixel(32, 24)).toEqual(BACKGROUND);
+        // Bottom edge runs along a single row somewhere below the center
+        let edgeRow = -1;
+        for (let y = 25; y < 48 && edgeRow < 0; y++) {
+            if (fb.getPixel(32, y)[1] === 255) edgeRow = y;
+        }
+        expect(edgeRow).toBeGreaterThan(24);
+        expect(target.getPixel(32, edgeRow)).toEqual([0, 255, 0, 255]);
+    });
+
+    it('shades with the mesh material and falls back to the default material', () => {
+        const objText = `
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            usemtl Unlit
+            f 1 2 3
+        `;
+        const mtl = `
+            newmtl Unlit
+            Kd 0 1 0
+            illum 0
+        `;
+        renderer.addModel(new OBJLoader().parse(objText, { 'unlit.mtl': mtl }));
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)).toEqual([0, 255, 0, 255]);
+
+        // Unknown material -> configurable default
+        const fallback = new Renderer(target, { shading: 'flat', defaultMaterial: { name: 'blue', kd: [0, 0, 1], illum: 0 } });
+        fallback.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        fallback.addModel(new OBJLoader().parse(objText));
+        fallback.renderFrame(0);
+        expect(target.getPixel(32, 24)).toEqual([0, 0, 255, 255]);
+    });
+
+    it('draws models with their scene node transforms', () => {
+        const node = renderer.addModel(new OBJLoader().parse(`
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `));
+        node.setPosition(0, 0, 3); // slide the triangle to the side of the view
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)).toEqual(BACKGROUND);
+
+        renderer.onUpdate = () => node.setPosition(0, 0, 0);
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)).not.toEqual(BACKGROUND);
+    });
+
+    it('renders without lights and picks up lights attached to scene nodes', () => {
+        const objText = `
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `;
+        renderer = new Renderer(target, { shading: 'flat' });
+        renderer.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        renderer.addModel(new OBJLoader().parse(objText));
+        renderer.renderFrame(0);
+        const unlit = target.getPixel(32, 24);
+        expect(unlit).not.toEqual(BACKGROUND);
+
+        renderer.getScene().add(new SceneNode('lamp').setPosition(-2, 0, 0)
+            .attachLight(new PointLight({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1)));
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)[0]).toBeGreaterThan(unlit[0]);
+    });
+
+    it('lights per fragment in phong mode and per vertex in gouraud mode', () => {
+        // A quad facing the camera with a point light close to its center: the vertices barely
+        // see the light, so only per-fragment lighting brightens the middle
+        const quad = `
+            v 0 -2 -2
+            v 0 -2 2
+            v 0 2 2
+            v 0 2 -2
+            vn -1 0 0
+            f 1//1 2//1 3//1
+            f 1//1 3//1 4//1
+        `;
+        const centerRed = (shading: 'gouraud' | 'phong') => {
+            const r = new Renderer(target, { shading, ambient: 0 });
+            r.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+            r.addLight(new PointLight({ x: -0.5, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+            r.addModel(new OBJLoader().parse(quad));
+            r.renderFrame(0);
+            return target.getPixel(32, 24)[0];
+        };
+        const gouraud = centerRed('gouraud');
+        expect(gouraud).toBeGreaterThan(0);
+        expect(centerRed('phong')).toBeGreaterThan(gouraud + 50);
+    });
+
+    it('uses each triangle\'s own vertex normals in gouraud mode', () => {
+        renderer = new Renderer(target, { shading: 'gouraud', ambient: 0 });
+        renderer.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        renderer.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+        // The first (off-screen) triangle faces the light, the visible one has normals facing away
+        renderer.addModel(new OBJLoader().parse(`
+            v 0 10 9
+            v 0 10 11
+            v 0 12 10
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            vn -1 0 0
+            vn 1 0 0
+            f 1//1 2//1 3//1
+            f 4//2 5//2 6//2
+        `));
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('tints the lighting with vertex colors in every shading mode', () => {
+        // A quad facing the camera, red on its left edge and blue on its right one
+        const model = new PLYLoader().parse([
+            'ply', 'format ascii 1.0',
+            'element vertex 4',
+            'property float x', 'property float y', 'property float z',
+            'property uchar red', 'property uchar green', 'property uchar blue',
+            'element face 1', 'property list uchar int vertex_indices',
+            'end_header',
+            '0 -2 -2 255 0 0', '0 -2 2 0 0 255', '0 2 2 0 0 255', '0 2 -2 255 0 0',
+            '4 0 1 2 3'
+        ].join('\n'));
+        for (const shading of ['flat', 'gouraud', 'phong'] as const) {
+            const r = new Renderer(target, { shading });
+            r.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+            r.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+            r.addModel(model);
+            r.renderFrame(0);
+            const [leftRed, leftGreen, leftBlue] = target.getPixel(20, 24);
+            const [rightRed, rightGreen, rightBlue] = target.getPixel(44, 24);
+            expect(leftGreen).toBe(0);
+            expect(rightGreen).toBe(0);
+            expect(leftRed).toBeGreaterThan(leftBlue + 50);
+            expect(rightBlue).toBeGreaterThan(rightRed + 50);
+        }
+    });
+
+    it('perturbs per-fragment normals with a tangent-space normal map', () => {
+        const quadWithNormalMap = (rgb: number[]) => {
+            const model = new OBJLoader().parse(`
+                v 0 -2 -2
+                v 0 -2 2
+                v 0 2 2
+                v 0 2 -2
+                vt 0 0
+                vt 1 0
+                vt 1 1
+                vt 0 1
+                vn -1 0 0
+                usemtl Bumpy
+                f 1/1/1 2/2/1 3/3/1
+                f 1/1/1 3/3/1 4/4/1
+            `, { 'bumpy.mtl': 'newmtl Bumpy\nKd 1 1 1\nKs 0 0 0\nnorm n.png' });
+            const data = new Uint8ClampedArray([...rgb, 255]);
+            const textures = { 'n.png': new Texture({ width: 1, height: 1, data }, { mipmaps: 'none' }) };
+            const r = new Renderer(target, { shading: 'phong', ambient: 0 });
+            r.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+            r.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+            r.addModel({ ...model, textures });
+            r.renderFrame(0);
+            return target.getPixel(32, 24)[0];
+        };
+        // A flat normal map keeps the surface facing the light; a tilted one darkens it
+        expect(quadWithNormalMap([128, 128, 255])).toBeGreaterThan(250);
+        expect(quadWithNormalMap([255, 128, 128])).toBeLessThan(10);
+    });
+
+    it('draws huge triangles whose vertices are all off screen', () => {
+        renderer.addModel(new OBJLoader().parse(`
+            v 0 -100 -100
+            v 0 -100 100
+            v 0 100 0
+            f 1 2 3
+        `));
+        renderer.renderFrame(0);
+        expect(target.getPixel(0, 0)).not.toEqual(BACKGROUND);
+        expect(target.getPixel(32, 24)).not.toEqual(BACKGROUND);
+    });
+
+    it('clips triangles that cross the near plane instead of inverting them', () => {
+        // A floor reaching far behind the camera, seen from just above it
+        renderer = new Renderer(target, { shading: 'flat' });
+        renderer.setCamera(new Camera({ x: 0, y: 1, z: 0 }, { x: 0, y: 1, z: 0 }));
+        renderer.setDirectionalLight(new DirectionalLight({ x: 0, y: -1, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+        renderer.addModel(new OBJLoader().parse(`
+            v -50 0 -50
+            v 50 0 -50
+            v 50 0 50
+            v -50 0 50
+            f 1 2 3
+            f 1 3 4
+            f 3 2 1
+            f 4 3 1
+        `));
+        renderer.renderFrame(0);
+        for (let x = 0; x < 64; x += 7) {
+            expect(target.getPixel(x, 2)).toEqual(BACKGROUND);
+            expect(target.getPixel(x, 45)).not.toEqual(BACKGROUND);
+        }
+    });
+
+    it('culls meshes outside the view frustum and counts them', () => {
+        const objText = `
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `;
+        renderer.addModel(new OBJLoader().parse(objText));
+        renderer.addModel(new OBJLoader().parse(objText)).setPosition(-10, 0, 0); // behind the camera
+        renderer.renderFrame(0);
+
+        expect(renderer.getStats()).toEqual({ meshes: 2, meshesCulled: 1, triangles: 2, trianglesCulled: 1, clustersCulled: 0, antialiasBytes: 0, antialiasMs: 0, postProcessMs: 0, threads: 0 });
+        expect(target.getPixel(32, 24)).not.toEqual(BACKGROUND);
+    });
+
+    it('culls clusters of large meshes without changing the image', () => {
+        // A 40x40 quad grid in the x = 0 plane, much wider than the view
+        const lines: string[] = [];
+        for (let i = 0; i <= 40; i++) {
+            for (let j = 0; j <= 40; j++) lines.push(`v 0 ${i - 20} ${j - 20}`);
+        }
+        for (let i = 0; i < 40; i++) {
+            for (let j = 0; j < 40; j++) {
+                const a = i * 41 + j + 1;
+                lines.push(`f ${a} ${a + 1} ${a + 42}`, `f ${a} ${a + 42} ${a + 41}`);
+            }
+        }
+        const grid = new OBJLoader().parse(lines.join('\n'));
+        const render = (clusterCulling: number) => {
+            const r = new Renderer(target, { shading: 'gouraud', clusterCulling });
+            r.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+            r.setDirectionalLight(new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1));
+            r.addModel(grid);
+            r.renderFrame(0);
+            return { pixels: Array.from(r.getFramebuffer().buf8), stats: r.getStats() };
+        };
+
+        const all = render(0);
+        const clustered = render(64);
+        expect(all.stats.trianglesCulled).toBe(0);
+        expect(clustered.stats.clustersCulled).toBeGreaterThan(0);
+        expect(clustered.stats.trianglesCulled).toBeGreaterThan(3200 / 2);
+        expect(clustered.pixels).toEqual(all.pixels);
+    });
+
+    it('draws with the camera projection and follows target resizes', () => {
+        renderer.addModel(new OBJLoader().parse(`
+            v 0 -1 -1
+            v 0 -1 1
+            v 0 1 0
+            f 1 2 3
+        `)).setScale(40, 40, 40).setPosition(150, 0, 0);
+        const camera = new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+        renderer.setCamera(camera);
+        renderer.renderFrame(0);
+        // Beyond the default far plane of 100
+        expect(target.getPixel(32, 24)).toEqual(BACKGROUND);
+
+        camera.setPerspective(Math.PI / 3, 0.1, 500);
+        renderer.renderFrame(0);
+        expect(target.getPixel(32, 24)).not.toEqual(BACKGROUND);
+
+        // Orthographic: the triangle keeps its size in pixels however far away it is
+        camera.setOrthographic(40, 0.1, 500);
+        renderer.renderFrame(0);
+        const fb = renderer.getFramebuffer();
+        let covered = 0;
+        for (let x = 0; x < 64; x++) if (fb.getPixel(x, 40)[0] !== BACKGROUND[0]) covered++;
+        // 80 units tall view and 106.7 wide: at row 40 (y = -27.5) the triangle is 67.5 units, 40.5 pixels wide
+        expect(Math.abs(covered - 40.5)).toBeLessThanOrEqual(1.5);
+
+        target.resize(32, 96);
+        renderer.renderFrame(0);
+        expect(renderer.getFramebuffer()).not.toBe(fb);
+        expect(renderer.getFramebuffer().width).toBe(32);
+        expect(renderer.getFramebuffer().height).toBe(96);
+        expect(target.pixels.length).toBe(32 * 96 * 4);
+        expect(target.getPixel(16, 48)).not.toEqual(BACKGROUND);
+    });
+
+    it('updates camera controllers with the time since the previous frame', () => {
+        const steps: number[] = [];
+        const controller = { update: (dt: number) => steps.push(dt), dispose: () => { } };
+        renderer.addController(controller);
+        renderer.renderFrame(1000);
+        renderer.renderFrame(1250);
+        renderer.removeController(controller);
+        renderer.renderFrame(1500);
+        expect(steps).toEqual([0, 0.25]);
+    });
+
+    it('rasterizes the same pixels on worker threads as on the main thread', async () => {
+        const model = await new OBJLoader().loadFromFile('src/test/Loader/fixtures/texturedPlane.obj');
+        const render = async (threads: number) => {
+            const memory = new MemoryTarget(160, 120);
+            const r = new Renderer(memory, { shading: 'phong', threads, wireframeOverlay: true });
+            r.setCamera(new Camera({ x: -12, y: 3, z: 0 }, { x: 0, y: 1, z: 0 }, 1, 0, -0.35));
+            r.setDirectionalLight(new DirectionalLight({ x: 0, y: -1, z: 0 }, { x: 1, y: 1, z: 1 }, 0.6));
+            r.addLight(new PointLight({ x: 0, y: 1, z: 0 }, { x: 1, y: 0.8, z: 0.6 }, 1, 10));
+            r.addModel(model);
+            await r.renderFrameAsync(0);
+            await r.renderFrameAsync(16);
+            r.dispose();
+            return { fb: r.getFramebuffer(), frames: memory.frameCount };
+        };
+
+        const single = await render(0);
+        const threaded = await render(2);
+        expect(threaded.fb.shared).toBe(true);
+        expect(threaded.frames).toBe(2);
+        expect(Array.from(threaded.fb.buf8)).toEqual(Array.from(single.fb.buf8));
+        expect(Array.from(threaded.fb.zBuffer)).toEqual(Array.from(single.fb.zBuffer));
+    });
+
+    it('falls back to this thread when the raster workers fail and reports it', async () => {
+        // The workers re-create fragment functions from their source, without this closure
+        const gray = 0.5;
+        const shader: Shader = {
+            varyings: 0,
+            uniforms: {},
+            vertex: (input, uniforms, out) => projectVertex(input, uniforms, out),
+            fragment: (varyings, uniforms, out) => { out[0] = out[1] = out[2] = gray; }
+        };
+        const r = new Renderer(target, { shading: shader, threads: 2 });
+        const errors: Error[] = [];
+        r.onError = e => errors.push(e);
+        r.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+        r.addModel(new OBJLoader().parse('v 0 -1 -1\nv 0 -1 1\nv 0 1 0\nf 1 2 3'));
+        await r.renderFrameAsync(0);
+        await r.renderFrameAsync(16);
+        r.dispose();
+
+        expect(errors.length).toBe(1);
+        expect(errors[0].message).toMatch(/Raster worker failed/);
+        expect(r.getStats().threads).toBe(0);
+        expect(target.getPixel(32, 24)).toEqual([127, 127, 127, 255]);
+    });
+
+    it('stops the render loop on errors and drops the frame running when disposed', async () => {
+        const callbacks: ((time: number) => Promise<void>)[] = [];
+        vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => Promise<void>) => callbacks.push(callback));
+        try {
+            const errors: Error[] = [];
+            renderer.onError = e => errors.push(e);
+            renderer.onUpdate = time => {
+                if (time > 1) throw new Error('update failed');
+            };
+            renderer.start();
+            await callbacks.shift()!(0);
+            expect(callbacks.length).toBe(1);
+            await callbacks.shift()!(2000);
+            expect(errors.map(e => e.message)).toEqual(['update failed']);
+            expect(callbacks.length).toBe(0);
+
+            // A threaded frame still drawing when the renderer is disposed is dropped quietly
+            const threaded = new Renderer(new MemoryTarget(64, 48), { shading: 'phong', threads: 2 });
+            threaded.onError = e => errors.push(e);
+            threaded.setCamera(new Camera({ x: -5, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }));
+            threaded.addModel(new OBJLoader().parse('v 0 -1 -1\nv 0 -1 1\nv 0 1 0\nf 1 2 3'));
+            threaded.start();
+            const frame = callbacks.shift()!(0);
+            threaded.dispose();
+            await frame;
+            expect(errors.length).toBe(1);
+            expect(callbacks.length).toBe(0);
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('rethrows errors that stop the render loop from a timer without an onError handler', async () => {
+        const callbacks: ((time: number) => Promise<void>)[] = [];
+        vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => Promise<void>) => callbacks.push(callback));
+        vi.useFakeTimers({ toFake: ['setTimeout'] });
+        try {
+            renderer.onUpdate = () => {
+                throw new Error('update failed');
+            };
+            renderer.start();
+            // Not a rejection of the frame, which would go unhandled
+            await expect(callbacks.shift()!(0)).resolves.toBeUndefined();
+            expect(callbacks.length).toBe(0);
+            expect(() => vi.runAllTimers()).toThrow('update failed');
+        } finally {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        }
+    });
+
+    it('clears to the background color with an empty scene', () => {
+        renderer.renderFrame(0);
+        expect(target.getPixel(10, 10)).toEqual(BACKGROUND);
+        expect(renderer.getFramebuffer().zBuffer[0]).toBe(Number.POSITIVE_INFINITY);
+    });
+});
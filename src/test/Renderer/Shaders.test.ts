@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { HemisphereLight } from '../../Objects/HemisphereLight';
+import { PointLight } from '../../Objects/PointLight';
+import { SpotLight } from '../../Objects/SpotLight';
+import type { Light } from '../../Lighting';
+import { Renderer, type RendererOptions, type ShadingMode } from '../../Renderer';
+import { projectVertex, type Shader } from '../../Shaders/Shader';
+import { FlatShader, GouraudShader, NormalShader, PhongShader, ToonShader, UVCheckerShader } from '../../Shaders/Shaders';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+import { gridLines, quadRenderer, quads } from './scenes';
+
+const WHITE = { x: 1, y: 1, z: 1 };
+
+/** A square facing the camera on its own; a negative slope tilts its right side away */
+function quad(material: string, size: number, z: number, slope = 0) {
+    return quads([{ material, size, z, slope }]);
+}
+
+/** Shows the UVs as red and green */
+const uvShader: Shader<{}> = {
+    varyings: 2,
+    uniforms: {},
+    vertex(input, uniforms, out) {
+        projectVertex(input, uniforms, out);
+        out.varyings[0] = input.uv[0];
+        out.varyings[1] = input.uv[1];
+    },
+    fragment(varyings, uniforms, out) {
+        out[0] = varyings[0];
+        out[1] = varyings[1];
+    }
+};
+
+describe('Shaders', () => {
+    it('runs custom vertex and fragment functions with perspective-correct varyings', () => {
+        const { target, renderer: r } = quadRenderer({ shading: uvShader });
+        r.addModel(quad('red', 2, 0, -0.5));
+        r.renderFrame(0);
+
+        // The view ray through the center meets the tilted quad at its UV center, off its screen center
+        const [red, green, blue] = target.getPixel(24, 24);
+        expect(blue).toBe(0);
+        expect(Math.abs(red - 127)).toBeLessThanOrEqual(6);
+        expect(Math.abs(green - 127)).toBeLessThanOrEqual(6);
+        // u grows faster per pixel on the far side of the quad
+        const u = [12, 18, 24, 30, 36].map(x => target.getPixel(x, 24)[0]);
+        for (let k = 1; k < u.length - 1; k++) expect(u[k + 1] - u[k]).toBeGreaterThan(u[k] - u[k - 1]);
+        expect(target.getPixel(24, 12)[1]).toBeGreaterThan(green);
+    });
+
+    it('leaves color and depth untouched where the fragment function discards', () => {
+        const holes: Shader<{ cut: number }> = {
+            ...uvShader,
+            uniforms: { cut: 0.5 },
+            fragment(varyings, uniforms, out) {
+                if (varyings[0] < uniforms.cut) return false;
+                out[0] = out[1] = out[2] = 1;
+            }
+        };
+        const { target, renderer: r } = quadRenderer();
+        r.addModel(quad('red', 1, 0));
+        const front = r.addModel(quad('red', 2, 1));
+        front.shader = holes;
+        r.renderFrame(0);
+
+        // Left half cut away, showing the red quad behind and keeping its depth
+        expect(target.getPixel(20, 24)).toEqual([255, 0, 0, 255]);
+        expect(target.getPixel(30, 24)).toEqual([255, 255, 255, 255]);
+        const alone = quadRenderer();
+        alone.renderer.addModel(quad('red', 1, 0));
+        alone.renderer.renderFrame(0);
+        expect(r.getFramebuffer().zBuffer[24 * 48 + 20]).toBe(alone.renderer.getFramebuffer().zBuffer[24 * 48 + 20]);
+    });
+
+    it('lets scene nodes override the renderer\'s shading', () => {
+        const { target, renderer: r } = quadRenderer();
+        r.addModel(quad('red', 2, 0));
+        r.addModel(quad('red', 1, 1)).shader = new UVCheckerShader({ scale: 2, colors: [[0, 0, 255], [0, 255, 0]] });
+        r.renderFrame(0);
+        expect(target.getPixel(12, 24)).toEqual([255, 0, 0, 255]);
+        // One UV square per quarter of the quad
+        expect(target.getPixel(20, 28)).toEqual([0, 0, 255, 255]);
+        expect(target.getPixel(28, 28)).toEqual([0, 255, 0, 255]);
+        expect(target.getPixel(28, 20)).toEqual([0, 0, 255, 255]);
+    });
+
+    it('decodes the UV checker\'s sRGB colors when lighting in linear space', () => {
+        const { target, renderer: r } = quadRenderer({ linearLighting: true });
+        r.addModel(quad('red', 2, 0)).shader = new UVCheckerShader({ scale: 1, colors: [[128, 64, 200], [128, 64, 200]] });
+        r.renderFrame(0);
+        const pixel = target.getPixel(24, 24);
+        [128, 64, 200].forEach((c, k) => expect(Math.abs(pixel[k] - c)).toBeLessThanOrEqual(1));
+    });
+
+    it('ships normal and toon shaders', () => {
+        const normals = quadRenderer({ shading: new NormalShader() });
+        normals.renderer.addModel(quad('red', 2, 0));
+        normals.renderer.renderFrame(0);
+        expect(normals.target.getPixel(24, 24)).toEqual([127, 127, 255, 255]);
+
+        const toon = quadRenderer({ shading: new ToonShader({ bands: 2 }) });
+        toon.renderer.addModel(quad('white', 2, 0, -0.5));
+        toon.renderer.renderFrame(0);
+        // Flat bands: every pixel is one of a few grays
+        const levels = new Set<number>();
+        for (let x = 12; x <= 36; x += 4) {
+            const [r, g, b] = toon.target.getPixel(x, 24);
+            expect(g).toBe(r);
+            expect(b).toBe(r);
+            levels.add(r);
+        }
+        expect(levels.size).toBeLessThanOrEqual(3);
+    });
+
+    it('bands the toon shader\'s light with the built-in falloff, cones and hemisphere lights', () => {
+        const toon = (light: Light | null) => {
+            const { target, renderer: r } = quadRenderer({ shading: new ToonShader({ bands: 2 }) });
+            r.addModel(quad('white', 2, 0));
+            if (light) r.addLight(light);
+            r.renderFrame(0);
+            return target;
+        };
+        const ambient = toon(null).getPixel(24, 24)[0];
+
+        // A narrow spot on the center leaves the corners at ambient
+        const spot = toon(new SpotLight({ x: 0, y: 0, z: 4 }, { x: 0, y: 0, z: -1 }, WHITE, 1, Math.PI / 32, Math.PI / 16));
+        expect(spot.getPixel(24, 24)[0]).toBe(255);
+        expect(spot.getPixel(12, 12)[0]).toBe(ambient);
+        // Out of range
+        expect(toon(new PointLight({ x: 0, y: 0, z: 4 }, WHITE, 1, 2)).getPixel(24, 24)[0]).toBe(ambient);
+        expect(toon(new HemisphereLight(WHITE, WHITE, 0.5)).getPixel(24, 24)[0]).toBeGreaterThan(ambient);
+    });
+
+    it('draws the built-in shaders like their shading modes', async () => {
+        // The checker floor with a specular and bump map, under a colored patch without normals
+        const floor = await new OBJLoader().loadFromFile('src/test/Loader/fixtures/texturedPlane.obj');
+        const checker = floor.materials['Checker'];
+        floor.materials['Checker'] = { ...checker, ks: [1, 1, 1], ns: 24, illum: 2, mapKs: checker.mapKd, mapBump: checker.mapKd, bumpScale: 0.2 };
+        const patch = new OBJLoader().parse(gridLines(3, 0.5, 3).map(l => l.startsWith('v ') ? `${l} 1 0.5 0.25` : l).join('\n'));
+        const render = (shading: RendererOptions['shading'], linearLighting = false) => {
+            const target = new MemoryTarget(96, 72);
+            const r = new Renderer(target, { shading, linearLighting });
+            r.setCamera(new Camera({ x: -12, y: 3, z: 0 }, { x: 0, y: 1, z: 0 }, 1, 0, -0.35));
+            r.addLight(new DirectionalLight({ x: 0.3, y: -1, z: 0.2 }, { x: 1, y: 0.9, z: 0.8 }, 0.5));
+            r.addLight(new PointLight({ x: -4, y: 2, z: 3 }, { x: 0.2, y: 0.4, z: 1 }, 1, 12));
+            r.addLight(new SpotLight({ x: 2, y: 4, z: -3 }, { x: 0, y: -1, z: 0 }, WHITE, 1, Math.PI / 8, Math.PI / 5));
+            r.addModel(floor);
+            r.addModel(patch);
+            r.renderFrame(0);
+            return target.pixels;
+        };
+        const modes: [ShadingMode, new () => Shader<{}>][] = [['flat', FlatShader], ['gouraud', GouraudShader], ['phong', PhongShader]];
+        for (const linear of [false, true]) {
+            for (const [mode, BuiltIn] of modes) {
+                const native = render(mode, linear);
+                // Plain instances take the native path; a subclass runs as any other shader
+                expect(render(new BuiltIn(), linear)).toEqual(native);
+                expect(render(new (class extends BuiltIn {})(), linear)).toEqual(native);
+            }
+        }
+    });
+
+    it('refuses shaders with more varyings than the kernel holds', () => {
+        const { renderer: r } = quadRenderer({ shading: { ...uvShader, varyings: 99 } });
+        r.addModel(quad('red', 2, 0));
+        expect(() => r.renderFrame(0)).toThrow(/varyings/);
+    });
+
+    it('shades the same on worker threads', async () => {
+        const frame = async (options: RendererOptions) => {
+            const { target, renderer: r } = quadRenderer(options);
+            r.addModel(quad('red', 2, 0, -0.5));
+            r.addModel(quad('white', 1, 1)).shader = new UVCheckerShader();
+            r.addModel(quad('white', 0.5, 2)).shader = new (class extends PhongShader {})();
+            r.addLight(new PointLight({ x: 1, y: 1, z: 3 }, WHITE, 1));
+            await r.renderFrameAsync(0);
+            r.dispose();
+            return target;
+        };
+        const single = await frame({ shading: uvShader });
+        const threaded = await frame({ shading: uvShader, threads: 2 });
+        expect(threaded.pixels).toEqual(single.pixels);
+    });
+});
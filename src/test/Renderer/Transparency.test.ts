@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import type { RendererOptions } from '../../Renderer';
+import type { SceneNode } from '../../Scene/SceneNode';
+import { quadRenderer, quads, type Quad } from './scenes';
+
+function render(list: Quad[], options: RendererOptions = {}, setup?: (node: SceneNode) => void) {
+    const { target, renderer } = quadRenderer(options);
+    const node = renderer.addModel(quads(list));
+    setup?.(node);
+    renderer.renderFrame(0);
+    return { target, renderer, node };
+}
+
+const RED = { material: 'red', size: 2, z: 0 };
+const GREEN = { material: 'green', size: 1.5, z: 1 };
+const BLUE = { material: 'blue', size: 1, z: 2 };
+
+function expectClose(actual: number[], expected: number[], tolerance = 1) {
+    for (let k = 0; k < expected.length; k++) expect(Math.abs(actual[k] - expected[k])).toBeLessThanOrEqual(tolerance);
+}
+
+describe('Transparency', () => {
+    it('blends meshes with an MTL opacity over what is behind them', () => {
+        const { target, renderer } = render([GREEN, RED]);
+        expectClose(target.getPixel(24, 24), [127, 127, 0, 255]);
+        // Transparent surfaces don't hide what is drawn behind them later, nor write depth
+        const opaque = render([RED]).renderer.getFramebuffer();
+        expect(renderer.getFramebuffer().zBuffer[24 * 48 + 24]).toBe(opaque.zBuffer[24 * 48 + 24]);
+    });
+
+    it('draws transparent triangles back to front whatever the submission order', () => {
+        const a = render([RED, GREEN, BLUE]).target;
+        const b = render([BLUE, GREEN, RED]).target;
+        expect(b.pixels).toEqual(a.pixels);
+        // Blue (Tr 0.5) in front of green in front of red
+        expectClose(a.getPixel(24, 24), [63, 63, 127, 255]);
+    });
+
+    it('hides transparent meshes behind opaque ones', () => {
+        const { target } = render([{ material: 'green', size: 1.5, z: -1 }, RED]);
+        expect(target.getPixel(24, 24)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('scales the opacity per node and per mesh', () => {
+        const { target } = render([RED, { material: 'solidBlue', size: 1, z: 1 }], {}, node => {
+            node.setRenderState({ opacity: 0.5 }, node.model!.meshes[1]);
+        });
+        expectClose(target.getPixel(24, 24), [127, 0, 127, 255]);
+        // The red quad kept the node's state
+        expect(target.getPixel(24, 8)).toEqual([255, 0, 0, 255]);
+
+        const faded = render([RED], {}, node => { node.renderState.opacity = 0; }).target;
+        expect(faded.getPixel(24, 24)).toEqual([20, 20, 30, 255]);
+    });
+
+    it('adds and multiplies colors with the blend modes', () => {
+        const front = { material: 'solidBlue', size: 1, z: 1 };
+        const additive = render([RED, front], {}, node => node.setRenderState({ blend: 'additive' }, node.model!.meshes[1])).target;
+        expect(additive.getPixel(24, 24)).toEqual([255, 0, 255, 255]);
+        const multiply = render([RED, front], {}, node => node.setRenderState({ blend: 'multiply' }, node.model!.meshes[1])).target;
+        expect(multiply.getPixel(24, 24)).toEqual([0, 0, 0, 255]);
+        // Faded by the opacity
+        const half = render([RED, front], {}, node => node.setRenderState({ blend: 'multiply', opacity: 0.5 }, node.model!.meshes[1])).target;
+        expectClose(half.getPixel(24, 24), [127, 0, 0, 255]);
+    });
+
+    it('lets meshes skip the depth test and depth write', () => {
+        const hidden = { material: 'solidBlue', size: 1, z: -1 };
+        const onTop = render([RED, hidden], {}, node => node.setRenderState({ depthTest: false }, node.model!.meshes[1])).target;
+        expect(onTop.getPixel(24, 24)).toEqual([0, 0, 255, 255]);
+
+        // A mesh that doesn't write depth is drawn over by anything after it
+        const front = { material: 'solidBlue', size: 1, z: 1 };
+        const { target, renderer } = render([front, RED], {}, node => node.setRenderState({ depthWrite: false }, node.model!.meshes[0]));
+        expect(target.getPixel(24, 24)).toEqual([255, 0, 0, 255]);
+        expect(renderer.getFramebuffer().zBuffer[24 * 48 + 24]).toBe(render([RED]).renderer.getFramebuffer().zBuffer[24 * 48 + 24]);
+    });
+
+    it('resolves intersecting transparent meshes with weighted blended OIT', () => {
+        // Two quads crossing at x = 0: each is in front on one side
+        const crossing = [RED, { material: 'green', size: 1.5, z: 1, slope: 0.5 }, { material: 'blue', size: 1.5, z: 1, slope: -0.5 }];
+        const weighted = render(crossing, { transparency: 'weighted' }).target;
+        const reversed = render([...crossing].reverse(), { transparency: 'weighted' }).target;
+        for (let i = 0; i < weighted.pixels.length; i++) expect(Math.abs(weighted.pixels[i] - reversed.pixels[i])).toBeLessThanOrEqual(1);
+
+        // The nearer quad dominates on each side, and both cover half of the red behind
+        const [lr, lg, lb] = weighted.getPixel(18, 24);
+        const [rr, rg, rb] = weighted.getPixel(30, 24);
+        expect(lb).toBeGreaterThan(lg);
+        expect(rg).toBeGreaterThan(rb);
+        expectClose([lr, rr], [63, 63], 2);
+        expectClose([lb, lg], [rg, rb], 2);
+    });
+
+    it('blends the same on worker threads, through MSAA and in linear light', async () => {
+        const frame = async (options: RendererOptions) => {
+            const { target, renderer } = quadRenderer(options);
+            renderer.addModel(quads([RED, GREEN, BLUE]));
+            await renderer.renderFrameAsync(0);
+            renderer.dispose();
+            return target;
+        };
+        for (const options of [{}, { transparency: 'weighted' }, { antialias: 'msaa' }, { linearLighting: true }] as RendererOptions[]) {
+            const single = await frame(options);
+            const threaded = await frame({ ...options, threads: 2 });
+            expect(threaded.pixels).toEqual(single.pixels);
+            const [r, g, b] = single.getPixel(24, 24);
+            expect(b).toBeGreaterThan(g);
+            expect(r).toBeGreaterThan(0);
+        }
+    });
+});
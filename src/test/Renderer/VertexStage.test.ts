@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { OBJLoader } from '../../Loaders/OBJLoader';
+import { mat3NormalFromMat4, mat4Identity, mat4Mul, mat4Perspective, mat4LookAt } from '../../Math';
+import { VertexStage } from '../../VertexStage';
+
+// Camera at z = 5 looking down -z with a 90 degree field of view on a 100x100 screen
+const proj = mat4Perspective(Math.PI / 2, 1, 0.1, 100);
+const view = mat4LookAt({ x: 0, y: 0, z: 5 }, { x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+const mvp = mat4Mul(proj, view);
+const model = mat4Identity();
+const normalMatrix = mat3NormalFromMat4(model);
+
+const quad = new OBJLoader().parse(`
+    v -1 -1 0
+    v 1 -1 0
+    v 1 1 0
+    v -1 1 0
+    v 0 0 10
+    f 1 2 3
+    f 1 3 4
+    f 1 2 5
+`).meshes[0];
+
+describe('VertexStage', () => {
+    it('transforms each shared vertex once into screen space', () => {
+        const stage = new VertexStage();
+        stage.transform(quad, mvp, model, normalMatrix, 100, 100);
+
+        expect(stage.count).toBe(quad.positions.length / 3);
+        // Vertex 2 at (1, 1, 0) is 5 units away: 1/5 of the half-width right of and above the center
+        const v = Array.from(quad.indices).find(i => quad.positions[i * 3] === 1 && quad.positions[i * 3 + 1] === 1)!;
+        expect(stage.screen[v * 3]).toBeCloseTo(60);
+        expect(stage.screen[v * 3 + 1]).toBeCloseTo(40);
+        expect(stage.recipW[v]).toBeCloseTo(1 / 5);
+        expect(stage.outcode[v]).toBe(0);
+        expect(Array.from(stage.world.subarray(v * 3, v * 3 + 3))).toEqual([1, 1, 0]);
+
+        // Vertex 5 is behind the camera
+        const behind = Array.from(quad.indices).find(i => quad.positions[i * 3 + 2] === 10)!;
+        expect(stage.outcode[behind] & 1).toBe(1);
+    });
+
+    it('reuses its buffers and only grows them for larger meshes', () => {
+        const stage = new VertexStage();
+        stage.transform(quad, mvp, model, normalMatrix, 100, 100);
+        const screen = stage.screen;
+        stage.transform(quad, mvp, model, normalMatrix, 100, 100);
+        expect(stage.screen).toBe(screen);
+
+        const triangle = new OBJLoader().parse('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3').meshes[0];
+        stage.transform(triangle, mvp, model, normalMatrix, 100, 100);
+        expect(stage.count).toBe(3);
+        expect(stage.screen).toBe(screen);
+    });
+});
@@ -0,0 +1,81 @@
+// Golden-image helpers for rasterizer regression tests.
+// References live in ./golden/<name>.png. Run with UPDATE_GOLDEN=1 to (re)write them;
+// on mismatch the actual frame and a diff image are written to ./golden/__diff__/.
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { expect } from 'vitest';
+import { decodePNG, encodePNG, type RGBAImage } from '../../Image/PNG';
+import type { Framebuffer } from '../../Framebuffer';
+
+const GOLDEN_DIR = fileURLToPath(new URL('./golden/', import.meta.url));
+const DIFF_DIR = fileURLToPath(new URL('./golden/__diff__/', import.meta.url));
+
+export interface GoldenOptions {
+    /** Largest per-channel difference (0..255) that still counts as a match */
+    tolerance?: number;
+    /** Fraction of pixels allowed to exceed the tolerance */
+    maxMismatchRatio?: number;
+}
+
+export interface ImageComparison {
+    mismatched: number;
+    maxDelta: number;
+    /** Faded copy of the actual image with mismatching pixels painted red */
+    diff: Uint8ClampedArray;
+}
+
+export function compareImages(actual: RGBAImage, expected: RGBAImage, tolerance = 0): ImageComparison {
+    if (actual.width !== expected.width || actual.height !== expected.height) {
+        throw new Error(`Image size mismatch: ${actual.width}x${actual.height} vs ${expected.width}x${expected.height}`);
+    }
+    const diff = new Uint8ClampedArray(actual.data.length);
+    let mismatched = 0, maxDelta = 0;
+    for (let i = 0; i < actual.data.length; i += 4) {
+        let delta = 0;
+        for (let c = 0; c < 4; c++) delta = Math.max(delta, Math.abs(actual.data[i + c] - expected.data[i + c]));
+        maxDelta = Math.max(maxDelta, delta);
+        if (delta > tolerance) {
+            mismatched++;
+            diff[i] = 255;
+            diff[i + 1] = 0;
+            diff[i + 2] = 0;
+        } else {
+            const luma = 0.299 * actual.data[i] + 0.587 * actual.data[i + 1] + 0.114 * actual.data[i + 2];
+            diff[i] = diff[i + 1] = diff[i + 2] = luma * 0.3;
+        }
+        diff[i + 3] = 255;
+    }
+    return { mismatched, maxDelta, diff };
+}
+
+export function framebufferImage(framebuffer: Framebuffer): RGBAImage {
+    return { width: framebuffer.width, height: framebuffer.height, data: new Uint8ClampedArray(framebuffer.buf8) };
+}
+
+/**
+ * Compare an image against the committed reference `name`.png.
+ */
+export function expectToMatchGolden(name: string, actual: RGBAImage, options: GoldenOptions = {}) {
+    const { tolerance = 2, maxMismatchRatio = 0 } = options;
+    const goldenPath = `${GOLDEN_DIR}${name}.png`;
+
+    if (process.env.UPDATE_GOLDEN) {
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(goldenPath, encodePNG(actual.data, actual.width, actual.height));
+        return;
+    }
+    if (!existsSync(goldenPath)) {
+        throw new Error(`Missing golden image ${goldenPath}; run the tests with UPDATE_GOLDEN=1 to create it`);
+    }
+
+    const expected = decodePNG(new Uint8Array(readFileSync(goldenPath)));
+    const result = compareImages(actual, expected, tolerance);
+    const allowed = Math.floor(maxMismatchRatio * actual.width * actual.height);
+    if (result.mismatched > allowed) {
+        mkdirSync(DIFF_DIR, { recursive: true });
+        writeFileSync(`${DIFF_DIR}${name}.actual.png`, encodePNG(actual.data, actual.width, actual.height));
+        writeFileSync(`${DIFF_DIR}${name}.diff.png`, encodePNG(result.diff, actual.width, actual.height));
+    }
+    expect(result.mismatched, `${name}: ${result.mismatched} pixels differ (max delta ${result.maxDelta}), see ${DIFF_DIR}`)
+        .toBeLessThanOrEqual(allowed);
+}
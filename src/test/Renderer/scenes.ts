@@ -0,0 +1,79 @@
+// Scene factories shared by the rendering tests.
+import { OBJLoader, type ObjModel } from '../../Loaders/OBJLoader';
+import { Camera } from '../../Objects/Camera';
+import { Renderer, type RendererOptions } from '../../Renderer';
+import { MemoryTarget } from '../../Targets/MemoryTarget';
+
+/** Unlit (illum 0) colors, some of them see-through, and a lit white */
+export const QUAD_MTL = `
+newmtl red
+Kd 1 0 0
+illum 0
+newmtl green
+Kd 0 1 0
+d 0.5
+illum 0
+newmtl blue
+Kd 0 0 1
+Tr 0.5
+illum 0
+newmtl solidBlue
+Kd 0 0 1
+illum 0
+newmtl white
+Kd 1 1 1
+illum 1
+`;
+
+export interface Quad {
+    /** One of QUAD_MTL's materials; the mesh is named after it */
+    material: string;
+    /** Half-size */
+    size: number;
+    z: number;
+    /** Tilt: z grows by this much per unit of x */
+    slope?: number;
+}
+
+/** Squares facing +z with UVs (0..1 over each square) and normals, one mesh each */
+export function quads(list: Quad[]): ObjModel {
+    const lines: string[] = ['vt 0 0', 'vt 1 0', 'vt 1 1', 'vt 0 1', 'vn 0 0 1'];
+    list.forEach(({ material, size: s, z, slope = 0 }, i) => {
+        const o = i * 4;
+        lines.push(
+            `o ${material}`, `usemtl ${material}`,
+            `v ${-s} ${-s} ${z - s * slope}`, `v ${s} ${-s} ${z + s * slope}`,
+            `v ${s} ${s} ${z + s * slope}`, `v ${-s} ${s} ${z - s * slope}`,
+            `f ${o + 1}/1/1 ${o + 2}/2/1 ${o + 3}/3/1`, `f ${o + 1}/1/1 ${o + 3}/3/1 ${o + 4}/4/1`
+        );
+    });
+    return new OBJLoader().parse(lines.join('\n'), { 'scene.mtl': QUAD_MTL });
+}
+
+/** A 48 x 48 renderer (flat shading unless the options say otherwise) looking down -z from z = 5 */
+export function quadRenderer(options: RendererOptions = {}) {
+    const target = new MemoryTarget(48, 48);
+    const renderer = new Renderer(target, { shading: 'flat', ...options });
+    renderer.setCamera(new Camera({ x: 0, y: 0, z: 5 }, { x: 0, y: 1, z: 0 }).lookAt({ x: 0, y: 0, z: 0 }));
+    return { target, renderer };
+}
+
+/** OBJ lines of a horizontal square of half-size s at height y, facing up and split into n x n quads */
+export function gridLines(s: number, y: number, n = 1): string[] {
+    const lines: string[] = [];
+    for (let j = 0; j <= n; j++) {
+        for (let i = 0; i <= n; i++) lines.push(`v ${-s + 2 * s * i / n} ${y} ${-s + 2 * s * j / n}`);
+    }
+    for (let j = 0; j < n; j++) {
+        for (let i = 0; i < n; i++) {
+            const a = j * (n + 1) + i + 1, b = a + n + 1;
+            lines.push(`f ${a} ${b} ${b + 1}`, `f ${a} ${b + 1} ${a + 1}`);
+        }
+    }
+    return lines;
+}
+
+/** The square of gridLines as a model */
+export function grid(s: number, y: number, n = 1): ObjModel {
+    return new OBJLoader().parse(gridLines(s, y, n).join('\n'));
+}
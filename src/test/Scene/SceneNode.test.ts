@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Camera } from '../../Objects/Camera';
+import { DirectionalLight } from '../../Objects/DirectionalLight';
+import { SceneNode } from '../../Scene/SceneNode';
+import { mat3MulVec3, mat4TransformPoint, quatFromAxisAngle, vnorm } from '../../Math';
+
+function expectVec(actual: { x: number, y: number, z: number }, expected: { x: number, y: number, z: number }) {
+    expect(actual.x).toBeCloseTo(expected.x);
+    expect(actual.y).toBeCloseTo(expected.y);
+    expect(actual.z).toBeCloseTo(expected.z);
+}
+
+describe('SceneNode', () => {
+    it('composes world matrices through the hierarchy', () => {
+        const root = new SceneNode('root');
+        const parent = root.add(new SceneNode('parent').setPosition(10, 0, 0));
+        parent.rotation = quatFromAxisAngle({ x: 0, y: 1, z: 0 }, Math.PI / 2);
+        const child = parent.add(new SceneNode('child').setPosition(0, 0, 1).setScale(2));
+        root.updateWorldMatrix();
+
+        // Child origin: rotate (0,0,1) by 90 degrees around Y -> (1,0,0), then offset by the parent
+        expectVec(mat4TransformPoint(child.worldMatrix, { x: 0, y: 0, z: 0 }), { x: 11, y: 0, z: 0 });
+        // Child scale applies before the parent's rotation
+        expectVec(mat4TransformPoint(child.worldMatrix, { x: 0, y: 1, z: 0 }), { x: 11, y: 2, z: 0 });
+        expect(root.find('child')).toBe(child);
+    });
+
+    it('only recomputes world matrices after a transform changes', () => {
+        const root = new SceneNode();
+        const child = root.add(new SceneNode().setPosition(1, 2, 3));
+        root.updateWorldMatrix();
+        const cached = child.worldMatrix;
+        root.updateWorldMatrix();
+        expect(child.worldMatrix).toBe(cached);
+
+        root.setPosition(1, 0, 0);
+        root.updateWorldMatrix();
+        expect(child.worldMatrix).not.toBe(cached);
+        expectVec(mat4TransformPoint(child.worldMatrix, { x: 0, y: 0, z: 0 }), { x: 2, y: 2, z: 3 });
+    });
+
+    it('keeps normals perpendicular under non-uniform scale', () => {
+        const node = new SceneNode().setScale(4, 1, 1);
+        node.updateWorldMatrix();
+
+        // Surface along the diagonal x = y; its normal is (1,-1,0)
+        const tangent = mat4TransformPoint(node.worldMatrix, { x: 1, y: 1, z: 0 });
+        const normal = vnorm(mat3MulVec3(node.normalMatrix, { x: 1, y: -1, z: 0 }));
+        expect(tangent.x * normal.x + tangent.y * normal.y + tangent.z * normal.z).toBeCloseTo(0);
+    });
+
+    it('moves attached cameras and lights with the node', () => {
+        const node = new SceneNode().setPosition(0, 5, 0);
+        node.rotation = quatFromAxisAngle({ x: 0, y: 0, z: 1 }, Math.PI / 2);
+        const camera = new Camera({ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 });
+        const light = new DirectionalLight({ x: 1, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, 1);
+        node.attachCamera(camera).attachLight(light);
+        node.updateWorldMatrix();
+
+        expectVec(camera.getWorldPosition(), { x: 0, y: 6, z: 0 });
+        expectVec(light.getWorldDirection(), { x: 0, y: 1, z: 0 });
+    });
+
+    it('rejects cycles', () => {
+        const a = new SceneNode('a');
+        const b = a.add(new SceneNode('b'));
+        expect(() => b.add(a)).toThrow(/cycle/);
+    });
+});
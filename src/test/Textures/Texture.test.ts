@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Texture } from '../../Textures/Texture';
+import { TextureLoader } from '../../Textures/TextureLoader';
+
+// 2x2 image, top row red/green, bottom row blue/white
+function quadImage() {
+    return {
+        width: 2,
+        height: 2,
+        data: new Uint8ClampedArray([
+            255, 0, 0, 255, 0, 255, 0, 255,
+            0, 0, 255, 255, 255, 255, 255, 255,
+        ]),
+    };
+}
+
+describe('Texture', () => {
+    const out = new Float32Array(4);
+
+    it('samples with v pointing up and nearest filtering', () => {
+        const tex = new Texture(quadImage(), { filter: 'nearest', mipmaps: 'none' });
+        tex.sample(0.25, 0.75, 0, out);
+        expect(Array.from(out)).toEqual([255, 0, 0, 255]); // top-left
+        tex.sample(0.75, 0.25, 0, out);
+        expect(Array.from(out)).toEqual([255, 255, 255, 255]); // bottom-right
+    });
+
+    it('blends neighbours with bilinear filtering', () => {
+        const tex = new Texture(quadImage(), { filter: 'bilinear', wrapS: 'clamp', wrapT: 'clamp', mipmaps: 'none' });
+        tex.sample(0.5, 0.5, 0, out);
+        expect(out[0]).toBeCloseTo(127.5);
+        expect(out[1]).toBeCloseTo(127.5);
+        expect(out[2]).toBeCloseTo(127.5);
+    });
+
+    it('applies repeat, clamp and mirror wrapping', () => {
+        const repeat = new Texture(quadImage(), { filter: 'nearest', wrapS: 'repeat', mipmaps: 'none' });
+        const clamp = new Texture(quadImage(), { filter: 'nearest', wrapS: 'clamp', mipmaps: 'none' });
+        const mirror = new Texture(quadImage(), { filter: 'nearest', wrapS: 'mirror', mipmaps: 'none' });
+
+        repeat.sample(1.25, 0.75, 0, out);
+        expect(out[0]).toBe(255); // wraps back to the red texel
+        clamp.sample(1.25, 0.75, 0, out);
+        expect(out[1]).toBe(255); // stays on the green edge texel
+        mirror.sample(1.25, 0.75, 0, out);
+        expect(out[1]).toBe(255); // reflected onto the green texel
+        mirror.sample(1.75, 0.75, 0, out);
+        expect(out[0]).toBe(255);
+    });
+
+    it('builds a mip chain and selects levels from UV derivatives', () => {
+        const size = 8;
+        const data = new Uint8ClampedArray(size * size * 4);
+        for (let i = 0; i < size * size; i++) {
+            const v = ((i % size) + Math.floor(i / size)) % 2 ? 255 : 0;
+            data.set([v, v, v, 255], i * 4);
+        }
+        const tex = new Texture({ width: size, height: size, data }, { filter: 'nearest', mipmaps: 'nearest' });
+        expect(tex.levels.map(l => l.width)).toEqual([8, 4, 2, 1]);
+        expect(tex.levels[3].data[0]).toBe(128);
+
+        // One pixel step covers one texel -> level 0; eight texels -> level 3
+        expect(tex.computeLod(1 / size, 0, 0, 1 / size)).toBeCloseTo(0);
+        expect(tex.computeLod(1, 0, 0, 1)).toBeCloseTo(3);
+        tex.sample(0.1, 0.1, 3, out);
+        expect(out[0]).toBe(128);
+    });
+
+    it('decodes PNG and PPM bytes without a browser', async () => {
+        const loader = new TextureLoader();
+        const ppm = new TextEncoder().encode('P3 1 1 255 10 20 30');
+        const image = await loader.decode(ppm);
+        expect(Array.from(image.data)).toEqual([10, 20, 30, 255]);
+        await expect(loader.decode(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), 'photo.jpg')).rejects.toThrow(/Unsupported image format/);
+    });
+});